@@ -1,16 +1,10 @@
 import * as mysql from 'mysql2/promise';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 import fetch from 'node-fetch';
 import FormData from 'form-data';
 import dotenv from 'dotenv';
-const libre = require('libreoffice-convert');
-const mammoth = require('mammoth');
-const pdf = require('html-pdf');
-const MsgReader = require('@kenjiuno/msgreader').default;
-import { promisify } from 'util';
-
-const libreConvert = promisify(libre.convert);
 
 // Load environment variables
 dotenv.config();
@@ -347,26 +341,17 @@ class VSRXSync {
       throw new Error(`Invalid file path: ${vsrxFile.file}`);
     }
     
-    let fileBuffer = await fs.readFile(fullPath);
-    let fileName = path.basename(vsrxFile.file);
-    let mimeType = this.getMimeType(fileName);
-    
-    // Convert non-PDF documents to PDF
-    if (this.needsConversion(fileName)) {
-      this.logger.info(`Converting ${fileName} to PDF`);
-      try {
-        fileBuffer = await this.convertToPDF(fileBuffer, fileName);
-        fileName = fileName.replace(/\.(doc|docx|rtf|msg)$/i, '.pdf');
-        mimeType = 'application/pdf';
-      } catch (error) {
-        this.logger.error(`Failed to convert ${fileName} to PDF:`, error);
-        throw new Error(`Document conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    }
+    // Files are sent as they are; the server's upload path converts anything that is not a PDF
+    // and keeps the original, as it does for files uploaded in the UI
+    const fileBuffer = await fs.readFile(fullPath);
+    const fileName = path.basename(vsrxFile.file);
+    const mimeType = this.getMimeType(fileName);
+    const clientFileId = randomUUID();
     
-    // Prepare form data for VitalSign process endpoint
+    // Prepare form data for the patient upload endpoint
     const formData = new FormData();
-    formData.append('patientUuid', fileset.silknotePatientUuid);
+    formData.append('clientFileId', clientFileId);
+    formData.append('priority', 'background');
     formData.append('file', fileBuffer, {
       filename: fileName,
       contentType: mimeType
@@ -380,8 +365,9 @@ class VSRXSync {
       originalFormat: path.extname(vsrxFile.file).toLowerCase()
     }));
     
-    // Send to VitalSign process endpoint with required headers
-    const response = await fetch(`${this.config.SilknoteDocAnalysis_SERVER_PATH}/api/process`, {
+    // Send to the upload endpoint with required headers
+    const uploadUrl = `${this.config.SilknoteDocAnalysis_SERVER_PATH}/api/patients/${encodeURIComponent(fileset.silknotePatientUuid)}/process`;
+    const response = await fetch(uploadUrl, {
       method: 'POST',
       headers: {
         'x-silknote-user-uuid': fileset.silknoteUserUuid,
@@ -395,12 +381,12 @@ class VSRXSync {
       throw new Error(`Process endpoint returned ${response.status}: ${await response.text()}`);
     }
     
-    // Update the VSRXReference in the newly created document
-    // This assumes the process endpoint returns the created document UUID
-    const result = await response.json() as { documentUuid?: string };
-    if (result.documentUuid) {
-      await this.updateDocumentVSRXReference(result.documentUuid, vsrxFile.file_uuid || vsrxFile.id);
+    // The document is stored before the endpoint responds; processing continues in the background
+    const result = await response.json() as { accepted?: number };
+    if (!result.accepted) {
+      throw new Error(`Process endpoint did not store ${fileName}`);
     }
+    await this.updateDocumentVSRXReference(fileset.silknotePatientUuid, clientFileId, vsrxFile.file_uuid || vsrxFile.id);
   }
 
   private async deleteFile(document: SilknoteDocument): Promise<void> {
@@ -443,15 +429,10 @@ class VSRXSync {
   }
 
   private isSupported(fileName: string): boolean {
-    const ext = path.extname(fileName).toLowerCase();
-    return ['.pdf', '.doc', '.docx', '.rtf', '.msg'].includes(ext);
-  }
-
-  private needsConversion(fileName: string): boolean {
-    const ext = path.extname(fileName).toLowerCase();
-    return ['.doc', '.docx', '.rtf', '.msg'].includes(ext);
+    return this.getMimeType(fileName) !== 'application/octet-stream';
   }
 
+  // The formats the server's conversion on upload accepts
   private getMimeType(fileName: string): string {
     const ext = path.extname(fileName).toLowerCase();
     const mimeTypes: { [key: string]: string } = {
@@ -459,124 +440,29 @@ class VSRXSync {
       '.doc': 'application/msword',
       '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
       '.rtf': 'application/rtf',
-      '.msg': 'application/vnd.ms-outlook'
+      '.xls': 'application/vnd.ms-excel',
+      '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      '.msg': 'application/vnd.ms-outlook',
+      '.eml': 'message/rfc822',
+      '.txt': 'text/plain',
+      '.htm': 'text/html',
+      '.html': 'text/html',
+      '.jpg': 'image/jpeg',
+      '.jpeg': 'image/jpeg',
+      '.png': 'image/png',
+      '.tif': 'image/tiff',
+      '.tiff': 'image/tiff',
+      '.webp': 'image/webp'
     };
     return mimeTypes[ext] || 'application/octet-stream';
   }
 
-  private async convertToPDF(fileBuffer: Buffer, fileName: string): Promise<Buffer> {
-    const ext = path.extname(fileName).toLowerCase();
-    
-    // For .msg files, extract email content and convert to PDF
-    if (ext === '.msg') {
-      try {
-        const msgReader = new MsgReader(fileBuffer);
-        const msgContent = msgReader.getFileData();
-        
-        // Build HTML representation of the email
-        let htmlContent = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <style>
-    body { font-family: Arial, sans-serif; margin: 20px; }
-    .header { background-color: #f0f0f0; padding: 15px; margin-bottom: 20px; border-radius: 5px; }
-    .header-item { margin: 5px 0; }
-    .header-label { font-weight: bold; display: inline-block; width: 80px; }
-    .body { margin-top: 20px; white-space: pre-wrap; word-wrap: break-word; }
-    .attachments { margin-top: 20px; padding: 15px; background-color: #f9f9f9; border-radius: 5px; }
-    .attachment-item { margin: 5px 0; }
-  </style>
-</head>
-<body>
-  <div class="header">
-    <div class="header-item"><span class="header-label">From:</span> ${this.escapeHtml(msgContent.senderName || '')} &lt;${this.escapeHtml(msgContent.senderEmail || '')}&gt;</div>
-    <div class="header-item"><span class="header-label">To:</span> ${this.escapeHtml(this.formatRecipients(msgContent.recipients))}</div>
-    <div class="header-item"><span class="header-label">Subject:</span> ${this.escapeHtml(msgContent.subject || '(No Subject)')}</div>
-    <div class="header-item"><span class="header-label">Date:</span> ${msgContent.messageDeliveryTime ? new Date(msgContent.messageDeliveryTime).toLocaleString() : 'Unknown'}</div>
-  </div>
-  <div class="body">${this.escapeHtml(msgContent.body || '')}</div>
-`;
-
-        // Add attachments list if present
-        if (msgContent.attachments && msgContent.attachments.length > 0) {
-          htmlContent += `
-  <div class="attachments">
-    <h3>Attachments (${msgContent.attachments.length}):</h3>`;
-          for (const attachment of msgContent.attachments) {
-            htmlContent += `<div class="attachment-item">📎 ${this.escapeHtml(attachment.fileName || 'Unnamed')} (${this.formatFileSize(attachment.fileSize || 0)})</div>`;
-          }
-          htmlContent += '</div>';
-        }
-
-        htmlContent += `
-</body>
-</html>`;
-
-        // Convert HTML to PDF
-        const pdfBuffer = await new Promise<Buffer>((resolve, reject) => {
-          pdf.create(htmlContent, {
-            format: 'A4',
-            border: {
-              top: "15mm",
-              right: "10mm",
-              bottom: "15mm",
-              left: "10mm"
-            }
-          }).toBuffer((err: any, buffer: Buffer) => {
-            if (err) reject(err);
-            else resolve(buffer);
-          });
-        });
-        
-        return pdfBuffer;
-      } catch (error) {
-        throw new Error(`MSG conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    }
-    
-    // For .docx files, try mammoth first (better for simple documents)
-    if (ext === '.docx') {
-      try {
-        const result = await mammoth.convertToHtml({ buffer: fileBuffer });
-        const pdfBuffer = await new Promise<Buffer>((resolve, reject) => {
-          pdf.create(result.value, {
-            format: 'A4',
-            border: {
-              top: "20mm",
-              right: "15mm",
-              bottom: "20mm",
-              left: "15mm"
-            }
-          }).toBuffer((err: any, buffer: Buffer) => {
-            if (err) reject(err);
-            else resolve(buffer);
-          });
-        });
-        return pdfBuffer;
-      } catch (error) {
-        this.logger.warn('Mammoth conversion failed, falling back to LibreOffice:', error);
-      }
-    }
-    
-
-    
-    // Use LibreOffice for .doc, .rtf, or if mammoth fails
-    try {
-      const pdfBuffer = await libreConvert(fileBuffer, 'pdf', undefined);
-      return pdfBuffer;
-    } catch (error) {
-      throw new Error(`LibreOffice conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  private async updateDocumentVSRXReference(documentUuid: string, vsrxFileUuid: string): Promise<void> {
+  private async updateDocumentVSRXReference(patientUuid: string, clientFileId: string, vsrxFileUuid: string): Promise<void> {
     if (!this.connection) throw new Error('Not connected to database');
     
     await this.connection.execute(
-      'UPDATE silknote_documents SET VSRXReference = ? WHERE silknoteDocumentUuid = ?',
-      [vsrxFileUuid, documentUuid]
+      'UPDATE silknote_documents SET VSRXReference = ? WHERE patientUuid = ? AND clientFileId = ?',
+      [vsrxFileUuid, patientUuid, clientFileId]
     );
   }
 
@@ -623,31 +509,6 @@ class VSRXSync {
     return resolvedPath.startsWith(basePathResolved);
   }
 
-  private escapeHtml(text: string): string {
-    const map: { [key: string]: string } = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#039;'
-    };
-    return text.replace(/[&<>"']/g, m => map[m]);
-  }
-
-  private formatRecipients(recipients: any[]): string {
-    if (!recipients || recipients.length === 0) return '';
-    return recipients.map(r => `${r.name || ''} &lt;${r.email || ''}&gt;`).join('; ');
-  }
-
-  private formatFileSize(bytes: number): string {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  }
-
-
 }
 
 // ============= Logger Class =============
@@ -2,6 +2,7 @@ import { z } from 'zod';
 import dotenv from 'dotenv';
 import path from 'path';
 import os from 'os';
+import { SUPPORTED_MIME_TYPES } from './utils/handler-types';
 
 // Load environment variables from server/.env file
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
@@ -50,6 +51,28 @@ const envSchemaBase = z.object({
   // Azure Document Intelligence - Optional in development
   AZURE_DOCUMENT_KEY: isDevelopment ? z.string().optional() : z.string(),
   AZURE_DOCUMENT_ENDPOINT: isDevelopment ? z.string().optional() : z.string(),
+  // LLM providers - each operation falls back to LLM_PROVIDER when its own provider is unset
+  LLM_PROVIDER: z.enum(['AZURE_OPENAI', 'OPENAI_COMPATIBLE', 'FIXTURE']).default('AZURE_OPENAI'),
+  LLM_EXTRACTION_PROVIDER: z.enum(['AZURE_OPENAI', 'OPENAI_COMPATIBLE', 'FIXTURE']).optional(),
+  LLM_CASE_SUMMARY_PROVIDER: z.enum(['AZURE_OPENAI', 'OPENAI_COMPATIBLE', 'FIXTURE']).optional(),
+  LLM_QUERY_PROVIDER: z.enum(['AZURE_OPENAI', 'OPENAI_COMPATIBLE', 'FIXTURE']).optional(),
+  LLM_EMBEDDING_PROVIDER: z.enum(['AZURE_OPENAI', 'OPENAI_COMPATIBLE', 'FIXTURE']).optional(),
+  // Model (or Azure deployment) per operation
+  LLM_EXTRACTION_MODEL: z.string().optional(),
+  LLM_CASE_SUMMARY_MODEL: z.string().optional(),
+  LLM_QUERY_MODEL: z.string().optional(),
+  LLM_EMBEDDING_MODEL: z.string().optional(),
+  // Any OpenAI-compatible API, e.g. a local vLLM or Ollama server
+  OPENAI_COMPATIBLE_BASE_URL: z.string().optional(),
+  OPENAI_COMPATIBLE_API_KEY: z.string().optional(),
+  // Retrieval backend for patient queries, and how the self-hosted chunk index embeds text
+  RETRIEVAL_BACKEND: z.enum(['ASSISTANTS', 'CHUNK_INDEX']).optional(),
+  EMBEDDING_PROVIDER: z.enum(['LLM', 'HASHING']).optional(),
+  // Layout analysis provider - defaults by OPERATING_MODE when unset
+  LAYOUT_PROVIDER: z.enum(['AZURE', 'PDF_TEXT']).optional(),
+  // Practice letterhead on exported reports; lines are separated by "|"
+  REPORT_PRACTICE_NAME: z.string().optional(),
+  REPORT_LETTERHEAD_LINES: z.string().optional(),
   SHOW_TEST_HARNESS: z.boolean().default(false),
 
   // Conditionally required Azure Storage Connection String
@@ -172,12 +195,52 @@ const config: Config = {
   processing: {
     maxFileSize: 50 * 1024 * 1024, // 50MB
     maxFiles: 500, // Maximum 500 files per batch
-    allowedTypes: ['application/pdf'],
+    allowedTypes: SUPPORTED_MIME_TYPES, // Anything that is not a PDF is converted after upload
     // Use system temp directory in production (Azure-friendly), local path in development
     tempDir: isProduction ? os.tmpdir() : path.join(process.cwd(), 'server', 'temp'),
     // For Azure, use /home for persistent storage, local path in development  
     outputDir: isProduction ? '/home/documents' : path.join(process.cwd(), 'server', 'data', 'documents')
   },
+  llm: {
+    openAICompatible: {
+      baseUrl: env.OPENAI_COMPATIBLE_BASE_URL || '',
+      apiKey: env.OPENAI_COMPATIBLE_API_KEY || ''
+    },
+    operations: {
+      extraction: {
+        provider: env.LLM_EXTRACTION_PROVIDER || env.LLM_PROVIDER,
+        model: env.LLM_EXTRACTION_MODEL || env.AZURE_OPENAI_DEPLOYMENT || ''
+      },
+      // Case summary and query run through the patient's assistant, created with gpt-4o
+      caseSummary: {
+        provider: env.LLM_CASE_SUMMARY_PROVIDER || env.LLM_PROVIDER,
+        model: env.LLM_CASE_SUMMARY_MODEL || 'gpt-4o'
+      },
+      query: {
+        provider: env.LLM_QUERY_PROVIDER || env.LLM_PROVIDER,
+        model: env.LLM_QUERY_MODEL || 'gpt-4o'
+      },
+      embedding: {
+        provider: env.LLM_EMBEDDING_PROVIDER || env.LLM_PROVIDER,
+        model: env.LLM_EMBEDDING_MODEL || 'text-embedding-3-small'
+      }
+    }
+  },
+  retrieval: {
+    // LOCAL mode keeps patient data in the self-hosted chunk index and embeds without network access
+    backend: env.RETRIEVAL_BACKEND || (env.OPERATING_MODE === 'LOCAL' ? 'CHUNK_INDEX' : 'ASSISTANTS'),
+    embeddingProvider: env.EMBEDDING_PROVIDER || (env.OPERATING_MODE === 'LOCAL' ? 'HASHING' : 'LLM')
+  },
+  layout: {
+    // LOCAL mode reads the embedded PDF text layer so the pipeline runs without Azure
+    provider: env.LAYOUT_PROVIDER || (env.OPERATING_MODE === 'LOCAL' ? 'PDF_TEXT' : 'AZURE')
+  },
+  reports: {
+    letterhead: {
+      practiceName: env.REPORT_PRACTICE_NAME || '',
+      lines: (env.REPORT_LETTERHEAD_LINES || '').split('|').map(line => line.trim()).filter(Boolean)
+    }
+  },
   storage: {
     type: env.STORAGE_TYPE,
     azureContainerName: env.AZURE_STORAGE_CONTAINER_NAME,
@@ -258,6 +321,42 @@ interface ErrorMessages {
   tooManyFiles: string;
 }
 
+type LlmProviderName = 'AZURE_OPENAI' | 'OPENAI_COMPATIBLE' | 'FIXTURE';
+
+interface LlmOperationConfig {
+  provider: LlmProviderName;
+  model: string;
+}
+
+interface LlmConfig {
+  openAICompatible: {
+    baseUrl: string;
+    apiKey: string;
+  };
+  operations: {
+    extraction: LlmOperationConfig;
+    caseSummary: LlmOperationConfig;
+    query: LlmOperationConfig;
+    embedding: LlmOperationConfig;
+  };
+}
+
+interface RetrievalConfig {
+  backend: 'ASSISTANTS' | 'CHUNK_INDEX';
+  embeddingProvider: 'LLM' | 'HASHING';
+}
+
+interface LayoutConfig {
+  provider: 'AZURE' | 'PDF_TEXT';
+}
+
+interface ReportsConfig {
+  letterhead: {
+    practiceName: string;
+    lines: string[]; // Address, phone, provider number etc., one per line
+  };
+}
+
 interface StorageConfig {
   type: 'LOCAL' | 'POSTGRES_PRISMA' | 'MYSQL';
   azureContainerName: string;
@@ -268,6 +367,10 @@ interface Config {
   azure: AzureConfig;
   server: ServerConfig;
   processing: ProcessingConfig;
+  llm: LlmConfig;
+  retrieval: RetrievalConfig;
+  layout: LayoutConfig;
+  reports: ReportsConfig;
   storage: StorageConfig;
   errors: ErrorMessages;
 }
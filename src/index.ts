@@ -27,7 +27,9 @@ import documentsRouter from './routes/documents';
 import documentReprocessRouter from './routes/document-reprocess';
 import vectorSearchRouter from './routes/vectorSearch';
 import documentAlertsRouter from './routes/documentAlerts';
+import imeReportsRouter from './routes/imeReports';
 import { getPatientById } from './services/patientService';
+import { processingQueue } from './services/documentService';
 import { extractHeaders } from './middleware/auth';
 
 ////////////////////////////////////////////////////////////////
@@ -270,6 +272,7 @@ app.use('/api/documents', documentsRouter);
 app.use('/api/documents', documentReprocessRouter); // Add reprocess endpoint
 app.use('/api/vector-search', vectorSearchRouter);
 app.use('/api/alerts', documentAlertsRouter);
+app.use('/api/ime-reports', imeReportsRouter);
 
 app.get('/api/patients/:silknotePatientUuid/case-summary', async (req, res) => {
   const { silknotePatientUuid } = req.params;
@@ -285,10 +288,22 @@ app.get('/api/patients/:silknotePatientUuid/case-summary', async (req, res) => {
 ////////////////////////////////////////////////////////////////
 
 async function recoverPendingDocuments() {
-  console.info('[SERVER RECOVERY] Document recovery is disabled during migration to user-scoped storage')
-  // TODO: Implement cross-user recovery mechanism if needed
-  // For now, skip recovery to avoid function signature mismatches
-  return
+  // Jobs leased by the previous process on this dyno are released immediately;
+  // leases held elsewhere are picked up by the queue once they expire
+  const recovered = await processingQueue.recoverPersistedJobs(true)
+  console.info(`[SERVER RECOVERY] Re-queued ${recovered} persisted document job(s)`)
+}
+
+// Marker in the derived file cache recording that the migration has run
+const INLINE_PAGE_IMAGES_MIGRATION_KEY = 'migrations/inline-page-images'
+
+async function migrateInlinePageImages() {
+  if (await storageService.getCachedFile(INLINE_PAGE_IMAGES_MIGRATION_KEY)) return
+
+  // Page images are rendered on request now; documents processed earlier carry them inline
+  const cleared = await storageService.clearInlinePageImages()
+  if (cleared > 0) console.info(`[SERVER MIGRATION] Cleared inline page images from ${cleared} document(s)`)
+  await storageService.storeCachedFile(INLINE_PAGE_IMAGES_MIGRATION_KEY, Buffer.from(new Date().toISOString()))
 }
 
 const initializeServer = async () => {
@@ -309,6 +324,9 @@ const initializeServer = async () => {
     // Perform recovery of any in-flight documents
     await recoverPendingDocuments();
 
+    // Runs in the background; large document tables take a while
+    migrateInlinePageImages().catch(error => console.error('[SERVER MIGRATION] Failed to clear inline page images:', error));
+
     // Start the server
     const port = process.env['PORT'] || config.server.port;
     server.listen(port, () => {
@@ -14,6 +14,8 @@ function truncateForLogging(obj: any, maxLength: number = 100): any {
     Object.entries(obj).forEach(([key, value]) => {
       if (key === 'buffer' || key === 'data' || key === 'content') {
         truncated[key] = '[Content truncated for logging]';
+      } else if (key === 'password' || key === 'globalPassword') {
+        truncated[key] = '[Redacted]';
       } else {
         truncated[key] = truncateForLogging(value, maxLength);
       }
@@ -1,17 +1,33 @@
 import { Router, NextFunction } from "express";
 import { getPatientById, updatePatient } from "../services/patientService";
-import { AzureOpenAI } from 'openai';
+import { getLlmForOperation } from '../services/llm/llmProvider';
 import * as patientService from '../services/patientService';
-import {  CaseSummaryType, parseCaseSummary } from "../shared/case-summary-types";
+import {  adaptForCaseSummaryViewer, CaseSummaryType, parseCaseSummary } from "../shared/case-summary-types";
 import { asyncHandler } from "../utils/errorHandlers";
 import { Request, Response } from "express";
-import { CaseSummaryApiResponse, SummaryCitation } from '../shared/types'; // Corrected: Was SharedCaseSummaryApiResponse, now CaseSummaryApiResponse
+import { CaseSummaryApiResponse, CaseSummaryExtraction, CaseSummaryField, SummaryCitation } from '../shared/types'; // Corrected: Was SharedCaseSummaryApiResponse, now CaseSummaryApiResponse
 import { createLogger } from '../utils/logger'
-import config from '../config';
 import { randomUUID } from "crypto";
 import { storageService } from "../utils/storage";
 import { io } from '../utils/io'; // Import the global io instance
 import { getUserUuid } from '../middleware/auth';
+import { ALL_CASE_SUMMARY_EXTRACTIONS, findStaleExtractions, getCaseSummaryStaleness, recordSummarySources } from '../services/caseSummarySources';
+import { diffCaseSummaries, listCaseSummaryVersions, recordCaseSummaryVersion, restoreCaseSummaryVersion } from '../services/caseSummaryHistory';
+import {
+  applyClinicianEdits,
+  CaseSummaryEditError,
+  editCaseSummaryField,
+  isCaseSummaryField,
+  recordClinicianChanges,
+  resolveCaseSummaryConflict,
+  revertCaseSummaryField,
+  withGeneratedValues
+} from '../services/caseSummaryEdits';
+import { buildCaseSummaryReport } from '../services/export/caseSummaryReport';
+import { detectInconsistencies } from '../services/inconsistencyRules';
+import { DOCX_MIME_TYPE, renderCaseSummaryDocx } from '../services/export/docxRenderer';
+import { PDF_MIME_TYPE, renderCaseSummaryPdf } from '../services/export/pdfRenderer';
+import config from '../config';
 // Ensure ServerToClientEvents and SharedCaseSummaryApiResponse are correctly typed/imported
 // For instance, if SharedCaseSummaryApiResponse is in ../shared/types:
 // import { SharedCaseSummaryApiResponse } from '../shared/types';
@@ -66,7 +82,12 @@ router.get('/retrieve/:silknotePatientUuid', asyncHandler(async (req: Request, r
       summary: parsedSummary, // Use the potentially parsed summary object
       citations: fullCaseSummary.citations || [], // Use stored citations, default to empty array
       summaryGenerationCount: patient.summaryGenerationCount || 0,
-      maxCount: 5 // Hardcoded based on previous observation
+      maxCount: 5, // Hardcoded based on previous observation
+      sources: fullCaseSummary.sources,
+      fieldProvenance: fullCaseSummary.fieldProvenance,
+      conflicts: fullCaseSummary.conflicts,
+      auditTrail: fullCaseSummary.auditTrail,
+      staleSections: getCaseSummaryStaleness(fullCaseSummary.sources, fullCaseSummary.citations || [], patient.fileSet || []).staleSections
     };
 
     return res.status(200).json(response);
@@ -175,11 +196,8 @@ export async function queryAssistantWithCitationsObject(
       throw new Error(errorMsg);
   }
 
-  const openai = new AzureOpenAI({
-      apiKey: config.azure.azureOpenAI.key,
-      endpoint: config.azure.azureOpenAI.endpoint,
-      apiVersion: '2024-05-01-preview',
-  });
+  const { provider, model } = getLlmForOperation('caseSummary');
+  const openai = provider.getClient();
 
   // System message
   let systemMessage = `You are Medico-Legal Assistant Structure and Vector Store Document Retrieval Expert who specialises in highly effective annotation insertion within JSON string properties, while providing answers based on doing the most effective yet simultaneously vastest search of all documents returning as many results as you can.
@@ -207,7 +225,7 @@ export async function queryAssistantWithCitationsObject(
   await openai.beta.threads.messages.create(thread.id, { role: 'user', content: query });
 
   // Start Run
-  const run = await openai.beta.threads.runs.create(thread.id, { assistant_id: patient.vectorStore.assistantId });
+  const run = await openai.beta.threads.runs.create(thread.id, { assistant_id: patient.vectorStore.assistantId, model });
   logger.info(`[VECTOR STORE - QAC_OBJ] Started run ${run.id} on thread ${thread.id}`);
 
   let attempts = 0;
@@ -635,11 +653,13 @@ async function generateAndNotify(silknotePatientUuid: string, requesterId: strin
     
     const newCount = (patient.summaryGenerationCount || 0) + 1;
     // Corrected type to CaseSummaryApiResponse
+    // Clinician edits and locks in the previous summary are kept
     const summaryToStore: CaseSummaryApiResponse = {
-      summary,
+      ...applyClinicianEdits(patient.caseSummary, summary),
       citations: citations || [],
       summaryGenerationCount: newCount,
-      maxCount: 5 // Use hardcoded 5 for now
+      maxCount: 5, // Use hardcoded 5 for now
+      sources: recordSummarySources(undefined, ALL_CASE_SUMMARY_EXTRACTIONS, patient.fileSet || [])
     };
     
     // Log the summary structure before storing
@@ -665,6 +685,7 @@ async function generateAndNotify(silknotePatientUuid: string, requesterId: strin
     logger.info(`[CASE SUMMARY ASYNC JOB: ${jobId}] Updating patient in database...`);
     await updatePatient(patientToUpdate);
     logger.info(`[CASE SUMMARY ASYNC JOB: ${jobId}] Patient updated successfully`);
+    await recordCaseSummaryVersion(patientToUpdate, summaryToStore, 'generated', { extractions: ALL_CASE_SUMMARY_EXTRACTIONS });
 
     const generationTime = Date.now() - startTime;
     logger.info(`[CASE SUMMARY ASYNC JOB: ${jobId}] === GENERATION COMPLETE ===`);
@@ -722,6 +743,310 @@ async function generateAndNotify(silknotePatientUuid: string, requesterId: strin
   }
 }
 
+// GET which sections of the stored summary are out of date with the patient's documents
+router.get('/stale/:silknotePatientUuid', asyncHandler(async (req: Request, res: Response) => {
+  const { silknotePatientUuid } = req.params;
+  const silknoteUserUuid = getUserUuid(req);
+
+  const patient = await getPatientById(silknotePatientUuid, silknoteUserUuid);
+  if (!patient) {
+    return res.status(404).json({ error: 'Patient not found' });
+  }
+  if (!patient.caseSummary) {
+    return res.status(404).json({ error: 'No case summary exists for this patient' });
+  }
+
+  const { sources, citations } = patient.caseSummary;
+  return res.status(200).json(getCaseSummaryStaleness(sources, citations || [], patient.fileSet || []));
+}));
+
+// GET the inconsistencies found by comparing the documents' structured extractions, without the assistant
+router.get('/inconsistencies/:silknotePatientUuid', asyncHandler(async (req: Request, res: Response) => {
+  const { silknotePatientUuid } = req.params;
+  const silknoteUserUuid = getUserUuid(req);
+
+  const patient = await getPatientById(silknotePatientUuid, silknoteUserUuid);
+  if (!patient) {
+    return res.status(404).json({ error: 'Patient not found' });
+  }
+  return res.status(200).json(detectInconsistencies(patient.fileSet || []));
+}));
+
+// POST to rebuild only the stale sections of the stored summary. Runs in the background
+// like /generate and reports over the same socket events, but does not use one of the
+// capped generation slots.
+router.post('/update/:silknotePatientUuid', asyncHandler(async (req: Request, res: Response) => {
+  const { silknotePatientUuid } = req.params;
+  const silknoteUserUuid = getUserUuid(req);
+
+  const patient = await getPatientById(silknotePatientUuid, silknoteUserUuid);
+  if (!patient) {
+    return res.status(404).json({ error: 'Patient not found' });
+  }
+  if (!patient.caseSummary) {
+    return res.status(409).json({ error: 'No case summary exists for this patient; generate one first.' });
+  }
+
+  const { sources, citations } = patient.caseSummary;
+  const { stale } = findStaleExtractions(sources, citations || [], patient.fileSet || []);
+  const staleSections = getCaseSummaryStaleness(sources, citations || [], patient.fileSet || []).staleSections;
+  if (stale.length === 0) {
+    return res.status(200).json({ patientId: silknotePatientUuid, status: 'up_to_date', staleSections });
+  }
+
+  const jobTicket = {
+    patientId: silknotePatientUuid,
+    status: 'pending',
+    message: `Updating ${staleSections.join(', ')}.`,
+    timestamp: new Date().toISOString(),
+    jobId: randomUUID(),
+    staleSections
+  };
+  res.status(202).json(jobTicket);
+
+  updateAndNotify(silknotePatientUuid, jobTicket.jobId, silknoteUserUuid, stale);
+  return;
+}));
+
+async function updateAndNotify(silknotePatientUuid: string, jobId: string, silknoteUserUuid: string, extractions: CaseSummaryExtraction[]) {
+  const patientRoom = `patient-${silknotePatientUuid}`;
+  try {
+    io.to(patientRoom).emit('caseSummaryStatus', {
+      patientId: silknotePatientUuid,
+      jobId,
+      status: 'processing',
+      message: 'Updating case summary sections affected by document changes...'
+    });
+
+    const patient = await getPatientById(silknotePatientUuid, silknoteUserUuid);
+    if (!patient?.caseSummary) {
+      throw new Error('Case summary not found during update.');
+    }
+
+    const { summary, citations } = await updateCaseSummarySections(silknotePatientUuid, silknoteUserUuid, withGeneratedValues(patient.caseSummary), extractions);
+    const summaryToStore: CaseSummaryApiResponse = {
+      ...patient.caseSummary,
+      ...applyClinicianEdits(patient.caseSummary, summary),
+      citations,
+      summaryGenerationCount: patient.summaryGenerationCount || 0,
+      sources: recordSummarySources(patient.caseSummary.sources, extractions, patient.fileSet || [])
+    };
+    const updatedPatient = await updatePatient({ ...patient, caseSummary: summaryToStore });
+    await recordCaseSummaryVersion(updatedPatient, summaryToStore, 'updated', { extractions });
+    logger.info(`[CASE SUMMARY UPDATE JOB: ${jobId}] Rebuilt ${extractions.join(', ')} for patient ${silknotePatientUuid}`);
+
+    io.to(patientRoom).emit('caseSummaryComplete', {
+      patientId: silknotePatientUuid,
+      jobId,
+      status: 'complete',
+      data: summaryToStore
+    });
+  } catch (error) {
+    logger.error(`[CASE SUMMARY UPDATE JOB: ${jobId}] Error updating case summary:`, error);
+    io.to(patientRoom).emit('caseSummaryError', {
+      patientId: silknotePatientUuid,
+      jobId,
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Failed to update case summary'
+    });
+  }
+}
+
+// GET the version history of a patient's case summary, newest first
+router.get('/versions/:silknotePatientUuid', asyncHandler(async (req: Request, res: Response) => {
+  const { silknotePatientUuid } = req.params;
+  const silknoteUserUuid = getUserUuid(req);
+
+  const patient = await getPatientById(silknotePatientUuid, silknoteUserUuid);
+  if (!patient) {
+    return res.status(404).json({ error: 'Patient not found' });
+  }
+
+  const versions = await listCaseSummaryVersions(silknoteUserUuid, silknotePatientUuid);
+  return res.status(200).json({ versions });
+}));
+
+// GET field-level differences between two versions: ?from=<versionId>&to=<versionId>
+router.get('/versions/:silknotePatientUuid/diff', asyncHandler(async (req: Request, res: Response) => {
+  const { silknotePatientUuid } = req.params;
+  const { from, to } = req.query;
+  const silknoteUserUuid = getUserUuid(req);
+
+  if (typeof from !== 'string' || typeof to !== 'string') {
+    return res.status(400).json({ error: 'Query parameters "from" and "to" (version ids) are required' });
+  }
+
+  const [fromVersion, toVersion] = await Promise.all([
+    storageService.getCaseSummaryVersion(silknoteUserUuid, silknotePatientUuid, from),
+    storageService.getCaseSummaryVersion(silknoteUserUuid, silknotePatientUuid, to)
+  ]);
+  if (!fromVersion || !toVersion) {
+    return res.status(404).json({ error: `Case summary version not found: ${!fromVersion ? from : to}` });
+  }
+
+  const parse = (summary: CaseSummaryType) => parseCaseSummary(summary) || summary;
+  return res.status(200).json(diffCaseSummaries(
+    parse(fromVersion.caseSummary.summary),
+    parse(toVersion.caseSummary.summary),
+    { fromVersionId: from, toVersionId: to }
+  ));
+}));
+
+// GET one version, including the summary and citations as they were
+router.get('/versions/:silknotePatientUuid/:versionId', asyncHandler(async (req: Request, res: Response) => {
+  const { silknotePatientUuid, versionId } = req.params;
+  const silknoteUserUuid = getUserUuid(req);
+
+  const version = await storageService.getCaseSummaryVersion(silknoteUserUuid, silknotePatientUuid, versionId);
+  if (!version) {
+    return res.status(404).json({ error: 'Case summary version not found' });
+  }
+  return res.status(200).json(version);
+}));
+
+// POST to make a version the current summary. The restore is itself recorded as a new version.
+router.post('/versions/:silknotePatientUuid/:versionId/restore', asyncHandler(async (req: Request, res: Response) => {
+  const { silknotePatientUuid, versionId } = req.params;
+  const silknoteUserUuid = getUserUuid(req);
+
+  const patient = await getPatientById(silknotePatientUuid, silknoteUserUuid);
+  if (!patient) {
+    return res.status(404).json({ error: 'Patient not found' });
+  }
+  const version = await storageService.getCaseSummaryVersion(silknoteUserUuid, silknotePatientUuid, versionId);
+  if (!version) {
+    return res.status(404).json({ error: 'Case summary version not found' });
+  }
+
+  const { caseSummary, version: restored } = await restoreCaseSummaryVersion(patient, version);
+  if (!restored) {
+    return res.status(500).json({ error: 'Case summary restored but the restore could not be recorded in the version history' });
+  }
+  logger.info(`[CASE SUMMARY] Restored version ${version.versionNumber} as version ${restored.versionNumber} for patient ${silknotePatientUuid}`);
+  const { caseSummary: _snapshot, ...versionInfo } = restored;
+  return res.status(200).json({ caseSummary, version: versionInfo });
+}));
+
+/**
+ * Applies a clinician change to the stored summary and saves it. Responds with the
+ * updated summary, 404 when there is no summary, or 400 for an unknown field or an
+ * invalid change.
+ */
+async function changeCaseSummaryField(
+  req: Request,
+  res: Response,
+  change: (caseSummary: CaseSummaryApiResponse, field: CaseSummaryField, silknoteUserUuid: string) => CaseSummaryApiResponse
+) {
+  const { silknotePatientUuid, field } = req.params;
+  const silknoteUserUuid = getUserUuid(req);
+
+  if (!isCaseSummaryField(field)) {
+    return res.status(400).json({ error: `Unknown case summary field: ${field}` });
+  }
+  const patient = await getPatientById(silknotePatientUuid, silknoteUserUuid);
+  if (!patient) {
+    return res.status(404).json({ error: 'Patient not found' });
+  }
+  if (!patient.caseSummary) {
+    return res.status(404).json({ error: 'No case summary exists for this patient' });
+  }
+
+  let caseSummary: CaseSummaryApiResponse;
+  try {
+    caseSummary = change(patient.caseSummary, field, silknoteUserUuid);
+  } catch (error) {
+    if (error instanceof CaseSummaryEditError) {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  await updatePatient({ ...patient, caseSummary });
+  logger.info(`[CASE SUMMARY] ${req.method} ${field} for patient ${silknotePatientUuid} by ${silknoteUserUuid}`);
+  return res.status(200).json(caseSummary);
+}
+
+// PUT a clinician value for one field and/or lock it. Body: { value?, locked? }; 400 if value does not fit the field's schema
+router.put('/fields/:silknotePatientUuid/:field', asyncHandler(async (req: Request, res: Response) => {
+  const { value, locked } = req.body || {};
+  if (locked !== undefined && typeof locked !== 'boolean') {
+    return res.status(400).json({ error: '"locked" must be a boolean' });
+  }
+  return changeCaseSummaryField(req, res, (caseSummary, field, silknoteUserUuid) =>
+    editCaseSummaryField(caseSummary, field, { value, locked }, silknoteUserUuid));
+}));
+
+// DELETE a clinician edit or lock, putting the latest generated value back
+router.delete('/fields/:silknotePatientUuid/:field', asyncHandler(async (req: Request, res: Response) => {
+  return changeCaseSummaryField(req, res, revertCaseSummaryField);
+}));
+
+// POST to settle a conflict between an edit and a later generation. Body: { keep: 'edited' | 'generated' }
+router.post('/conflicts/:silknotePatientUuid/:field/resolve', asyncHandler(async (req: Request, res: Response) => {
+  const { keep } = req.body || {};
+  if (keep !== 'edited' && keep !== 'generated') {
+    return res.status(400).json({ error: '"keep" must be "edited" or "generated"' });
+  }
+  return changeCaseSummaryField(req, res, (caseSummary, field, silknoteUserUuid) =>
+    resolveCaseSummaryConflict(caseSummary, field, keep, silknoteUserUuid));
+}));
+
+// GET the case summary as a report document: ?format=docx (default) or pdf
+router.get('/export/:silknotePatientUuid', asyncHandler(async (req: Request, res: Response) => {
+  const { silknotePatientUuid } = req.params;
+  const format = req.query.format || 'docx';
+  const silknoteUserUuid = getUserUuid(req);
+
+  if (format !== 'docx' && format !== 'pdf') {
+    return res.status(400).json({ error: '"format" must be "docx" or "pdf"' });
+  }
+
+  const patient = await getPatientById(silknotePatientUuid, silknoteUserUuid);
+  if (!patient) {
+    return res.status(404).json({ error: 'Patient not found' });
+  }
+  const caseSummary = patient.caseSummary as CaseSummaryApiResponse | null;
+  if (!caseSummary?.summary) {
+    return res.status(404).json({ error: 'No case summary found for patient' });
+  }
+
+  const report = buildCaseSummaryReport(
+    adaptForCaseSummaryViewer(parseCaseSummary(caseSummary.summary) || caseSummary.summary),
+    caseSummary.citations || [],
+    patient.fileSet || [],
+    config.reports.letterhead
+  );
+  const body = format === 'pdf' ? await renderCaseSummaryPdf(report) : renderCaseSummaryDocx(report);
+  const fileName = `${(patient.name || 'case-summary').replace(/[^\w.-]+/g, '_')}-case-summary.${format}`;
+
+  logger.info(`[CASE SUMMARY] Exported ${format} for patient ${silknotePatientUuid} (${report.footnotes.length} citations)`);
+  res.setHeader('Content-Type', format === 'pdf' ? PDF_MIME_TYPE : DOCX_MIME_TYPE);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  return res.status(200).send(body);
+}));
+
+/**
+ * The assistant sometimes returns the JSON schema instead of data for inconsistencies;
+ * that and a missing result both fall back to "no inconsistencies"
+ */
+function normalizeInconsistenciesContent(content: any): CaseSummaryType['medicalInconsistencies'] {
+  if (content && typeof content === 'object' && 'type' in content && 'properties' in content) {
+    logger.warn(`[VECTOR STORE - GEN_COMP_SUMMARY] ⚠️ Inconsistencies analysis returned schema instead of data! Using default.`);
+    return { hasInconsistencies: false, inconsistencies: [] };
+  }
+  if (!content) {
+    logger.warn(`[VECTOR STORE - GEN_COMP_SUMMARY] No inconsistencies content returned, using default`);
+    return { hasInconsistencies: false, inconsistencies: [] };
+  }
+  logger.info(`[VECTOR STORE - GEN_COMP_SUMMARY] Inconsistencies received: hasInconsistencies=${content.hasInconsistencies}, count=${content.inconsistencies?.length || 0}`);
+  return content;
+}
+
+// Marks citations with the extraction that produced them so they can be replaced with it
+function tagCitations(citations: SummaryCitation[] | undefined, extraction: CaseSummaryExtraction): SummaryCitation[] {
+  return (citations || []).map(citation => ({ ...citation, extraction }));
+}
+
 /**
  * Generates a comprehensive case summary using multiple targeted vector store queries
  * to maximize information extraction while preserving existing citation formats.
@@ -758,50 +1083,13 @@ export async function generateComprehensiveCaseSummary(
       console.log(`[!!!!!!!!!!!!!!!VECTOR STORE - GEN_COMP_SUMMARY] Inconsistencies Result:`);
       console.log( inconsistenciesResult);
       
-      // Check if the inconsistencies result is actually data or if it's the schema
-      let actualInconsistenciesContent = inconsistenciesResult?.content;
-      
-      // If the content has 'type' and 'properties' fields, it means the AI returned the schema instead of data
-      if (actualInconsistenciesContent && 
-          typeof actualInconsistenciesContent === 'object' && 
-          'type' in actualInconsistenciesContent && 
-          'properties' in actualInconsistenciesContent) {
-        logger.warn(`[VECTOR STORE - GEN_COMP_SUMMARY] ⚠️ Inconsistencies analysis returned schema instead of data! Using default.`);
-        console.log(`[GEN_COMP_SUMMARY DEBUG] 🔴 WARNING: Inconsistencies returned schema instead of data!`);
-        console.log(`[GEN_COMP_SUMMARY DEBUG] Schema detection - content.type: "${actualInconsistenciesContent.type}"`);
-        console.log(`[GEN_COMP_SUMMARY DEBUG] Schema detection - has properties: ${!!actualInconsistenciesContent.properties}`);
-        
-        // Use default empty inconsistencies
-        actualInconsistenciesContent = {
-          hasInconsistencies: false,
-          inconsistencies: []
-        };
-      } else if (actualInconsistenciesContent) {
-        // Log the actual inconsistencies data received
-        console.log(`[GEN_COMP_SUMMARY DEBUG] ✅ Inconsistencies data received properly`);
-        console.log(`[GEN_COMP_SUMMARY DEBUG] hasInconsistencies: ${actualInconsistenciesContent.hasInconsistencies}`);
-        console.log(`[GEN_COMP_SUMMARY DEBUG] Number of inconsistencies: ${actualInconsistenciesContent.inconsistencies?.length || 0}`);
-        
-        if (actualInconsistenciesContent.inconsistencies && actualInconsistenciesContent.inconsistencies.length > 0) {
-          console.log(`[GEN_COMP_SUMMARY DEBUG] Inconsistencies found:`);
-          actualInconsistenciesContent.inconsistencies.forEach((inc: any, idx: number) => {
-            console.log(`[GEN_COMP_SUMMARY DEBUG]   ${idx + 1}. Type: ${inc.type}, Severity: ${inc.severity}`);
-            console.log(`[GEN_COMP_SUMMARY DEBUG]      Description: ${inc.description?.substring(0, 100)}...`);
-          });
-        }
-      } else {
-        console.log(`[GEN_COMP_SUMMARY DEBUG] ⚠️ No inconsistencies content returned, using default`);
-        actualInconsistenciesContent = {
-          hasInconsistencies: false,
-          inconsistencies: []
-        };
-      }
+      const actualInconsistenciesContent = normalizeInconsistenciesContent(inconsistenciesResult?.content);
       
       // Collect citations from each result
-      if (patientInfoResult?.citations) allCitations.push(...patientInfoResult.citations);
-      if (diagnosesAndTreatmentsResult?.citations) allCitations.push(...diagnosesAndTreatmentsResult.citations);
-      if (keyEventsTimelineResult?.citations) allCitations.push(...keyEventsTimelineResult.citations);
-      if (inconsistenciesResult?.citations) allCitations.push(...inconsistenciesResult.citations);
+      allCitations.push(...tagCitations(patientInfoResult?.citations, 'patientInfo'));
+      allCitations.push(...tagCitations(diagnosesAndTreatmentsResult?.citations, 'diagnosesAndTreatments'));
+      allCitations.push(...tagCitations(keyEventsTimelineResult?.citations, 'keyEvents'));
+      allCitations.push(...tagCitations(inconsistenciesResult?.citations, 'medicalInconsistencies'));
 
       logger.info(`[VECTOR STORE - GEN_COMP_SUMMARY] Concurrent extractions finished.`);
       logger.info(`[VECTOR STORE - GEN_COMP_SUMMARY] Result - Patient Info: ${patientInfoResult ? 'OK' : 'FAIL'}, Citations: ${patientInfoResult?.citations?.length || 0}`);
@@ -851,7 +1139,7 @@ export async function generateComprehensiveCaseSummary(
       });
       logger.info(`[VECTOR STORE - GEN_COMP_SUMMARY] Narrative generated.`);
       // Collect narrative citations
-      if (narrativeResult?.citations) allCitations.push(...narrativeResult.citations);
+      allCitations.push(...tagCitations(narrativeResult?.citations, 'narrativeOverview'));
 
       // 3. Assemble the full case summary object - Initial Assembly
       logger.info(`[VECTOR STORE - GEN_COMP_SUMMARY] Assembling combined summary with spread operator for patient info...`);
@@ -951,6 +1239,82 @@ export async function generateComprehensiveCaseSummary(
 
   return await internalGenerate();
 }
+/**
+ * Rebuilds only the given extractions of an existing summary and merges the result in,
+ * replacing the sections and citations they produced. Sections that are not rebuilt
+ * keep their content and citations.
+ */
+export async function updateCaseSummarySections(
+  silknotePatientUuid: string,
+  silknoteUserUuid: string,
+  existing: CaseSummaryApiResponse,
+  extractions: CaseSummaryExtraction[]
+): Promise<{ summary: CaseSummaryType; citations: SummaryCitation[] }> {
+  const rebuild = new Set(extractions);
+  logger.info(`[CASE SUMMARY - UPDATE] Rebuilding ${extractions.join(', ')} for patient ${silknotePatientUuid}`);
+
+  const [
+    patientInfoResult,
+    diagnosesAndTreatmentsResult,
+    keyEventsTimelineResult,
+    inconsistenciesResult
+  ] = await Promise.all([
+    rebuild.has('patientInfo') ? extractPatientInfo(silknotePatientUuid, true, silknoteUserUuid) : null,
+    rebuild.has('diagnosesAndTreatments') ? extractDiagnosesAndTreatments(silknotePatientUuid, true, silknoteUserUuid) : null,
+    rebuild.has('keyEvents') ? extractComprehensiveTimeline(silknotePatientUuid, true, silknoteUserUuid) : null,
+    rebuild.has('medicalInconsistencies') ? generateInconsistenciesWithObject(silknotePatientUuid, silknoteUserUuid, true) : null
+  ]);
+
+  const merged: any = { ...existing.summary };
+  if (patientInfoResult) {
+    // Clear the old values so fields no longer supported by any document do not linger
+    for (const field of Object.keys(PATIENT_INFO_SCHEMA)) merged[field] = null;
+    Object.assign(merged, patientInfoResult.content || {});
+  }
+  if (diagnosesAndTreatmentsResult) {
+    merged.diagnoses = diagnosesAndTreatmentsResult.content?.diagnoses || [];
+    merged.treatments = diagnosesAndTreatmentsResult.content?.treatments || [];
+    merged.testResults = diagnosesAndTreatmentsResult.content?.testResults || [];
+  }
+  if (keyEventsTimelineResult) {
+    merged.keyEvents = ensureValidKeyEvents(keyEventsTimelineResult.content?.keyEvents || []);
+  }
+  if (inconsistenciesResult) {
+    merged.medicalInconsistencies = normalizeInconsistenciesContent(inconsistenciesResult.content);
+  }
+
+  let narrativeResult: { content: string; citations: SummaryCitation[] } | null = null;
+  if (rebuild.has('narrativeOverview')) {
+    narrativeResult = await generateNarrativeFromExtractedData(
+      silknotePatientUuid,
+      { content: merged },
+      { content: merged },
+      true,
+      silknoteUserUuid
+    ).catch(error => {
+      logger.error(`[CASE SUMMARY - UPDATE] Narrative generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      return { content: existing.summary?.narrativeOverview || '', citations: [] };
+    });
+    merged.narrativeOverview = narrativeResult.content || '';
+  }
+
+  // Untagged citations predate extraction tagging; they go only when everything is rebuilt
+  const rebuildsAll = ALL_CASE_SUMMARY_EXTRACTIONS.every(extraction => rebuild.has(extraction));
+  const keptCitations = (existing.citations || []).filter(citation =>
+    citation.extraction ? !rebuild.has(citation.extraction) : !rebuildsAll
+  );
+  const citations = [
+    ...keptCitations,
+    ...tagCitations(patientInfoResult?.citations, 'patientInfo'),
+    ...tagCitations(diagnosesAndTreatmentsResult?.citations, 'diagnosesAndTreatments'),
+    ...tagCitations(keyEventsTimelineResult?.citations, 'keyEvents'),
+    ...tagCitations(inconsistenciesResult?.citations, 'medicalInconsistencies'),
+    ...tagCitations(narrativeResult?.citations, 'narrativeOverview')
+  ];
+
+  return { summary: ensureValidCaseSummaryFormat(merged), citations };
+}
+
 /**
  * Ensure the entire case summary has valid structure with all required fields
  * and convert any enum values to strings
@@ -1501,6 +1865,26 @@ async function generateNarrativeFromExtractedData(
   };
 }
 
+// Fields of the summary filled by extractPatientInfo
+const PATIENT_INFO_SCHEMA = {
+  patientName:        "String Patient's full name and citation",
+  patientDateOfBirth: "String Patient's date of birth (YYYY-MM-DD) and citation",
+  patientGender:      "String Patient's gender and citation",
+  patientOccupation:  "String Patient's occupation or job title and citation",
+  insurerName:        "String Name of the insurance company and citation",
+  insuranceScheme:    "String Type of insurance scheme and citation",
+  claimNumber:        "String Insurance claim/case reference number and citation",
+  policyType:         "String Type of insurance policy and citation",
+  reportDate:         "String Date of the report (YYYY-MM-DD) and citation",
+  reportTitle:        "String Title of the case report and citation",
+  socialHistory:      "String Patient's social history information and citation",
+  employerName:       "String Name of the patient's employer and citation",
+  employmentStatus:   "String Current employment status and citation",
+  workRelatedInjury:  "Boolean Whether the injury is work-related and citation",
+  employmentNotes:    "String Additional notes about employment and citation",
+  legalNotes:         "String Notes about legal aspects of the case and citation"
+};
+
 /**
  * Extract patient information using vector store
  */
@@ -1509,24 +1893,6 @@ async function extractPatientInfo(
   embedMarkers: boolean,
   silknoteUserUuid: string // Now required
 ): Promise<{ content: any; citations: SummaryCitation[] }> {
-  const patientInfoSchema = {
-    patientName:        "String Patient's full name and citation",
-    patientDateOfBirth: "String Patient's date of birth (YYYY-MM-DD) and citation",
-    patientGender:      "String Patient's gender and citation",
-    patientOccupation:  "String Patient's occupation or job title and citation",
-    insurerName:        "String Name of the insurance company and citation",
-    insuranceScheme:    "String Type of insurance scheme and citation",
-    claimNumber:        "String Insurance claim/case reference number and citation",
-    policyType:         "String Type of insurance policy and citation",
-    reportDate:         "String Date of the report (YYYY-MM-DD) and citation",
-    reportTitle:        "String Title of the case report and citation",
-    socialHistory:      "String Patient's social history information and citation",
-    employerName:       "String Name of the patient's employer and citation",
-    employmentStatus:   "String Current employment status and citation",
-    workRelatedInjury:  "Boolean Whether the injury is work-related and citation",
-    employmentNotes:    "String Additional notes about employment and citation",
-    legalNotes:         "String Notes about legal aspects of the case and citation"
-  };
   
   
   const patientInfoPrompt = `
@@ -1550,7 +1916,7 @@ async function extractPatientInfo(
   return await queryAssistantWithCitationsObject(
     silknotePatientUuid,
     patientInfoPrompt,
-    patientInfoSchema,
+    PATIENT_INFO_SCHEMA,
     embedMarkers, // Pass flag
     silknoteUserUuid // Pass userUuid
   );
@@ -1643,6 +2009,7 @@ export async function generateInconsistenciesWithObject(
         citationToVectorStoreFile: string | null;
         documentTitle: string; // Add a dedicated title field
         contradictingValues: string[];
+        pageNumbers?: number[];
       }>;
     }>;
   };
@@ -1650,6 +2017,30 @@ export async function generateInconsistenciesWithObject(
 }> {
   const logTag = 'INCONSISTENCIES';
   logger.info(`[VECTOR STORE - ${logTag}] Starting inconsistency analysis for patient ${silknotePatientUuid}`);
+
+  // Rule findings from the structured extractions come first and are kept whatever the assistant returns
+  const patient = await getPatientById(silknotePatientUuid, silknoteUserUuid);
+  const ruleFindings = (detectInconsistencies(patient?.fileSet || []).inconsistencies || []).map(finding => ({
+    type: finding.type,
+    description: finding.description,
+    severity: finding.severity || 'Medium',
+    relatedDocuments: (finding.relatedDocuments || []).map(doc => ({
+      id: doc.id,
+      citationToVectorStoreFile: doc.citationToVectorStoreFile,
+      documentTitle: doc.citationToVectorStoreFile || '',
+      contradictingValues: doc.contradictingValues || [],
+      pageNumbers: doc.pageNumbers || undefined
+    }))
+  }));
+  logger.info(`[VECTOR STORE - ${logTag}] ${ruleFindings.length} inconsistencies found by rules for patient ${silknotePatientUuid}`);
+  const withRuleFindings = (content: any, citations: SummaryCitation[]) => {
+    const inconsistencies = [...ruleFindings, ...(Array.isArray(content?.inconsistencies) ? content.inconsistencies : [])];
+    return { content: { hasInconsistencies: inconsistencies.length > 0, inconsistencies }, citations };
+  };
+  const knownFindings = ruleFindings.length === 0 ? '' : `
+
+The following inconsistencies have already been found by comparing the documents' structured data. Do NOT report them again; report only other inconsistencies:
+${ruleFindings.map(finding => `- ${finding.type}: ${finding.description}`).join('\n')}`;
   console.log(`[INCONSISTENCIES DEBUG] ===== START INCONSISTENCY ANALYSIS =====`);
   console.log(`[INCONSISTENCIES DEBUG] Patient: ${silknotePatientUuid}`);
   console.log(`[INCONSISTENCIES DEBUG] User: ${silknoteUserUuid}`);
@@ -1693,7 +2084,7 @@ Each inconsistency object in the array must have:
 
 IMPORTANT: Use the file search tool extensively to ensure you review ALL available documents. Leave no stone unturned in your analysis.
 
-Return ONLY the JSON object with your findings. Do not include any other text or explanation outside the JSON.`;
+Return ONLY the JSON object with your findings. Do not include any other text or explanation outside the JSON.${knownFindings}`;
 
   console.log(`[INCONSISTENCIES DEBUG] Prompt length: ${inconsistencyPrompt.length}`);
 
@@ -1787,14 +2178,8 @@ Return ONLY the JSON object with your findings. Do not include any other text or
         console.log(`[INCONSISTENCIES DEBUG] 🔴 ERROR: Schema returned instead of data!`);
         console.log(`[INCONSISTENCIES DEBUG] Schema detection - has 'type': ${result.content.type}, has 'properties': ${!!result.content.properties}`);
         
-        // Return default empty result
-        const fallbackResult = {
-          content: {
-            hasInconsistencies: false,
-            inconsistencies: []
-          },
-          citations: []
-        };
+        // Return the rule findings alone
+        const fallbackResult = withRuleFindings(null, []);
         console.log(`[INCONSISTENCIES DEBUG] Returning fallback result:`, JSON.stringify(fallbackResult, null, 2));
         console.log(`[INCONSISTENCIES DEBUG] ===== END INCONSISTENCY ANALYSIS (FALLBACK) =====`);
         return fallbackResult;
@@ -1834,10 +2219,11 @@ Return ONLY the JSON object with your findings. Do not include any other text or
       console.log(`[INCONSISTENCIES DEBUG] ⚠️ result.content is null/undefined!`);
     }
     
-    console.log(`[INCONSISTENCIES DEBUG] Final result being returned:`, JSON.stringify(result, null, 2));
+    const merged = withRuleFindings(result.content, result.citations);
+    console.log(`[INCONSISTENCIES DEBUG] Final result being returned:`, JSON.stringify(merged, null, 2));
     console.log(`[INCONSISTENCIES DEBUG] ===== END INCONSISTENCY ANALYSIS (SUCCESS) =====`);
     
-    return result;
+    return merged;
     
   } catch (error) {
     logger.error(`[VECTOR STORE - ${logTag}] Error during inconsistency analysis for patient ${silknotePatientUuid}:`, error);
@@ -1848,14 +2234,8 @@ Return ONLY the JSON object with your findings. Do not include any other text or
       console.log(`[INCONSISTENCIES DEBUG] Error stack:`, error.stack);
     }
 
-    // Return a fallback structure if the analysis fails
-    const fallbackResult = {
-      content: {
-        hasInconsistencies: false,
-        inconsistencies: []
-      },
-      citations: []
-    };
+    // Return the rule findings alone if the analysis fails
+    const fallbackResult = withRuleFindings(null, []);
     
     console.log(`[INCONSISTENCIES DEBUG] Returning error fallback:`, JSON.stringify(fallbackResult, null, 2));
     console.log(`[INCONSISTENCIES DEBUG] ===== END INCONSISTENCY ANALYSIS (ERROR) =====`);
@@ -1885,6 +2265,7 @@ router.post('/:silknotePatientUuid', asyncHandler(async (req: Request, res: Resp
   if (!caseSummaryDataToSave || typeof caseSummaryDataToSave !== 'object' || !caseSummaryDataToSave.summary) {
       return res.status(400).json({ error: 'Invalid case summary data provided in request body.' });
   }
+  const silknoteUserUuid = getUserUuid(req);
   
   console.log(`[CASE SUMMARY] Saving case summary via POST for patient: ${silknotePatientUuid}`);
   
@@ -1897,10 +2278,29 @@ router.post('/:silknotePatientUuid', asyncHandler(async (req: Request, res: Resp
     
     // Add the case summary to the patient record
     // Ensure counts from the *saved* data are preserved if they exist, otherwise use patient's current count
+    // staleSections is computed on retrieval; sources are kept from the stored summary if not sent back.
+    // Provenance, conflicts and the audit trail are server-owned: changed fields are recorded as edits.
+    const {
+      staleSections: _staleSections,
+      fieldProvenance: _fieldProvenance,
+      conflicts: _conflicts,
+      auditTrail: _auditTrail,
+      ...summaryFields
+    } = caseSummaryDataToSave;
+    const edits = patient.caseSummary
+      ? recordClinicianChanges(patient.caseSummary, caseSummaryDataToSave.summary, silknoteUserUuid)
+      : null;
     const finalSummaryToSave: CaseSummaryApiResponse = {
-        ...caseSummaryDataToSave,
+        ...summaryFields,
+        ...(edits && {
+          summary: edits.summary,
+          fieldProvenance: edits.fieldProvenance,
+          conflicts: edits.conflicts,
+          auditTrail: edits.auditTrail
+        }),
         summaryGenerationCount: caseSummaryDataToSave.summaryGenerationCount ?? patient.summaryGenerationCount ?? 0,
-        maxCount: caseSummaryDataToSave.maxCount ?? 5
+        maxCount: caseSummaryDataToSave.maxCount ?? 5,
+        sources: caseSummaryDataToSave.sources ?? patient.caseSummary?.sources
     };
     patient.caseSummary = finalSummaryToSave;
     patient.summaryGenerationCount = finalSummaryToSave.summaryGenerationCount; // Also update the primary count field
@@ -1958,7 +2358,12 @@ router.get('/patients/:silknotePatientUuid/case-summary', asyncHandler(async (re
       summary: parsedSummary,
       citations: fullCaseSummary.citations || [],
       summaryGenerationCount: patient.summaryGenerationCount || 0,
-      maxCount: 5
+      maxCount: 5,
+      sources: fullCaseSummary.sources,
+      fieldProvenance: fullCaseSummary.fieldProvenance,
+      conflicts: fullCaseSummary.conflicts,
+      auditTrail: fullCaseSummary.auditTrail,
+      staleSections: getCaseSummaryStaleness(fullCaseSummary.sources, fullCaseSummary.citations || [], patient.fileSet || []).staleSections
     };
     return res.status(200).json(response);
   } catch (error) {
@@ -1,46 +1,103 @@
-import { Router } from 'express';
-import { documentService } from '../services/documentService';
+import { Router, Request } from 'express';
+import { documentService, reprocessDocument, processingQueue } from '../services/documentService';
+import * as patientService from '../services/patientService';
+import { isProcessingStage, PROCESSING_STAGES } from '../services/processingCheckpoints';
+import { getSilknoteUserUuid } from '../middleware/auth';
 
 const router: Router = Router();
 
+// Helper function to extract and validate patient UUID from headers
+function getPatientUuid(req: Request): string | null {
+  const patientUuid = req.headers['x-silknote-patient-uuid'] as string;
+  if (!patientUuid) {
+    return null;
+  }
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(patientUuid)) {
+    return null;
+  }
+
+  return patientUuid;
+}
+
 /**
  * Endpoint to request reprocessing of a document
- * This is called by the client when a document processing seems stalled
+ * This is called by the client when a document processing seems stalled.
+ * Processing resumes from the first stage without a saved checkpoint; pass
+ * { forceStage } in the body to rerun a specific stage regardless.
  */
 router.post('/:documentId/reprocess', async (req, res) => {
   const { documentId } = req.params;
-  
+  const forceStage = req.body?.forceStage;
+
   console.log(`[DOCUMENT REPROCESS] Reprocess request received for document: ${documentId}`);
-  
+
   try {
+    if (forceStage !== undefined && !isProcessingStage(forceStage)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid forceStage. Expected one of: ${PROCESSING_STAGES.join(', ')}`
+      });
+    }
+
+    const silknoteUserUuid = getSilknoteUserUuid(req);
+    const silknotePatientUuid = getPatientUuid(req);
+    if (!silknotePatientUuid) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing or invalid x-silknote-patient-uuid header'
+      });
+    }
+
     // Get the document
-    const document = await documentService.getDocumentById(documentId);
-    
+    const document = await documentService.getDocumentById(documentId, silknotePatientUuid, silknoteUserUuid);
+
     if (!document) {
       console.log(`[DOCUMENT REPROCESS] Document not found: ${documentId}`);
-      return res.status(404).json({ 
-        success: false, 
-        message: 'Document not found' 
+      return res.status(404).json({
+        success: false,
+        message: 'Document not found'
+      });
+    }
+
+    if (processingQueue.has(document.clientFileId)) {
+      return res.status(409).json({
+        success: false,
+        message: 'Document is already queued or processing'
+      });
+    }
+
+    const patient = await patientService.getPatientById(silknotePatientUuid, silknoteUserUuid);
+    if (!patient) {
+      return res.status(404).json({
+        success: false,
+        message: 'Patient not found for document'
       });
     }
-    
+
     // Log the current status of the document
     console.log(`[DOCUMENT REPROCESS] Document status before reprocessing: ${document.status}, category: ${document.category}`);
-    
-    // For now, just send a success response
-    // In a real implementation, you would trigger reprocessing here
-    console.log(`[DOCUMENT REPROCESS] Document reprocessing request acknowledged: ${documentId}`);
-    
-    return res.status(200).json({
+
+    const { resumeFrom } = await reprocessDocument({
+      document,
+      patientContext: patient,
+      forceStage
+    });
+
+    console.log(`[DOCUMENT REPROCESS] Document ${documentId} queued, resuming from stage: ${resumeFrom}`);
+
+    return res.status(202).json({
       success: true,
-      message: `Document reprocessing request acknowledged for ${documentId}`
+      message: `Document queued for reprocessing from stage '${resumeFrom}'`,
+      resumeFrom
     });
-    
+
   } catch (error) {
     console.log(`[DOCUMENT REPROCESS] Error reprocessing document ${documentId}:`, error);
-    return res.status(500).json({ 
-      success: false, 
-      message: `Error reprocessing document: ${error instanceof Error ? error.message : 'Unknown error'}` 
+    return res.status(500).json({
+      success: false,
+      message: `Error reprocessing document: ${error instanceof Error ? error.message : 'Unknown error'}`
     });
   }
 });
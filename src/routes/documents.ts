@@ -7,6 +7,7 @@ import { asyncHandler } from "../utils/errorHandlers";
 import { createLogger } from '../utils/logger';
 import config from '../config';
 import { getUserUuid } from '../middleware/auth';
+import { isPageImageSize, pageImageETag, renderPageImage } from '../services/pageRendering';
 
 const logger = createLogger('DOCUMENTS_ROUTE')
 const router:Router = Router()
@@ -270,4 +271,61 @@ router.get('/:documentId/metadata', asyncHandler(async (req: Request, res: Respo
   return res.json(metadata);
 }));
 
+// GET /:documentId/pages/:n - Image of page n (1-based), rendered on first request and cached.
+// Query: size = thumbnail | viewer (default) | print. Documents split out of a bundle use the
+// bundle's page numbers.
+router.get('/:documentId/pages/:n', asyncHandler(async (req: Request, res: Response) => {
+  const decodedDocumentId = decodeURIComponent(req.params.documentId);
+  const page = Number(req.params.n);
+  const size = req.query.size ?? 'viewer';
+
+  const userUuid = getUserUuid(req);
+  const patientUuid = getPatientUuid(req);
+  if (!patientUuid) {
+    return res.status(400).json({ 
+      error: 'Missing or invalid x-silknote-patient-uuid header',
+      message: 'Patient UUID must be provided in x-silknote-patient-uuid header' 
+    });
+  }
+  if (!Number.isInteger(page) || page < 1) {
+    return res.status(400).json({ error: 'Page number must be a positive integer' });
+  }
+  if (!isPageImageSize(size)) {
+    return res.status(400).json({ error: "size must be 'thumbnail', 'viewer' or 'print'" });
+  }
+
+  const document = await documentService.getDocumentById(decodedDocumentId, patientUuid, userUuid);
+  if (!document) {
+    return res.status(404).json({ error: 'Document not found' });
+  }
+  if (document.silknotePatientUuid !== patientUuid) {
+    logger.warn(`Access denied: Document ${decodedDocumentId} belongs to patient ${document.silknotePatientUuid}, not ${patientUuid}`);
+    return res.status(403).json({ error: 'Access denied' });
+  }
+
+  // Children share their parent's file, so their pages are rendered and cached once, for the parent
+  const source = document.parentClientFileId
+    ? await storageService.getDocument(userUuid, patientUuid, document.parentClientFileId) || document
+    : document;
+  if (source.status === 'password_required' || (source.format?.mimeType && source.format.mimeType !== 'application/pdf')) {
+    return res.status(409).json({ error: 'Document has no PDF to render yet' });
+  }
+  const { start, end } = document.pageRange || { start: 1, end: source.pageCount || Infinity };
+  if (page < start || page > end) {
+    return res.status(404).json({ error: `Page ${page} is not in the document` });
+  }
+
+  // The ETag is known without rendering, so revalidation never touches the file
+  const etag = pageImageETag(source, page, size);
+  res.setHeader('ETag', etag);
+  res.setHeader('Cache-Control', 'private, no-cache');
+  if (req.headers['if-none-match'] === etag) {
+    return res.status(304).end();
+  }
+
+  const image = await renderPageImage(source, page, size);
+  res.setHeader('Content-Type', image.contentType);
+  return res.send(image.content);
+}));
+
 export default router
@@ -0,0 +1,156 @@
+import { Router, Request, Response } from "express";
+import { asyncHandler } from "../utils/errorHandlers";
+import { createLogger } from '../utils/logger';
+import { getUserUuid } from '../middleware/auth';
+import { getPatientById } from '../services/patientService';
+import {
+  buildImeReport,
+  draftImeResponses,
+  getImeRequest,
+  ImeReportError,
+  isImeRequestDocument,
+  reviewImeResponse,
+  saveImeRequest
+} from '../services/imeReportService';
+import { buildImeReportDocument } from '../services/export/imeReport';
+import { DOCX_MIME_TYPE, renderCaseSummaryDocx } from '../services/export/docxRenderer';
+import { PDF_MIME_TYPE, renderCaseSummaryPdf } from '../services/export/pdfRenderer';
+import { ImeResponseReviewStatus, MedicalDocument, PatientDetails } from '../shared/types';
+import config from '../config';
+
+const logger = createLogger('IME_REPORTS');
+const router: Router = Router();
+
+const REVIEW_STATUSES: ImeResponseReviewStatus[] = ['draft', 'edited', 'approved'];
+
+// Loads the patient and the IME request document named in the URL, or responds 404
+async function loadImeRequest(req: Request, res: Response): Promise<{ patient: PatientDetails; document: MedicalDocument; silknoteUserUuid: string } | null> {
+  const { silknotePatientUuid, documentId } = req.params;
+  const silknoteUserUuid = getUserUuid(req);
+
+  const patient = await getPatientById(silknotePatientUuid, silknoteUserUuid);
+  if (!patient) {
+    res.status(404).json({ error: 'Patient not found' });
+    return null;
+  }
+  const document = (patient.fileSet || []).find(doc => doc.clientFileId === documentId);
+  if (!document || !getImeRequest(document)) {
+    res.status(404).json({ error: 'IME request document with questions not found for patient' });
+    return null;
+  }
+  return { patient, document, silknoteUserUuid };
+}
+
+/**
+ * GET /api/ime-reports/:silknotePatientUuid
+ * Lists the report skeleton of each IME request document in the patient's fileset.
+ */
+router.get('/:silknotePatientUuid', asyncHandler(async (req: Request, res: Response) => {
+  const { silknotePatientUuid } = req.params;
+  const silknoteUserUuid = getUserUuid(req);
+
+  const patient = await getPatientById(silknotePatientUuid, silknoteUserUuid);
+  if (!patient) {
+    return res.status(404).json({ error: 'Patient not found' });
+  }
+  const reports = (patient.fileSet || [])
+    .filter(document => isImeRequestDocument(document) && getImeRequest(document))
+    .map(document => buildImeReport(patient, document));
+  return res.status(200).json({ reports });
+}));
+
+/**
+ * GET /api/ime-reports/:silknotePatientUuid/:documentId
+ * The questions of one request in order, with their answers and review status.
+ */
+router.get('/:silknotePatientUuid/:documentId', asyncHandler(async (req: Request, res: Response) => {
+  const loaded = await loadImeRequest(req, res);
+  if (!loaded) return;
+  return res.status(200).json(buildImeReport(loaded.patient, loaded.document));
+}));
+
+/**
+ * POST /api/ime-reports/:silknotePatientUuid/:documentId/draft
+ * Drafts cited answers from the patient's other documents. Body: { questionNumbers?, overwrite? }
+ */
+router.post('/:silknotePatientUuid/:documentId/draft', asyncHandler(async (req: Request, res: Response) => {
+  const { questionNumbers, overwrite } = req.body || {};
+  if (questionNumbers !== undefined && (!Array.isArray(questionNumbers) || !questionNumbers.every(n => Number.isInteger(n)))) {
+    return res.status(400).json({ error: '"questionNumbers" must be an array of question numbers' });
+  }
+  if (overwrite !== undefined && typeof overwrite !== 'boolean') {
+    return res.status(400).json({ error: '"overwrite" must be a boolean' });
+  }
+
+  const loaded = await loadImeRequest(req, res);
+  if (!loaded) return;
+  const { patient, document, silknoteUserUuid } = loaded;
+
+  try {
+    const report = await draftImeResponses(silknoteUserUuid, patient, document, { questionNumbers, overwrite });
+    logger.info(`Drafted IME report for document ${document.clientFileId} (${report.pendingReview} awaiting review)`);
+    return res.status(200).json(report);
+  } catch (error) {
+    if (error instanceof ImeReportError) {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+}));
+
+/**
+ * PATCH /api/ime-reports/:silknotePatientUuid/:documentId/questions/:questionNumber
+ * The doctor's change to one answer. Body: { responseText?, reviewStatus? ('draft' | 'edited' | 'approved') }
+ */
+router.patch('/:silknotePatientUuid/:documentId/questions/:questionNumber', asyncHandler(async (req: Request, res: Response) => {
+  const questionNumber = Number(req.params.questionNumber);
+  const { responseText, reviewStatus } = req.body || {};
+  if (responseText !== undefined && typeof responseText !== 'string') {
+    return res.status(400).json({ error: '"responseText" must be a string' });
+  }
+  if (reviewStatus !== undefined && !REVIEW_STATUSES.includes(reviewStatus)) {
+    return res.status(400).json({ error: `"reviewStatus" must be one of: ${REVIEW_STATUSES.join(', ')}` });
+  }
+
+  const loaded = await loadImeRequest(req, res);
+  if (!loaded) return;
+  const { patient, document, silknoteUserUuid } = loaded;
+
+  let updated: MedicalDocument;
+  try {
+    updated = reviewImeResponse(document, questionNumber, { responseText, reviewStatus }, silknoteUserUuid);
+  } catch (error) {
+    if (error instanceof ImeReportError) {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  await saveImeRequest(silknoteUserUuid, patient.silknotePatientUuid, updated);
+  return res.status(200).json(buildImeReport(patient, updated));
+}));
+
+/**
+ * GET /api/ime-reports/:silknotePatientUuid/:documentId/export?format=docx|pdf
+ * The report as a document, with citations as footnotes. Unapproved answers are marked as drafts.
+ */
+router.get('/:silknotePatientUuid/:documentId/export', asyncHandler(async (req: Request, res: Response) => {
+  const format = req.query.format || 'docx';
+  if (format !== 'docx' && format !== 'pdf') {
+    return res.status(400).json({ error: '"format" must be "docx" or "pdf"' });
+  }
+
+  const loaded = await loadImeRequest(req, res);
+  if (!loaded) return;
+  const { patient, document } = loaded;
+
+  const report = buildImeReportDocument(buildImeReport(patient, document), patient.fileSet || [], config.reports.letterhead);
+  const body = format === 'pdf' ? await renderCaseSummaryPdf(report) : renderCaseSummaryDocx(report);
+  const fileName = `${(patient.name || 'patient').replace(/[^\w.-]+/g, '_')}-ime-report.${format}`;
+
+  res.setHeader('Content-Type', format === 'pdf' ? PDF_MIME_TYPE : DOCX_MIME_TYPE);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  return res.status(200).send(body);
+}));
+
+export default router;
@@ -7,7 +7,7 @@ import crypto from 'crypto'
 
 import config from '../config'
 import { MedicalDocument, DocumentType, PatientDetails, DocumentAlertType } from '../shared/types'
-import { documentService } from '../services/documentService'
+import { documentService, processingQueue, reprocessDocument } from '../services/documentService'
 import * as patientService from '../services/patientService'
 import { io } from '../socket'
 
@@ -15,6 +15,17 @@ import { storageService } from '../utils/storage'
 import { asyncHandler } from "../utils/errorHandlers";
 import { createLogger } from '../utils/logger';
 import { getSilknoteUserUuid } from '../middleware/auth';
+import { filterTimeline, getPatientTimeline, parseTimelineDate, TIMELINE_EVENT_TYPES } from '../services/patientTimeline';
+import { getWorkCapacitySeries } from '../services/workCapacityService';
+import { getMedicationReconciliation } from '../services/medicationReconciliation';
+import { hashStoredDocument, resolveDuplicate } from '../services/documentDuplicates';
+import { isMergeable, isSettled, mergeDocuments, MergePart, suggestGroupings } from '../services/documentGrouping';
+import { convertToPdf, needsConversion, originalFileName } from '../services/documentConversion';
+import { extractEmailAttachments, isEmail } from '../services/emailAttachments';
+import { decryptStoredPdf, needsDecryptionCheck } from '../services/documentDecryption';
+import { resolveMimeType } from '../utils/handler-types';
+import { ProcessingPriority } from '../utils/storage-interfaces';
+import { defaultUploadPriority, isProcessingPriority, PROCESSING_PRIORITIES } from '../services/fairQueue';
 
 // Extend Express Request type to include user information
 declare global {
@@ -37,8 +48,10 @@ async function quickStore(
   patient: PatientDetails, // Make sure PatientDetails is imported or defined
   silknoteUserUuid: string // Add required parameter
 ): Promise<MedicalDocument> {
-  // 1. move blob to its final name
-  const storedPath = await storageService.finalizeUploadedFile(file.path, clientFileId);
+  // 1. move blob to its final name; uploads that are converted later keep the clientFileId free for the PDF
+  const mimeType = resolveMimeType(file.mimetype, file.originalname) || 'application/pdf';
+  const isPdf = mimeType === 'application/pdf';
+  const storedPath = await storageService.finalizeUploadedFile(file.path, isPdf ? clientFileId : originalFileName(clientFileId, file.originalname));
 
   const silknoteDocumentUuid = uuidv4(); // Generate a new UUID for the DB record
 
@@ -52,17 +65,24 @@ async function quickStore(
     status: 'stored',
     category: DocumentType.UNPROCESSED,
     uploadDate: new Date().toISOString(),
-    type: 'application/pdf',
+    type: mimeType,
     size: file.size,
     title: file.originalname,
-    format: { mimeType: 'application/pdf', extension: 'pdf' },
+    format: { mimeType, extension: isPdf ? 'pdf' : path.extname(file.originalname).slice(1).toLowerCase() },
     fileSize: file.size,
-    filename: path.basename(storedPath), // this will also be clientFileId
+    filename: path.basename(storedPath), // clientFileId, or the original's name until it is converted
     pageCount: 0, // Placeholder
     content: { analysisResult: null, extractedSchemas: [], enrichedSchemas: [], pageImages: [] },
     confidence: 0
   };
 
+  // 2b. hash the stored file and flag an earlier upload of the same file
+  try {
+    await hashStoredDocument(doc, patient.fileSet || []);
+  } catch (error) {
+    logger.error(`Failed to hash stored file ${clientFileId}:`, error);
+  }
+
   // 3. put stub in DB
   await patientService.addFileToPatient(patient.silknotePatientUuid, doc, silknoteUserUuid);
 
@@ -208,7 +228,8 @@ router.get('/:silknotePatientUuid/files', async (req, res) => {
       return res.status(404).json({ error: 'Patient not found' })
     }
     
-    const files = await patientService.getFilesForPatient(silknotePatientUuid, silknoteUserUuid)
+    // Sources of a merged document are kept but hidden
+    const files = (await patientService.getFilesForPatient(silknotePatientUuid, silknoteUserUuid))?.filter(file => !file.mergedInto)
     
     if (!files || files.length === 0) {
       return res.json({
@@ -270,6 +291,136 @@ function emitToPatientRoom(silknotePatientUuid: string, event: string, data: any
   io.to(roomName).emit(event, data);
 }
 
+/**
+ * Background work after a document is stored: decryption or conversion to PDF, the page
+ * count and queueing for full processing. Attachments extracted from an email go through
+ * the same steps once the email is queued, at the email's priority. Failures are reported
+ * over the socket, not thrown.
+ */
+async function processStoredDocument(
+  doc: MedicalDocument,
+  patient: PatientDetails,
+  silknoteUserUuid: string,
+  passwords: string[] = [],
+  priority: ProcessingPriority = 'interactive'
+): Promise<void> {
+  const silknotePatientUuid = patient.silknotePatientUuid;
+  let attachments: MedicalDocument[] = [];
+  try {
+    // 0a. decrypt encrypted PDFs with the passwords given, or park them until one is supplied
+    if (needsDecryptionCheck(doc)) {
+      const { outcome, document } = await decryptStoredPdf(doc, passwords);
+      Object.assign(doc, document);
+      if (outcome === 'password_required') {
+        await patientService.updateFileForPatient(silknotePatientUuid, doc, silknoteUserUuid);
+        emitToPatientRoom(silknotePatientUuid, 'fileStatus', {
+          clientFileId: doc.clientFileId,
+          silknotePatientUuid,
+          status: 'password_required',
+          stage : 'password_required',
+          passwordRejected: passwords.some(Boolean)
+        });
+        return;
+      }
+      if (outcome === 'decrypted') {
+        await patientService.updateFileForPatient(silknotePatientUuid, doc, silknoteUserUuid);
+        emitToPatientRoom(silknotePatientUuid, 'fileStatus', {
+          clientFileId: doc.clientFileId,
+          silknotePatientUuid,
+          status: 'stored',
+          stage : 'decryption_complete'
+        });
+      }
+    }
+
+    // 0b. convert Word, email, spreadsheet, text and image uploads to PDF, keeping the original
+    if (needsConversion(doc)) {
+      try {
+        Object.assign(doc, await convertToPdf(doc));
+      } catch (err: any) {
+        console.error('[PROCESS-ASYNC] 🛑 conversion failed', doc.clientFileId, err);
+        doc.status = 'error';
+        await patientService.updateFileForPatient(silknotePatientUuid, doc, silknoteUserUuid);
+        emitToPatientRoom(silknotePatientUuid, 'fileStatus', {
+          clientFileId: doc.clientFileId,
+          silknotePatientUuid,
+          status: 'error',
+          stage : 'conversion_failed',
+          error : err.message || 'unknown error'
+        });
+        return;
+      }
+
+      // 0c. an email's attachments become documents of their own
+      if (isEmail(doc)) {
+        try {
+          const extraction = await extractEmailAttachments(silknoteUserUuid, patient, doc);
+          Object.assign(doc, extraction.document);
+          attachments = extraction.attachments;
+        } catch (err: any) {
+          console.error('[PROCESS-ASYNC] 🛑 attachment extraction failed', doc.clientFileId, err);
+        }
+      }
+
+      await patientService.updateFileForPatient(silknotePatientUuid, doc, silknoteUserUuid);
+      emitToPatientRoom(silknotePatientUuid, 'fileStatus', {
+        clientFileId: doc.clientFileId,
+        silknotePatientUuid,
+        status: 'stored',
+        stage : 'conversion_complete',
+        conversionMethod: doc.conversion?.method
+      });
+      for (const attachment of attachments) {
+        emitToPatientRoom(silknotePatientUuid, 'fileStatus', {
+          clientFileId: attachment.clientFileId,
+          silknoteDocumentUuid: attachment.silknoteDocumentUuid,
+          silknotePatientUuid,
+          attachedTo: doc.clientFileId,
+          status: 'stored',
+          stage: 'storage_complete'
+        });
+      }
+    }
+
+    // 0d. hash files that did not come through quickStore, or were replaced by their decrypted PDF,
+    // so every ingest path gets the exact-match duplicate check
+    if (!doc.hash) {
+      await hashStoredDocument(doc, patient.fileSet || []);
+      await patientService.updateFileForPatient(silknotePatientUuid, doc, silknoteUserUuid);
+    }
+
+    // 1. page count
+    const pageCount = await storageService.getPdfPageCount(doc.storedPath);
+    if (pageCount) {
+      doc.pageCount = pageCount;
+      // Ensure patientService.updateFileForPatient exists and handles this update correctly
+      await patientService.updateFileForPatient(silknotePatientUuid, doc, silknoteUserUuid);
+    }
+
+    // 2. queue full processing (vector / OpenAI)
+    await documentService.queueDocument({
+      filePath       : doc.storedPath,
+      patientContext : patient,
+      partialDoc     : doc,
+      priority
+    });
+
+  } catch (err: any) {
+    console.error('[PROCESS-ASYNC] 🛑', doc.clientFileId, err);
+    emitToPatientRoom(silknotePatientUuid, 'fileStatus', {
+      clientFileId: doc.clientFileId,
+      silknotePatientUuid,
+      status: 'error',
+      stage : 'async_processing_failed',
+      error : err.message || 'unknown error'
+    });
+  }
+
+  for (const attachment of attachments) {
+    await processStoredDocument(attachment, patient, silknoteUserUuid, [], priority);
+  }
+}
+
 // POST /:silknotePatientUuid/process - handle file upload with multer
 router.post(
   '/:silknotePatientUuid/process',
@@ -278,10 +429,16 @@ router.post(
     const silknotePatientUuid = req.params.silknotePatientUuid!;
     const files          = req.files as Express.Multer.File[];
     const rawClientIds   = req.body.clientFileId || [];
+    const rawPasswords   = req.body.password || [];     // Per file, in the order of the files
+    const globalPassword = req.body.globalPassword;      // For every encrypted PDF in the batch
+    const priority       = req.body.priority ?? defaultUploadPriority(req.body.metadata);
 
     if (!files?.length) {
       return res.status(400).json({ success: false, error: 'No files uploaded' });
     }
+    if (!isProcessingPriority(priority)) {
+      return res.status(400).json({ success: false, error: `priority must be one of: ${PROCESSING_PRIORITIES.join(', ')}` });
+    }
 
     // Get user UUID from auth middleware (aligned with other endpoints)
     const silknoteUserUuid = getSilknoteUserUuid(req);
@@ -297,6 +454,7 @@ router.post(
 
     /* ---------------- INITIAL FAST PASS ---------------- */
     const docsForAsync: MedicalDocument[] = [];
+    const passwordsByClientFileId = new Map<string, string[]>();
 
     // Process all files in parallel instead of sequentially
     const filePromises = files.map(async (file, i) => {
@@ -316,6 +474,8 @@ router.post(
 
       try {
         const initialDoc = await quickStore(file, clientFileId, patient, silknoteUserUuid);
+        const filePassword = Array.isArray(rawPasswords) ? rawPasswords[i] : rawPasswords;
+        passwordsByClientFileId.set(clientFileId, [filePassword, globalPassword].filter(password => typeof password === 'string' && password));
         return initialDoc;
       } catch (err: any) {
         console.error('[PROCESS] 🛑 Sync failure for', file.originalname, err);
@@ -349,34 +509,7 @@ router.post(
 
     /* --------------- BACKGROUND HEAVY WORK -------------- */
     for (const doc of docsForAsync) {
-      (async () => {
-        try {
-          // 1. page count
-          const pageCount = await storageService.getPdfPageCount(doc.storedPath);
-          if (pageCount) {
-            doc.pageCount = pageCount;
-            // Ensure patientService.updateFileForPatient exists and handles this update correctly
-            await patientService.updateFileForPatient(silknotePatientUuid, doc, silknoteUserUuid);
-          }
-
-          // 2. queue full processing (vector / OpenAI)
-          await documentService.queueDocument({
-            filePath       : doc.storedPath,
-            patientContext : patient,
-            partialDoc     : doc
-          });
-
-        } catch (err: any) {
-          console.error('[PROCESS-ASYNC] 🛑', doc.clientFileId, err);
-          emitToPatientRoom(silknotePatientUuid, 'fileStatus', {
-            clientFileId: doc.clientFileId,
-            silknotePatientUuid,
-            status: 'error',
-            stage : 'async_processing_failed',
-            error : err.message || 'unknown error'
-          });
-        }
-      })(); // fire-and-forget
+      void processStoredDocument(doc, patient, silknoteUserUuid, passwordsByClientFileId.get(doc.clientFileId), priority); // fire-and-forget
     }
     return; // Explicitly return after initiating background work
   }
@@ -660,6 +793,258 @@ router.delete('/:patientId/case-summary', asyncHandler(async (req: Request, res:
     }
 }));
 
+// GET /:silknotePatientUuid/timeline?types=SURGERY,IMAGING&from=2023-01-01&to=2023-12-31
+// The patient's deduplicated clinical chronology, each event linked to its source pages
+router.get('/:silknotePatientUuid/timeline', asyncHandler(async (req: Request, res: Response) => {
+    const { silknotePatientUuid } = req.params;
+    const silknoteUserUuid = getSilknoteUserUuid(req);
+    if (!silknoteUserUuid) {
+        return res.status(400).json({ error: 'Missing required header: silknote-user-uuid' });
+    }
+
+    const types = typeof req.query.types === 'string'
+        ? req.query.types.split(',').map(type => type.trim().toUpperCase()).filter(Boolean)
+        : [];
+    const unknownTypes = types.filter(type => !(TIMELINE_EVENT_TYPES as string[]).includes(type));
+    if (unknownTypes.length > 0) {
+        return res.status(400).json({ error: `Unknown event type(s): ${unknownTypes.join(', ')}`, validTypes: TIMELINE_EVENT_TYPES });
+    }
+    const bounds: { from?: string; to?: string } = {};
+    for (const bound of ['from', 'to'] as const) {
+        const value = req.query[bound];
+        if (value === undefined) continue;
+        const date = typeof value === 'string' ? parseTimelineDate(value) : null;
+        if (!date) {
+            return res.status(400).json({ error: `"${bound}" must be a date such as 2023-06-30` });
+        }
+        bounds[bound] = date;
+    }
+
+    const patient = await patientService.getPatientById(silknotePatientUuid, silknoteUserUuid);
+    if (!patient) {
+        return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    const timeline = await getPatientTimeline(silknoteUserUuid, silknotePatientUuid);
+    return res.json(filterTimeline(timeline, { types: types as typeof TIMELINE_EVENT_TYPES, ...bounds }));
+}));
+
+// GET /:silknotePatientUuid/work-capacity - WorkCover certificates in order, with gaps in
+// certification, capacity changes and conflicts between certifiers
+router.get('/:silknotePatientUuid/work-capacity', asyncHandler(async (req: Request, res: Response) => {
+    const { silknotePatientUuid } = req.params;
+    const silknoteUserUuid = getSilknoteUserUuid(req);
+    if (!silknoteUserUuid) {
+        return res.status(400).json({ error: 'Missing required header: silknote-user-uuid' });
+    }
+
+    const patient = await patientService.getPatientById(silknotePatientUuid, silknoteUserUuid);
+    if (!patient) {
+        return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    return res.json(await getWorkCapacitySeries(silknoteUserUuid, silknotePatientUuid));
+}));
+
+// GET /:silknotePatientUuid/medications - Reconciled medication list with changes over time,
+// allergies, allergy conflicts and duplicate therapy
+router.get('/:silknotePatientUuid/medications', asyncHandler(async (req: Request, res: Response) => {
+    const { silknotePatientUuid } = req.params;
+    const silknoteUserUuid = getSilknoteUserUuid(req);
+    if (!silknoteUserUuid) {
+        return res.status(400).json({ error: 'Missing required header: silknote-user-uuid' });
+    }
+
+    const patient = await patientService.getPatientById(silknotePatientUuid, silknoteUserUuid);
+    if (!patient) {
+        return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    return res.json(await getMedicationReconciliation(silknoteUserUuid, silknotePatientUuid));
+}));
+
+// POST /:silknotePatientUuid/documents/:documentId/duplicate - Resolve a flagged duplicate:
+// 'merge' removes it and keeps the original, 'dismiss' keeps it as a separate document
+router.post('/:silknotePatientUuid/documents/:documentId/duplicate', asyncHandler(async (req: Request, res: Response) => {
+    const { silknotePatientUuid, documentId } = req.params;
+    const { action } = req.body;
+    const silknoteUserUuid = getSilknoteUserUuid(req);
+    if (!silknoteUserUuid) {
+        return res.status(400).json({ error: 'Missing required header: silknote-user-uuid' });
+    }
+    if (action !== 'merge' && action !== 'dismiss') {
+        return res.status(400).json({ error: "action must be 'merge' or 'dismiss'" });
+    }
+
+    const patient = await patientService.getPatientById(silknotePatientUuid, silknoteUserUuid);
+    if (!patient) {
+        return res.status(404).json({ error: 'Patient not found' });
+    }
+    const document = await storageService.getDocument(silknoteUserUuid, silknotePatientUuid, documentId);
+    if (!document) {
+        return res.status(404).json({ error: 'Document not found in patient file set' });
+    }
+    if (!document.duplicateOf) {
+        return res.status(409).json({ error: 'Document is not flagged as a duplicate' });
+    }
+
+    const updatedDocument = await resolveDuplicate(silknoteUserUuid, document, action);
+    if (!updatedDocument) {
+        emitToPatientRoom(silknotePatientUuid, 'fileDeleted', { clientFileId: documentId, silknotePatientUuid, message: 'Merged into its original document' });
+        return res.json({ success: true, action, keptClientFileId: document.duplicateOf.clientFileId });
+    }
+
+    emitToPatientRoom(silknotePatientUuid, 'documentUpdated', {
+        clientFileId: documentId,
+        silknotePatientUuid,
+        updates: { duplicateOf: updatedDocument.duplicateOf, alerts: updatedDocument.alerts }
+    });
+    // A dismissed duplicate was skipped by the vector store, so finish its ingestion now
+    if (updatedDocument.status === 'complete') {
+        await reprocessDocument({ document: updatedDocument, patientContext: patient, forceStage: 'extracting' });
+    }
+    return res.json({ success: true, action, document: updatedDocument });
+}));
+
+// POST /:silknotePatientUuid/documents/:documentId/password - Supply the password for an encrypted
+// PDF parked with status 'password_required'; once it opens, processing continues
+router.post('/:silknotePatientUuid/documents/:documentId/password', asyncHandler(async (req: Request, res: Response) => {
+    const { silknotePatientUuid, documentId } = req.params;
+    const { password } = req.body;
+    const silknoteUserUuid = getSilknoteUserUuid(req);
+    if (!silknoteUserUuid) {
+        return res.status(400).json({ error: 'Missing required header: silknote-user-uuid' });
+    }
+    if (typeof password !== 'string' || !password) {
+        return res.status(400).json({ error: 'password must be a non-empty string' });
+    }
+
+    const patient = await patientService.getPatientById(silknotePatientUuid, silknoteUserUuid);
+    if (!patient) {
+        return res.status(404).json({ error: 'Patient not found' });
+    }
+    const document = await storageService.getDocument(silknoteUserUuid, silknotePatientUuid, documentId);
+    if (!document) {
+        return res.status(404).json({ error: 'Document not found in patient file set' });
+    }
+    if (document.status !== 'password_required') {
+        return res.status(409).json({ error: 'Document is not waiting for a password' });
+    }
+
+    const { outcome, document: decrypted } = await decryptStoredPdf(document, [password]);
+    if (outcome === 'password_required') {
+        return res.status(422).json({ error: 'Incorrect password' });
+    }
+
+    await patientService.updateFileForPatient(silknotePatientUuid, decrypted, silknoteUserUuid);
+    emitToPatientRoom(silknotePatientUuid, 'fileStatus', {
+        clientFileId: documentId,
+        silknotePatientUuid,
+        status: 'stored',
+        stage: 'decryption_complete'
+    });
+    void processStoredDocument(decrypted, patient, silknoteUserUuid); // fire-and-forget
+    return res.status(202).json({ success: true, document: decrypted });
+}));
+
+// GET /:silknotePatientUuid/documents/grouping-suggestions - Documents that look like pages of
+// one document: numbered filename sequences and images uploaded together
+router.get('/:silknotePatientUuid/documents/grouping-suggestions', asyncHandler(async (req: Request, res: Response) => {
+    const { silknotePatientUuid } = req.params;
+    const silknoteUserUuid = getSilknoteUserUuid(req);
+    if (!silknoteUserUuid) {
+        return res.status(400).json({ error: 'Missing required header: silknote-user-uuid' });
+    }
+
+    const patient = await patientService.getPatientById(silknotePatientUuid, silknoteUserUuid);
+    if (!patient) {
+        return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    const documents = await storageService.getDocumentsForPatient(silknoteUserUuid, silknotePatientUuid);
+    return res.json({ suggestions: suggestGroupings(documents) });
+}));
+
+// POST /:silknotePatientUuid/documents/merge - Combine documents into one new PDF document,
+// with pages in the order of the parts, and queue it for processing. Parts are client file
+// IDs or { clientFileId, pages }; the sources are kept hidden.
+router.post('/:silknotePatientUuid/documents/merge', asyncHandler(async (req: Request, res: Response) => {
+    const { silknotePatientUuid } = req.params;
+    const { parts: rawParts, title } = req.body;
+    const silknoteUserUuid = getSilknoteUserUuid(req);
+    if (!silknoteUserUuid) {
+        return res.status(400).json({ error: 'Missing required header: silknote-user-uuid' });
+    }
+    if (process.env['VSRX_MODE'] === 'true') {
+        return res.status(405).json({ error: 'Merged documents cannot be stored in VSRX mode.' });
+    }
+
+    const parts: MergePart[] = Array.isArray(rawParts)
+        ? rawParts.map((part: any) => (typeof part === 'string' ? { clientFileId: part } : part))
+        : [];
+    const validPages = (pages: unknown) => pages === undefined
+        || (Array.isArray(pages) && pages.length > 0 && pages.every(page => Number.isInteger(page) && page > 0));
+    if (parts.length === 0 || !parts.every(part => typeof part?.clientFileId === 'string' && validPages(part.pages))) {
+        return res.status(400).json({ error: 'parts must be a list of client file IDs or { clientFileId, pages } with 1-based page numbers' });
+    }
+    const sourceIds = [...new Set(parts.map(part => part.clientFileId))];
+    if (sourceIds.length < 2) {
+        return res.status(400).json({ error: 'At least two documents are needed to merge' });
+    }
+    if (title !== undefined && typeof title !== 'string') {
+        return res.status(400).json({ error: 'title must be a string' });
+    }
+
+    const patient = await patientService.getPatientById(silknotePatientUuid, silknoteUserUuid);
+    if (!patient) {
+        return res.status(404).json({ error: 'Patient not found' });
+    }
+    const sources: MedicalDocument[] = [];
+    for (const clientFileId of sourceIds) {
+        const document = await storageService.getDocument(silknoteUserUuid, silknotePatientUuid, clientFileId);
+        if (!document) {
+            return res.status(404).json({ error: `Document ${clientFileId} not found in patient file set` });
+        }
+        if (!isMergeable(document)) {
+            return res.status(409).json({ error: `Document ${clientFileId} is part of another document and cannot be merged` });
+        }
+        if (processingQueue.has(clientFileId) || !isSettled(document)) {
+            return res.status(409).json({ error: `Document ${clientFileId} has not finished processing and cannot be merged yet` });
+        }
+        sources.push(document);
+    }
+    const outside = parts.find(part => {
+        const pageCount = sources.find(document => document.clientFileId === part.clientFileId)!.pageCount || 0;
+        return pageCount > 0 && part.pages?.some(page => page > pageCount);
+    });
+    if (outside) {
+        return res.status(400).json({ error: `Pages requested from ${outside.clientFileId} are outside the document` });
+    }
+
+    const { document, sources: hidden, removedChildren } = await mergeDocuments(silknoteUserUuid, silknotePatientUuid, sources, parts, title);
+
+    for (const clientFileId of removedChildren) {
+        emitToPatientRoom(silknotePatientUuid, 'fileDeleted', { clientFileId, silknotePatientUuid, message: 'Its bundle was merged into another document' });
+    }
+    for (const source of hidden) {
+        emitToPatientRoom(silknotePatientUuid, 'documentUpdated', {
+            clientFileId: source.clientFileId,
+            silknotePatientUuid,
+            updates: { status: source.status, mergedInto: source.mergedInto }
+        });
+    }
+    emitToPatientRoom(silknotePatientUuid, 'fileStatus', {
+        clientFileId: document.clientFileId,
+        silknoteDocumentUuid: document.silknoteDocumentUuid,
+        silknotePatientUuid,
+        status: 'stored',
+        stage: 'storage_complete'
+    });
+
+    await documentService.queueDocument({ filePath: document.storedPath, patientContext: patient, partialDoc: document, priority: 'interactive' });
+    return res.status(201).json({ success: true, document });
+}));
+
 // POST /:silknotePatientUuid/activate - Set activatedUse status for a patient
 router.post('/:silknotePatientUuid/activate', async (req: Request, res: Response) => {
   const { silknotePatientUuid } = req.params
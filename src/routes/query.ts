@@ -1,15 +1,19 @@
 import type { Request, Response, Router as ExpressRouter } from 'express';
 import { Router } from 'express';
-// import { processQuery } from './query/query-processor.js';
-import type { QueryRequest } from '../shared/types';
+import { findUnknownDocuments, findUnresolvedDuplicates, processQuery } from '../services/queryService';
+import type { QueryRequest, QueryResponse as QueryResult } from '../shared/types';
+import { getSilknoteUserUuid } from '../middleware/auth';
 import config from '../config.js';
 
 const router: ExpressRouter = Router();
 
-export interface QueryResponse {
+export interface QueryResponse extends Partial<QueryResult> {
   success: boolean;
   error?: string;
-  response?: string;
+}
+
+function isOptionalNumberInRange(value: unknown, min: number, max: number): boolean {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max);
 }
 
 router.post('/', async (
@@ -17,9 +21,12 @@ router.post('/', async (
   res: Response<QueryResponse>
 ) => {
   try {
-    const { query, clientFileIds } = req.body as QueryRequest;
+    const { query, silknotePatientUuid, clientFileIds, context } = req.body as QueryRequest;
 
-    if (!query || !clientFileIds || !Array.isArray(clientFileIds)) {
+    if (!query || !silknotePatientUuid || !clientFileIds || !Array.isArray(clientFileIds) ||
+        !clientFileIds.every(id => typeof id === 'string') ||
+        !isOptionalNumberInRange(context?.maxResults, 1, 100) ||
+        !isOptionalNumberInRange(context?.minConfidence, 0, 1)) {
       res.status(400).json({
         success: false,
         error: config.errors.invalidInput
@@ -27,22 +34,53 @@ router.post('/', async (
       return;
     }
 
-    // const result = await processQuery(query, {
-    //   clientFileIds,
-    //   maxResults: context?.maxResults,
-    //   minConfidence: context?.minConfidence
-    // });
+    let silknoteUserUuid: string;
+    try {
+      silknoteUserUuid = getSilknoteUserUuid(req);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : config.errors.invalidInput
+      });
+      return;
+    }
+
+    const unknown = await findUnknownDocuments(silknoteUserUuid, silknotePatientUuid, clientFileIds);
+    if (unknown.length > 0) {
+      res.status(404).json({
+        success: false,
+        error: `Documents not found for patient: ${unknown.join(', ')}`
+      });
+      return;
+    }
+
+    const duplicates = await findUnresolvedDuplicates(silknoteUserUuid, silknotePatientUuid, clientFileIds);
+    if (duplicates.length > 0) {
+      res.status(409).json({
+        success: false,
+        error: `Documents are unresolved duplicates; merge or dismiss them first: ${duplicates
+          .map(document => `${document.clientFileId} (duplicate of ${document.duplicateOf!.clientFileId})`).join(', ')}`
+      });
+      return;
+    }
+
+    const result = await processQuery(silknoteUserUuid, {
+      query,
+      silknotePatientUuid,
+      clientFileIds,
+      context
+    });
 
     res.json({
       success: true,
-      response: "PLACEHOLDER"
+      ...result
     });
 
   } catch (error) {
     console.log('Query processing error:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : config.errors.serverError
+      error: error instanceof Error ? error.message : config.errors.queryFailed
     });
   }
 });
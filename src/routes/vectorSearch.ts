@@ -1,7 +1,7 @@
 // server/src/routes/vectorSearch.ts
 
-import { Router } from 'express'
-import { AzureOpenAI } from 'openai'
+import { Router, Request, Response } from 'express'
+import { v4 as uuidv4 } from 'uuid'
 import config from '../config'
 import * as patientService from '../services/patientService'
 import { findEnhancedPrompt } from '../shared/query-mappings'
@@ -9,8 +9,13 @@ import { getUserUuid } from '../middleware/auth'
 import { storageService } from '../utils/storage'
 import * as vectorStore from '../services/vectorStore'
 import { VectorStoreError } from '../shared/types'
+import { getLlmForOperation } from '../services/llm/llmProvider'
+import { queryChunkIndexWithCitations } from '../services/retrieval/chunkIndex'
+import { createSocketSink, streamQuery } from '../services/queryStream'
+import { createLogger } from '../utils/logger'
 
 const router: Router = Router()
+const logger = createLogger('VECTOR_SEARCH')
 
 
 
@@ -47,11 +52,8 @@ router.post('/:silknotePatientUuid/query', async (req, res) => {
       return res.status(404).json({ error: 'No vector store found for patient' })
     }
 
-    const openai = new AzureOpenAI({
-      apiKey: config.azure.azureOpenAI.key,
-      endpoint: config.azure.azureOpenAI.endpoint,
-      apiVersion: '2024-05-01-preview',
-    })
+    const { provider, model } = getLlmForOperation('query')
+    const openai = provider.getClient()
 
     // Just create thread and start run
     const thread = await openai.beta.threads.create()
@@ -62,6 +64,7 @@ router.post('/:silknotePatientUuid/query', async (req, res) => {
 
     const run = await openai.beta.threads.runs.create(thread.id, {
       assistant_id: patient.vectorStore.assistantId,
+      model,
     })
 
     // Return immediately with thread and run IDs
@@ -93,17 +96,19 @@ router.post('/:silknotePatientUuid/clear', async (req, res) => {
       return res.status(404).json({ error: 'Patient not found' })
     }
 
+    // Chunk index entries are rebuilt from processed documents on the next query
+    const clearedChunks = await storageService.deleteVectorEntries(silknoteUserUuid, silknotePatientUuid)
+
     if (!patient.vectorStore) {
+      if (clearedChunks > 0) {
+        return res.json({ success: true, message: `Cleared ${clearedChunks} chunk index entries` })
+      }
       return res.status(404).json({ error: 'No vector store found for patient' })
     }
 
     const { assistantId, vectorStoreIndex } = patient.vectorStore
 
-    const openai = new AzureOpenAI({
-      apiKey: config.azure.azureOpenAI.key,
-      endpoint: config.azure.azureOpenAI.endpoint,
-      apiVersion: '2024-05-01-preview',
-    })
+    const openai = getLlmForOperation('query').provider.getClient()
 
     // Delete assistant if exists
     if (assistantId) {
@@ -137,170 +142,62 @@ router.post('/:silknotePatientUuid/clear', async (req, res) => {
   }
 })
 
-// router.get('/:silknotePatientUuid/stream', async (req, res) => {
-//   const { threadId, runId } = req.query
-//   const { silknotePatientUuid } = req.params
-
-//   if (!threadId || !runId) {
-//     return res.status(400).json({ error: 'Missing threadId or runId' })
-//   }
-
-//   // Set up SSE headers
-//   res.setHeader('Content-Type', 'text/event-stream')
-//   res.setHeader('Cache-Control', 'no-cache')
-//   res.setHeader('Connection', 'keep-alive')
-
-//   try {
-//     const patient = await patientService.getPatientById(silknotePatientUuid)
-//     if (!patient?.vectorStore?.assistantId) {
-//       res.write(`data: ${JSON.stringify({ type: 'error', error: 'No vector store found' })}\n\n`)
-//       return res.end()
-//     }
-
-//     const openai = new AzureOpenAI({
-//       apiKey: config.azure.azureOpenAI.key,
-//       endpoint: config.azure.azureOpenAI.endpoint,
-//       apiVersion: '2024-05-01-preview',
-//     })
-
-//     // Poll for response
-//     let attempts = 0
-//     const maxAttempts = 60
-//     const pollInterval = setInterval(async () => {
-//       try {
-//         const runStatus = await openai.beta.threads.runs.retrieve(
-//           threadId as string,
-//           runId as string
-//         )
-
-//         if (runStatus.status === 'completed') {
-//           clearInterval(pollInterval)
-          
-//           const messages = await openai.beta.threads.messages.list(threadId as string)
-//           const lastMessage = messages.data.find(m => m.role === 'assistant')
-
-//           if (lastMessage) {
-//             const textContent = lastMessage.content.find(
-//               (c): c is TextContentBlock => c.type === 'text'
-//             )
-
-//             if (textContent?.text) {
-//               // Send the main response
-//               res.write(`data: ${JSON.stringify({ 
-//                 type: 'content',
-//                 content: textContent.text.value 
-//               })}\n\n`)
-
-//               // Send citations if any
-//               if (textContent.text.annotations) {
-//                 for (const annotation of textContent.text.annotations) {
-//                   if (annotation.type === 'file_citation') {
-//                     const fileMetadata = await openai.files.retrieve(
-//                       annotation.file_citation.file_id
-//                     )
-                    
-//                     // Find the document that corresponds to this file in the patient's files
-//                     const document = patient.fileSet.find(
-//                       (doc: MedicalDocument) => doc.clientFileId === fileMetadata.filename.split('.')[0] || 
-//                              doc.originalName === fileMetadata.filename
-//                     )
-                    
-//                     // Get the page content from the document if possible
-//                     let pageImage = ''
-//                     let pageNumber = 1
-                    
-//                     if (document && document.content.pageImages.length > 0) {
-//                       // Default to the first page, but ideally we would identify the specific page
-//                       pageImage = document.content.pageImages[0]
-                      
-//                       // Try to find the page that contains the citation text
-//                       // This is a simplification - in a real implementation we'd use the Azure OCR 
-//                       // results to locate the exact position
-//                       if (document.content.analysisResult) {
-//                         // Search through pages to find citation text
-//                         const pages = document.content.analysisResult.pages || []
-                        
-//                         for (let i = 0; i < pages.length; i++) {
-//                           // For Azure Form Recognizer, we need to check the content
-//                           const pageContent = document.content.analysisResult.content || ''
-//                           if (pageContent.includes(annotation.text)) {
-//                             pageNumber = i + 1
-//                             if (document.content.pageImages.length > i) {
-//                               pageImage = document.content.pageImages[i]
-//                             }
-//                             break
-//                           }
-//                         }
-//                       }
-//                     }
-                    
-//                     res.write(`data: ${JSON.stringify({
-//                       type: 'citation',
-//                       citation: {
-//                         quote: annotation.text,
-//                         fileName: document?.originalName || fileMetadata.filename,
-//                         fileId: annotation.file_citation.file_id,
-//                         documentId: document?.clientFileId || '',
-//                         pageNumber: pageNumber,
-//                         pageImage: pageImage,
-//                         citationIndex: {
-//                           start: annotation.start_index,
-//                           end: annotation.end_index
-//                         },
-//                         // Include extra information to help with highlighting
-//                         extractedQuote: annotation.text,
-//                         score: 1.0,
-//                         fullContent: document?.content?.analysisResult?.content || ''
-//                       }
-//                     })}\n\n`)
-//                   }
-//                 }
-//               }
-//             }
-//           }
-
-//           res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`)
-//           res.end()
-//         } else if (runStatus.status === 'failed' || runStatus.status === 'cancelled') {
-//           clearInterval(pollInterval)
-//           res.write(`data: ${JSON.stringify({ 
-//             type: 'error',
-//             error: `Assistant run ${runStatus.status}`
-//           })}\n\n`)
-//           res.end()
-//         }
-
-//         attempts++
-//         if (attempts >= maxAttempts) {
-//           clearInterval(pollInterval)
-//           res.write(`data: ${JSON.stringify({ 
-//             type: 'error',
-//             error: 'Query timed out after 60 seconds'
-//           })}\n\n`)
-//           res.end()
-//         }
-//       } catch (error) {
-//         clearInterval(pollInterval)
-//         res.write(`data: ${JSON.stringify({ 
-//           type: 'error',
-//           error: error instanceof Error ? error.message : 'Unknown error'
-//         })}\n\n`)
-//         res.end()
-//       }
-//     }, 1000)
-
-//     // Handle client disconnect
-//     res.on('close', () => {
-//       clearInterval(pollInterval)
-//     })
-//   } catch (error) {
-//     res.write(`data: ${JSON.stringify({ 
-//       type: 'error',
-//       error: error instanceof Error ? error.message : 'Unknown error'
-//     })}\n\n`)
-//     res.end()
-//   }
-// })
+// Streams an answer token by token. GET (for EventSource) reads the query string,
+// POST reads the body. With transport=socket the answer is streamed only to the
+// patient's socket room and the request returns the streamId straight away.
+async function handleStreamQuery(req: Request, res: Response): Promise<void> {
+  const { silknotePatientUuid } = req.params
+  const params = { ...req.query, ...req.body }
+  const { query, actualPrompt, outputFormat = 'text', transport = 'sse' } = params
+  const clientFileIds = Array.isArray(params.clientFileIds)
+    ? params.clientFileIds.map(String)
+    : typeof params.clientFileIds === 'string' ? params.clientFileIds.split(',') : undefined
+
+  if (!silknotePatientUuid || !query) {
+    res.status(400).json({ error: 'Missing required parameters (patient UUID and query)' })
+    return
+  }
+
+  try {
+    const silknoteUserUuid = getUserUuid(req)
+    const userQuery = query.toString()
+    const effectivePrompt = actualPrompt ? actualPrompt.toString() : findEnhancedPrompt(userQuery) || userQuery
+
+    if (transport === 'socket') {
+      const streamId = uuidv4()
+      streamQuery({
+        silknotePatientUuid,
+        silknoteUserUuid,
+        query: effectivePrompt,
+        outputFormat: outputFormat.toString(),
+        clientFileIds,
+        streamId
+      }, [createSocketSink(silknotePatientUuid)]).catch(error => {
+        logger.error(`Socket stream ${streamId} failed:`, error)
+      })
+      res.status(202).json({ success: true, streamId })
+      return
+    }
+
+    await patientService.streamSearchQuery(silknotePatientUuid, effectivePrompt, res, silknoteUserUuid, {
+      outputFormat: outputFormat.toString(),
+      clientFileIds
+    })
+  } catch (error) {
+    logger.error('Error streaming query:', error)
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return
+    }
+    res.end()
+  }
+}
+
+router.get('/:silknotePatientUuid/stream', handleStreamQuery)
+router.post('/:silknotePatientUuid/stream', handleStreamQuery)
 
 // Route to handle single, full query response
 router.post('/:silknotePatientUuid/query-full', async (req, res) => {
@@ -316,6 +213,15 @@ router.post('/:silknotePatientUuid/query-full', async (req, res) => {
     // Get user UUID from auth middleware
     const silknoteUserUuid = getUserUuid(req);
 
+    // The self-hosted chunk index needs no assistant or OpenAI vector store
+    if (config.retrieval.backend === 'CHUNK_INDEX') {
+      const userQuery = query.toString();
+      const effectivePrompt = actualPrompt ? actualPrompt.toString() : findEnhancedPrompt(userQuery) || userQuery;
+      const result = await queryChunkIndexWithCitations(silknotePatientUuid, effectivePrompt, silknoteUserUuid);
+      res.json(result);
+      return;
+    }
+
     // Validate vector store sync before proceeding
     console.log(`[ROUTE - /query-full] Validating vector store sync for patient ${silknotePatientUuid}`);
     const validationResult = await storageService.validateVectorStoreSync(silknoteUserUuid, silknotePatientUuid);
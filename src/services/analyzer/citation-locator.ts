@@ -0,0 +1,150 @@
+import type { AnalyzeResult, DocumentPage } from '@azure/ai-form-recognizer'
+import type { CitationLocation } from '../../shared/types'
+import { findAllTextLocations, getPolygonBoundingBox } from './enrich-extraction'
+
+const MIN_QUOTE_LENGTH = 3
+const MIN_TOKEN_COVERAGE = 0.6 // Share of quote tokens a line window must contain for a fuzzy match
+const MAX_WINDOW_LINES = 12
+
+type BoundingBox = CitationLocation['boundingBoxes'][number]
+
+function normalize(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+}
+
+function tokens(text: string): string[] {
+  return normalize(text).match(/[a-z0-9]+/g) || []
+}
+
+function lineBoxes(page: DocumentPage, indices: number[]): BoundingBox[] {
+  const boxes: BoundingBox[] = []
+  for (const i of indices) {
+    const box = getPolygonBoundingBox(page.lines?.[i]?.polygon)
+    if (box) boxes.push(box)
+  }
+  return boxes
+}
+
+// Exact match within a single word or line
+function matchWithinLine(quote: string, analysisResult: AnalyzeResult, page: DocumentPage): BoundingBox[] {
+  const collapsed = quote.replace(/\s+/g, ' ').trim()
+  const seen = new Set<string>()
+  return findAllTextLocations(collapsed, analysisResult, page)
+    .map(location => location.boundingBox)
+    .filter(box => {
+      const key = `${box.x},${box.y},${box.width},${box.height}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+// Exact (normalized) match that may start or end mid-line and run across lines
+function matchAcrossLines(quote: string, page: DocumentPage): BoundingBox[] {
+  const lines = page.lines || []
+  let joined = ''
+  const ranges = lines.map(line => {
+    if (joined) joined += ' '
+    const start = joined.length
+    joined += normalize(line.content || '')
+    return { start, end: joined.length }
+  })
+
+  const needle = normalize(quote)
+  const index = joined.indexOf(needle)
+  if (index < 0) return []
+  const end = index + needle.length
+  const hit = ranges.flatMap((range, i) => (range.start < end && range.end > index ? [i] : []))
+  return lineBoxes(page, hit)
+}
+
+// Window of consecutive lines covering most of the quote's tokens, for paraphrased quotes
+function matchFuzzy(quote: string, page: DocumentPage): { boxes: BoundingBox[]; coverage: number } {
+  const lines = page.lines || []
+  const quoteTokens = new Set(tokens(quote))
+  if (quoteTokens.size === 0) return { boxes: [], coverage: 0 }
+  const lineTokens = lines.map(line => new Set(tokens(line.content || '')))
+
+  let best = { start: -1, end: -1, coverage: 0 }
+  for (let start = 0; start < lines.length; start++) {
+    if (![...lineTokens[start]].some(token => quoteTokens.has(token))) continue
+    const covered = new Set<string>()
+    for (let end = start; end < Math.min(lines.length, start + MAX_WINDOW_LINES); end++) {
+      const before = covered.size
+      lineTokens[end].forEach(token => { if (quoteTokens.has(token)) covered.add(token) })
+      if (end > start && covered.size === before) break
+      const coverage = covered.size / quoteTokens.size
+      if (coverage > best.coverage) best = { start, end, coverage }
+    }
+  }
+
+  if (best.start < 0) return { boxes: [], coverage: 0 }
+  const indices = Array.from({ length: best.end - best.start + 1 }, (_, i) => best.start + i)
+  return { boxes: lineBoxes(page, indices), coverage: best.coverage }
+}
+
+/**
+ * Finds the page and line polygons of a quoted passage in a document's layout.
+ * Tries an exact single-line match, then an exact match across lines, then the line
+ * window sharing the most words with the quote. Pages are searched in order, with
+ * preferredPage (e.g. the page of the retrieved chunk) first.
+ * Bounding boxes are in the page units of the analysis result.
+ */
+export function locateQuote(quote: string, analysisResult: AnalyzeResult, preferredPage?: number): CitationLocation | null {
+  if (!quote || normalize(quote).length < MIN_QUOTE_LENGTH || !analysisResult?.pages?.length) return null
+
+  const pages = [...analysisResult.pages].sort((a, b) =>
+    (a.pageNumber === preferredPage ? -1 : 0) - (b.pageNumber === preferredPage ? -1 : 0)
+  )
+
+  for (const page of pages) {
+    const boxes = matchWithinLine(quote, analysisResult, page)
+    if (boxes.length > 0) return { pageNumber: page.pageNumber, boundingBoxes: boxes }
+  }
+  for (const page of pages) {
+    const boxes = matchAcrossLines(quote, page)
+    if (boxes.length > 0) return { pageNumber: page.pageNumber, boundingBoxes: boxes }
+  }
+
+  let best: { pageNumber: number; boxes: BoundingBox[]; coverage: number } | null = null
+  for (const page of pages) {
+    const match = matchFuzzy(quote, page)
+    if (match.coverage >= MIN_TOKEN_COVERAGE && (!best || match.coverage > best.coverage)) {
+      best = { pageNumber: page.pageNumber, ...match }
+    }
+  }
+  return best ? { pageNumber: best.pageNumber, boundingBoxes: best.boxes } : null
+}
+
+/**
+ * Picks the sentence of a retrieved passage that best supports a claim, so a long
+ * retrieval chunk can be narrowed to a short quote before it is located.
+ */
+export function selectSupportingQuote(passage: string, claim: string): string {
+  const sentences = passage
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length >= MIN_QUOTE_LENGTH)
+  if (sentences.length === 0) return passage.trim()
+
+  const claimTokens = new Set(tokens(claim))
+  let best = sentences[0]
+  let bestScore = -1
+  for (const sentence of sentences) {
+    const sentenceTokens = new Set(tokens(sentence))
+    let shared = 0
+    sentenceTokens.forEach(token => { if (claimTokens.has(token)) shared++ })
+    const score = sentenceTokens.size > 0 ? shared / Math.sqrt(sentenceTokens.size) : 0
+    if (score > bestScore) {
+      best = sentence
+      bestScore = score
+    }
+  }
+  return best
+}
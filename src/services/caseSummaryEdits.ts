@@ -0,0 +1,230 @@
+/**
+ * Case Summary Edits
+ *
+ * Tracks which case summary fields a clinician has corrected or signed off, so that
+ * regeneration keeps them:
+ * - edited and locked values survive regeneration; the generated value is still kept
+ *   alongside so the edit can be reverted
+ * - when a regeneration of an edited field produces something other than the value the
+ *   edit replaced, new evidence disagrees with the edit and a conflict is raised
+ * - every clinician change is appended to the summary's audit trail
+ */
+
+import { CaseSummaryType, CaseSummaryZodSchema } from '../shared/case-summary-types';
+import {
+  CaseSummaryApiResponse,
+  CaseSummaryAuditAction,
+  CaseSummaryConflict,
+  CaseSummaryField,
+  CaseSummaryFieldState
+} from '../shared/types';
+
+export const CASE_SUMMARY_FIELDS = Object.keys(CaseSummaryZodSchema.shape) as CaseSummaryField[];
+
+export function isCaseSummaryField(field: string): field is CaseSummaryField {
+  return (CASE_SUMMARY_FIELDS as string[]).includes(field);
+}
+
+export class CaseSummaryEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaseSummaryEditError';
+  }
+}
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+function audit(
+  caseSummary: CaseSummaryApiResponse,
+  field: CaseSummaryField,
+  action: CaseSummaryAuditAction,
+  changedBy: string,
+  changedAt: string,
+  values: { from?: unknown; to?: unknown } = {}
+): void {
+  caseSummary.auditTrail = [...(caseSummary.auditTrail || []), { field, action, changedBy, changedAt, ...values }];
+}
+
+function setState(caseSummary: CaseSummaryApiResponse, field: CaseSummaryField, state: CaseSummaryFieldState | null): void {
+  const provenance = { ...(caseSummary.fieldProvenance || {}) };
+  if (state) {
+    provenance[field] = state;
+  } else {
+    delete provenance[field];
+  }
+  caseSummary.fieldProvenance = provenance;
+}
+
+function clearConflict(caseSummary: CaseSummaryApiResponse, field: CaseSummaryField): void {
+  caseSummary.conflicts = (caseSummary.conflicts || []).filter(conflict => conflict.field !== field);
+}
+
+// Copy of the stored summary that can be changed without touching the original
+function copy(caseSummary: CaseSummaryApiResponse): CaseSummaryApiResponse {
+  return {
+    ...caseSummary,
+    summary: { ...caseSummary.summary },
+    fieldProvenance: { ...(caseSummary.fieldProvenance || {}) },
+    conflicts: [...(caseSummary.conflicts || [])],
+    auditTrail: [...(caseSummary.auditTrail || [])]
+  };
+}
+
+/**
+ * Sets a field to a clinician's value, or locks/unlocks it when no value is given.
+ * Unlocking a value that was never edited hands the field back to generation.
+ */
+export function editCaseSummaryField(
+  existing: CaseSummaryApiResponse,
+  field: CaseSummaryField,
+  change: { value?: unknown; locked?: boolean },
+  changedBy: string,
+  changedAt: string = new Date().toISOString()
+): CaseSummaryApiResponse {
+  if (change.value === undefined && change.locked === undefined) {
+    throw new CaseSummaryEditError('Provide a value and/or locked');
+  }
+
+  const caseSummary = copy(existing);
+  const state = caseSummary.fieldProvenance?.[field];
+  const current = caseSummary.summary[field];
+  const generatedValue = state ? state.generatedValue : current;
+  const wasLocked = state?.provenance === 'locked';
+  const locked = change.locked ?? wasLocked;
+
+  if (change.value !== undefined && !isEqual(change.value, current)) {
+    // The viewer and the report export rely on each field having its schema's shape
+    const parsed = CaseSummaryZodSchema.shape[field].safeParse(change.value);
+    if (!parsed.success) {
+      throw new CaseSummaryEditError(`Invalid value for ${field}: ${parsed.error.issues.map(issue => issue.message).join('; ')}`);
+    }
+    caseSummary.summary = { ...caseSummary.summary, [field]: parsed.data };
+    audit(caseSummary, field, 'edited', changedBy, changedAt, { from: current, to: parsed.data });
+    clearConflict(caseSummary, field);
+  }
+  if (locked !== wasLocked) {
+    audit(caseSummary, field, locked ? 'locked' : 'unlocked', changedBy, changedAt);
+  }
+
+  const value = caseSummary.summary[field];
+  if (!locked && isEqual(value, generatedValue)) {
+    setState(caseSummary, field, null);
+  } else {
+    setState(caseSummary, field, { provenance: locked ? 'locked' : 'edited', changedBy, changedAt, generatedValue });
+  }
+  return caseSummary;
+}
+
+/**
+ * Records every field that differs between the stored summary and a replacement as a
+ * clinician edit (used when the whole summary is saved)
+ */
+export function recordClinicianChanges(
+  existing: CaseSummaryApiResponse,
+  replacement: CaseSummaryType,
+  changedBy: string,
+  changedAt: string = new Date().toISOString()
+): CaseSummaryApiResponse {
+  let caseSummary = existing;
+  for (const field of CASE_SUMMARY_FIELDS) {
+    if (replacement[field] !== undefined && !isEqual(replacement[field], existing.summary[field])) {
+      caseSummary = editCaseSummaryField(caseSummary, field, { value: replacement[field] }, changedBy, changedAt);
+    }
+  }
+  return caseSummary;
+}
+
+/**
+ * Puts the latest generated value back and hands the field back to generation
+ */
+export function revertCaseSummaryField(
+  existing: CaseSummaryApiResponse,
+  field: CaseSummaryField,
+  changedBy: string,
+  changedAt: string = new Date().toISOString()
+): CaseSummaryApiResponse {
+  const state = existing.fieldProvenance?.[field];
+  if (!state) {
+    throw new CaseSummaryEditError(`Field ${field} has not been edited or locked`);
+  }
+
+  const caseSummary = copy(existing);
+  const current = caseSummary.summary[field];
+  (caseSummary.summary as any)[field] = state.generatedValue;
+  setState(caseSummary, field, null);
+  clearConflict(caseSummary, field);
+  audit(caseSummary, field, 'reverted', changedBy, changedAt, { from: current, to: state.generatedValue });
+  return caseSummary;
+}
+
+/**
+ * Settles a conflict by keeping the clinician's value or accepting the generated one
+ */
+export function resolveCaseSummaryConflict(
+  existing: CaseSummaryApiResponse,
+  field: CaseSummaryField,
+  keep: 'edited' | 'generated',
+  changedBy: string,
+  changedAt: string = new Date().toISOString()
+): CaseSummaryApiResponse {
+  const conflict = existing.conflicts?.find(c => c.field === field);
+  if (!conflict) {
+    throw new CaseSummaryEditError(`No conflict for field ${field}`);
+  }
+
+  const caseSummary = copy(existing);
+  const current = caseSummary.summary[field];
+  if (keep === 'generated') {
+    (caseSummary.summary as any)[field] = conflict.generatedValue;
+    setState(caseSummary, field, null);
+  }
+  clearConflict(caseSummary, field);
+  audit(caseSummary, field, 'conflictResolved', changedBy, changedAt, { from: current, to: caseSummary.summary[field] });
+  return caseSummary;
+}
+
+/**
+ * The summary as generation last produced it, i.e. with edited and locked fields set
+ * back to their generated values. Incremental updates build on this so that fields they
+ * do not rebuild keep a true generated value.
+ */
+export function withGeneratedValues(caseSummary: CaseSummaryApiResponse): CaseSummaryApiResponse {
+  const summary = { ...caseSummary.summary };
+  for (const [field, state] of Object.entries(caseSummary.fieldProvenance || {}) as [CaseSummaryField, CaseSummaryFieldState][]) {
+    (summary as any)[field] = state.generatedValue;
+  }
+  return { ...caseSummary, summary };
+}
+
+/**
+ * Merges a freshly generated summary with the clinician's edits in the previous one.
+ * Generated fields take the new value; edited and locked fields keep theirs, and edited
+ * fields get a conflict when the new generated value differs from both the edit and the
+ * generated value it replaced. Unresolved conflicts carry over.
+ */
+export function applyClinicianEdits(
+  previous: CaseSummaryApiResponse | null | undefined,
+  generated: CaseSummaryType,
+  detectedAt: string = new Date().toISOString()
+): Pick<CaseSummaryApiResponse, 'summary' | 'fieldProvenance' | 'conflicts' | 'auditTrail'> {
+  const summary: CaseSummaryType = { ...generated };
+  const fieldProvenance: Partial<Record<CaseSummaryField, CaseSummaryFieldState>> = {};
+  const conflicts: CaseSummaryConflict[] = [];
+
+  for (const [field, state] of Object.entries(previous?.fieldProvenance || {}) as [CaseSummaryField, CaseSummaryFieldState][]) {
+    const current = previous!.summary[field];
+    const generatedValue = generated[field];
+    (summary as any)[field] = current;
+    fieldProvenance[field] = { ...state, generatedValue };
+
+    if (state.provenance !== 'edited' || isEqual(generatedValue, current)) continue;
+    const previousConflict = previous!.conflicts?.find(conflict => conflict.field === field);
+    if (!isEqual(generatedValue, state.generatedValue)) {
+      conflicts.push({ field, currentValue: current, generatedValue, previousGeneratedValue: state.generatedValue, detectedAt });
+    } else if (previousConflict) {
+      conflicts.push(previousConflict);
+    }
+  }
+
+  return { summary, fieldProvenance, conflicts, auditTrail: previous?.auditTrail || [] };
+}
@@ -0,0 +1,185 @@
+/**
+ * Case Summary History
+ *
+ * Keeps every generated, updated or restored case summary as an immutable version,
+ * together with the documents available to the generator and the model it used, and
+ * compares two versions field by field (e.g. diagnoses added or removed, key events changed).
+ */
+
+import { randomUUID } from 'crypto';
+import { CaseSummaryType } from '../shared/case-summary-types';
+import {
+  CaseSummaryApiResponse,
+  CaseSummaryDiff,
+  CaseSummaryExtraction,
+  CaseSummaryFieldChange,
+  CaseSummaryListDiff,
+  CaseSummaryVersion,
+  CaseSummaryVersionInfo,
+  CaseSummaryVersionSource,
+  PatientDetails
+} from '../shared/types';
+import { storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+import { getLlmForOperation } from './llm/llmProvider';
+import { summarySourceDocuments } from './caseSummarySources';
+import { updatePatient } from './patientService';
+
+const logger = createLogger('CASE_SUMMARY_HISTORY');
+
+/**
+ * Records the patient's summary as the next version. A restore keeps the model of the
+ * version it restores; anything else records the model currently configured for case summaries.
+ * Returns null if the version could not be saved.
+ */
+export async function recordCaseSummaryVersion(
+  patient: PatientDetails,
+  caseSummary: CaseSummaryApiResponse,
+  source: CaseSummaryVersionSource,
+  options: { extractions?: CaseSummaryExtraction[]; restoredFrom?: CaseSummaryVersion } = {}
+): Promise<CaseSummaryVersion | null> {
+  const { silknotePatientUuid, silknoteUserUuid } = patient;
+  const existing = await storageService.getCaseSummaryVersions(silknoteUserUuid, silknotePatientUuid);
+  const latest = existing.reduce((max, version) => Math.max(max, version.versionNumber), 0);
+
+  let model = options.restoredFrom?.model;
+  if (!options.restoredFrom) {
+    const llm = getLlmForOperation('caseSummary');
+    model = { provider: llm.provider.name, model: llm.model };
+  }
+
+  const version: CaseSummaryVersion = {
+    versionId: randomUUID(),
+    versionNumber: latest + 1,
+    silknotePatientUuid,
+    silknoteUserUuid,
+    source,
+    createdAt: new Date().toISOString(),
+    caseSummary,
+    inputs: {
+      documents: summarySourceDocuments(patient.fileSet || []),
+      extractions: options.extractions || [],
+      ...(options.restoredFrom ? { restoredFromVersionId: options.restoredFrom.versionId } : {})
+    },
+    model
+  };
+
+  const saved = await storageService.saveCaseSummaryVersion(version);
+  if (!saved) {
+    logger.error(`Failed to save case summary version ${version.versionNumber} for patient ${silknotePatientUuid}`);
+    return null;
+  }
+  logger.info(`Recorded case summary version ${version.versionNumber} (${source}) for patient ${silknotePatientUuid}`);
+  return version;
+}
+
+/**
+ * Versions of the patient's summary, newest first, without the summaries themselves
+ */
+export async function listCaseSummaryVersions(silknoteUserUuid: string, silknotePatientUuid: string): Promise<CaseSummaryVersionInfo[]> {
+  const versions = await storageService.getCaseSummaryVersions(silknoteUserUuid, silknotePatientUuid);
+  return versions
+    .map(({ caseSummary: _caseSummary, ...info }) => info)
+    .sort((a, b) => b.versionNumber - a.versionNumber);
+}
+
+/**
+ * Makes a version the patient's current summary and records the restore as a new version.
+ * The generation count is the patient's current one: restoring does not use a generation slot.
+ */
+export async function restoreCaseSummaryVersion(
+  patient: PatientDetails,
+  version: CaseSummaryVersion
+): Promise<{ caseSummary: CaseSummaryApiResponse; version: CaseSummaryVersion | null }> {
+  const caseSummary: CaseSummaryApiResponse = {
+    ...version.caseSummary,
+    summaryGenerationCount: patient.summaryGenerationCount || 0
+  };
+  const updated = await updatePatient({ ...patient, caseSummary });
+  const restored = await recordCaseSummaryVersion(updated, caseSummary, 'restored', { restoredFrom: version });
+  return { caseSummary, version: restored };
+}
+
+const normalize = (value: unknown): string => String(value ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Matches entries on their identity (suffixed with the occurrence when it repeats) and
+ * compares every field but the id
+ */
+function diffList<T extends object>(
+  from: T[] | null | undefined,
+  to: T[] | null | undefined,
+  identity: (item: T) => string
+): CaseSummaryListDiff<T> {
+  const keyed = (items: T[] | null | undefined): Map<string, T> => {
+    const seen = new Map<string, number>();
+    const result = new Map<string, T>();
+    for (const item of items || []) {
+      const key = identity(item);
+      const occurrence = seen.get(key) || 0;
+      seen.set(key, occurrence + 1);
+      result.set(`${key}#${occurrence}`, item);
+    }
+    return result;
+  };
+
+  const before = keyed(from);
+  const after = keyed(to);
+  const diff: CaseSummaryListDiff<T> = { added: [], removed: [], changed: [] };
+
+  for (const [key, item] of after) {
+    const previous = before.get(key);
+    if (!previous) {
+      diff.added.push(item);
+      continue;
+    }
+    const fields = [...new Set([...Object.keys(previous), ...Object.keys(item)])]
+      .filter(field => field !== 'id' && !isEqual((previous as any)[field], (item as any)[field]));
+    if (fields.length > 0) diff.changed.push({ from: previous, to: item, fields });
+  }
+  for (const [key, item] of before) {
+    if (!after.has(key)) diff.removed.push(item);
+  }
+  return diff;
+}
+
+/**
+ * Field-level differences from one summary to another
+ */
+export function diffCaseSummaries(
+  from: CaseSummaryType,
+  to: CaseSummaryType,
+  versionIds: { fromVersionId: string; toVersionId: string }
+): CaseSummaryDiff {
+  const fields: CaseSummaryFieldChange[] = [];
+  const keys = new Set([...Object.keys(from || {}), ...Object.keys(to || {})]) as Set<keyof CaseSummaryType>;
+  for (const field of keys) {
+    const a = from?.[field];
+    const b = to?.[field];
+    const isScalar = (value: unknown) => value === null || value === undefined || typeof value !== 'object';
+    if (isScalar(a) && isScalar(b) && !isEqual(a, b)) {
+      fields.push({ field, from: a ?? null, to: b ?? null });
+    }
+  }
+  const hadInconsistencies = from?.medicalInconsistencies?.hasInconsistencies ?? false;
+  const hasInconsistencies = to?.medicalInconsistencies?.hasInconsistencies ?? false;
+  if (hadInconsistencies !== hasInconsistencies) {
+    fields.push({ field: 'medicalInconsistencies.hasInconsistencies', from: hadInconsistencies, to: hasInconsistencies });
+  }
+
+  return {
+    ...versionIds,
+    fields,
+    diagnoses: diffList(from?.diagnoses, to?.diagnoses, d => normalize(d.condition)),
+    treatments: diffList(from?.treatments, to?.treatments, t => `${normalize(t.treatment)}|${normalize(t.date)}`),
+    testResults: diffList(from?.testResults, to?.testResults, t => `${normalize(t.testName)}|${normalize(t.date)}`),
+    keyEvents: diffList(from?.keyEvents, to?.keyEvents, e => `${normalize(e.eventDate)}|${normalize(e.eventType)}`),
+    medicalInconsistencies: diffList(
+      from?.medicalInconsistencies?.inconsistencies,
+      to?.medicalInconsistencies?.inconsistencies,
+      i => `${normalize(i.type)}|${normalize(i.description)}`
+    )
+  };
+}
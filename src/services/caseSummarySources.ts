@@ -0,0 +1,185 @@
+/**
+ * Case Summary Sources
+ *
+ * Records which documents (and which version of their content) each extraction step
+ * of a case summary was built from, and works out which sections are stale after
+ * documents are added, removed or reprocessed:
+ * - a removed or changed document makes an extraction stale if it is cited there
+ * - an added or changed document makes an extraction stale if its category is one the
+ *   extraction draws on
+ * The narrative is written from patient info and diagnoses, so it goes stale with them.
+ */
+
+import { createHash } from 'crypto';
+import {
+  CaseSummaryExtraction,
+  CaseSummarySection,
+  CaseSummarySourceDocument,
+  CaseSummarySources,
+  CaseSummaryStaleness,
+  DocumentType,
+  MedicalDocument,
+  SummaryCitation
+} from '../shared/types';
+import { isPatientEvidence } from './patientDocuments';
+
+const CLINICAL_CATEGORIES: string[] = [
+  DocumentType.MEDICAL_REPORT,
+  DocumentType.CLINICAL_NOTES,
+  DocumentType.IMAGING_REPORT,
+  DocumentType.REHABILITATION_REPORT,
+  DocumentType.WORKCOVER_CERTIFICATE,
+  DocumentType.ALLIED_HEALTH_REPORT,
+  DocumentType.HOSPITAL_DOCUMENT,
+  DocumentType.INSURER_IME_REQUEST
+];
+
+const ADMINISTRATIVE_CATEGORIES: string[] = [
+  DocumentType.INSURANCE_FORM,
+  DocumentType.LEGAL_CORRESPONDENCE,
+  DocumentType.EMPLOYMENT_DOCUMENT,
+  DocumentType.WORKCOVER_CERTIFICATE,
+  DocumentType.INSURER_IME_REQUEST,
+  DocumentType.CONSENT_FORM,
+  DocumentType.PATIENT_CONSENT
+];
+
+// Documents without a usable category could contain anything
+const UNCATEGORISED: string[] = [DocumentType.UNKNOWN, DocumentType.UNPROCESSED];
+
+export const CASE_SUMMARY_EXTRACTIONS: Record<CaseSummaryExtraction, {
+  sections: CaseSummarySection[];
+  categories: string[] | 'all';
+  dependsOn?: CaseSummaryExtraction[];
+}> = {
+  patientInfo: { sections: ['patientInfo'], categories: [...ADMINISTRATIVE_CATEGORIES, ...UNCATEGORISED] },
+  diagnosesAndTreatments: { sections: ['diagnoses', 'treatments', 'testResults'], categories: [...CLINICAL_CATEGORIES, ...UNCATEGORISED] },
+  keyEvents: { sections: ['keyEvents'], categories: 'all' },
+  medicalInconsistencies: { sections: ['medicalInconsistencies'], categories: [...CLINICAL_CATEGORIES, ...UNCATEGORISED] },
+  narrativeOverview: { sections: ['narrativeOverview'], categories: [], dependsOn: ['patientInfo', 'diagnosesAndTreatments'] }
+};
+
+export const ALL_CASE_SUMMARY_EXTRACTIONS = Object.keys(CASE_SUMMARY_EXTRACTIONS) as CaseSummaryExtraction[];
+
+/**
+ * Identifies a version of a document's content: the stored file hash when there is one,
+ * otherwise a hash of the layout text, otherwise the processing time
+ */
+export function documentContentHash(document: MedicalDocument): string {
+  if (document.hash) return document.hash;
+  const text = document.content?.analysisResult?.content;
+  if (text) return createHash('sha256').update(text).digest('hex');
+  return `processed:${document.processedAt || document.uploadDate || ''}`;
+}
+
+/**
+ * Documents a summary can draw on: processed and not flagged as another patient's
+ */
+export function summarySourceDocuments(documents: MedicalDocument[]): CaseSummarySourceDocument[] {
+  return documents
+    .filter(isPatientEvidence)
+    .map(document => ({
+      clientFileId: document.clientFileId,
+      contentHash: documentContentHash(document),
+      category: document.category
+    }));
+}
+
+/**
+ * Records the given extractions as built from the current documents, keeping the
+ * records of extractions that were not rebuilt
+ */
+export function recordSummarySources(
+  previous: CaseSummarySources | undefined,
+  extractions: CaseSummaryExtraction[],
+  documents: MedicalDocument[],
+  builtAt: string = new Date().toISOString()
+): CaseSummarySources {
+  const sourceDocuments = summarySourceDocuments(documents);
+  const recorded: CaseSummarySources = { extractions: { ...(previous?.extractions || {}) } };
+  for (const extraction of extractions) {
+    recorded.extractions[extraction] = { builtAt, documents: sourceDocuments };
+  }
+  return recorded;
+}
+
+function isRelevant(extraction: CaseSummaryExtraction, category: string | undefined): boolean {
+  const { categories } = CASE_SUMMARY_EXTRACTIONS[extraction];
+  return categories === 'all' || categories.includes(category || DocumentType.UNKNOWN);
+}
+
+/**
+ * Works out which extractions must be rebuilt for the current documents.
+ * Summaries without sources (generated before they were recorded) are stale throughout.
+ */
+export function findStaleExtractions(
+  sources: CaseSummarySources | undefined,
+  citations: SummaryCitation[],
+  documents: MedicalDocument[]
+): { stale: CaseSummaryExtraction[]; added: string[]; removed: string[]; changed: string[] } {
+  const current = new Map(summarySourceDocuments(documents).map(doc => [doc.clientFileId, doc]));
+  const stale = new Set<CaseSummaryExtraction>();
+  const added = new Set<string>();
+  const removed = new Set<string>();
+  const changed = new Set<string>();
+
+  for (const extraction of ALL_CASE_SUMMARY_EXTRACTIONS) {
+    if (CASE_SUMMARY_EXTRACTIONS[extraction].dependsOn) continue;
+    const record = sources?.extractions?.[extraction];
+    if (!record) {
+      stale.add(extraction);
+      continue;
+    }
+
+    const built = new Map(record.documents.map(doc => [doc.clientFileId, doc]));
+    const cited = new Set(citations.filter(c => c.extraction === extraction).map(c => c.documentId));
+
+    for (const [clientFileId, doc] of current) {
+      const previous = built.get(clientFileId);
+      if (!previous) {
+        added.add(clientFileId);
+        if (isRelevant(extraction, doc.category)) stale.add(extraction);
+      } else if (previous.contentHash !== doc.contentHash) {
+        changed.add(clientFileId);
+        if (isRelevant(extraction, doc.category) || cited.has(clientFileId)) stale.add(extraction);
+      }
+    }
+    for (const clientFileId of built.keys()) {
+      if (current.has(clientFileId)) continue;
+      removed.add(clientFileId);
+      if (cited.has(clientFileId)) stale.add(extraction);
+    }
+  }
+
+  for (const extraction of ALL_CASE_SUMMARY_EXTRACTIONS) {
+    const { dependsOn } = CASE_SUMMARY_EXTRACTIONS[extraction];
+    if (!dependsOn) continue;
+    if (!sources?.extractions?.[extraction] || dependsOn.some(dependency => stale.has(dependency))) {
+      stale.add(extraction);
+    }
+  }
+
+  return {
+    stale: ALL_CASE_SUMMARY_EXTRACTIONS.filter(extraction => stale.has(extraction)),
+    added: [...added],
+    removed: [...removed],
+    changed: [...changed]
+  };
+}
+
+/**
+ * Staleness of a stored summary, reported by section
+ */
+export function getCaseSummaryStaleness(
+  sources: CaseSummarySources | undefined,
+  citations: SummaryCitation[],
+  documents: MedicalDocument[]
+): CaseSummaryStaleness {
+  const { stale, added, removed, changed } = findStaleExtractions(sources, citations, documents);
+  return {
+    staleSections: stale.flatMap(extraction => CASE_SUMMARY_EXTRACTIONS[extraction].sections),
+    addedDocuments: added,
+    removedDocuments: removed,
+    changedDocuments: changed
+  };
+}
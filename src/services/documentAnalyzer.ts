@@ -2,14 +2,15 @@
  * Document Analyzer
  * 
  * Purpose:
- * Analyzes PDF documents using Azure Document Intelligence and Azure OpenAI,
+ * Analyzes PDF documents using a layout provider (Azure Document Intelligence or the
+ * embedded PDF text layer) and Azure OpenAI,
  * mapping the results to strongly-typed medical document schemas using structured outputs.
  * Includes precise spatial information (coordinates) from the original document with
  * validation of extracted fields against medical/legal requirements.
  * 
  * Flow:
- * 1. Analyze document structure with Azure Document Intelligence
- * 2. Extract coordinates and spatial information from Azure results
+ * 1. Analyze document structure with the configured layout provider (see layout/layoutProvider.ts)
+ * 2. Extract coordinates and spatial information from the layout results
  * 3. Determine document type using pattern matching
  * 4. Extract structured data using a centralized llmService with Azure OpenAI
  * 5. Aggregate extracted data into a final medical document
@@ -46,11 +47,7 @@
  * }
  */
 
-import { 
-  DocumentAnalysisClient, 
-  AzureKeyCredential,
-  AnalyzeResult, 
-  DocumentPage} from '@azure/ai-form-recognizer';
+import { AnalyzeResult, DocumentPage } from '@azure/ai-form-recognizer';
 import config from '../config';
 import { MedicalDocument, AnalyzerInput, DocumentType, EnrichedExtraction } from '../shared/types';
 import { 
@@ -66,13 +63,9 @@ import { centralRateLimiter } from './centralRateLimiter';
 import zodToJsonSchema from 'zod-to-json-schema';
 import { generateStructuredOutput } from './llmService';
 import { prepareJsonSchema } from '../utils/schemaUtils';
+import { getLayoutProvider } from './layout/layoutProvider';
 
 
-const documentClient = new DocumentAnalysisClient(
-  config.azure.documentIntelligence.endpoint,
-  new AzureKeyCredential(config.azure.documentIntelligence.key)
-);
-
 // Use the centralized rate limiter directly
 const rateLimiter = centralRateLimiter;
 
@@ -221,16 +214,36 @@ interface AzureOpenAIResult {
   };
 }
 
+// Output saved by an earlier run, plus callbacks to save new output as it is produced.
+// Lets a resumed run skip the layout analysis call and any page already extracted.
+export interface AnalysisCheckpoint {
+  analysisResult?: AnalyzeResult | null;
+  pageExtractions?: Record<number, any>;
+  onAnalysisResult?: (analysisResult: AnalyzeResult) => Promise<void>;
+  onPageExtracted?: (pageNumber: number, extraction: any) => Promise<void>;
+}
+
 export async function analyzeDocument(
-  input: AnalyzerInput & { partialDoc?: Partial<MedicalDocument> }
+  input: AnalyzerInput & { partialDoc?: Partial<MedicalDocument>; checkpoint?: AnalysisCheckpoint }
 ): Promise<MedicalDocument> {
   try {
    // console.log('\n=== Starting Document Analysis ===')
-    const poller = await documentClient.beginAnalyzeDocument('prebuilt-document', input.buffer)
-    const analysisResult: AnalyzeResult = await poller.pollUntilDone()
+    const checkpoint = input.checkpoint
+    let analysisResult: AnalyzeResult
+    if (checkpoint?.analysisResult) {
+      analysisResult = checkpoint.analysisResult
+    } else {
+      analysisResult = await getLayoutProvider().analyzeLayout(input.buffer)
+      await checkpoint?.onAnalysisResult?.(analysisResult)
+    }
 
     const extractedPages = await Promise.all(
       (analysisResult.pages || []).map(async (page: DocumentPage) => {
+        const savedExtraction = checkpoint?.pageExtractions?.[page.pageNumber]
+        if (savedExtraction) {
+          return savedExtraction
+        }
+
         const azureAnalysis = {
           pageNumber: page.pageNumber,
           angle: page.angle,
@@ -326,7 +339,8 @@ Focus on extracting: procedures, imaging, recommendations, contact information,
                 const response = await generateStructuredOutput(
                   system,
                   prompt,
-                  schema
+                  schema,
+                  'extraction'
                 );
                 
                 return {
@@ -426,7 +440,7 @@ Focus on extracting: procedures, imaging, recommendations, contact information,
           const enrichedExtraction = processExtraction(extraction, analysisResult, page);
           
           // Return the complete page data
-          return {
+          const pageResult = {
             ...extraction,
             pageNumber: page.pageNumber,
             pageWidth: page.width,
@@ -435,6 +449,8 @@ Focus on extracting: procedures, imaging, recommendations, contact information,
             confidence: pageConfidence,
             enrichedExtraction,
           };
+          await checkpoint?.onPageExtracted?.(page.pageNumber, pageResult);
+          return pageResult;
         } catch (error: any) {
           // Enhanced error logging - ensure we capture all important information
           const errorObj = {
@@ -443,7 +459,7 @@ Focus on extracting: procedures, imaging, recommendations, contact information,
             type: error.type || error.code || 'UnknownErrorType',
             page: page.pageNumber,
             request: error.request ? { 
-              model: config.azure.azureOpenAI.deployment, 
+              model: config.llm.operations.extraction.model, 
               prompt_length: basePrompt.length 
             } : undefined
           };
@@ -0,0 +1,58 @@
+/**
+ * Document Conversion
+ *
+ * Uploads that are not PDFs (Word, Excel, RTF, Outlook and .eml emails, plain text, HTML
+ * and images) are stored as uploaded under "<clientFileId>-original.<ext>" and converted
+ * by the document handlers. The generated PDF takes the usual place of the stored file,
+ * so analysis, page images and citations work on it unchanged, and the document records
+ * how it was converted and where the original is kept.
+ */
+
+import path from 'path';
+import { MedicalDocument } from '../shared/types';
+import { storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+import { handleDocument } from '../utils/document-handlers';
+import { resolveMimeType } from '../utils/handler-types';
+
+const logger = createLogger('DOCUMENT_CONVERSION');
+
+export const needsConversion = (document: MedicalDocument): boolean =>
+  !document.conversion && !!document.format?.mimeType && document.format.mimeType !== 'application/pdf';
+
+// Stored name of an upload that will be converted, leaving the clientFileId for the PDF
+export const originalFileName = (clientFileId: string, originalName: string): string =>
+  `${clientFileId}-original${path.extname(originalName).toLowerCase()}`;
+
+/**
+ * Converts a stored upload to PDF and returns the document pointing at the PDF, with
+ * conversion set. The original file is left in storage.
+ */
+export async function convertToPdf(document: MedicalDocument): Promise<MedicalDocument> {
+  const mimeType = resolveMimeType(document.format?.mimeType, document.originalName);
+  if (!mimeType) throw new Error(`Unsupported file type for ${document.originalName}`);
+
+  const original = await storageService.getFileContent(document.storedPath);
+  const result = await handleDocument(original, mimeType);
+  if (!result.success || !result.data) {
+    throw new Error(`Failed to convert ${document.originalName} to PDF: ${result.error || 'unknown error'}`);
+  }
+
+  const storedPath = await storageService.storeFile(result.data, document.clientFileId);
+  logger.info(`Converted ${document.clientFileId} (${mimeType}) to PDF with ${result.method}`);
+  return {
+    ...document,
+    storedPath,
+    filename: path.basename(storedPath),
+    type: 'application/pdf',
+    format: { mimeType: 'application/pdf', extension: 'pdf' },
+    size: result.data.length,
+    fileSize: result.data.length,
+    conversion: {
+      method: result.method || 'libreoffice',
+      sourceMimeType: mimeType,
+      originalPath: document.storedPath,
+      convertedAt: new Date().toISOString()
+    }
+  };
+}
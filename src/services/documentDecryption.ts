@@ -0,0 +1,65 @@
+/**
+ * Document Decryption
+ *
+ * Encrypted PDFs cannot be rendered or analysed, so they are decrypted with qpdf before
+ * processing and the decrypted file replaces the stored upload. Uploads can carry a
+ * password per file and one for the whole batch, and PDFs that only restrict printing or
+ * copying open with an empty password. A PDF that none of these open is kept with status
+ * 'password_required' until a password is supplied. Passwords are never stored or logged.
+ */
+
+import path from 'path';
+import { MedicalDocument } from '../shared/types';
+import { storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+import { handleDocument, isEncryptedPdf } from '../utils/document-handlers';
+
+const logger = createLogger('DOCUMENT_DECRYPTION');
+
+export type DecryptionOutcome = 'not_encrypted' | 'decrypted' | 'password_required';
+
+export interface DecryptionResult {
+  outcome: DecryptionOutcome;
+  document: MedicalDocument;
+}
+
+export const needsDecryptionCheck = (document: MedicalDocument): boolean =>
+  !document.conversion && document.format?.mimeType === 'application/pdf';
+
+/**
+ * Decrypts a stored PDF with the first of the passwords that opens it, then the empty
+ * password. The document is returned with status 'password_required' when none do, and
+ * is not saved either way.
+ */
+export async function decryptStoredPdf(document: MedicalDocument, passwords: string[] = []): Promise<DecryptionResult> {
+  const content = await storageService.getFileContent(document.storedPath);
+  if (!await isEncryptedPdf(content)) {
+    return { outcome: 'not_encrypted', document };
+  }
+
+  for (const password of [...new Set(passwords.filter(Boolean)), '']) {
+    const result = await handleDocument(content, 'application/pdf', { password });
+    if (result.success && result.data) {
+      const storedPath = await storageService.storeFile(result.data, document.clientFileId);
+      logger.info(`Decrypted ${document.clientFileId}${password ? ' with a supplied password' : ''}`);
+      return {
+        outcome: 'decrypted',
+        document: {
+          ...document,
+          storedPath,
+          filename: path.basename(storedPath),
+          status: 'stored',
+          size: result.data.length,
+          fileSize: result.data.length,
+          hash: undefined   // Hashed again as the decrypted file
+        }
+      };
+    }
+    if (!result.passwordRequired) {
+      throw new Error(`Failed to decrypt ${document.originalName}: ${result.error || 'unknown error'}`);
+    }
+  }
+
+  logger.info(`${document.clientFileId} is encrypted and no password given opens it`);
+  return { outcome: 'password_required', document: { ...document, status: 'password_required' } };
+}
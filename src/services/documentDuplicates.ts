@@ -0,0 +1,216 @@
+/**
+ * Document Duplicates
+ *
+ * VSRX sync and manual uploads often bring in the same letter twice. Exact copies are
+ * caught by the SHA-256 of the stored file when it is stored, whichever way it came in; re-scans and re-exports
+ * of the same document are caught after layout analysis by comparing MinHash signatures
+ * of the text (5-word shingles over the Document Intelligence lines). A duplicate is
+ * marked with duplicateOf and a DUPLICATE_DOCUMENT alert, and is kept out of the vector
+ * store until it is dismissed as a separate document.
+ */
+
+import { createHash } from 'crypto';
+import { AnalyzeResult } from '@azure/ai-form-recognizer';
+import { DocumentAlert, DocumentAlertType, DocumentDuplicate, MedicalDocument } from '../shared/types';
+import { storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+import { removeFileFromVectorStore } from './vectorStore';
+
+const logger = createLogger('DOCUMENT_DUPLICATES');
+
+const SHINGLE_WORDS = 5;
+const SIGNATURE_SIZE = 64;
+const MIN_SHINGLES = 20;                 // Shorter texts (blank scans, cover sheets) match too easily
+export const NEAR_DUPLICATE_THRESHOLD = 0.9;
+
+export type DuplicateAction = 'merge' | 'dismiss';
+
+// FNV-1a, stable across processes so stored signatures stay comparable
+function hashShingle(shingle: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < shingle.length; i++) {
+    hash ^= shingle.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Murmur3 finaliser, seeded per signature slot to act as independent hash functions
+function mix(value: number, seed: number): number {
+  let h = (value ^ seed) >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => hashShingle(`minhash-${i}`));
+
+export function hashFileContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * MinHash signature of the layout text, or null when there is too little text to compare
+ */
+export function textSignature(analysisResult: AnalyzeResult | null | undefined): number[] | null {
+  if (!analysisResult) return null;
+  const lines = (analysisResult.pages || []).flatMap(page => (page.lines || []).map(line => line.content));
+  const text = lines.length > 0 ? lines.join(' ') : analysisResult.content || '';
+  const words = text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').split(' ').filter(Boolean);
+
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    shingles.add(hashShingle(words.slice(i, i + SHINGLE_WORDS).join(' ')));
+  }
+  if (shingles.size < MIN_SHINGLES) return null;
+
+  return SEEDS.map(seed => {
+    let min = 0xffffffff;
+    for (const shingle of shingles) {
+      const value = mix(shingle, seed);
+      if (value < min) min = value;
+    }
+    return min;
+  });
+}
+
+/**
+ * Estimated Jaccard similarity of the shingle sets behind two signatures
+ */
+export function signatureSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  return a.filter((value, i) => value === b[i]).length / a.length;
+}
+
+const isOpenDuplicate = (document: MedicalDocument): boolean => !!document.duplicateOf && !document.duplicateOf.dismissed;
+
+// Upload order, so that of two identical uploads the later one is the duplicate
+const uploadedBefore = (a: MedicalDocument, b: MedicalDocument): boolean =>
+  (a.uploadDate || '') < (b.uploadDate || '') || ((a.uploadDate || '') === (b.uploadDate || '') && a.clientFileId < b.clientFileId);
+
+/**
+ * Looks for the document this one repeats among the others in the fileset: an earlier
+ * upload of the same file, otherwise the document whose text is most similar above the
+ * threshold. Open duplicates and the hidden sources of a merge are never the original.
+ * When one is found, marks the document and raises its alert.
+ */
+export function flagDuplicate(document: MedicalDocument, others: MedicalDocument[]): DocumentDuplicate | null {
+  const candidates = others.filter(other => other.clientFileId !== document.clientFileId && !other.mergedInto && !isOpenDuplicate(other));
+
+  let original: MedicalDocument | undefined;
+  let duplicate: DocumentDuplicate | null = null;
+
+  if (document.hash) {
+    original = candidates
+      .filter(other => other.hash === document.hash && uploadedBefore(other, document))
+      .sort((a, b) => (uploadedBefore(a, b) ? -1 : 1))[0];
+    if (original) duplicate = { clientFileId: original.clientFileId, match: 'exact', similarity: 1 };
+  }
+
+  const signature = document.content?.textSignature;
+  if (!duplicate && signature) {
+    for (const other of candidates) {
+      const otherSignature = other.content?.textSignature || textSignature(other.content?.analysisResult);
+      if (!otherSignature) continue;
+      const similarity = signatureSimilarity(signature, otherSignature);
+      if (similarity >= NEAR_DUPLICATE_THRESHOLD && similarity > (duplicate?.similarity ?? 0)) {
+        original = other;
+        duplicate = { clientFileId: other.clientFileId, match: 'near', similarity };
+      }
+    }
+  }
+
+  if (!duplicate || !original) return null;
+
+  const title = original.title || original.originalName;
+  const alert: DocumentAlert = {
+    type: DocumentAlertType.DUPLICATE_DOCUMENT,
+    description: duplicate.match === 'exact'
+      ? `Duplicate of "${title}": the files are identical`
+      : `Possible duplicate of "${title}": ${Math.round(duplicate.similarity * 100)}% of the text matches`,
+    source: 'SERVER_API_CALL',
+    timestamp: new Date().toISOString(),
+    acknowledged: false
+  };
+  document.duplicateOf = duplicate;
+  document.alerts = [...(document.alerts || []), alert];
+  return duplicate;
+}
+
+/**
+ * Hashes the file of a document that has no hash yet (its original, when it was converted)
+ * and flags an earlier copy of the same file. Run as uploads are stored, and again before
+ * queueing for documents that arrived another way or whose file was replaced by decryption.
+ * @returns The duplicate found, if any
+ */
+export async function hashStoredDocument(document: MedicalDocument, others: MedicalDocument[]): Promise<DocumentDuplicate | null> {
+  if (document.hash) return null;
+  document.hash = hashFileContent(await storageService.getFileContent(document.conversion?.originalPath || document.storedPath));
+  return document.duplicateOf ? null : flagDuplicate(document, others);
+}
+
+/**
+ * Runs after layout analysis: stores the text signature on the document and checks it
+ * against the patient's other documents. Documents already marked, including those whose
+ * duplicate was dismissed, are not checked again.
+ */
+export async function detectDuplicate(document: MedicalDocument, silknoteUserUuid: string): Promise<DocumentDuplicate | null> {
+  const signature = textSignature(document.content?.analysisResult);
+  if (signature && document.content) document.content.textSignature = signature;
+  if (document.duplicateOf) return null;
+
+  const others: MedicalDocument[] = [];
+  for (const other of await storageService.getDocumentsForPatient(silknoteUserUuid, document.silknotePatientUuid)) {
+    // Documents split out of a bundle are compared as the bundle
+    if (other.clientFileId === document.clientFileId || other.parentClientFileId) continue;
+    // The patient document list may omit heavy content, so load the full document
+    const full = ['complete', 'split'].includes(other.status) && !other.content?.analysisResult && !other.content?.textSignature
+      ? await storageService.getDocument(silknoteUserUuid, document.silknotePatientUuid, other.clientFileId)
+      : other;
+    if (full) others.push(full);
+  }
+
+  const duplicate = flagDuplicate(document, others);
+  if (duplicate) {
+    logger.info(`Document ${document.clientFileId} duplicates ${duplicate.clientFileId} (${duplicate.match}, similarity ${duplicate.similarity.toFixed(2)})`);
+  }
+  return duplicate;
+}
+
+/**
+ * Resolves a flagged duplicate. 'merge' removes it from the fileset, keeping the original;
+ * 'dismiss' keeps it as a separate document and acknowledges the alert. Returns the
+ * updated document, or null once merged.
+ */
+export async function resolveDuplicate(
+  silknoteUserUuid: string,
+  document: MedicalDocument,
+  action: DuplicateAction
+): Promise<MedicalDocument | null> {
+  const { silknotePatientUuid, clientFileId } = document;
+
+  if (action === 'merge') {
+    // Only a dismissed duplicate has been through the vector store
+    if (document.duplicateOf?.dismissed && !await removeFileFromVectorStore(silknotePatientUuid, clientFileId, silknoteUserUuid)) {
+      logger.warn(`Could not remove ${clientFileId} from the vector store before merging`);
+    }
+    if (!await storageService.deleteDocument(silknoteUserUuid, silknotePatientUuid, clientFileId)) {
+      throw new Error(`Failed to remove duplicate document ${clientFileId}`);
+    }
+    return null;
+  }
+
+  const updated: MedicalDocument = {
+    ...document,
+    duplicateOf: document.duplicateOf && { ...document.duplicateOf, dismissed: true },
+    alerts: (document.alerts || []).map(alert =>
+      alert.type === DocumentAlertType.DUPLICATE_DOCUMENT ? { ...alert, acknowledged: true } : alert)
+  };
+  if (!await storageService.updateDocument(silknoteUserUuid, silknotePatientUuid, updated)) {
+    throw new Error(`Failed to update duplicate document ${clientFileId}`);
+  }
+  return updated;
+}
@@ -0,0 +1,225 @@
+/**
+ * Document Grouping
+ *
+ * Photographed or scanned pages often arrive one file per page: VSRX stores IMG001.jpg,
+ * IMG002.jpg... individually and sync keeps them that way. Users can combine several of a
+ * patient's documents, images or PDFs, into one new PDF with the pages in the order they
+ * choose. The merged document is processed from scratch; its sources are kept with status
+ * 'merged' and mergedInto set, out of listings, the vector store and the timeline, and are
+ * deleted with it. Groupings are suggested from numbered filename sequences and from
+ * images uploaded together.
+ */
+
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { PDFDocument } from 'pdf-lib';
+import { DocumentType, MedicalDocument } from '../shared/types';
+import { storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+import { handleDocument } from '../utils/document-handlers';
+import { resolveMimeType } from '../utils/handler-types';
+import { hashFileContent } from './documentDuplicates';
+import * as patientService from './patientService';
+import { removeFileFromVectorStore } from './vectorStore';
+
+const logger = createLogger('DOCUMENT_GROUPING');
+
+const SEQUENCE_MAX_GAP_MS = 60 * 60 * 1000;   // Numbered files uploaded further apart are separate batches
+const UPLOAD_WINDOW_MS = 2 * 60 * 1000;       // Images uploaded this close together are likely one document
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'tif', 'tiff', 'webp', 'heic'];
+const NUMBERED_NAME = /^(.*?)(\d+)$/;
+
+// One run of pages in a merge: a document's pages in the order given, or all of them
+export interface MergePart {
+  clientFileId: string;
+  pages?: number[];
+}
+
+export interface GroupingSuggestion {
+  clientFileIds: string[];
+  reason: 'filename_sequence' | 'upload_time';
+}
+
+export interface MergeResult {
+  document: MedicalDocument;
+  sources: MedicalDocument[];
+  removedChildren: string[];
+}
+
+const extensionOf = (name: string): string => path.extname(name || '').slice(1).toLowerCase();
+const baseName = (name: string): string => path.basename(name || '', path.extname(name || ''));
+const uploadTime = (document: MedicalDocument): number => new Date(document.uploadDate || 0).getTime() || 0;
+
+const isImage = (document: MedicalDocument): boolean =>
+  IMAGE_EXTENSIONS.includes(extensionOf(document.originalName)) || !!document.format?.mimeType?.startsWith('image/');
+
+// Documents that can take part in a merge: not split out of a bundle, not already merged
+export const isMergeable = (document: MedicalDocument): boolean => !document.parentClientFileId && !document.mergedInto;
+
+// Statuses no processing run will overwrite; a source merged before then would be saved back as complete
+const SETTLED_STATUSES = ['complete', 'split', 'error'];
+export const isSettled = (document: MedicalDocument): boolean => SETTLED_STATUSES.includes(document.status);
+
+function sequenceRuns(documents: MedicalDocument[]): MedicalDocument[][] {
+  const byPrefix = new Map<string, { number: number; document: MedicalDocument }[]>();
+  for (const document of documents) {
+    const match = NUMBERED_NAME.exec(baseName(document.originalName));
+    if (!match) continue;
+    const key = `${match[1].toLowerCase().replace(/[\s_-]+$/, '')}|${extensionOf(document.originalName)}`;
+    byPrefix.set(key, [...(byPrefix.get(key) || []), { number: Number(match[2]), document }]);
+  }
+
+  const runs: MedicalDocument[][] = [];
+  for (const entries of byPrefix.values()) {
+    entries.sort((a, b) => a.number - b.number);
+    let run = [entries[0]];
+    for (const entry of entries.slice(1)) {
+      const previous = run[run.length - 1];
+      if (entry.number === previous.number + 1 && Math.abs(uploadTime(entry.document) - uploadTime(previous.document)) <= SEQUENCE_MAX_GAP_MS) {
+        run.push(entry);
+      } else {
+        runs.push(run.map(e => e.document));
+        run = [entry];
+      }
+    }
+    runs.push(run.map(e => e.document));
+  }
+  return runs.filter(run => run.length > 1);
+}
+
+function uploadBatches(documents: MedicalDocument[]): MedicalDocument[][] {
+  const images = documents.filter(isImage).sort((a, b) => uploadTime(a) - uploadTime(b));
+  const batches: MedicalDocument[][] = [];
+  for (const image of images) {
+    const batch = batches[batches.length - 1];
+    if (batch && uploadTime(image) - uploadTime(batch[batch.length - 1]) <= UPLOAD_WINDOW_MS) batch.push(image);
+    else batches.push([image]);
+  }
+  return batches.filter(batch => batch.length > 1);
+}
+
+/**
+ * Suggests groups of documents to merge: runs of consecutively numbered files with the
+ * same name and extension, then images uploaded within a couple of minutes of each other
+ * that no sequence covers. Suggestions are in page order and do not overlap.
+ */
+export function suggestGroupings(documents: MedicalDocument[]): GroupingSuggestion[] {
+  const candidates = documents.filter(isMergeable);
+  const suggestions: GroupingSuggestion[] = sequenceRuns(candidates)
+    .map(run => ({ clientFileIds: run.map(document => document.clientFileId), reason: 'filename_sequence' as const }));
+
+  const grouped = new Set(suggestions.flatMap(suggestion => suggestion.clientFileIds));
+  for (const batch of uploadBatches(candidates.filter(document => !grouped.has(document.clientFileId)))) {
+    suggestions.push({ clientFileIds: batch.map(document => document.clientFileId), reason: 'upload_time' });
+  }
+  return suggestions;
+}
+
+const isPdf = (content: Buffer): boolean => content.subarray(0, 5).toString('latin1') === '%PDF-';
+
+// Stored files are not always PDFs: VSRX references keep the original image
+async function loadAsPdf(document: MedicalDocument): Promise<PDFDocument> {
+  const content = await storageService.getFileContent(document.storedPath);
+  if (isPdf(content)) return PDFDocument.load(content);
+
+  const mimeType = resolveMimeType(document.format?.mimeType, document.originalName);
+  const converted = mimeType ? await handleDocument(content, mimeType) : { success: false, error: 'unsupported file type' };
+  if (!converted.success || !converted.data) {
+    throw new Error(`Failed to convert ${document.originalName} to PDF: ${converted.error || 'unknown error'}`);
+  }
+  return PDFDocument.load(converted.data);
+}
+
+/**
+ * Builds one PDF from the parts in order. Page numbers are 1-based within each source.
+ */
+export async function combineDocuments(parts: MergePart[], sources: MedicalDocument[]): Promise<{ content: Buffer; pageCount: number }> {
+  const merged = await PDFDocument.create();
+  const loaded = new Map<string, PDFDocument>();
+
+  for (const part of parts) {
+    const source = sources.find(document => document.clientFileId === part.clientFileId);
+    if (!source) throw new Error(`Document ${part.clientFileId} is not among the merge sources`);
+    if (!loaded.has(source.clientFileId)) loaded.set(source.clientFileId, await loadAsPdf(source));
+    const pdf = loaded.get(source.clientFileId)!;
+
+    const pages = part.pages || pdf.getPageIndices().map(index => index + 1);
+    const outside = pages.find(page => page < 1 || page > pdf.getPageCount());
+    if (outside !== undefined) throw new Error(`Page ${outside} is outside ${source.originalName}, which has ${pdf.getPageCount()} page(s)`);
+
+    for (const page of await merged.copyPages(pdf, pages.map(page => page - 1))) merged.addPage(page);
+  }
+  return { content: Buffer.from(await merged.save()), pageCount: merged.getPageCount() };
+}
+
+/**
+ * Merges the sources into a new stored document, ready to be queued for processing, and
+ * hides the sources: they leave the vector store and the timeline, documents split out of
+ * them are removed, and they are kept with status 'merged'.
+ */
+export async function mergeDocuments(
+  silknoteUserUuid: string,
+  silknotePatientUuid: string,
+  sources: MedicalDocument[],
+  parts: MergePart[],
+  title?: string
+): Promise<MergeResult> {
+  const { content, pageCount } = await combineDocuments(parts, sources);
+  const sourceClientFileIds = [...new Set(parts.map(part => part.clientFileId))];
+  const ordered = sourceClientFileIds.map(id => sources.find(document => document.clientFileId === id)!);
+
+  const clientFileId = uuidv4();
+  const storedPath = await storageService.storeFile(content, clientFileId);
+  const name = title?.trim() || (ordered.length > 1
+    ? `${baseName(ordered[0].originalName)}-${baseName(ordered[ordered.length - 1].originalName)}`
+    : baseName(ordered[0].originalName));
+  const originalName = extensionOf(name) === 'pdf' ? name : `${name}.pdf`;
+
+  const document: MedicalDocument = {
+    silknoteDocumentUuid: uuidv4(),
+    clientFileId,
+    silknotePatientUuid,
+    originalName,
+    storedPath,
+    status: 'stored',
+    category: DocumentType.UNPROCESSED,
+    uploadDate: new Date().toISOString(),
+    type: 'application/pdf',
+    size: content.length,
+    title: originalName,
+    format: { mimeType: 'application/pdf', extension: 'pdf' },
+    fileSize: content.length,
+    filename: path.basename(storedPath),
+    pageCount,
+    hash: hashFileContent(content),
+    sourceClientFileIds,
+    content: { analysisResult: null, extractedSchemas: [], enrichedSchemas: [], pageImages: [] },
+    confidence: 0
+  };
+  await patientService.addFileToPatient(silknotePatientUuid, document, silknoteUserUuid);
+
+  const removedChildren: string[] = [];
+  const children = (await storageService.getDocumentsForPatient(silknoteUserUuid, silknotePatientUuid))
+    .filter(child => child.parentClientFileId && sourceClientFileIds.includes(child.parentClientFileId));
+  for (const child of children) {
+    if (await storageService.deleteDocument(silknoteUserUuid, silknotePatientUuid, child.clientFileId)) removedChildren.push(child.clientFileId);
+  }
+
+  const hidden: MedicalDocument[] = [];
+  for (const source of ordered) {
+    if (!await removeFileFromVectorStore(silknotePatientUuid, source.clientFileId, silknoteUserUuid)) {
+      logger.warn(`Could not remove ${source.clientFileId} from the vector store after merging`);
+    }
+    await storageService.deleteVectorEntries(silknoteUserUuid, silknotePatientUuid, source.clientFileId);
+    await storageService.deleteTimelineEvents(silknoteUserUuid, silknotePatientUuid, source.clientFileId);
+
+    const updated: MedicalDocument = { ...source, status: 'merged', mergedInto: clientFileId };
+    if (!await storageService.updateDocument(silknoteUserUuid, silknotePatientUuid, updated)) {
+      throw new Error(`Failed to hide merged source document ${source.clientFileId}`);
+    }
+    hidden.push(updated);
+  }
+
+  logger.info(`Merged ${sourceClientFileIds.join(', ')} into ${clientFileId} (${pageCount} page(s))`);
+  return { document, sources: hidden, removedChildren };
+}
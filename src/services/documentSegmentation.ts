@@ -0,0 +1,215 @@
+/**
+ * Document Segmentation
+ *
+ * Insurers send bundles: one PDF holding dozens of letters, reports and certificates.
+ * After the per-page extractions, boundaries are found where a page starts a new
+ * document: a "Page 1 of N" marker, or at least two of a different author, letterhead
+ * organisation, document date or category from the pages before it. Each segment
+ * becomes a child document covering a page range of the parent's file, with its own
+ * category, date and author; the parent is kept with status 'split' so that listings,
+ * the timeline and the case summary read the children instead.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { io } from '../socket';
+import { DocumentType, MedicalDocument } from '../shared/types';
+import { storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+import { aggregateExtractions } from './analyzer/enrich-extraction';
+import * as patientService from './patientService';
+import { parseTimelineDate } from './patientTimeline';
+
+const logger = createLogger('DOCUMENT_SEGMENTATION');
+
+// Changed signals needed to start a new document without a page marker
+const BOUNDARY_SIGNALS = 2;
+const PAGE_MARKER = /\bpage\s+(\d+)\s+(?:of|\/)\s+(\d+)\b/i;
+const UNCATEGORISED: string[] = [DocumentType.UNKNOWN, DocumentType.UNPROCESSED];
+
+export interface DocumentSegment {
+  startPage: number;
+  endPage: number;
+  category: DocumentType;
+  title: string | null;
+  documentDate: string | null;
+  author: {
+    firstName?: string | null;
+    familyName?: string | null;
+    providerRole?: string | null;
+    providerOrganization?: string | null;
+  } | null;
+}
+
+// What a segment is known to be so far, from the first page that says so
+interface SegmentProfile {
+  author?: string;
+  organization?: string;
+  date?: string;
+  category?: string;
+}
+
+const normalise = (value: unknown): string | undefined => {
+  const text = typeof value === 'string' ? value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim() : '';
+  return text || undefined;
+};
+
+function pageProfile(page: any): SegmentProfile {
+  const author = normalise([page.author?.firstName, page.author?.familyName].filter(Boolean).join(' '));
+  return {
+    author,
+    organization: normalise(page.author?.providerOrganization),
+    date: (page.documentDate && parseTimelineDate(page.documentDate)) || undefined,
+    category: page.category && !UNCATEGORISED.includes(page.category) ? page.category : undefined
+  };
+}
+
+// The "Page n of N" printed on the page, if any
+function pageMarker(page: any): number | null {
+  for (const line of page.azureAnalysis?.lines || []) {
+    const match = PAGE_MARKER.exec(line.content || '');
+    if (match && Number(match[1]) <= Number(match[2])) return Number(match[1]);
+  }
+  return null;
+}
+
+function startsNewDocument(page: any, segment: SegmentProfile): boolean {
+  const marker = pageMarker(page);
+  if (marker !== null) return marker === 1;
+
+  const profile = pageProfile(page);
+  const changed = (['author', 'organization', 'date', 'category'] as const)
+    .filter(key => profile[key] && segment[key] && profile[key] !== segment[key]);
+  return changed.length >= BOUNDARY_SIGNALS;
+}
+
+function mostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function describeSegment(pages: any[]): DocumentSegment {
+  const categories = pages.map(page => page.category).filter(category => category && !UNCATEGORISED.includes(category));
+  const first = <T>(read: (page: any) => T | null | undefined): T | null => {
+    for (const page of pages) {
+      const value = read(page);
+      if (value) return value;
+    }
+    return null;
+  };
+  return {
+    startPage: pages[0].pageNumber,
+    endPage: pages[pages.length - 1].pageNumber,
+    category: (mostCommon(categories) || pages[0].category || DocumentType.UNKNOWN) as DocumentType,
+    title: first(page => page.documentTitle),
+    documentDate: first(page => page.documentDate),
+    author: first(page => (page.author?.firstName || page.author?.familyName || page.author?.providerOrganization ? page.author : null))
+  };
+}
+
+/**
+ * Splits the page extractions of a document into the documents it contains, in page
+ * order. A single segment means the file is one document.
+ */
+export function segmentPages(extractedSchemas: any[]): DocumentSegment[] {
+  const pages = extractedSchemas
+    .filter(page => page && typeof page.pageNumber === 'number')
+    .sort((a, b) => a.pageNumber - b.pageNumber);
+  if (pages.length === 0) return [];
+
+  const groups: any[][] = [[pages[0]]];
+  let profile = pageProfile(pages[0]);
+  for (const page of pages.slice(1)) {
+    if (startsNewDocument(page, profile)) {
+      groups.push([page]);
+      profile = pageProfile(page);
+    } else {
+      groups[groups.length - 1].push(page);
+      // Fill in what the first pages of the segment did not say
+      const next = pageProfile(page);
+      profile = {
+        author: profile.author || next.author,
+        organization: profile.organization || next.organization,
+        date: profile.date || next.date,
+        category: profile.category || next.category
+      };
+    }
+  }
+  return groups.map(describeSegment);
+}
+
+const formatAuthor = (author: DocumentSegment['author']): string =>
+  [author?.firstName, author?.familyName].filter(Boolean).join(' ') || author?.providerOrganization || '';
+
+/**
+ * The child document for one segment of a split parent. Children share the parent's file
+ * and keep its page numbers, so citations resolve against the same PDF.
+ */
+export function buildChildDocument(parent: MedicalDocument, segment: DocumentSegment, existing?: MedicalDocument): MedicalDocument {
+  const pages = (parent.content?.extractedSchemas || [])
+    .filter(page => page?.pageNumber >= segment.startPage && page?.pageNumber <= segment.endPage);
+  const range = segment.startPage === segment.endPage ? `page ${segment.startPage}` : `pages ${segment.startPage}-${segment.endPage}`;
+
+  return {
+    ...parent,
+    silknoteDocumentUuid: existing?.silknoteDocumentUuid || uuidv4(),
+    clientFileId: existing?.clientFileId || `${parent.clientFileId}-p${segment.startPage}-${segment.endPage}`,
+    parentClientFileId: parent.clientFileId,
+    pageRange: { start: segment.startPage, end: segment.endPage },
+    status: 'complete',
+    category: segment.category,
+    title: segment.title || `${parent.title || parent.originalName} (${range})`,
+    documentDate: segment.documentDate || parent.documentDate,
+    author: formatAuthor(segment.author),
+    authorFirstName: segment.author?.firstName || undefined,
+    authorFamilyName: segment.author?.familyName || undefined,
+    authorTitle: segment.author?.providerRole || undefined,
+    authorOrganization: segment.author?.providerOrganization || undefined,
+    pageCount: segment.endPage - segment.startPage + 1,
+    hash: undefined,
+    duplicateOf: undefined,
+    insurerRequestForIME: existing?.insurerRequestForIME,
+    alerts: existing?.alerts || [],
+    confidence: pages.length > 0 ? pages.reduce((sum, page) => sum + (page.confidence || 0), 0) / pages.length : 0,
+    content: {
+      // The layout result stays on the parent, which is the copy in the vector store
+      analysisResult: null,
+      extractedSchemas: pages,
+      enrichedSchemas: [{ ...aggregateExtractions(pages.map(page => page.enrichedExtraction).filter(Boolean)) }],
+      pageImages: []
+    }
+  } as MedicalDocument;
+}
+
+/**
+ * Brings a parent's children in line with its segments: children for unchanged page
+ * ranges are updated in place, new ranges are added and ranges that no longer exist are
+ * removed. A single segment leaves no children. Returns the current children.
+ */
+export async function saveChildDocuments(parent: MedicalDocument, allSegments: DocumentSegment[], silknoteUserUuid: string): Promise<MedicalDocument[]> {
+  const { silknotePatientUuid } = parent;
+  const segments = allSegments.length > 1 ? allSegments : [];
+  const existing = (await storageService.getDocumentsForPatient(silknoteUserUuid, silknotePatientUuid))
+    .filter(document => document.parentClientFileId === parent.clientFileId);
+  const rangeOf = (start: number, end: number) => existing.find(child => child.pageRange?.start === start && child.pageRange?.end === end);
+
+  for (const stale of existing.filter(child => !segments.some(segment => rangeOf(segment.startPage, segment.endPage) === child))) {
+    if (await storageService.deleteDocument(silknoteUserUuid, silknotePatientUuid, stale.clientFileId)) {
+      io.to(`patient-${silknotePatientUuid}`).emit('fileDeleted', { clientFileId: stale.clientFileId, silknotePatientUuid, message: 'Document boundaries changed on reprocessing' });
+    }
+  }
+
+  const children: MedicalDocument[] = [];
+  for (const segment of segments) {
+    const current = rangeOf(segment.startPage, segment.endPage);
+    const child = buildChildDocument(parent, segment, current);
+    if (current) {
+      await patientService.updateFileForPatient(silknotePatientUuid, child, silknoteUserUuid);
+    } else {
+      await patientService.addFileToPatient(silknotePatientUuid, child, silknoteUserUuid);
+    }
+    children.push(child);
+  }
+  if (children.length > 0) logger.info(`Split ${parent.clientFileId} into ${children.length} document(s): ${segments.map(s => `${s.startPage}-${s.endPage}`).join(', ')}`);
+  return children;
+}
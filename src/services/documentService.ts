@@ -3,10 +3,30 @@ import { MedicalDocument, DocumentType, PatientDetails, DocumentAlert, DocumentA
 import { analyzeDocument } from './documentAnalyzer'
 import { centralRateLimiter } from './centralRateLimiter'
 import * as patientService from './patientService'
-import { fromBuffer } from 'pdf2pic'
 import { processDocumentsForVectorStore } from './vectorStore'
+import { indexDocumentChunks } from './retrieval/chunkIndex'
+import { updateDocumentTimeline } from './patientTimeline'
+import { refreshMedicationAlerts } from './medicationReconciliation'
+import { detectDuplicate } from './documentDuplicates'
+import { DocumentSegment, saveChildDocuments, segmentPages } from './documentSegmentation'
+import config from '../config'
 import { storageService } from '../utils/storage'
 import { createLogger } from '../utils/logger'
+import { ProcessingJob, ProcessingPriority } from '../utils/storage-interfaces'
+import { FairQueue } from './fairQueue'
+import {
+  PROCESSING_STAGES,
+  ProcessingStage,
+  CheckpointContext,
+  loadDocumentCheckpoints,
+  getFirstIncompleteStage,
+  clearDocumentCheckpoints,
+  saveAnalysisResultCheckpoint,
+  savePageExtractionCheckpoint,
+  saveVectorStoreReceiptCheckpoint
+} from './processingCheckpoints'
+import { v4 as uuidv4 } from 'uuid'
+import os from 'os'
 
 // DOCUMENT_QUEUE process logging via centralized logger
 const logger = createLogger('DOCUMENT_QUEUE')
@@ -18,11 +38,50 @@ interface QueuedDocument {
   partialDoc: Partial<MedicalDocument>
   patientContext: PatientDetails
   filePath: string // Path to the file that should be retrieved from storage
+  priority: ProcessingPriority
+  jobId?: string // Persisted job backing this entry, absent if the DB adapter has no job store
+  attempts?: number // Runs so far, counted here when there is no job store
+  maxAttempts?: number // From the leased job; JOB_MAX_ATTEMPTS when there is no job store
 }
 
-// Processing queue to manage document processing
-class SequentialProcessingQueue {
-  private queue: QueuedDocument[] = []
+// A processDocument stage failed; nothing has been saved for the failure yet
+class ProcessingStageError extends Error {
+  constructor(readonly stage: string, cause: unknown) {
+    super(cause instanceof Error ? cause.message : 'Unknown error');
+    this.name = 'ProcessingStageError';
+  }
+}
+
+// Persisted job leases. A leased job whose heartbeat stops (crash, dyno restart)
+// is handed back to the queue once its lease expires.
+const JOB_LEASE_MS = 2 * 60 * 1000
+const JOB_HEARTBEAT_MS = 30 * 1000
+const JOB_MAX_ATTEMPTS = 3
+// A failed attempt is retried after 1 minute, then 2, so short outages of Document
+// Intelligence or the LLM do not end the job
+const JOB_RETRY_BASE_MS = 60 * 1000
+// Leases held under this host prefix by an earlier process are dead as soon as we start
+const WORKER_HOST_PREFIX = `${process.env['DYNO'] || os.hostname()}-`
+const WORKER_ID = `${WORKER_HOST_PREFIX}${process.pid}-${uuidv4().slice(0, 8)}`
+
+// Where a waiting document stands, as reported to the uploader in fileStatus
+export interface QueuePosition {
+  queuePosition: number                 // 1 is next to start
+  queueLength: number
+  estimatedWaitSeconds: number | null   // Until processing starts; null until a document has been timed
+}
+
+// Stands in for the OpenAI vector store id in receipts written by the chunk index
+const CHUNK_INDEX_RECEIPT_ID = 'chunk-index'
+
+// Processing queue to manage document processing. Batches are taken from a fair queue, so
+// users and patients take turns and interactive uploads go ahead of background work.
+export class SequentialProcessingQueue {
+  private queue = new FairQueue<QueuedDocument>(input => ({
+    silknoteUserUuid: input.patientContext.silknoteUserUuid,
+    silknotePatientUuid: input.patientContext.silknotePatientUuid,
+    priority: input.priority
+  }))
   private isProcessing = false
   private documentMap = new Map<string, QueuedDocument>()
   private batchSize = 3
@@ -37,17 +96,18 @@ class SequentialProcessingQueue {
   }
   private paused = false;
 
-  constructor() {
+  constructor(private readonly processQueued: (input: QueuedDocument) => Promise<void> = processDocument) {
     this.updateTokenAvailability()
     setInterval(() => {
       this.updateTokenAvailability()
       this.logQueueStats()
-    }, 60000)
+      void this.recoverPersistedJobs()
+    }, 60000).unref()
   }
 
   private logQueueStats() {
     logger.info('[QUEUE STATS]', {
-      queueSize: this.queue.length,
+      queueSize: this.queue.size,
       documentsInProcess: this.documentMap.size,
       batchSize: this.batchSize,
       tokensAvailable: this.totalTokensAvailable,
@@ -67,17 +127,40 @@ class SequentialProcessingQueue {
 
   async add(input: QueuedDocument): Promise<void> {
     const documentId = input.partialDoc.clientFileId!;
-    logger.info(`[QUEUE] Adding document to queue: ${documentId}. Current queue size: ${this.queue.length}. In-progress: ${this.isProcessing}`)
+    logger.info(`[QUEUE] Adding ${input.priority} document to queue: ${documentId}. Current queue size: ${this.queue.size}. In-progress: ${this.isProcessing}`)
     // Skip if document is already queued or processing
     if (this.documentMap.has(documentId)) {
       logger.appDebug(`Document ${documentId} already queued for processing`);
       return;
     }
 
+    // Persist the job first so it survives a restart
+    if (!input.jobId) {
+      try {
+        const job = await storageService.enqueueProcessingJob({
+          jobId: uuidv4(),
+          silknoteUserUuid: input.patientContext.silknoteUserUuid,
+          silknotePatientUuid: input.patientContext.silknotePatientUuid,
+          clientFileId: documentId,
+          silknoteDocumentUuid: input.partialDoc.silknoteDocumentUuid ?? null,
+          filePath: input.filePath,
+          status: 'queued',
+          priority: input.priority,
+          attempts: 0,
+          maxAttempts: JOB_MAX_ATTEMPTS,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString()
+        });
+        if (job) input.jobId = job.jobId;
+      } catch (error) {
+        logger.error(`[QUEUE] Failed to persist job for ${documentId}, continuing in memory only:`, error)
+      }
+    }
+
     // Store document in the queue and map
     this.queue.push(input);
     this.documentMap.set(documentId, input);
-    logger.info(`[QUEUE] Document ${documentId} queued. New queue size: ${this.queue.length}`)
+    logger.info(`[QUEUE] Document ${documentId} queued. New queue size: ${this.queue.size}`)
 
     // Start processing if not already in progress
     if (!this.isProcessing) {
@@ -87,8 +170,8 @@ class SequentialProcessingQueue {
   }
 
   private async processNext(): Promise<void> {
-    logger.appDebug(`[QUEUE] processNext invoked. Queue length: ${this.queue.length}. Processing flag: ${this.isProcessing}`)
-    if (this.isProcessing || this.queue.length === 0 || this.paused) return;
+    logger.appDebug(`[QUEUE] processNext invoked. Queue length: ${this.queue.size}. Processing flag: ${this.isProcessing}`)
+    if (this.isProcessing || this.queue.size === 0 || this.paused) return;
 
     this.isProcessing = true;
     this.processingStats.lastBatchStartTime = Date.now();
@@ -97,30 +180,51 @@ class SequentialProcessingQueue {
       logger.info('[QUEUE] Starting batch processing')
       await this.updateTokenAvailability();
       
-      const currentBatchSize = Math.min(this.batchSize, this.queue.length);
-      logger.info(`[QUEUE] Processing batch of size ${currentBatchSize}`)
-      const batch = this.queue.slice(0, currentBatchSize);
-      
-      // Remove processed items from queue
-      this.queue = this.queue.slice(currentBatchSize);
-      logger.info(`[QUEUE] Removed batch from queue. Remaining queue size: ${this.queue.length}`)
+      const batch: QueuedDocument[] = [];
+      while (batch.length < this.batchSize && this.queue.size > 0) {
+        batch.push(this.queue.shift()!);
+      }
+      logger.info(`[QUEUE] Processing batch of size ${batch.length}. Remaining queue size: ${this.queue.size}`)
+      // Everyone still waiting has moved up
+      this.emitQueuePositions();
       
       const processingPromises = batch.map(async (input) => {
         const documentId = input.partialDoc.clientFileId!;
         const startTime = Date.now();
+        let heartbeat: NodeJS.Timeout | null = null;
+
+        if (input.jobId) {
+          const leased = await storageService.leaseProcessingJob(input.jobId, WORKER_ID, JOB_LEASE_MS);
+          if (!leased) {
+            // Leased by another worker, or already finished
+            logger.info(`[QUEUE] Job ${input.jobId} for ${documentId} could not be leased, skipping`)
+            this.documentMap.delete(documentId);
+            return { id: documentId, success: false, skipped: true };
+          }
+          input.attempts = leased.attempts;
+          input.maxAttempts = leased.maxAttempts;
+          logger.info(`[QUEUE] Leased job ${input.jobId} (attempt ${leased.attempts}/${leased.maxAttempts})`)
+          heartbeat = setInterval(() => {
+            void storageService.heartbeatProcessingJob(input.jobId!, WORKER_ID, JOB_LEASE_MS);
+          }, JOB_HEARTBEAT_MS);
+        } else {
+          input.attempts = (input.attempts ?? 0) + 1;
+        }
+
         logger.info(`[PROCESS] Beginning processing for document ${documentId}`)
         
         try {
           // Process the document using the stored file path
-          await processDocument(input);
+          await this.processQueued(input);
           this.processingStats.successfulProcessed++;
+          this.updateAverageProcessingTime(Date.now() - startTime);
           logger.info(`[PROCESS] Document ${documentId} processed successfully`)
           
-          // Remove from documentMap if complete
-          if (input.partialDoc.status === 'complete') {
-            this.documentMap.delete(documentId);
-            logger.info(`[QUEUE] Document ${documentId} removed from map after completion`)
-          }
+          if (input.jobId) await storageService.completeProcessingJob(input.jobId);
+
+          // Whatever the run ended as (complete, or split into child documents), it can be queued again
+          this.documentMap.delete(documentId);
+          logger.info(`[QUEUE] Document ${documentId} removed from map after ${input.partialDoc.status || 'completion'}`)
           
           return { id: documentId, success: true, processingTime: Date.now() - startTime };
         } catch (error) {
@@ -130,10 +234,26 @@ class SequentialProcessingQueue {
           });
           
           this.processingStats.failedProcessed++;
+          const message = error instanceof Error ? error.message : String(error);
+          if ((input.attempts ?? 1) < (input.maxAttempts ?? JOB_MAX_ATTEMPTS)) {
+            await this.scheduleRetry(input, message);
+            return { id: documentId, success: false, error, retrying: true };
+          }
+
+          if (input.jobId) {
+            await storageService.failProcessingJob(input.jobId, message);
+          }
+          await markDocumentFailed(
+            { ...input.patientContext, clientFileId: documentId },
+            { stage: error instanceof ProcessingStageError ? error.stage : 'initializing', message },
+            input.partialDoc
+          );
           this.documentMap.delete(documentId);
           logger.info(`[QUEUE] Document ${documentId} removed from map after failure`)
           
           return { id: documentId, success: false, error };
+        } finally {
+          if (heartbeat) clearInterval(heartbeat);
         }
       });
 
@@ -143,24 +263,95 @@ class SequentialProcessingQueue {
     } finally {
       this.isProcessing = false;
       logger.appDebug('[QUEUE] processNext batch finished, isProcessing set to false')
-      if (this.queue.length > 0) {
+      if (this.queue.size > 0) {
         logger.appDebug('[QUEUE] Queue not empty, scheduling next batch')
         setImmediate(() => this.processNext());
       }
     }
   }
 
-  // private updateAverageProcessingTime(newTime: number) {
-  //   this.processingStats.averageProcessingTime = 
-  //     (this.processingStats.averageProcessingTime * (this.processingStats.totalProcessed - 1) + newTime) 
-  //     / this.processingStats.totalProcessed;
-  // }
+  // Queues a failed document again once its backoff has passed. It stays in the map
+  // meanwhile, so recovery does not pick up the persisted job early.
+  private async scheduleRetry(input: QueuedDocument, error: string): Promise<void> {
+    const documentId = input.partialDoc.clientFileId!;
+    const attempts = input.attempts ?? 1;
+    const delay = JOB_RETRY_BASE_MS * 2 ** (attempts - 1);
+    if (input.jobId) {
+      await storageService.retryProcessingJob(input.jobId, error, new Date(Date.now() + delay).toISOString());
+    }
+    logger.info(`[QUEUE] Retrying ${documentId} in ${delay / 1000}s (attempt ${attempts}/${input.maxAttempts ?? JOB_MAX_ATTEMPTS} failed)`)
+
+    const silknotePatientUuid = input.patientContext.silknotePatientUuid;
+    io.to(`patient-${silknotePatientUuid}`).emit('fileStatus', {
+      clientFileId: documentId,
+      silknotePatientUuid,
+      status: 'queued',
+      processingStage: 'retry_scheduled',
+      attempt: attempts,
+      retryInSeconds: delay / 1000
+    });
+
+    setTimeout(() => {
+      this.documentMap.delete(documentId);
+      void this.add({ ...input, partialDoc: { ...input.partialDoc, status: 'queued' } });
+    }, delay);
+  }
+
+  // Moving average, so the estimate follows the current load on the LLM and layout services
+  private updateAverageProcessingTime(newTime: number) {
+    this.processingStats.totalProcessed++;
+    this.processingStats.averageProcessingTime = this.processingStats.averageProcessingTime
+      ? Math.round(this.processingStats.averageProcessingTime * 0.8 + newTime * 0.2)
+      : newTime;
+  }
+
+  // Waiting documents in the order they will start. Documents in the current batch run
+  // together, so a document waits for that batch and one batch per batchSize ahead of it.
+  private waiting(): Array<{ input: QueuedDocument, position: QueuePosition }> {
+    const ordered = this.queue.ordered();
+    const average = this.processingStats.averageProcessingTime;
+    return ordered.map((input, index) => {
+      const batchesAhead = Math.floor(index / this.batchSize) + (this.isProcessing ? 1 : 0);
+      return {
+        input,
+        position: {
+          queuePosition: index + 1,
+          queueLength: ordered.length,
+          estimatedWaitSeconds: average ? Math.round(batchesAhead * average / 1000) : null
+        }
+      };
+    });
+  }
+
+  /**
+   * Where a document stands in the queue
+   * @param documentId ID of the document
+   * @returns null if the document is not waiting, including while it is being processed
+   */
+  positionOf(documentId: string): QueuePosition | null {
+    return this.waiting().find(({ input }) => input.partialDoc.clientFileId === documentId)?.position ?? null;
+  }
+
+  // Sent to every waiting document when the queue moves, rather than on each document added
+  private emitQueuePositions(): void {
+    for (const { input, position } of this.waiting()) {
+      const silknotePatientUuid = input.patientContext.silknotePatientUuid;
+      io.to(`patient-${silknotePatientUuid}`).emit('fileStatus', {
+        clientFileId: input.partialDoc.clientFileId,
+        silknotePatientUuid,
+        status: 'queued',
+        processingStage: 'queued',
+        priority: input.priority,
+        ...position
+      });
+    }
+  }
 
   /**
    * Gets the number of documents currently in the queue
    */
   get size(): number {
-    return this.queue.length;
+    return this.queue.size;
   }
 
   /**
@@ -195,63 +386,120 @@ class SequentialProcessingQueue {
     logger.info('[QUEUE] Processing resumed');
     setImmediate(() => this.processNext());
   }
-}
 
-// Initialize sequential processing queue
-const processingQueue = new SequentialProcessingQueue();
+  /**
+   * Releases expired leases and loads queued jobs from the job store into memory.
+   * Runs on startup and then with the periodic stats tick, so jobs orphaned by another
+   * worker are picked up once their lease runs out.
+   * @param onStartup Also release leases left by a previous process on this host without waiting for expiry
+   * @returns Number of jobs added to the in-memory queue
+   */
+  async recoverPersistedJobs(onStartup: boolean = false): Promise<number> {
+    if (!storageService.isInitialized()) return 0;
 
-// Helper to extract PDF page images using pdf2pic and the provided pageCount
-async function extractPdfImages(buffer: Buffer, pageCount: number): Promise<string[]> {
-  const MAX_PAGES_PER_BATCH = 5
-  const PROCESSING_DELAY_MS = 100
+    try {
+      const released = await storageService.requeueExpiredProcessingJobs(onStartup ? WORKER_HOST_PREFIX : undefined);
+      for (const job of released.filter(j => j.status === 'failed')) {
+        logger.error(`[QUEUE] Job ${job.jobId} for ${job.clientFileId} exceeded ${job.maxAttempts} attempts, marking document as error`)
+        await markDocumentFailed(job, { stage: 'queued', message: `Abandoned after ${job.maxAttempts} attempts` });
+      }
 
-  // Process all pages without limit
-  const pagesToProcess = pageCount
-  
-  const options = {
-    density: 150,
-    format: "png",
-    width: 800,
-    height: 600,
-    quality: 100,
-    saveFilename: "page",
-    savePath: "",         // empty string prevents file saving
-    outputType: "base64"  // returns a base64 encoded image
-  }
-  
-  // Reduce density for very large documents to save memory
-  if (pageCount > 20) {
-    options.density = 120
-    options.width = 600
-    options.height = 450
-  }
-  
-  const converter = fromBuffer(buffer, options)
-  const imageResults: string[] = []
-  
-  // Process pages in batches to reduce memory pressure
-  for (let batchStart = 1; batchStart <= pagesToProcess; batchStart += MAX_PAGES_PER_BATCH) {
-    const batchEnd = Math.min(batchStart + MAX_PAGES_PER_BATCH - 1, pagesToProcess)
-    // console.log(`[PDF EXTRACTION] Processing batch of pages ${batchStart}-${batchEnd} of ${pageCount}`)
-    
-    const batchPromises: Promise<string>[] = []
-    for (let i = batchStart; i <= batchEnd; i++) {
-      batchPromises.push(converter(i).then((res: any) => res.base64))
-    }
-    
-    // Process batch
-    const batchResults = await Promise.all(batchPromises)
-    imageResults.push(...batchResults)
-    
-    // Add a small delay between batches to allow for GC
-    if (batchEnd < pagesToProcess) {
-      await delay(PROCESSING_DELAY_MS)
+      const queuedJobs = await storageService.getQueuedProcessingJobs();
+      let recovered = 0;
+      for (const job of queuedJobs) {
+        if (this.documentMap.has(job.clientFileId)) continue;
+
+        const patientContext: PatientDetails | null = await storageService.getPatient(job.silknoteUserUuid, job.silknotePatientUuid);
+        const document = patientContext
+          ? await storageService.getDocument(job.silknoteUserUuid, job.silknotePatientUuid, job.clientFileId)
+          : null;
+        if (!patientContext || !document) {
+          logger.warn(`[QUEUE] Job ${job.jobId} references missing patient/document, marking failed`)
+          await storageService.failProcessingJob(job.jobId, 'Patient or document no longer exists');
+          continue;
+        }
+
+        await this.add({
+          partialDoc: { ...document, status: 'queued', storedPath: job.filePath },
+          patientContext,
+          filePath: job.filePath,
+          priority: job.priority ?? 'standard',
+          jobId: job.jobId
+        });
+        io.to(`patient-${job.silknotePatientUuid}`).emit('fileStatus', {
+          clientFileId: job.clientFileId,
+          silknotePatientUuid: job.silknotePatientUuid,
+          status: 'queued',
+          processingStage: 'queued'
+        });
+        recovered++;
+      }
+
+      if (recovered > 0) this.emitQueuePositions();
+      if (recovered > 0 || released.length > 0) {
+        logger.info(`[QUEUE] Recovery: ${released.length} lease(s) released, ${recovered} job(s) re-queued in memory`)
+      }
+      return recovered;
+    } catch (error) {
+      logger.error('[QUEUE] Error recovering persisted jobs:', error)
+      return 0;
     }
   }
-  
-  return imageResults
 }
 
+// Saves a document that is out of attempts as an error, with an alert naming the failed
+// stage, and tells the client processing has ended. partialDoc carries what the last run
+// produced; without it the stored document is used.
+async function markDocumentFailed(
+  context: { silknoteUserUuid: string; silknotePatientUuid: string; clientFileId: string },
+  failure: { stage: string; message: string },
+  partialDoc?: Partial<MedicalDocument>
+): Promise<void> {
+  const { silknoteUserUuid, silknotePatientUuid, clientFileId } = context;
+  const room = `patient-${silknotePatientUuid}`;
+  try {
+    const document = partialDoc ?? await storageService.getDocument(silknoteUserUuid, silknotePatientUuid, clientFileId);
+    if (!document) return;
+    const errorDocument: MedicalDocument = {
+      ...document as MedicalDocument,
+      clientFileId,
+      silknotePatientUuid,
+      originalName: document.originalName || '',
+      status: 'error',
+      category: 'ERROR' as DocumentType,
+      title: document.title || document.originalName || `Document-${clientFileId}`,
+      alerts: [
+        ...(document.alerts || []),
+        {
+          type: DocumentAlertType.ERROR,
+          description: `Processing error in stage '${failure.stage}': ${failure.message}`,
+          source: 'SERVER_API_CALL',
+          timestamp: new Date().toISOString(),
+          acknowledged: false
+        }
+      ]
+    };
+    await patientService.updateFileForPatient(silknotePatientUuid, errorDocument, silknoteUserUuid);
+
+    // The completion carries the error document so it appears in the UI
+    const errorCompletion = {
+      clientFileId,
+      silknotePatientUuid,
+      status: 'error',
+      processingStage: 'error',
+      error: failure.message,
+      medicalDocument: errorDocument
+    };
+    logSocketEmit(room, 'fileStatus', errorCompletion);
+    io.to(room).emit('fileStatus', errorCompletion);
+  } catch (error) {
+    logger.error(`[QUEUE] Failed to mark document ${clientFileId} as error:`, error)
+  }
+}
+
+// Initialize sequential processing queue
+const processingQueue = new SequentialProcessingQueue();
+
 // Add a helper function for logging socket events
 function logSocketEmit(room: string, event: string, data: any) {
   logger.appDebug(`[SOCKET EMIT] Room: ${room}, Event: ${event}`, {
@@ -273,15 +521,22 @@ function logSocketEmit(room: string, event: string, data: any) {
   });
 }
 
+/**
+ * Adds a document to the processing queue and reports its place in the queue to the patient room.
+ * Priority defaults to 'standard'; interactive uploads pass 'interactive' and syncs 'background'.
+ */
 export async function queueDocument(input: { 
   filePath: string, 
   partialDoc: Partial<MedicalDocument>, 
-  patientContext: PatientDetails 
+  patientContext: PatientDetails,
+  priority?: ProcessingPriority
 }): Promise<void> {
+  const priority = input.priority ?? 'standard';
   logger.info('[DOCUMENT QUEUE] Queueing document for processing:', {
     documentId: input.partialDoc.clientFileId,
     filePath: input.filePath,
-    patientId: input.patientContext.silknotePatientUuid
+    patientId: input.patientContext.silknotePatientUuid,
+    priority
   });
   
   // Validate input
@@ -304,20 +559,61 @@ export async function queueDocument(input: {
   await processingQueue.add({
     partialDoc: input.partialDoc,
     patientContext: input.patientContext,
-    filePath: input.filePath
+    filePath: input.filePath,
+    priority
   });
 
   const statusEvent = {
     clientFileId: input.partialDoc.clientFileId,
     silknotePatientUuid: input.patientContext.silknotePatientUuid,
     status: 'queued',
-    processingStage: 'queued'
+    processingStage: 'queued',
+    priority,
+    ...processingQueue.positionOf(input.partialDoc.clientFileId)
   };
   logger.appDebug(`[PROCESS] Emitting status: ${JSON.stringify(statusEvent)}`);
   const roomName = `patient-${input.patientContext.silknotePatientUuid}`;
   io.to(roomName).emit('fileStatus', statusEvent);
 }
 
+/**
+ * Queues a stored document for reprocessing. Stages with saved checkpoints are skipped;
+ * forceStage clears that stage's checkpoints so it reruns in full ('initializing' reruns everything).
+ * @returns The stage processing will resume from
+ */
+export async function reprocessDocument(input: {
+  document: MedicalDocument,
+  patientContext: PatientDetails,
+  forceStage?: ProcessingStage
+}): Promise<{ resumeFrom: ProcessingStage }> {
+  const { document, patientContext, forceStage } = input;
+  const checkpointContext: CheckpointContext = {
+    silknoteUserUuid: patientContext.silknoteUserUuid,
+    silknotePatientUuid: patientContext.silknotePatientUuid,
+    clientFileId: document.clientFileId
+  };
+
+  if (forceStage === 'initializing') {
+    await clearDocumentCheckpoints(checkpointContext);
+  } else if (forceStage) {
+    await clearDocumentCheckpoints(checkpointContext, forceStage);
+  }
+
+  let resumeFrom = getFirstIncompleteStage(await loadDocumentCheckpoints(checkpointContext));
+  if (forceStage && PROCESSING_STAGES.indexOf(forceStage) < PROCESSING_STAGES.indexOf(resumeFrom)) {
+    resumeFrom = forceStage;
+  }
+  logger.info(`[DOCUMENT QUEUE] Reprocessing ${document.clientFileId} from stage '${resumeFrom}'${forceStage ? ` (forced: ${forceStage})` : ''}`);
+
+  await queueDocument({
+    filePath: document.storedPath,
+    partialDoc: { ...document, status: 'queued' },
+    patientContext
+  });
+
+  return { resumeFrom };
+}
+
 async function processDocument(input: QueuedDocument): Promise<void> {
   // Ensure we have a filePath
   if (!input.filePath) {
@@ -333,7 +629,19 @@ async function processDocument(input: QueuedDocument): Promise<void> {
   
   const documentId = partialDoc.clientFileId!;
   const room = `patient-${patientContext.silknotePatientUuid}`;
-  const processingStages = ['initializing', 'analyzing', 'extracting', 'categorizing'];
+  const processingStages = PROCESSING_STAGES;
+
+  // Load output saved by earlier attempts so completed stages are not repeated
+  const checkpointContext: CheckpointContext = {
+    silknoteUserUuid: patientContext.silknoteUserUuid,
+    silknotePatientUuid: patientContext.silknotePatientUuid,
+    clientFileId: documentId
+  };
+  const checkpoints = await loadDocumentCheckpoints(checkpointContext);
+  const resumeFrom = getFirstIncompleteStage(checkpoints);
+  if (resumeFrom !== 'analyzing' || checkpoints.analysisResult) {
+    logger.info(`[PROCESSING] Resuming document ${documentId} from stage '${resumeFrom}' using saved checkpoints`);
+  }
   
   // Add validation error logging helper
   const logValidationError = (stage: string, error: any) => {
@@ -364,6 +672,8 @@ async function processDocument(input: QueuedDocument): Promise<void> {
   
   // Track the complete document to emit at the end
   let completeDoc: MedicalDocument | null = null;
+  // Documents found inside a bundled PDF; more than one splits it
+  let segments: DocumentSegment[] = [];
   
   // Process through stages sequentially
   for (const stage of processingStages) {
@@ -386,55 +696,7 @@ async function processDocument(input: QueuedDocument): Promise<void> {
           
         case 'analyzing':
           try {
-            // Extract page images before analysis if needed
-            if (!partialDoc.content?.pageImages || partialDoc.content.pageImages.length === 0) {
-              //console.log(`[PROCESSING] Extracting page images for document ${documentId}`);
-              
-              // Only load buffer when needed for image extraction
-              let imageExtractionBuffer: Buffer | null = null;
-              try {
-                // Get page count if available, otherwise use 1
-                const pageCount = partialDoc.pageCount || 1;
-                
-                // Load buffer only for image extraction
-                //console.log(`[PROCESSING] Loading buffer for image extraction: ${documentId}`);
-                imageExtractionBuffer = await storageService.getFileContent(filePath);
-                
-                // Extract images using the existing function
-                const pageImages = await extractPdfImages(imageExtractionBuffer, pageCount);
-                
-                // Ensure partialDoc.content is defined as expected
-                if (!partialDoc.content) {
-                  partialDoc.content = {
-                    analysisResult: null,
-                    extractedSchemas: [],
-                    enrichedSchemas: [],
-                    pageImages: []
-                  };
-                }
-                
-                // Assign extracted images to the document
-                partialDoc.content.pageImages = pageImages;
-                
-              //  console.log(`[PROCESSING] Successfully extracted ${pageImages.length} page images for document ${documentId}`);
-              } catch (extractError) {
-                logger.error(`[PROCESSING] Failed to extract page images for document ${documentId}:`, extractError);
-                // Continue with empty page images array rather than failing
-                if (!partialDoc.content) {
-                  partialDoc.content = {
-                    analysisResult: null,
-                    extractedSchemas: [],
-                    enrichedSchemas: [],
-                    pageImages: []
-                  };
-                }
-              } finally {
-                // Clear buffer reference to allow garbage collection
-                imageExtractionBuffer = null;
-              }
-            }
-            
-            // Now load buffer separately for document analysis
+            // Page images are rendered on request (GET /api/documents/:documentId/pages/:n), not stored here
             let analysisBuffer: Buffer | null = null;
             try {
            //   console.log(`[PROCESSING] Loading buffer for document analysis: ${documentId}`);
@@ -443,7 +705,13 @@ async function processDocument(input: QueuedDocument): Promise<void> {
               const medicalDocument = await analyzeDocument({ 
                 documentId, 
                 buffer: analysisBuffer, 
-                partialDoc 
+                partialDoc,
+                checkpoint: {
+                  analysisResult: checkpoints.analysisResult,
+                  pageExtractions: checkpoints.pageExtractions,
+                  onAnalysisResult: (result) => saveAnalysisResultCheckpoint(checkpointContext, result),
+                  onPageExtracted: (pageNumber, extraction) => savePageExtractionCheckpoint(checkpointContext, pageNumber, extraction)
+                }
               });
               
               // Ensure we have a complete document after analysis
@@ -488,7 +756,10 @@ async function processDocument(input: QueuedDocument): Promise<void> {
                 patient.dateOfBirth.includes(detectedPatientDOB) ||
                 detectedPatientDOB.includes(patient.dateOfBirth);
               
-              if (!nameMatches || !dobMatches) {
+              // A resumed run may already carry the alert from an earlier attempt
+              const alreadyFlagged = (partialDoc.alerts || []).some(alert => alert.type === DocumentAlertType.INCORRECT_PATIENT);
+
+              if ((!nameMatches || !dobMatches) && !alreadyFlagged) {
                 // console.log(`[PROCESSING] Detected possible incorrect patient assignment.`);
                 // console.log(`Patient name: ${patient?.name}, Detected: ${detectedPatientName}`);
                 // console.log(`Patient DOB: ${patient?.dateOfBirth}, Detected: ${detectedPatientDOB}`);
@@ -516,6 +787,13 @@ async function processDocument(input: QueuedDocument): Promise<void> {
                 partialDoc.alerts.push(incorrectPatientAlert);
               }
             }
+
+            try {
+              await detectDuplicate(partialDoc as MedicalDocument, patientContext.silknoteUserUuid);
+            } catch (error) {
+              logger.error(`[PROCESSING] Error checking document ${documentId} for duplicates:`, error);
+              // Treat as a separate document; the check runs again if it is reprocessed
+            }
           } catch (error) {
             // Handle analysis errors more gracefully
             const analyzeError = error as Error;
@@ -556,7 +834,42 @@ async function processDocument(input: QueuedDocument): Promise<void> {
           }
           break;
           
+        case 'segmenting':
+          // Children are only made for documents that are not themselves children
+          if (!partialDoc.parentClientFileId) {
+            segments = segmentPages(partialDoc.content?.extractedSchemas || []);
+            if (segments.length > 1) {
+              logger.info(`[PROCESSING] Document ${documentId} holds ${segments.length} documents`);
+            }
+          }
+          break;
+
         case 'extracting':
+          if (checkpoints.vectorStoreReceipt) {
+            logger.info(`[PROCESSING] Document ${documentId} already uploaded to vector store ${checkpoints.vectorStoreReceipt.vectorStoreId}, skipping`);
+            break;
+          }
+          if (partialDoc.duplicateOf && !partialDoc.duplicateOf.dismissed) {
+            // Duplicates are ingested only if they are dismissed as separate documents
+            logger.info(`[PROCESSING] Document ${documentId} duplicates ${partialDoc.duplicateOf.clientFileId}, not adding it to the vector store`);
+            break;
+          }
+          if (config.retrieval.backend === 'CHUNK_INDEX') {
+            try {
+              const chunkCount = await indexDocumentChunks(partialDoc as MedicalDocument, patientContext.silknoteUserUuid);
+              await saveVectorStoreReceiptCheckpoint(checkpointContext, {
+                assistantId: '',
+                vectorStoreId: CHUNK_INDEX_RECEIPT_ID,
+                processedFiles: [{ fileName: partialDoc.originalName || documentId, fileId: documentId, status: 'indexed' }],
+                backend: 'CHUNK_INDEX',
+                chunkCount
+              });
+            } catch (error) {
+              logger.error(`[PROCESSING] Error indexing document chunks:`, error);
+              // Continue processing even if indexing fails; the query path indexes missing documents
+            }
+            break;
+          }
           // Process for vector store
           try {
             // Load buffer separately just for vector store processing
@@ -578,11 +891,17 @@ async function processDocument(input: QueuedDocument): Promise<void> {
               console.log(`[VECTOR STORE] Using explicit clientFileId as filename: ${filename}`);
               
               // Call vectorStore processing - no mapping parameter needed as filename is already set
-              await processDocumentsForVectorStore(
+              const receipt = await processDocumentsForVectorStore(
                 [vectorStoreFile], 
                 patientContext.silknotePatientUuid,
                 patientContext.silknoteUserUuid
               );
+              await saveVectorStoreReceiptCheckpoint(checkpointContext, {
+                assistantId: receipt.assistantId,
+                vectorStoreId: receipt.vectorStoreId,
+                processedFiles: receipt.processedFiles,
+                backend: 'ASSISTANTS'
+              });
             } finally {
               // Clear vector buffer
               vectorBuffer = null;
@@ -612,7 +931,7 @@ async function processDocument(input: QueuedDocument): Promise<void> {
             clientFileId: documentId, // Use clientFileId as the primary identifier
             silknotePatientUuid: patientContext.silknotePatientUuid,
             originalName: partialDoc.originalName,
-            status: 'complete',
+            status: segments.length > 1 ? 'split' : 'complete',
             category: partialDoc.category || DocumentType.UNPROCESSED,
             type: partialDoc.type,
             size: partialDoc.size || 0,
@@ -641,6 +960,42 @@ async function processDocument(input: QueuedDocument): Promise<void> {
             completeDoc, 
             patientContext.silknoteUserUuid
           );
+          let timelineDocuments: MedicalDocument[] = [completeDoc];
+          if (!completeDoc.parentClientFileId) {
+            try {
+              const children = await saveChildDocuments(completeDoc, segments, patientContext.silknoteUserUuid);
+              if (children.length > 0) timelineDocuments = children;
+            } catch (error) {
+              logger.error(`[PROCESSING] Error saving the documents split out of ${documentId}:`, error);
+              // Keep the bundle as one document rather than lose it
+              completeDoc.status = 'complete';
+              await patientService.updateFileForPatient(patientContext.silknotePatientUuid, completeDoc, patientContext.silknoteUserUuid);
+            }
+          }
+          for (const timelineDocument of timelineDocuments) {
+            try {
+              await updateDocumentTimeline(timelineDocument, patientContext.silknoteUserUuid);
+            } catch (error) {
+              logger.error(`[PROCESSING] Error updating timeline for document ${timelineDocument.clientFileId}:`, error);
+              // The timeline is rebuilt from the document on the next read
+            }
+          }
+          try {
+            const alertsByDocument = await refreshMedicationAlerts(patientContext.silknoteUserUuid, patientContext.silknotePatientUuid);
+            for (const [clientFileId, alerts] of alertsByDocument) {
+              if (clientFileId === documentId) {
+                completeDoc.alerts = alerts;
+              } else {
+                io.to(`patient-${patientContext.silknotePatientUuid}`).emit('documentUpdated', {
+                  clientFileId,
+                  silknotePatientUuid: patientContext.silknotePatientUuid,
+                  updates: { alerts }
+                });
+              }
+            }
+          } catch (error) {
+            logger.error(`[PROCESSING] Error checking medications for document ${documentId}:`, error);
+          }
           Object.assign(partialDoc, completeDoc);
           break;
       }
@@ -677,79 +1032,8 @@ async function processDocument(input: QueuedDocument): Promise<void> {
       //   timestamp: new Date().toISOString()
       // });
       
-      // Attempt to salvage the document by marking it as error but still completing it
-      // with whatever data we have so far
-      try {
-        // Fix for the error in error handling inside try/catch
-        // Create an error document to return to the client
-        const errorDocument: MedicalDocument = {
-          ...partialDoc as MedicalDocument,
-          clientFileId: documentId,
-          silknotePatientUuid: patientContext.silknotePatientUuid,
-          originalName: partialDoc.originalName || '',
-          status: 'error',
-          category: 'ERROR' as DocumentType,
-          title: partialDoc.title || partialDoc.originalName || `Document-${documentId}`,
-          alerts: [
-            ...(partialDoc.alerts || []), 
-            {
-              type: DocumentAlertType.ERROR,
-              description: `Processing error in stage '${stage}': ${error instanceof Error ? error.message : 'Unknown error'}`,
-              source: 'SERVER_API_CALL',
-              timestamp: new Date().toISOString(),
-              acknowledged: false
-            }
-          ]
-        };
-        
-        // Persist the error document
-        await patientService.updateFileForPatient(
-          patientContext.silknotePatientUuid, 
-          errorDocument, 
-          patientContext.silknoteUserUuid
-        );
-        
-        // Emit the error status
-        const errorUpdate = {
-          clientFileId: documentId,
-          status: 'error',
-          processingStage: stage,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        };
-        
-        logSocketEmit(room, 'fileStatus', errorUpdate);
-        io.to(room).emit('fileStatus', errorUpdate);
-        
-        // Also emit a processingComplete with the error document to ensure it appears in the UI
-        const errorCompletion = {
-          clientFileId: documentId,
-          silknotePatientUuid: patientContext.silknotePatientUuid,
-          status: 'error',
-          processingStage: 'error',
-          medicalDocument: {
-            ...errorDocument,
-            // Ensure clientFileId matches the document ID
-            clientFileId: documentId
-          }
-        };
-        
-        // console.log(`[PROCESSING] Emitting errorCompletion for failed document ${documentId}`, {
-        //   status: 'error',
-        //   processingStage: 'error',
-        //   category: errorDocument.category,
-        //   timestamp: new Date().toISOString()
-        // });
-        
-        logSocketEmit(room, 'fileStatus', errorCompletion);
-        io.to(room).emit('fileStatus', errorCompletion);
-        
-      } catch (secondaryError) {
-        // If even our error handling fails, log it but still rethrow the original error
-        logger.error(`[PROCESSING] Failed to emit error document for ${documentId}:`, secondaryError);
-      }
-      
-      // Rethrow the original error to abort processing for this document
-      throw error;
+      // The queue retries the document, and records it as failed once out of attempts
+      throw new ProcessingStageError(stage, error);
     }
   }
   
@@ -839,7 +1123,7 @@ function extractPatientNameFromDocument(document: Partial<MedicalDocument>): str
     }
     
     // If we have extracted page content, try to find patient name patterns
-    if (document.content.pageImages && document.content.pageImages.length > 0) {
+    if (document.content.analysisResult.pages && document.content.analysisResult.pages.length > 0) {
       // First page typically contains patient info
       // This is just a simple heuristic approach using a basic regex pattern
       
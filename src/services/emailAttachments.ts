@@ -0,0 +1,110 @@
+/**
+ * Email Attachments
+ *
+ * An uploaded .eml or Outlook .msg is converted to PDF like any other upload, but its
+ * attachments are often the documents that matter, such as a specialist's report sent on
+ * to the case manager. Each attachment of a supported type becomes a document of its own,
+ * stored the way an upload is and processed through the normal queue, with attachedTo
+ * pointing at the email. The email and its attachments record the sender, recipients and
+ * sent date, and take the sender as author and the sent date as document date.
+ */
+
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DocumentEmail, DocumentType, MedicalDocument, PatientDetails } from '../shared/types';
+import { storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+import { EMAIL_MIME_TYPES, resolveMimeType } from '../utils/handler-types';
+import { ParsedEmail, parseEmail } from '../utils/email-parser';
+import { originalFileName } from './documentConversion';
+import { flagDuplicate, hashFileContent } from './documentDuplicates';
+import * as patientService from './patientService';
+
+const logger = createLogger('EMAIL_ATTACHMENTS');
+
+export interface EmailExtraction {
+  document: MedicalDocument;       // The email, with its sender, recipients and sent date
+  attachments: MedicalDocument[];  // Stored and added to the patient, ready to be converted and queued
+  skipped: string[];               // Attachments of types that cannot be processed
+}
+
+// Uploaded as an email, whether or not it has been converted to PDF yet
+export const isEmail = (document: MedicalDocument): boolean =>
+  (EMAIL_MIME_TYPES as readonly string[]).includes(document.conversion?.sourceMimeType || document.format?.mimeType || '');
+
+export const emailDetails = (email: ParsedEmail): DocumentEmail => ({
+  fromName: email.fromName,
+  fromAddress: email.fromAddress,
+  to: email.to,
+  cc: email.cc,
+  subject: email.subject,
+  sentDate: email.date
+});
+
+// Author and date already set on the document are kept
+const withEmail = (document: MedicalDocument, email: DocumentEmail): MedicalDocument => ({
+  ...document,
+  email,
+  author: document.author || email.fromName || email.fromAddress || '',
+  documentDate: document.documentDate || email.sentDate
+});
+
+/**
+ * Reads the email's original file and stores each supported attachment as a new document
+ * of the patient. The attachments are stubs with status 'stored'; non-PDFs are kept under
+ * their original name for conversion, as uploads are. The email document is returned with
+ * the email's details but is not saved.
+ */
+export async function extractEmailAttachments(
+  silknoteUserUuid: string,
+  patient: PatientDetails,
+  document: MedicalDocument
+): Promise<EmailExtraction> {
+  const mimeType = document.conversion?.sourceMimeType || document.format?.mimeType;
+  const content = await storageService.getFileContent(document.conversion?.originalPath || document.storedPath);
+  const parsed = parseEmail(content, mimeType || '');
+  const email = emailDetails(parsed);
+
+  const attachments: MedicalDocument[] = [];
+  const skipped: string[] = [];
+  for (const attachment of parsed.attachments) {
+    const attachmentType = resolveMimeType(attachment.contentType || undefined, attachment.filename);
+    if (!attachmentType) {
+      skipped.push(attachment.filename);
+      continue;
+    }
+
+    const clientFileId = uuidv4();
+    const isPdf = attachmentType === 'application/pdf';
+    const storedPath = await storageService.storeFile(attachment.content, isPdf ? clientFileId : originalFileName(clientFileId, attachment.filename));
+    const child = withEmail({
+      silknoteDocumentUuid: uuidv4(),
+      clientFileId,
+      silknotePatientUuid: patient.silknotePatientUuid,
+      originalName: attachment.filename,
+      storedPath,
+      status: 'stored',
+      category: DocumentType.UNPROCESSED,
+      uploadDate: new Date().toISOString(),
+      type: attachmentType,
+      size: attachment.content.length,
+      title: attachment.filename,
+      format: { mimeType: attachmentType, extension: isPdf ? 'pdf' : path.extname(attachment.filename).slice(1).toLowerCase() },
+      fileSize: attachment.content.length,
+      filename: path.basename(storedPath),
+      pageCount: 0,
+      hash: hashFileContent(attachment.content),
+      attachedTo: document.clientFileId,
+      content: { analysisResult: null, extractedSchemas: [], enrichedSchemas: [], pageImages: [] },
+      confidence: 0
+    }, email);
+    flagDuplicate(child, [...(patient.fileSet || []), ...attachments]);
+
+    await patientService.addFileToPatient(patient.silknotePatientUuid, child, silknoteUserUuid);
+    attachments.push(child);
+  }
+
+  if (skipped.length > 0) logger.warn(`Skipped unsupported attachments of ${document.clientFileId}: ${skipped.join(', ')}`);
+  logger.info(`Extracted ${attachments.length} attachment(s) from ${document.clientFileId}`);
+  return { document: withEmail(document, email), attachments, skipped };
+}
@@ -0,0 +1,183 @@
+/**
+ * Case Summary Report
+ *
+ * Lays out a ViewerCaseSummarySchema as a format-neutral report (headings, paragraphs,
+ * labelled fields and bullets) that the DOCX and PDF renderers draw. Citation markers
+ * embedded in the summary text (【cite-xxxxxx】) become numbered footnotes naming the
+ * source document and page; markers without a matching citation are dropped.
+ */
+
+import { ViewerCaseSummarySchema } from '../../shared/case-summary-types';
+import { MedicalDocument, SummaryCitation } from '../../shared/types';
+
+export interface ReportRun {
+  text: string;
+  footnote?: number; // Footnote reference drawn after the text
+}
+
+export type ReportBlock =
+  | { type: 'title'; text: string }
+  | { type: 'subtitle'; text: string }
+  | { type: 'heading'; level: 1 | 2; text: string }
+  | { type: 'paragraph'; runs: ReportRun[] }
+  | { type: 'field'; label: string; runs: ReportRun[] }
+  | { type: 'bullet'; runs: ReportRun[] }
+  | { type: 'pageBreak' };
+
+export interface ReportLetterhead {
+  practiceName: string;
+  lines: string[];
+}
+
+export interface CaseSummaryReport {
+  title: string;
+  letterhead: ReportLetterhead;
+  blocks: ReportBlock[];
+  footnotes: string[]; // footnotes[n - 1] is the text of footnote n
+}
+
+const MARKER_PATTERN = /【([^】]*)】/g;
+
+/**
+ * Builds the report. Documents are used to name citation sources by their title.
+ */
+export function buildCaseSummaryReport(
+  viewer: ViewerCaseSummarySchema,
+  citations: SummaryCitation[],
+  documents: MedicalDocument[],
+  letterhead: ReportLetterhead
+): CaseSummaryReport {
+  const citationsByMarker = new Map(citations.filter(c => c.markerId).map(c => [c.markerId!, c]));
+  const titles = new Map(documents.map(doc => [doc.clientFileId, doc.title || doc.originalName]));
+  const footnotes: string[] = [];
+  const blocks: ReportBlock[] = [];
+
+  // Splits text on citation markers; consecutive markers for the same page share one footnote
+  const runs = (text: string | null | undefined): ReportRun[] => {
+    const result: ReportRun[] = [];
+    let lastIndex = 0;
+    let lastSource: string | null = null;
+    for (const match of (text || '').matchAll(MARKER_PATTERN)) {
+      const before = text!.slice(lastIndex, match.index);
+      lastIndex = match.index! + match[0].length;
+      const citation = citationsByMarker.get(match[1]);
+      if (before) {
+        result.push({ text: before });
+        lastSource = null;
+      }
+      if (!citation) continue;
+      const source = `${citation.documentId}:${citation.pageNumber}`;
+      if (source === lastSource) continue;
+      const title = titles.get(citation.documentId) || citation.documentName;
+      footnotes.push(citation.pageNumber ? `${title}, page ${citation.pageNumber}` : title);
+      result.push({ text: '', footnote: footnotes.length });
+      lastSource = source;
+    }
+    const rest = (text || '').slice(lastIndex);
+    if (rest) result.push({ text: rest });
+    return result;
+  };
+  const hasText = (text: string | null | undefined) => !!text && text.replace(MARKER_PATTERN, '').trim().length > 0;
+  const field = (label: string, value: string | null | undefined) => {
+    if (hasText(value)) blocks.push({ type: 'field', label, runs: runs(value) });
+  };
+  const joined = (...parts: Array<string | null | undefined>) => parts.filter(hasText).join(' - ');
+
+  // Cover page
+  const title = hasText(viewer.coverPage.title) ? viewer.coverPage.title.replace(MARKER_PATTERN, '').trim() : 'Medico-Legal Case Summary';
+  blocks.push({ type: 'title', text: title });
+  if (hasText(viewer.coverPage.patientName)) blocks.push({ type: 'subtitle', text: viewer.coverPage.patientName.replace(MARKER_PATTERN, '').trim() });
+  if (hasText(viewer.coverPage.reportDate)) blocks.push({ type: 'subtitle', text: `Report date: ${viewer.coverPage.reportDate.replace(MARKER_PATTERN, '').trim()}` });
+  blocks.push({ type: 'pageBreak' });
+
+  // Patient overview
+  const { personalInformation, insuranceDetails, socialHistory } = viewer.patientOverview;
+  blocks.push({ type: 'heading', level: 1, text: 'Patient Overview' });
+  field('Name', personalInformation.fullName);
+  field('Date of birth', personalInformation.dateOfBirth);
+  field('Gender', personalInformation.gender);
+  field('Occupation', personalInformation.occupation);
+  field('Insurer', insuranceDetails.insurer);
+  field('Scheme', insuranceDetails.scheme);
+  field('Claim number', insuranceDetails.claimNumber);
+  field('Policy type', insuranceDetails.policyType);
+  if (hasText(socialHistory)) {
+    blocks.push({ type: 'heading', level: 2, text: 'Social History' });
+    blocks.push({ type: 'paragraph', runs: runs(socialHistory) });
+  }
+
+  if (hasText(viewer.narrativeOverview)) {
+    blocks.push({ type: 'heading', level: 1, text: 'Narrative Overview' });
+    for (const paragraph of viewer.narrativeOverview.split(/\n\s*\n/).filter(hasText)) {
+      blocks.push({ type: 'paragraph', runs: runs(paragraph.trim()) });
+    }
+  }
+
+  // Clinical summary
+  const { treatments, testResults } = viewer.clinicalSummary;
+  blocks.push({ type: 'heading', level: 1, text: 'Clinical Summary' });
+  if (viewer.diagnoses.length > 0) {
+    blocks.push({ type: 'heading', level: 2, text: 'Diagnoses' });
+    for (const diagnosis of viewer.diagnoses) {
+      blocks.push({ type: 'bullet', runs: runs(joined(diagnosis.condition, diagnosis.status, diagnosis.diagnosisDate, diagnosis.notes)) });
+    }
+  }
+  if (treatments.length > 0) {
+    blocks.push({ type: 'heading', level: 2, text: 'Treatments' });
+    for (const treatment of treatments) {
+      blocks.push({ type: 'bullet', runs: runs(joined(treatment.treatmentDate, treatment.treatment, treatment.provider, treatment.notes)) });
+    }
+  }
+  if (testResults && testResults.length > 0) {
+    blocks.push({ type: 'heading', level: 2, text: 'Test Results' });
+    for (const test of testResults) {
+      const range = hasText(test.referenceRange) ? `(range ${test.referenceRange})` : '';
+      blocks.push({ type: 'bullet', runs: runs(joined(test.date, test.testName, test.result, range)) });
+    }
+  }
+
+  if (viewer.keyEvents && viewer.keyEvents.length > 0) {
+    blocks.push({ type: 'heading', level: 1, text: 'Key Events' });
+    for (const event of viewer.keyEvents) {
+      blocks.push({ type: 'heading', level: 2, text: joined(event.eventDate, event.eventTitle).replace(MARKER_PATTERN, '') || 'Event' });
+      if (hasText(event.eventDescription)) blocks.push({ type: 'paragraph', runs: runs(event.eventDescription) });
+      field('Type', event.eventType);
+      field('Providers', (event.relatedProviders || [])
+        .map(provider => joined(provider.providerName, provider.providerRole, provider.organization))
+        .filter(Boolean).join('; '));
+      if (event.workCapacityDetails) {
+        const { status, hours, restrictions } = event.workCapacityDetails;
+        field('Work capacity', joined(status, hours, (restrictions || []).join(', ')));
+      }
+      field('Significance', event.significance);
+      field('Notes', event.additionalNotes);
+    }
+  }
+
+  const employer = viewer.medicolegalSummary?.employerDocumentation;
+  if (employer || hasText(viewer.medicolegalSummary?.legalNotes)) {
+    blocks.push({ type: 'heading', level: 1, text: 'Employment and Legal' });
+    field('Employer', employer?.employerName);
+    field('Employment status', employer?.employmentStatus);
+    if (employer?.workRelatedInjury !== undefined) field('Work-related injury', employer.workRelatedInjury ? 'Yes' : 'No');
+    field('Employment notes', employer?.notes);
+    field('Legal notes', viewer.medicolegalSummary?.legalNotes);
+  }
+
+  blocks.push({ type: 'heading', level: 1, text: 'Medical Inconsistencies' });
+  const inconsistencies = viewer.medicalInconsistencies?.inconsistencies || [];
+  if (!viewer.medicalInconsistencies?.hasInconsistencies || inconsistencies.length === 0) {
+    blocks.push({ type: 'paragraph', runs: [{ text: 'No inconsistencies were identified in the documents reviewed.' }] });
+  }
+  for (const inconsistency of inconsistencies) {
+    const severity = inconsistency.severity ? ` (${inconsistency.severity})` : '';
+    blocks.push({ type: 'bullet', runs: [{ text: `${inconsistency.type}${severity}: ` }, ...runs(inconsistency.description)] });
+    for (const related of inconsistency.relatedDocuments || []) {
+      const values = (related.contradictingValues || []).join('; ');
+      const pages = related.pageNumbers?.length ? ` (page${related.pageNumbers.length > 1 ? 's' : ''} ${related.pageNumbers.join(', ')})` : '';
+      field(`${related.citationToVectorStoreFile || related.id}${pages}`, values);
+    }
+  }
+
+  return { title, letterhead, blocks, footnotes };
+}
@@ -0,0 +1,181 @@
+/**
+ * DOCX Renderer
+ *
+ * Writes a CaseSummaryReport as a WordprocessingML package. Citations are real Word
+ * footnotes, the letterhead is the first-page header, and later pages carry a short
+ * header with the practice name and a page-numbered footer.
+ */
+
+import { CaseSummaryReport, ReportBlock, ReportRun } from './caseSummaryReport';
+import { createZip } from './zip';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NAMESPACE = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+// Characters XML 1.0 cannot carry are dropped
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function textRun(text: string, properties = ''): string {
+  const rPr = properties ? `<w:rPr>${properties}</w:rPr>` : '';
+  return text.split('\n')
+    .map(line => `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+    .join(`<w:r>${rPr}<w:br/></w:r>`);
+}
+
+function runsXml(runs: ReportRun[]): string {
+  return runs.map(run => {
+    const text = run.text ? textRun(run.text) : '';
+    const reference = run.footnote
+      ? `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${run.footnote}"/></w:r>`
+      : '';
+    return text + reference;
+  }).join('');
+}
+
+function paragraph(content: string, style?: string): string {
+  const pPr = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${pPr}${content}</w:p>`;
+}
+
+function blockXml(block: ReportBlock): string {
+  switch (block.type) {
+    case 'title':
+      return paragraph(textRun(block.text), 'Title');
+    case 'subtitle':
+      return paragraph(textRun(block.text), 'Subtitle');
+    case 'heading':
+      return paragraph(textRun(block.text), `Heading${block.level}`);
+    case 'paragraph':
+      return paragraph(runsXml(block.runs));
+    case 'field':
+      return paragraph(textRun(`${block.label}: `, '<w:b/>') + runsXml(block.runs), 'Field');
+    case 'bullet':
+      return paragraph(textRun('•\t') + runsXml(block.runs), 'Bullet');
+    case 'pageBreak':
+      return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+  }
+}
+
+function documentXml(report: CaseSummaryReport): string {
+  const body = report.blocks.map(blockXml).join('');
+  const sectPr = '<w:sectPr>'
+    + '<w:headerReference w:type="first" r:id="rIdHeaderFirst"/>'
+    + '<w:headerReference w:type="default" r:id="rIdHeader"/>'
+    + '<w:footerReference w:type="first" r:id="rIdFooter"/>'
+    + '<w:footerReference w:type="default" r:id="rIdFooter"/>'
+    + '<w:pgSz w:w="11906" w:h="16838"/>'
+    + '<w:pgMar w:top="1440" w:right="1134" w:bottom="1440" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/>'
+    + '<w:titlePg/>'
+    + '</w:sectPr>';
+  return `${XML_DECLARATION}<w:document ${W_NAMESPACE}><w:body>${body}${sectPr}</w:body></w:document>`;
+}
+
+function footnotesXml(report: CaseSummaryReport): string {
+  const notes = report.footnotes.map((text, i) =>
+    `<w:footnote w:id="${i + 1}">`
+    + paragraph(`<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r>${textRun(` ${text}`)}`, 'FootnoteText')
+    + '</w:footnote>'
+  ).join('');
+  return `${XML_DECLARATION}<w:footnotes ${W_NAMESPACE}>`
+    + '<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>'
+    + '<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>'
+    + notes
+    + '</w:footnotes>';
+}
+
+function headerXml(content: string): string {
+  return `${XML_DECLARATION}<w:hdr ${W_NAMESPACE}>${content}</w:hdr>`;
+}
+
+function letterheadXml(report: CaseSummaryReport): string {
+  const { practiceName, lines } = report.letterhead;
+  const paragraphs = [
+    ...(practiceName ? [paragraph(textRun(practiceName), 'LetterheadName')] : []),
+    ...lines.map(line => paragraph(textRun(line), 'LetterheadLine'))
+  ];
+  return headerXml(paragraphs.length > 0 ? paragraphs.join('') : paragraph(''));
+}
+
+function runningHeaderXml(report: CaseSummaryReport): string {
+  const text = [report.letterhead.practiceName, report.title].filter(Boolean).join(' — ');
+  return headerXml(paragraph(textRun(text), 'LetterheadLine'));
+}
+
+function footerXml(): string {
+  const field = (instruction: string) =>
+    `<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r>`
+    + '<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>';
+  return `${XML_DECLARATION}<w:ftr ${W_NAMESPACE}>`
+    + paragraph(`${textRun('Page ')}${field('PAGE')}${textRun(' of ')}${field('NUMPAGES')}`, 'Footer')
+    + '</w:ftr>';
+}
+
+const STYLES_XML = `${XML_DECLARATION}<w:styles ${W_NAMESPACE}>`
+  + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>'
+  + '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+  + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="2400" w:after="240"/><w:jc w:val="center"/></w:pPr><w:rPr><w:b/><w:sz w:val="48"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:color w:val="444444"/><w:sz w:val="28"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:color w:val="1F3864"/><w:sz w:val="32"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Field"><w:name w:val="Field"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/></w:pPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Bullet"><w:name w:val="Bullet"/><w:basedOn w:val="Normal"/><w:pPr><w:tabs><w:tab w:val="left" w:pos="360"/></w:tabs><w:spacing w:after="60"/><w:ind w:left="360" w:hanging="360"/></w:pPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="LetterheadName"><w:name w:val="Letterhead Name"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/><w:jc w:val="right"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="LetterheadLine"><w:name w:val="Letterhead Line"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/><w:jc w:val="right"/></w:pPr><w:rPr><w:color w:val="666666"/><w:sz w:val="18"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:sz w:val="18"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="FootnoteText"><w:name w:val="footnote text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:sz w:val="18"/></w:rPr></w:style>'
+  + '<w:style w:type="character" w:styleId="FootnoteReference"><w:name w:val="footnote reference"/><w:rPr><w:vertAlign w:val="superscript"/></w:rPr></w:style>'
+  + '</w:styles>';
+
+const SETTINGS_XML = `${XML_DECLARATION}<w:settings ${W_NAMESPACE}>`
+  + '<w:footnotePr><w:footnote w:id="-1"/><w:footnote w:id="0"/></w:footnotePr>'
+  + '</w:settings>';
+
+const CONTENT_TYPES_XML = `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+  + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+  + '<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>'
+  + '<Override PartName="/word/footnotes.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml"/>'
+  + '<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>'
+  + '<Override PartName="/word/header2.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>'
+  + '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>'
+  + '</Types>';
+
+const PACKAGE_RELS_XML = `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+  + '</Relationships>';
+
+const DOCUMENT_RELS_XML = `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+  + '<Relationship Id="rIdSettings" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings" Target="settings.xml"/>'
+  + '<Relationship Id="rIdFootnotes" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footnotes" Target="footnotes.xml"/>'
+  + '<Relationship Id="rIdHeaderFirst" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>'
+  + '<Relationship Id="rIdHeader" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header2.xml"/>'
+  + '<Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>'
+  + '</Relationships>';
+
+export function renderCaseSummaryDocx(report: CaseSummaryReport): Buffer {
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { name: '_rels/.rels', data: PACKAGE_RELS_XML },
+    { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS_XML },
+    { name: 'word/document.xml', data: documentXml(report) },
+    { name: 'word/styles.xml', data: STYLES_XML },
+    { name: 'word/settings.xml', data: SETTINGS_XML },
+    { name: 'word/footnotes.xml', data: footnotesXml(report) },
+    { name: 'word/header1.xml', data: letterheadXml(report) },
+    { name: 'word/header2.xml', data: runningHeaderXml(report) },
+    { name: 'word/footer1.xml', data: footerXml() }
+  ]);
+}
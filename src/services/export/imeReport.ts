@@ -0,0 +1,58 @@
+/**
+ * IME Report Document
+ *
+ * Lays out an IME report (the insurer's questions in order, each with its answer) in the
+ * report structure the DOCX and PDF renderers draw. Answer markers [k] become footnotes
+ * naming the cited document and page. Answers awaiting review are labelled as drafts.
+ */
+
+import { ImeReport, MedicalDocument } from '../../shared/types';
+import { CaseSummaryReport, ReportBlock, ReportLetterhead, ReportRun } from './caseSummaryReport';
+
+const MARKER_PATTERN = /\[(\d+)\]/g;
+
+export function buildImeReportDocument(
+  report: ImeReport,
+  documents: MedicalDocument[],
+  letterhead: ReportLetterhead
+): CaseSummaryReport {
+  const titles = new Map(documents.map(doc => [doc.clientFileId, doc.title || doc.originalName]));
+  const footnotes: string[] = [];
+  const title = 'Independent Medical Examination Report';
+  const blocks: ReportBlock[] = [
+    { type: 'title', text: title },
+    { type: 'subtitle', text: report.patientName }
+  ];
+  if (report.referenceNumber) blocks.push({ type: 'subtitle', text: `Insurer reference: ${report.referenceNumber}` });
+  if (report.addressedTo) blocks.push({ type: 'subtitle', text: `Prepared for: ${report.addressedTo}` });
+  blocks.push({ type: 'pageBreak' });
+
+  for (const question of report.questions) {
+    blocks.push({ type: 'heading', level: 1, text: `Question ${question.questionNumber}` });
+    blocks.push({ type: 'paragraph', runs: [{ text: question.questionText }] });
+    blocks.push({ type: 'heading', level: 2, text: question.reviewStatus === 'approved' ? 'Response' : 'Response (draft)' });
+
+    for (const paragraph of (question.responseText || '').split(/\n\s*\n/).filter(text => text.trim())) {
+      const runs: ReportRun[] = [];
+      let lastIndex = 0;
+      for (const match of paragraph.matchAll(MARKER_PATTERN)) {
+        const before = paragraph.slice(lastIndex, match.index).replace(/\s+$/, '');
+        lastIndex = match.index! + match[0].length;
+        if (before) runs.push({ text: before });
+        const citation = question.citations?.[Number(match[1]) - 1];
+        if (!citation) continue;
+        const source = titles.get(citation.clientFileId) || citation.clientFileId;
+        footnotes.push(citation.pageNumber ? `${source}, page ${citation.pageNumber}` : source);
+        runs.push({ text: '', footnote: footnotes.length });
+      }
+      const rest = paragraph.slice(lastIndex);
+      if (rest) runs.push({ text: rest });
+      blocks.push({ type: 'paragraph', runs });
+    }
+    if (!question.responseText?.trim()) {
+      blocks.push({ type: 'paragraph', runs: [{ text: 'No response has been drafted.' }] });
+    }
+  }
+
+  return { title, letterhead, blocks, footnotes };
+}
@@ -0,0 +1,276 @@
+/**
+ * PDF Renderer
+ *
+ * Draws a CaseSummaryReport onto A4 pages with pdf-lib and the standard Helvetica fonts.
+ * Citations are footnotes at the bottom of the page that references them: a line is
+ * moved to the next page when it and its footnotes no longer fit. The letterhead heads
+ * the first page; later pages carry a short running header, and every page a page number.
+ */
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { PdfLine, PdfWord, textToWords, winAnsiSanitizer, wordWidth, wrapWords } from '../../utils/pdf-text';
+import { CaseSummaryReport, ReportBlock, ReportRun } from './caseSummaryReport';
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_HEIGHT = 20;
+const LINE_SPACING = 1.35;
+const BODY_SIZE = 10.5;
+const FOOTNOTE_SIZE = 8;
+const BULLET_INDENT = 14;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const HEADING_COLOR = rgb(0.12, 0.22, 0.39);
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+interface Word extends PdfWord {
+  footnote?: number;
+}
+
+interface Line extends PdfLine<Word> {
+  height: number;
+  footnotes: number[];
+}
+
+interface TextStyle {
+  font: PDFFont;
+  size: number;
+  color: ReturnType<typeof rgb>;
+  align?: 'left' | 'center';
+  indent?: number;
+}
+
+function toWords(runs: ReportRun[], font: PDFFont, size: number): Word[] {
+  const words: Word[] = [];
+  for (const run of runs) {
+    words.push(...textToWords(run.text, font, size, words.length > 0 && /^\s/.test(run.text)));
+    if (run.footnote) {
+      words.push({ text: String(run.footnote), font, size: size * 0.65, spaceBefore: false, superscript: true, footnote: run.footnote });
+    }
+  }
+  return words;
+}
+
+function wrap(words: Word[], width: number, lineHeight: number): Line[] {
+  return wrapWords(words, width).map(line => ({
+    ...line,
+    height: lineHeight,
+    footnotes: line.words.flatMap(word => word.footnote ? [word.footnote] : [])
+  }));
+}
+
+class PdfReportWriter {
+  private page!: PDFPage;
+  private y = 0;
+  private pageFootnotes: number[] = [];
+  private footnoteLines: Map<number, Line[]>;
+
+  constructor(
+    private readonly pdf: PDFDocument,
+    private readonly fonts: Fonts,
+    private readonly report: CaseSummaryReport
+  ) {
+    this.footnoteLines = new Map(report.footnotes.map((text, i) => [
+      i + 1,
+      wrap(toWords([{ text: `${i + 1}  ${text}` }], fonts.regular, FOOTNOTE_SIZE), CONTENT_WIDTH, FOOTNOTE_SIZE * LINE_SPACING)
+    ]));
+  }
+
+  start(): void {
+    this.addPage();
+    this.drawLetterhead();
+  }
+
+  finish(): void {
+    this.drawFootnotes();
+    const pages = this.pdf.getPages();
+    pages.forEach((page, i) => {
+      const text = `Page ${i + 1} of ${pages.length}`;
+      const width = this.fonts.regular.widthOfTextAtSize(text, 8);
+      page.drawText(text, { x: (PAGE_WIDTH - width) / 2, y: MARGIN - 24, size: 8, font: this.fonts.regular, color: MUTED_COLOR });
+    });
+  }
+
+  block(block: ReportBlock): void {
+    const body: TextStyle = { font: this.fonts.regular, size: BODY_SIZE, color: TEXT_COLOR };
+    switch (block.type) {
+      case 'title':
+        this.y = Math.min(this.y, PAGE_HEIGHT * 0.62);
+        this.text([{ text: block.text }], { font: this.fonts.bold, size: 24, color: TEXT_COLOR, align: 'center' });
+        this.y -= 12;
+        break;
+      case 'subtitle':
+        this.text([{ text: block.text }], { font: this.fonts.regular, size: 13, color: MUTED_COLOR, align: 'center' });
+        this.y -= 4;
+        break;
+      case 'heading': {
+        const size = block.level === 1 ? 15 : 12;
+        this.y -= block.level === 1 ? 14 : 8;
+        // Keep a heading with at least two lines of what follows
+        this.ensureSpace(size * LINE_SPACING + 2 * BODY_SIZE * LINE_SPACING);
+        this.text([{ text: block.text }], { font: this.fonts.bold, size, color: block.level === 1 ? HEADING_COLOR : TEXT_COLOR });
+        this.y -= 3;
+        break;
+      }
+      case 'paragraph':
+        this.text(block.runs, body);
+        this.y -= 6;
+        break;
+      case 'field':
+        this.text(block.runs, body, { text: `${block.label}: `, font: this.fonts.bold });
+        this.y -= 2;
+        break;
+      case 'bullet': {
+        const top = this.text(block.runs, { ...body, indent: BULLET_INDENT }, undefined, true);
+        top.page.drawText('•', { x: MARGIN + 3, y: top.baseline, size: BODY_SIZE, font: this.fonts.regular, color: TEXT_COLOR });
+        this.y -= 2;
+        break;
+      }
+      case 'pageBreak':
+        this.newPage();
+        break;
+    }
+  }
+
+  /**
+   * Lays out wrapped text from the cursor, with an optional bold lead-in. Returns where
+   * the first line was drawn (used to place bullets).
+   */
+  private text(
+    runs: ReportRun[],
+    style: TextStyle,
+    leadIn?: { text: string; font: PDFFont },
+    keepFirstLine = false
+  ): { page: PDFPage; baseline: number } {
+    const lineHeight = style.size * LINE_SPACING;
+    const width = CONTENT_WIDTH - (style.indent || 0);
+    const words = [
+      ...(leadIn ? toWords([{ text: leadIn.text }], leadIn.font, style.size) : []),
+      ...toWords(runs, style.font, style.size)
+    ];
+    const lines = wrap(words, width, lineHeight);
+
+    let first: { page: PDFPage; baseline: number } | null = null;
+    for (const line of lines) {
+      this.fitLine(line);
+      const baseline = this.y - style.size;
+      let x = MARGIN + (style.indent || 0) + (style.align === 'center' ? (width - line.width) / 2 : 0);
+      line.words.forEach((word, i) => {
+        if (word.spaceBefore && i > 0) x += word.font.widthOfTextAtSize(' ', word.size);
+        this.page.drawText(word.text, {
+          x,
+          y: word.superscript ? baseline + style.size * 0.35 : baseline,
+          size: word.size,
+          font: word.font,
+          color: style.color
+        });
+        x += wordWidth(word);
+      });
+      if (!first) first = { page: this.page, baseline };
+      this.y -= line.height;
+      this.pageFootnotes.push(...line.footnotes);
+    }
+    if (!first) {
+      if (keepFirstLine) this.fitLine({ words: [], width: 0, height: lineHeight, footnotes: [] });
+      first = { page: this.page, baseline: this.y - style.size };
+    }
+    return first;
+  }
+
+  private footnoteAreaHeight(footnotes: number[]): number {
+    if (footnotes.length === 0) return 0;
+    const lines = footnotes.reduce((sum, n) => sum + (this.footnoteLines.get(n)?.length || 0), 0);
+    return 10 + lines * FOOTNOTE_SIZE * LINE_SPACING;
+  }
+
+  private bottomLimit(footnotes: number[]): number {
+    return MARGIN + FOOTER_HEIGHT + this.footnoteAreaHeight(footnotes);
+  }
+
+  // Starts a new page unless the line and the footnotes it references fit on this one
+  private fitLine(line: Line): void {
+    if (this.y - line.height < this.bottomLimit([...this.pageFootnotes, ...line.footnotes])) {
+      this.newPage();
+    }
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < this.bottomLimit(this.pageFootnotes)) {
+      this.newPage();
+    }
+  }
+
+  private newPage(): void {
+    this.drawFootnotes();
+    this.addPage();
+    this.drawRunningHeader();
+  }
+
+  private addPage(): void {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+    this.pageFootnotes = [];
+  }
+
+  private drawLetterhead(): void {
+    const { practiceName, lines } = this.report.letterhead;
+    if (!practiceName && lines.length === 0) return;
+    const right = (text: string, font: PDFFont, size: number, color: ReturnType<typeof rgb>) => {
+      const clean = winAnsiSanitizer(font)(text);
+      this.page.drawText(clean, { x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(clean, size), y: this.y - size, size, font, color });
+      this.y -= size * LINE_SPACING;
+    };
+    if (practiceName) right(practiceName, this.fonts.bold, 14, TEXT_COLOR);
+    for (const line of lines) right(line, this.fonts.regular, 8.5, MUTED_COLOR);
+    this.y -= 6;
+    this.page.drawLine({ start: { x: MARGIN, y: this.y }, end: { x: PAGE_WIDTH - MARGIN, y: this.y }, thickness: 0.75, color: MUTED_COLOR });
+    this.y -= 18;
+  }
+
+  private drawRunningHeader(): void {
+    const text = winAnsiSanitizer(this.fonts.regular)([this.report.letterhead.practiceName, this.report.title].filter(Boolean).join(' - '));
+    this.page.drawText(text, { x: MARGIN, y: PAGE_HEIGHT - MARGIN + 16, size: 8, font: this.fonts.regular, color: MUTED_COLOR });
+  }
+
+  private drawFootnotes(): void {
+    if (this.pageFootnotes.length === 0) return;
+    let y = MARGIN + FOOTER_HEIGHT + this.footnoteAreaHeight(this.pageFootnotes) - 4;
+    this.page.drawLine({ start: { x: MARGIN, y }, end: { x: MARGIN + CONTENT_WIDTH / 3, y }, thickness: 0.5, color: MUTED_COLOR });
+    y -= 6;
+    for (const n of this.pageFootnotes) {
+      for (const line of this.footnoteLines.get(n) || []) {
+        const text = line.words.map((word, i) => (word.spaceBefore && i > 0 ? ' ' : '') + word.text).join('');
+        this.page.drawText(text, { x: MARGIN, y: y - FOOTNOTE_SIZE, size: FOOTNOTE_SIZE, font: this.fonts.regular, color: TEXT_COLOR });
+        y -= line.height;
+      }
+    }
+    this.pageFootnotes = [];
+  }
+}
+
+export async function renderCaseSummaryPdf(report: CaseSummaryReport): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(report.title);
+  if (report.letterhead.practiceName) pdf.setAuthor(report.letterhead.practiceName);
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold)
+  };
+
+  const writer = new PdfReportWriter(pdf, fonts, report);
+  writer.start();
+  for (const block of report.blocks) {
+    writer.block(block);
+  }
+  writer.finish();
+  return Buffer.from(await pdf.save());
+}
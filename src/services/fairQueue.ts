@@ -0,0 +1,129 @@
+/**
+ * Fair Queue
+ *
+ * Orders waiting documents so one large upload cannot hold up everyone else. Each priority
+ * has its own lane and lanes take turns in proportion to their weight (stride scheduling),
+ * so interactive uploads go first without starving background work. Within a lane users
+ * take turns, and within a user their patients do, one document at a time; documents of
+ * the same patient keep the order they were queued in.
+ */
+
+import { ProcessingPriority } from '../utils/storage-interfaces';
+
+export const PROCESSING_PRIORITIES: readonly ProcessingPriority[] = ['interactive', 'standard', 'background'];
+
+// Documents taken from each lane while all three have work waiting
+export const PRIORITY_WEIGHTS: Record<ProcessingPriority, number> = {
+  interactive: 6,
+  standard: 3,
+  background: 1
+};
+
+export const isProcessingPriority = (value: unknown): value is ProcessingPriority =>
+  typeof value === 'string' && (PROCESSING_PRIORITIES as readonly string[]).includes(value);
+
+/**
+ * Priority of an upload that does not name one: background for files sent by the VSRX sync,
+ * which it marks in the JSON `metadata` field, and interactive for everything else
+ */
+export function defaultUploadPriority(metadata: unknown): ProcessingPriority {
+  try {
+    const parsed = typeof metadata === 'string' ? JSON.parse(metadata) : metadata;
+    if (parsed?.sourceSystem === 'VSRX_SYNC') return 'background';
+  } catch {
+    // Not JSON; treated as an upload from the UI
+  }
+  return 'interactive';
+}
+
+export interface FairQueueKey {
+  silknoteUserUuid: string;
+  silknotePatientUuid: string;
+  priority: ProcessingPriority;
+}
+
+interface Lane<T> {
+  pass: number;                             // Lowest pass is served next
+  users: Map<string, Map<string, T[]>>;     // User -> patient -> documents, in turn order
+}
+
+interface QueueState<T> {
+  lanes: Record<ProcessingPriority, Lane<T>>;
+  clock: number;                            // Pass of the lane served last
+}
+
+const emptyLane = <T>(): Lane<T> => ({ pass: 0, users: new Map() });
+
+// Takes the next item and moves its user and patient to the back of their turns
+function take<T>(state: QueueState<T>): T | undefined {
+  const priority = PROCESSING_PRIORITIES
+    .filter(candidate => state.lanes[candidate].users.size > 0)
+    .reduce<ProcessingPriority | undefined>((best, candidate) =>
+      best === undefined || state.lanes[candidate].pass < state.lanes[best].pass ? candidate : best, undefined);
+  if (!priority) return undefined;
+
+  const lane = state.lanes[priority];
+  state.clock = lane.pass;
+  lane.pass += 1 / PRIORITY_WEIGHTS[priority];
+
+  const [user, patients] = lane.users.entries().next().value as [string, Map<string, T[]>];
+  const [patient, items] = patients.entries().next().value as [string, T[]];
+  const item = items.shift();
+
+  patients.delete(patient);
+  if (items.length > 0) patients.set(patient, items);
+  lane.users.delete(user);
+  if (patients.size > 0) lane.users.set(user, patients);
+  return item;
+}
+
+export class FairQueue<T> {
+  private state: QueueState<T> = {
+    lanes: { interactive: emptyLane(), standard: emptyLane(), background: emptyLane() },
+    clock: 0
+  };
+  private count = 0;
+
+  constructor(private readonly keyOf: (item: T) => FairQueueKey) {}
+
+  get size(): number {
+    return this.count;
+  }
+
+  push(item: T): void {
+    const { silknoteUserUuid, silknotePatientUuid, priority } = this.keyOf(item);
+    const lane = this.state.lanes[priority];
+    // A lane that was idle joins at the current pass rather than catching up on turns it missed
+    if (lane.users.size === 0) lane.pass = Math.max(lane.pass, this.state.clock);
+
+    const patients = lane.users.get(silknoteUserUuid) ?? new Map<string, T[]>();
+    patients.set(silknotePatientUuid, [...(patients.get(silknotePatientUuid) ?? []), item]);
+    lane.users.set(silknoteUserUuid, patients);
+    this.count++;
+  }
+
+  shift(): T | undefined {
+    const item = take(this.state);
+    if (item !== undefined) this.count--;
+    return item;
+  }
+
+  /**
+   * The waiting items in the order they would be taken if nothing else were queued
+   */
+  ordered(): T[] {
+    const copy: QueueState<T> = {
+      clock: this.state.clock,
+      lanes: Object.fromEntries(PROCESSING_PRIORITIES.map(priority => {
+        const lane = this.state.lanes[priority];
+        const users = new Map([...lane.users].map(([user, patients]) =>
+          [user, new Map([...patients].map(([patient, items]) => [patient, [...items]]))]));
+        return [priority, { pass: lane.pass, users }];
+      })) as Record<ProcessingPriority, Lane<T>>
+    };
+
+    const items: T[] = [];
+    for (let item = take(copy); item !== undefined; item = take(copy)) items.push(item);
+    return items;
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * IME Report Service
+ *
+ * Drafts answers to the numbered questions of an insurer's IME request from the rest of
+ * the patient's fileset. Each answer is stored back on the request document as its
+ * responseText with citations and a review status; the doctor then edits and approves
+ * the answers before exporting the report.
+ */
+
+import { Citation, DocumentType, ImeQuestion, ImeReport, ImeResponseReviewStatus, MedicalDocument, PatientDetails } from '../shared/types';
+import { storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+import { queryChunkIndexWithCitations } from './retrieval/chunkIndex';
+import { citedSentence } from './queryService';
+
+const logger = createLogger('IME_REPORT');
+
+const ANSWER_EXCERPTS = 12;
+
+export class ImeReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImeReportError';
+  }
+}
+
+/**
+ * The insurer's request on a document: the stored request if drafting has begun,
+ * otherwise the questions extracted page by page (numbered once, in order).
+ */
+export function getImeRequest(document: MedicalDocument): MedicalDocument['insurerRequestForIME'] | null {
+  if (document.insurerRequestForIME?.questions?.length) {
+    return document.insurerRequestForIME;
+  }
+
+  const pages = (document.content?.extractedSchemas || []).map(page => page?.insurerRequestForIME).filter(Boolean);
+  const questions = new Map<number, ImeQuestion>();
+  for (const page of pages) {
+    for (const question of page.questions || []) {
+      if (typeof question?.questionNumber !== 'number' || !question.questionText || questions.has(question.questionNumber)) continue;
+      questions.set(question.questionNumber, {
+        questionNumber: question.questionNumber,
+        questionText: question.questionText,
+        responseText: question.responseText || undefined,
+        reviewStatus: 'unanswered'
+      });
+    }
+  }
+  if (questions.size === 0) return null;
+
+  return {
+    referenceNumber: pages.find(page => page.referenceNumber)?.referenceNumber || undefined,
+    addressedTo: pages.find(page => page.addressedTo)?.addressedTo || undefined,
+    questions: [...questions.values()].sort((a, b) => a.questionNumber - b.questionNumber)
+  };
+}
+
+export function isImeRequestDocument(document: MedicalDocument): boolean {
+  return document.category === DocumentType.INSURER_IME_REQUEST || getImeRequest(document) !== null;
+}
+
+/**
+ * Builds the ordered report skeleton for a request document
+ */
+export function buildImeReport(patient: PatientDetails, document: MedicalDocument): ImeReport {
+  const request = getImeRequest(document);
+  if (!request) {
+    throw new ImeReportError(`Document ${document.clientFileId} has no IME questions`);
+  }
+  const questions = request.questions.map(question => ({ ...question, reviewStatus: question.reviewStatus || 'unanswered' as const }));
+  return {
+    silknotePatientUuid: patient.silknotePatientUuid,
+    clientFileId: document.clientFileId,
+    title: document.title || document.originalName,
+    referenceNumber: request.referenceNumber,
+    addressedTo: request.addressedTo,
+    patientName: patient.name,
+    questions,
+    pendingReview: questions.filter(question => question.reviewStatus !== 'approved').length
+  };
+}
+
+/**
+ * Renumbers the [n] source markers of an answer so that [k] refers to citations[k - 1];
+ * markers the answer builder could not resolve are removed
+ */
+function numberCitations(content: string, citations: any[]): { text: string; citations: Citation[] } {
+  const byIndex = new Map(citations.map(citation => [citation.startIndex, citation]));
+  const numbered: Citation[] = [];
+  const text = content.replace(/\s?\[(\d+)\]/g, (marker, _n, offset: number) => {
+    const citation = byIndex.get(offset + marker.indexOf('['));
+    if (!citation) return '';
+    numbered.push({
+      clientFileId: citation.clientFileId,
+      pageNumber: citation.pageNumber,
+      boundingBoxes: citation.boundingBoxes,
+      quote: citation.quote,
+      text: citedSentence(content, citation.startIndex).replace(/\s?\[\d+\]/g, ''),
+      confidence: citation.score
+    });
+    return `${marker.startsWith(' ') ? ' ' : ''}[${numbered.length}]`;
+  });
+  return { text, citations: numbered };
+}
+
+/**
+ * Drafts an answer to each question from the patient's other documents and saves the
+ * drafts on the request document. Questions the doctor has edited or approved are left
+ * alone unless overwrite is set; questionNumbers limits drafting to those questions.
+ */
+export async function draftImeResponses(
+  silknoteUserUuid: string,
+  patient: PatientDetails,
+  document: MedicalDocument,
+  options: { questionNumbers?: number[]; overwrite?: boolean } = {}
+): Promise<ImeReport> {
+  const request = getImeRequest(document);
+  if (!request) {
+    throw new ImeReportError(`Document ${document.clientFileId} has no IME questions`);
+  }
+  const unknown = (options.questionNumbers || []).filter(n => !request.questions.some(q => q.questionNumber === n));
+  if (unknown.length > 0) {
+    throw new ImeReportError(`Unknown question number(s): ${unknown.join(', ')}`);
+  }
+
+  // Other insurer requests are not evidence. A split bundle is searched through its children,
+  // so a request split out of one does not come back in with the bundle's pages.
+  const evidence = (patient.fileSet || [])
+    .filter(doc => doc.clientFileId !== document.clientFileId && doc.category !== DocumentType.INSURER_IME_REQUEST && doc.status !== 'split')
+    .map(doc => doc.clientFileId);
+  if (evidence.length === 0) {
+    throw new ImeReportError('The patient has no documents to draft answers from');
+  }
+
+  const questions: ImeQuestion[] = [];
+  for (const question of request.questions) {
+    const selected = !options.questionNumbers || options.questionNumbers.includes(question.questionNumber);
+    const reviewed = question.reviewStatus === 'edited' || question.reviewStatus === 'approved';
+    if (!selected || (reviewed && !options.overwrite)) {
+      questions.push(question);
+      continue;
+    }
+
+    // One question at a time to stay within the provider's rate limits
+    const result = await queryChunkIndexWithCitations(patient.silknotePatientUuid, question.questionText, silknoteUserUuid, {
+      clientFileIds: evidence,
+      limit: ANSWER_EXCERPTS
+    });
+    const { text, citations } = numberCitations(result.content, result.citations);
+    const scores = new Map(result.citations.map(citation => [citation.chunkId, citation.score as number]));
+    questions.push({
+      questionNumber: question.questionNumber,
+      questionText: question.questionText,
+      responseText: text,
+      reviewStatus: 'draft',
+      citations,
+      confidence: scores.size > 0 ? [...scores.values()].reduce((sum, score) => sum + score, 0) / scores.size : 0,
+      draftedAt: new Date().toISOString()
+    });
+  }
+
+  const updated: MedicalDocument = { ...document, insurerRequestForIME: { ...request, questions } };
+  await saveImeRequest(silknoteUserUuid, patient.silknotePatientUuid, updated);
+  logger.info(`Drafted IME answers for document ${document.clientFileId} of patient ${patient.silknotePatientUuid}`);
+  return buildImeReport(patient, updated);
+}
+
+/**
+ * Applies a doctor's change to one answer. Changing the text marks it edited unless a
+ * status is given; citations stay with their [k] markers.
+ */
+export function reviewImeResponse(
+  document: MedicalDocument,
+  questionNumber: number,
+  change: { responseText?: string; reviewStatus?: ImeResponseReviewStatus },
+  reviewedBy: string,
+  at: string = new Date().toISOString()
+): MedicalDocument {
+  const request = getImeRequest(document);
+  const question = request?.questions.find(q => q.questionNumber === questionNumber);
+  if (!request || !question) {
+    throw new ImeReportError(`Question ${questionNumber} not found on document ${document.clientFileId}`);
+  }
+  const responseText = change.responseText ?? question.responseText;
+  if (change.reviewStatus === 'unanswered' || (change.reviewStatus && !responseText?.trim())) {
+    throw new ImeReportError(`Question ${questionNumber} cannot be marked ${change.reviewStatus}`);
+  }
+
+  const textChanged = change.responseText !== undefined && change.responseText !== question.responseText;
+  const updated: ImeQuestion = {
+    ...question,
+    responseText,
+    reviewStatus: change.reviewStatus || (textChanged ? 'edited' : question.reviewStatus),
+    reviewedBy,
+    reviewedAt: at
+  };
+  return {
+    ...document,
+    insurerRequestForIME: {
+      ...request,
+      questions: request.questions.map(q => (q.questionNumber === questionNumber ? updated : q))
+    }
+  };
+}
+
+export async function saveImeRequest(silknoteUserUuid: string, silknotePatientUuid: string, document: MedicalDocument): Promise<void> {
+  const saved = await storageService.updateDocument(silknoteUserUuid, silknotePatientUuid, document);
+  if (!saved) {
+    throw new Error(`Failed to save IME request for document ${document.clientFileId}`);
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Inconsistency Rules
+ *
+ * Deterministic checks that compare the structured page extractions of a patient's
+ * documents: conflicting injury dates, left/right mismatches for the same body part,
+ * differing mechanisms of injury, diagnoses affirmed in one document and excluded in
+ * another, and differing patient names or dates of birth. Findings use the case summary's
+ * medicalInconsistencies shape, with the exact values read and the pages they came from,
+ * and run before the assistant's own review so that the same input always gives the same
+ * findings.
+ */
+
+import { CaseSummaryType } from '../shared/case-summary-types';
+import { MedicalDocument } from '../shared/types';
+import { parseTimelineDate } from './patientTimeline';
+import { isPatientEvidence } from './patientDocuments';
+
+type MedicalInconsistencies = CaseSummaryType['medicalInconsistencies'];
+export type InconsistencyFinding = NonNullable<MedicalInconsistencies['inconsistencies']>[number];
+
+// One value read from one page
+interface Reading {
+  clientFileId: string;
+  title: string;
+  pageNumber: number;
+  value: string;
+}
+
+const SEVERITY_ORDER = ['Critical', 'High', 'Medium', 'Low'];
+
+const BODY_PARTS = 'shoulder|knee|wrist|hand|ankle|hip|elbow|foot|arm|leg|thumb|finger|heel|forearm|eye|ear';
+const SIDED_BODY_PART = new RegExp(`\\b(left|right|bilateral|lt|rt)\\.?\\s+(?:[a-z-]+\\s+){0,2}?(${BODY_PARTS})s?\\b`, 'g');
+
+const MECHANISMS: [RegExp, string][] = [
+  [/\bfell\b|\bfall|\bslip|\btrip/, 'slip, trip or fall'],
+  [/\blift|\bcarr(y|ied|ying)\b|\bpush|\bpull|manual handling/, 'lifting or manual handling'],
+  [/motor vehicle|\bmv[ac]\b|\bcar\b|\bvehicle|collision|rear[- ]ended/, 'motor vehicle accident'],
+  [/\bstruck\b|\bhit by\b|\bcrush|\bcaught (in|between)/, 'struck by or caught in an object'],
+  [/repetitive|overuse|gradual onset/, 'repetitive or gradual onset'],
+  [/assault|attack|\bpunch/, 'assault'],
+  [/\btwist|awkward/, 'twisting or awkward movement']
+];
+
+const NEGATED_DIAGNOSIS = /\b(ruled out|excluded|no evidence of|negative for|not (present|confirmed|seen))\b|^\s*no\b/i;
+const NEGATION_WORDS = /\b(ruled out|excluded|no evidence of|negative for|not present|not confirmed|not seen|no)\b/g;
+const STOPWORDS = new Set(['of', 'the', 'a', 'an', 'and', 'with', 'to', 'in', 'on', 'at', 'left', 'right', 'bilateral']);
+
+function readPages(documents: MedicalDocument[], read: (page: any) => string[]): Reading[] {
+  const readings: Reading[] = [];
+  for (const document of documents) {
+    (document.content?.extractedSchemas || []).forEach((page: any, index: number) => {
+      if (!page) return;
+      for (const value of read(page)) {
+        if (value?.trim()) {
+          readings.push({
+            clientFileId: document.clientFileId,
+            title: document.title || document.originalName,
+            pageNumber: page.pageNumber || index + 1,
+            value: value.trim()
+          });
+        }
+      }
+    });
+  }
+  return readings;
+}
+
+/**
+ * One finding listing, per document, the values that disagree and the pages they are on.
+ * Null unless the values come from at least two documents.
+ */
+function finding(type: string, severity: string, description: string, readings: Reading[]): InconsistencyFinding | null {
+  const documents = new Map<string, { title: string; values: string[]; pages: number[] }>();
+  for (const reading of readings) {
+    const entry = documents.get(reading.clientFileId) || { title: reading.title, values: [], pages: [] };
+    if (!entry.values.includes(reading.value)) entry.values.push(reading.value);
+    if (!entry.pages.includes(reading.pageNumber)) entry.pages.push(reading.pageNumber);
+    documents.set(reading.clientFileId, entry);
+  }
+  if (documents.size < 2) return null;
+
+  return {
+    type,
+    severity,
+    description,
+    relatedDocuments: [...documents].map(([id, entry]) => ({
+      id,
+      citationToVectorStoreFile: entry.title,
+      contradictingValues: entry.values,
+      pageNumbers: entry.pages.sort((a, b) => a - b)
+    }))
+  };
+}
+
+function checkInjuryDates(documents: MedicalDocument[]): InconsistencyFinding[] {
+  const readings = readPages(documents, page => [page.injury?.dateOfInjury]);
+  const dates = new Map<string, Reading[]>();
+  for (const reading of readings) {
+    const date = parseTimelineDate(reading.value);
+    if (date) dates.set(date, [...(dates.get(date) || []), reading]);
+  }
+  if (dates.size < 2) return [];
+  const result = finding('Date of Injury', 'High',
+    `The date of injury is recorded as ${[...dates.keys()].sort().join(', ')} in different documents`, [...dates.values()].flat());
+  return result ? [result] : [];
+}
+
+function checkLaterality(documents: MedicalDocument[]): InconsistencyFinding[] {
+  const readings = readPages(documents, page => [
+    page.injury?.affectedArea,
+    page.imaging?.bodyPart,
+    ...(page.clinicalContent?.diagnosis || []).map((d: any) => d?.condition),
+    ...(page.procedure || []).map((p: any) => p?.name)
+  ]);
+
+  const byBodyPart = new Map<string, { left: Reading[]; right: Reading[]; bilateral: boolean }>();
+  for (const reading of readings) {
+    for (const match of reading.value.toLowerCase().matchAll(SIDED_BODY_PART)) {
+      const part = byBodyPart.get(match[2]) || { left: [], right: [], bilateral: false };
+      if (match[1] === 'bilateral') part.bilateral = true;
+      else if (match[1] === 'left' || match[1] === 'lt') part.left.push(reading);
+      else part.right.push(reading);
+      byBodyPart.set(match[2], part);
+    }
+  }
+
+  const findings: InconsistencyFinding[] = [];
+  for (const [bodyPart, sides] of byBodyPart) {
+    if (sides.bilateral || sides.left.length === 0 || sides.right.length === 0) continue;
+    const result = finding('Laterality', 'High', `The ${bodyPart} is recorded as left in some documents and right in others`, [...sides.left, ...sides.right]);
+    if (result) findings.push(result);
+  }
+  return findings;
+}
+
+function checkMechanism(documents: MedicalDocument[]): InconsistencyFinding[] {
+  const readings = readPages(documents, page => [page.injury?.mechanism]);
+  const byDocument = new Map<string, Set<string>>();
+  const categorised: Reading[] = [];
+  for (const reading of readings) {
+    const categories = MECHANISMS.filter(([pattern]) => pattern.test(reading.value.toLowerCase())).map(([, category]) => category);
+    if (categories.length === 0) continue;
+    categorised.push(reading);
+    const known = byDocument.get(reading.clientFileId) || new Set<string>();
+    categories.forEach(category => known.add(category));
+    byDocument.set(reading.clientFileId, known);
+  }
+
+  // Mechanisms conflict when two documents share no category, e.g. a fall and a lift
+  const sets = [...byDocument.values()];
+  const disjoint = sets.some((a, i) => sets.slice(i + 1).some(b => ![...a].some(category => b.has(category))));
+  if (!disjoint) return [];
+  const all = [...new Set(sets.flatMap(set => [...set]))];
+  const result = finding('Mechanism of Injury', 'Medium', `The mechanism of injury is described differently across documents (${all.join('; ')})`, categorised);
+  return result ? [result] : [];
+}
+
+// Words of the condition itself, without negation or an appended "(status)"
+const diagnosisTokens = (condition: string): string[] =>
+  condition.toLowerCase().replace(/\s*\([^)]*\)\s*$/, '').replace(NEGATION_WORDS, ' ').replace(/[^a-z0-9 ]+/g, ' ').split(/\s+/).filter(t => t && !STOPWORDS.has(t));
+
+function checkDiagnoses(documents: MedicalDocument[]): InconsistencyFinding[] {
+  const readings = readPages(documents, page => (page.clinicalContent?.diagnosis || [])
+    .filter((d: any) => d?.condition)
+    .map((d: any) => (d.status && NEGATED_DIAGNOSIS.test(d.status) && !NEGATED_DIAGNOSIS.test(d.condition) ? `${d.condition} (${d.status})` : d.condition)));
+  const negated = readings.filter(reading => NEGATED_DIAGNOSIS.test(reading.value));
+  const affirmed = readings.filter(reading => !negated.includes(reading));
+
+  const findings: InconsistencyFinding[] = [];
+  const reported = new Set<string>();
+  for (const exclusion of negated) {
+    const tokens = diagnosisTokens(exclusion.value);
+    if (tokens.length === 0) continue;
+    const key = tokens.join(' ');
+    if (reported.has(key)) continue;
+    const contradicted = affirmed.filter(reading =>
+      reading.clientFileId !== exclusion.clientFileId && tokens.every(token => diagnosisTokens(reading.value).includes(token)));
+    if (contradicted.length === 0) continue;
+    const exclusions = negated.filter(reading => diagnosisTokens(reading.value).join(' ') === key);
+    const result = finding('Diagnosis', 'Medium', `A diagnosis of ${key} is made in some documents and excluded in others`, [...contradicted, ...exclusions]);
+    if (result) {
+      reported.add(key);
+      findings.push(result);
+    }
+  }
+  return findings;
+}
+
+const nameTokens = (name: string): string[] => name.toLowerCase().replace(/[^a-z\s'-]+/g, ' ').split(/\s+/).filter(Boolean);
+
+// Same family name, and first names equal or one an initial or shortening of the other
+function sameName(a: string, b: string): boolean {
+  const [ta, tb] = [nameTokens(a), nameTokens(b)];
+  if (ta.length === 0 || tb.length === 0) return true;
+  if (ta[ta.length - 1] !== tb[tb.length - 1]) return false;
+  if (ta.length === 1 || tb.length === 1) return true;
+  return ta[0].startsWith(tb[0]) || tb[0].startsWith(ta[0]);
+}
+
+function checkPatientDetails(documents: MedicalDocument[]): InconsistencyFinding[] {
+  const findings: InconsistencyFinding[] = [];
+
+  const births = new Map<string, Reading[]>();
+  for (const reading of readPages(documents, page => [page.patient?.dateOfBirth])) {
+    const date = parseTimelineDate(reading.value);
+    if (date) births.set(date, [...(births.get(date) || []), reading]);
+  }
+  if (births.size > 1) {
+    const result = finding('Patient Details', 'Critical',
+      `The patient's date of birth is recorded as ${[...births.keys()].sort().join(', ')} in different documents`, [...births.values()].flat());
+    if (result) findings.push(result);
+  }
+
+  const names = readPages(documents, page => [[page.patient?.firstName, page.patient?.familyName].filter(Boolean).join(' ')]);
+  const groups: Reading[][] = [];
+  for (const reading of names) {
+    const group = groups.find(g => sameName(g[0].value, reading.value));
+    if (group) group.push(reading);
+    else groups.push([reading]);
+  }
+  if (groups.length > 1) {
+    const result = finding('Patient Details', 'High',
+      `The patient's name is recorded differently across documents (${groups.map(g => g[0].value).join('; ')})`, groups.flat());
+    if (result) findings.push(result);
+  }
+  return findings;
+}
+
+/**
+ * Runs every rule over the documents a summary draws on. Findings are ordered by severity.
+ */
+export function detectInconsistencies(documents: MedicalDocument[]): MedicalInconsistencies {
+  const complete = documents.filter(isPatientEvidence);
+  const inconsistencies = [
+    ...checkPatientDetails(complete),
+    ...checkInjuryDates(complete),
+    ...checkLaterality(complete),
+    ...checkMechanism(complete),
+    ...checkDiagnoses(complete)
+  ].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity || 'Low') - SEVERITY_ORDER.indexOf(b.severity || 'Low'));
+  return { hasInconsistencies: inconsistencies.length > 0, inconsistencies };
+}
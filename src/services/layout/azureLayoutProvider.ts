@@ -0,0 +1,26 @@
+import { DocumentAnalysisClient, AzureKeyCredential, AnalyzeResult } from '@azure/ai-form-recognizer';
+import config from '../../config';
+import { LayoutProvider } from './layoutProvider';
+
+/**
+ * Layout provider backed by Azure Document Intelligence
+ */
+export function createAzureLayoutProvider(): LayoutProvider {
+  // Created on first use so that selecting another provider needs no Azure credentials
+  let documentClient: DocumentAnalysisClient | null = null;
+
+  return {
+    name: 'azure-document-intelligence',
+
+    async analyzeLayout(buffer: Buffer): Promise<AnalyzeResult> {
+      if (!documentClient) {
+        documentClient = new DocumentAnalysisClient(
+          config.azure.documentIntelligence.endpoint,
+          new AzureKeyCredential(config.azure.documentIntelligence.key)
+        );
+      }
+      const poller = await documentClient.beginAnalyzeDocument('prebuilt-document', buffer);
+      return poller.pollUntilDone();
+    }
+  };
+}
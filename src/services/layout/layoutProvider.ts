@@ -0,0 +1,34 @@
+/**
+ * Layout Provider
+ *
+ * Produces the AnalyzeResult-shaped layout (pages, lines, words and polygons) that
+ * documentAnalyzer and enrich-extraction consume. The provider is selected by
+ * config.layout.provider, which defaults per OPERATING_MODE:
+ * - AZURE: Azure Document Intelligence 'prebuilt-document' model
+ * - PDF_TEXT: embedded PDF text layer, read locally with pdf-lib (no network access)
+ */
+
+import { AnalyzeResult } from '@azure/ai-form-recognizer';
+import config from '../../config';
+import { createLogger } from '../../utils/logger';
+import { createAzureLayoutProvider } from './azureLayoutProvider';
+import { createPdfTextLayoutProvider } from './pdfTextLayoutProvider';
+
+const logger = createLogger('LAYOUT_PROVIDER');
+
+export interface LayoutProvider {
+  name: string;
+  analyzeLayout(buffer: Buffer): Promise<AnalyzeResult>;
+}
+
+let layoutProvider: LayoutProvider | null = null;
+
+export function getLayoutProvider(): LayoutProvider {
+  if (!layoutProvider) {
+    layoutProvider = config.layout.provider === 'PDF_TEXT'
+      ? createPdfTextLayoutProvider()
+      : createAzureLayoutProvider();
+    logger.info(`Using layout provider: ${layoutProvider.name}`);
+  }
+  return layoutProvider;
+}
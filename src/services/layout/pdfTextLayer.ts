@@ -0,0 +1,572 @@
+/**
+ * PDF Text Layer Reader
+ *
+ * Reads the embedded text layer of a PDF with pdf-lib, which has no text extraction
+ * API of its own. Page content streams are decoded and interpreted for the text
+ * operators only, producing positioned glyphs in PDF user space (points, bottom-left origin).
+ *
+ * Handles simple and Type0 fonts, ToUnicode CMaps, /Differences encodings and
+ * form XObjects. Scanned pages have no text layer and yield no glyphs.
+ */
+
+import {
+  PDFDocument,
+  PDFDict,
+  PDFArray,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFStream,
+  PDFObject,
+  PDFContext,
+  decodePDFRawStream
+} from 'pdf-lib';
+
+export interface PdfGlyph {
+  text: string;
+  x: number;        // Glyph origin on the baseline
+  y: number;
+  width: number;
+  height: number;   // Font size scaled to user space
+}
+
+export interface PdfTextPage {
+  pageNumber: number;
+  box: { x: number; y: number; width: number; height: number }; // MediaBox in points
+  glyphs: PdfGlyph[];
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const DEFAULT_GLYPH_WIDTH = 500; // Used when a font carries no width table (e.g. the standard 14 fonts)
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
+  ];
+}
+
+// --- Content stream tokenizer ---
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: Uint8Array }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string }
+  | { type: 'arrayStart' }
+  | { type: 'arrayEnd' }
+  | { type: 'dictStart' }
+  | { type: 'dictEnd' };
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+function* tokenize(data: Uint8Array): Generator<Token> {
+  let i = 0;
+  const n = data.length;
+
+  while (i < n) {
+    const c = data[i];
+
+    if (WHITESPACE.has(c)) { i++; continue; }
+
+    if (c === 0x25) { // % comment
+      while (i < n && data[i] !== 0x0a && data[i] !== 0x0d) i++;
+      continue;
+    }
+
+    if (c === 0x28) { // ( literal string )
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < n && depth > 0) {
+        const b = data[i];
+        if (b === 0x5c) { // backslash escape
+          const next = data[i + 1];
+          i += 2;
+          switch (next) {
+            case 0x6e: bytes.push(0x0a); break; // n
+            case 0x72: bytes.push(0x0d); break; // r
+            case 0x74: bytes.push(0x09); break; // t
+            case 0x62: bytes.push(0x08); break; // b
+            case 0x66: bytes.push(0x0c); break; // f
+            case 0x0d: if (data[i] === 0x0a) i++; break; // line continuation
+            case 0x0a: break;
+            default:
+              if (next >= 0x30 && next <= 0x37) { // octal
+                let octal = next - 0x30;
+                for (let k = 0; k < 2 && data[i] >= 0x30 && data[i] <= 0x37; k++) {
+                  octal = octal * 8 + (data[i] - 0x30);
+                  i++;
+                }
+                bytes.push(octal & 0xff);
+              } else {
+                bytes.push(next);
+              }
+          }
+          continue;
+        }
+        if (b === 0x28) depth++;
+        if (b === 0x29) depth--;
+        if (depth > 0) bytes.push(b);
+        i++;
+      }
+      yield { type: 'string', value: Uint8Array.from(bytes) };
+      continue;
+    }
+
+    if (c === 0x3c) {
+      if (data[i + 1] === 0x3c) { i += 2; yield { type: 'dictStart' }; continue; }
+      // <hex string>
+      let hex = '';
+      i++;
+      while (i < n && data[i] !== 0x3e) {
+        if (!WHITESPACE.has(data[i])) hex += String.fromCharCode(data[i]);
+        i++;
+      }
+      i++;
+      if (hex.length % 2 === 1) hex += '0';
+      const bytes = new Uint8Array(hex.length / 2);
+      for (let k = 0; k < bytes.length; k++) bytes[k] = parseInt(hex.substr(k * 2, 2), 16);
+      yield { type: 'string', value: bytes };
+      continue;
+    }
+
+    if (c === 0x3e && data[i + 1] === 0x3e) { i += 2; yield { type: 'dictEnd' }; continue; }
+    if (c === 0x5b) { i++; yield { type: 'arrayStart' }; continue; }
+    if (c === 0x5d) { i++; yield { type: 'arrayEnd' }; continue; }
+
+    if (c === 0x2f) { // /Name
+      let name = '';
+      i++;
+      while (i < n && !WHITESPACE.has(data[i]) && !DELIMITERS.has(data[i])) {
+        name += String.fromCharCode(data[i]);
+        i++;
+      }
+      yield { type: 'name', value: name.replace(/#([0-9a-fA-F]{2})/g, (_, h) => String.fromCharCode(parseInt(h, 16))) };
+      continue;
+    }
+
+    // Number or operator
+    let word = '';
+    while (i < n && !WHITESPACE.has(data[i]) && !DELIMITERS.has(data[i])) {
+      word += String.fromCharCode(data[i]);
+      i++;
+    }
+    if (word.length === 0) { i++; continue; } // Stray delimiter such as '{' or '>'
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      yield { type: 'number', value: parseFloat(word) };
+      continue;
+    }
+
+    if (word === 'BI') {
+      // Inline image: skip binary data up to the EI operator
+      while (i < n) {
+        if (data[i] === 0x45 && data[i + 1] === 0x49 && WHITESPACE.has(data[i - 1]) && (i + 2 >= n || WHITESPACE.has(data[i + 2]))) {
+          i += 2;
+          break;
+        }
+        i++;
+      }
+      continue;
+    }
+
+    yield { type: 'op', value: word };
+  }
+}
+
+// --- Fonts ---
+
+interface FontInfo {
+  bytesPerCode: 1 | 2;
+  toUnicode: Map<number, string>;
+  encoding: Map<number, string>; // From /Differences, simple fonts only
+  widths: Map<number, number>;
+  defaultWidth: number;
+}
+
+// Common glyph names used in /Differences arrays
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", quoteright: '’', quoteleft: '‘', parenleft: '(', parenright: ')', asterisk: '*',
+  plus: '+', comma: ',', hyphen: '-', minus: '-', period: '.', slash: '/', colon: ':', semicolon: ';',
+  less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\',
+  bracketright: ']', underscore: '_', braceleft: '{', bar: '|', braceright: '}', bullet: '•',
+  endash: '–', emdash: '—', quotedblleft: '“', quotedblright: '”', degree: '°',
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+  fi: 'fi', fl: 'fl'
+};
+
+function glyphNameToUnicode(name: string): string | undefined {
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const uni = /^uni([0-9A-Fa-f]{4})$/.exec(name);
+  if (uni) return String.fromCharCode(parseInt(uni[1], 16));
+  return undefined;
+}
+
+function streamBytes(stream: PDFObject | undefined): Uint8Array | null {
+  if (stream instanceof PDFRawStream) return decodePDFRawStream(stream).decode();
+  if (stream instanceof PDFStream) {
+    const unencoded = (stream as any).getUnencodedContents;
+    return typeof unencoded === 'function' ? unencoded.call(stream) : stream.getContents();
+  }
+  return null;
+}
+
+function utf16beToString(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) result += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  return result;
+}
+
+function hexToNumber(hex: string): number {
+  return parseInt(hex, 16);
+}
+
+function hexToUnicode(hex: string): string {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let k = 0; k < bytes.length; k++) bytes[k] = parseInt(hex.substr(k * 2, 2), 16);
+  return utf16beToString(bytes);
+}
+
+/**
+ * Parses the bfchar/bfrange sections of a ToUnicode CMap
+ */
+export function parseToUnicodeCMap(text: string): Map<number, string> {
+  const map = new Map<number, string>();
+
+  const bfcharBlocks = text.match(/beginbfchar([\s\S]*?)endbfchar/g) || [];
+  for (const block of bfcharBlocks) {
+    const pairs = block.matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]*)>/g);
+    for (const [, src, dst] of pairs) map.set(hexToNumber(src), hexToUnicode(dst));
+  }
+
+  const bfrangeBlocks = text.match(/beginbfrange([\s\S]*?)endbfrange/g) || [];
+  for (const block of bfrangeBlocks) {
+    const ranges = block.matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(<[0-9A-Fa-f]*>|\[[^\]]*\])/g);
+    for (const [, lo, hi, dst] of ranges) {
+      const start = hexToNumber(lo);
+      const end = hexToNumber(hi);
+      if (dst.startsWith('[')) {
+        const targets = Array.from(dst.matchAll(/<([0-9A-Fa-f]*)>/g)).map(m => m[1]);
+        for (let code = start; code <= end && code - start < targets.length; code++) {
+          map.set(code, hexToUnicode(targets[code - start]));
+        }
+      } else {
+        const base = dst.slice(1, -1);
+        const baseValue = hexToNumber(base.slice(-4) || '0');
+        const prefix = hexToUnicode(base.slice(0, Math.max(0, base.length - 4)));
+        for (let code = start; code <= end; code++) {
+          map.set(code, prefix + String.fromCharCode(baseValue + (code - start)));
+        }
+      }
+    }
+  }
+
+  return map;
+}
+
+function numberAt(array: PDFArray, index: number): number | undefined {
+  const value = array.lookup(index);
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+function loadFont(fontDict: PDFDict): FontInfo {
+  const subtype = fontDict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+  const font: FontInfo = {
+    bytesPerCode: subtype === 'Type0' ? 2 : 1,
+    toUnicode: new Map(),
+    encoding: new Map(),
+    widths: new Map(),
+    defaultWidth: DEFAULT_GLYPH_WIDTH
+  };
+
+  const toUnicodeBytes = streamBytes(fontDict.lookup(PDFName.of('ToUnicode')));
+  if (toUnicodeBytes) {
+    font.toUnicode = parseToUnicodeCMap(Buffer.from(toUnicodeBytes).toString('latin1'));
+  }
+
+  if (subtype === 'Type0') {
+    const descendant = fontDict.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookup(0);
+    if (descendant instanceof PDFDict) {
+      font.defaultWidth = descendant.lookupMaybe(PDFName.of('DW'), PDFNumber)?.asNumber() ?? 1000;
+      const w = descendant.lookupMaybe(PDFName.of('W'), PDFArray);
+      if (w) {
+        // Entries are either `c [w1 w2 ...]` or `cFirst cLast w`
+        let i = 0;
+        while (i < w.size()) {
+          const first = numberAt(w, i);
+          const next = w.lookup(i + 1);
+          if (first === undefined) break;
+          if (next instanceof PDFArray) {
+            next.asArray().forEach((_, k) => {
+              const width = numberAt(next, k);
+              if (width !== undefined) font.widths.set(first + k, width);
+            });
+            i += 2;
+          } else {
+            const last = numberAt(w, i + 1);
+            const width = numberAt(w, i + 2);
+            if (last !== undefined && width !== undefined) {
+              for (let code = first; code <= last; code++) font.widths.set(code, width);
+            }
+            i += 3;
+          }
+        }
+      }
+    }
+    return font;
+  }
+
+  const firstChar = fontDict.lookupMaybe(PDFName.of('FirstChar'), PDFNumber)?.asNumber() ?? 0;
+  const widths = fontDict.lookupMaybe(PDFName.of('Widths'), PDFArray);
+  if (widths) {
+    for (let k = 0; k < widths.size(); k++) {
+      const width = numberAt(widths, k);
+      if (width !== undefined) font.widths.set(firstChar + k, width);
+    }
+  }
+
+  const encoding = fontDict.lookup(PDFName.of('Encoding'));
+  if (encoding instanceof PDFDict) {
+    const differences = encoding.lookupMaybe(PDFName.of('Differences'), PDFArray);
+    if (differences) {
+      let code = 0;
+      for (const entry of differences.asArray()) {
+        if (entry instanceof PDFNumber) {
+          code = entry.asNumber();
+        } else if (entry instanceof PDFName) {
+          const unicode = glyphNameToUnicode(entry.decodeText());
+          if (unicode !== undefined) font.encoding.set(code, unicode);
+          code++;
+        }
+      }
+    }
+  }
+
+  return font;
+}
+
+function decodeCodes(font: FontInfo, bytes: Uint8Array): number[] {
+  const codes: number[] = [];
+  if (font.bytesPerCode === 2) {
+    for (let i = 0; i + 1 < bytes.length; i += 2) codes.push((bytes[i] << 8) | bytes[i + 1]);
+  } else {
+    bytes.forEach(b => codes.push(b));
+  }
+  return codes;
+}
+
+function codeToText(font: FontInfo, code: number): string {
+  const mapped = font.toUnicode.get(code) ?? font.encoding.get(code);
+  if (mapped !== undefined) return mapped;
+  // Without a mapping, single byte codes are read as Latin-1 (close to WinAnsiEncoding)
+  if (font.bytesPerCode === 1 && code >= 0x20) return String.fromCharCode(code);
+  return '';
+}
+
+// --- Interpreter ---
+
+interface TextState {
+  ctm: Matrix;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+  font: FontInfo | null;
+  fontSize: number;
+}
+
+function resolveFonts(context: PDFContext, resources: PDFDict | undefined, cache: Map<PDFDict, FontInfo>): Map<string, FontInfo> {
+  const fonts = new Map<string, FontInfo>();
+  const fontResources = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+  if (!fontResources) return fonts;
+  for (const [name, ref] of fontResources.entries()) {
+    const fontDict = context.lookup(ref);
+    if (!(fontDict instanceof PDFDict)) continue;
+    if (!cache.has(fontDict)) cache.set(fontDict, loadFont(fontDict));
+    fonts.set(name.decodeText(), cache.get(fontDict)!);
+  }
+  return fonts;
+}
+
+function interpret(
+  context: PDFContext,
+  content: Uint8Array,
+  resources: PDFDict | undefined,
+  initialCtm: Matrix,
+  glyphs: PdfGlyph[],
+  fontCache: Map<PDFDict, FontInfo>,
+  depth: number
+): void {
+  const fonts = resolveFonts(context, resources, fontCache);
+  const stateStack: TextState[] = [];
+  let state: TextState = {
+    ctm: initialCtm,
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScale: 1,
+    leading: 0,
+    rise: 0,
+    font: null,
+    fontSize: 0
+  };
+  let textMatrix: Matrix = IDENTITY;
+  let lineMatrix: Matrix = IDENTITY;
+
+  const operands: any[] = [];
+  const arrayStack: any[][] = [];
+
+  const nextLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+  };
+
+  const showText = (bytes: Uint8Array) => {
+    const font = state.font;
+    if (!font) return;
+    for (const code of decodeCodes(font, bytes)) {
+      const glyphWidth = (font.widths.get(code) ?? font.defaultWidth) / 1000;
+      const renderMatrix = multiply(
+        multiply([state.fontSize * state.horizontalScale, 0, 0, state.fontSize, 0, state.rise], textMatrix),
+        state.ctm
+      );
+      const scaleX = Math.hypot(renderMatrix[0], renderMatrix[1]);
+      const scaleY = Math.hypot(renderMatrix[2], renderMatrix[3]);
+      glyphs.push({
+        text: codeToText(font, code),
+        x: renderMatrix[4],
+        y: renderMatrix[5],
+        width: glyphWidth * scaleX,
+        height: scaleY
+      });
+
+      const wordSpacing = font.bytesPerCode === 1 && code === 0x20 ? state.wordSpacing : 0;
+      const advance = (glyphWidth * state.fontSize + state.charSpacing + wordSpacing) * state.horizontalScale;
+      textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix);
+    }
+  };
+
+  for (const token of tokenize(content)) {
+    switch (token.type) {
+      case 'arrayStart':
+        arrayStack.push([]);
+        continue;
+      case 'arrayEnd': {
+        const array = arrayStack.pop() || [];
+        (arrayStack.length > 0 ? arrayStack[arrayStack.length - 1] : operands).push(array);
+        continue;
+      }
+      case 'dictStart':
+      case 'dictEnd':
+        continue; // Only appears in marked-content properties, which carry no text
+      case 'number':
+      case 'string':
+      case 'name':
+        (arrayStack.length > 0 ? arrayStack[arrayStack.length - 1] : operands).push(token.value);
+        continue;
+    }
+
+    const op = token.value;
+    const args = operands.splice(0, operands.length);
+    const num = (index: number): number => (typeof args[index] === 'number' ? args[index] : 0);
+
+    switch (op) {
+      case 'q': stateStack.push({ ...state }); break;
+      case 'Q': state = stateStack.pop() || state; break;
+      case 'cm': state.ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], state.ctm); break;
+      case 'BT': textMatrix = IDENTITY; lineMatrix = IDENTITY; break;
+      case 'Tf':
+        state.font = fonts.get(args[0]) || null;
+        state.fontSize = num(1);
+        break;
+      case 'Tc': state.charSpacing = num(0); break;
+      case 'Tw': state.wordSpacing = num(0); break;
+      case 'Tz': state.horizontalScale = num(0) / 100; break;
+      case 'TL': state.leading = num(0); break;
+      case 'Ts': state.rise = num(0); break;
+      case 'Td': nextLine(num(0), num(1)); break;
+      case 'TD': state.leading = -num(1); nextLine(num(0), num(1)); break;
+      case 'Tm':
+        lineMatrix = [num(0), num(1), num(2), num(3), num(4), num(5)];
+        textMatrix = lineMatrix;
+        break;
+      case 'T*': nextLine(0, -state.leading); break;
+      case 'Tj':
+        if (args[0] instanceof Uint8Array) showText(args[0]);
+        break;
+      case "'":
+        nextLine(0, -state.leading);
+        if (args[0] instanceof Uint8Array) showText(args[0]);
+        break;
+      case '"':
+        state.wordSpacing = num(0);
+        state.charSpacing = num(1);
+        nextLine(0, -state.leading);
+        if (args[2] instanceof Uint8Array) showText(args[2]);
+        break;
+      case 'TJ':
+        for (const item of Array.isArray(args[0]) ? args[0] : []) {
+          if (item instanceof Uint8Array) {
+            showText(item);
+          } else if (typeof item === 'number') {
+            const shift = (-item / 1000) * state.fontSize * state.horizontalScale;
+            textMatrix = multiply([1, 0, 0, 1, shift, 0], textMatrix);
+          }
+        }
+        break;
+      case 'Do': {
+        if (depth >= 5) break; // Guard against self-referencing forms
+        const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+        const xObject = xObjects?.lookup(PDFName.of(args[0]));
+        if (!(xObject instanceof PDFRawStream)) break;
+        if (xObject.dict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() !== 'Form') break;
+        const formBytes = streamBytes(xObject);
+        if (!formBytes) break;
+        const matrixArray = xObject.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray);
+        const formMatrix: Matrix = matrixArray
+          ? [0, 1, 2, 3, 4, 5].map(k => numberAt(matrixArray, k) ?? IDENTITY[k]) as Matrix
+          : IDENTITY;
+        const formResources = xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) || resources;
+        interpret(context, formBytes, formResources, multiply(formMatrix, state.ctm), glyphs, fontCache, depth + 1);
+        break;
+      }
+    }
+  }
+}
+
+function pageContentBytes(context: PDFContext, contents: PDFStream | PDFArray | undefined): Uint8Array {
+  if (!contents) return new Uint8Array();
+  const streams = contents instanceof PDFArray ? contents.asArray().map(ref => context.lookup(ref)) : [contents];
+  const parts = streams.map(stream => streamBytes(stream)).filter((bytes): bytes is Uint8Array => bytes !== null);
+  // Streams of one page are concatenated with whitespace between them
+  return Buffer.concat(parts.flatMap(part => [Buffer.from(part), Buffer.from('\n')]));
+}
+
+/**
+ * Reads positioned glyphs for every page of a PDF
+ */
+export async function readPdfTextLayer(buffer: Buffer): Promise<PdfTextPage[]> {
+  const pdfDoc = await PDFDocument.load(buffer, { ignoreEncryption: true, updateMetadata: false });
+  const fontCache = new Map<PDFDict, FontInfo>();
+
+  return pdfDoc.getPages().map((page, index) => {
+    const glyphs: PdfGlyph[] = [];
+    const content = pageContentBytes(pdfDoc.context, page.node.Contents());
+    interpret(pdfDoc.context, content, page.node.Resources(), IDENTITY, glyphs, fontCache, 0);
+    return {
+      pageNumber: index + 1,
+      box: page.getMediaBox(),
+      glyphs
+    };
+  });
+}
@@ -0,0 +1,203 @@
+import { AnalyzeResult, DocumentLine, DocumentPage, DocumentWord, Point2D } from '@azure/ai-form-recognizer';
+import { createLogger } from '../../utils/logger';
+import { LayoutProvider } from './layoutProvider';
+import { readPdfTextLayer, PdfGlyph, PdfTextPage } from './pdfTextLayer';
+
+const logger = createLogger('PDF_TEXT_LAYOUT');
+
+const POINTS_PER_INCH = 72;
+const ASCENT = 0.8;            // Fraction of the font size above the baseline
+const DESCENT = 0.2;           // Fraction of the font size below the baseline
+const SAME_LINE_TOLERANCE = 0.5; // Max baseline difference, in font heights, for glyphs on one line
+const WORD_GAP = 0.2;          // Horizontal gap, in font heights, that starts a new word
+const COLUMN_GAP = 2.5;        // Horizontal gap, in font heights, that starts a new line (e.g. table columns)
+
+// Glyph in inches with a top-left origin, matching Azure's page coordinates
+interface PlacedGlyph {
+  text: string;
+  left: number;
+  right: number;
+  baseline: number;
+  height: number;
+}
+
+interface WordBox {
+  content: string;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function toPolygon(box: { left: number; right: number; top: number; bottom: number }): Point2D[] {
+  return [
+    { x: round(box.left), y: round(box.top) },
+    { x: round(box.right), y: round(box.top) },
+    { x: round(box.right), y: round(box.bottom) },
+    { x: round(box.left), y: round(box.bottom) }
+  ];
+}
+
+function placeGlyph(glyph: PdfGlyph, page: PdfTextPage): PlacedGlyph {
+  const left = (glyph.x - page.box.x) / POINTS_PER_INCH;
+  return {
+    text: glyph.text,
+    left,
+    right: left + glyph.width / POINTS_PER_INCH,
+    baseline: (page.box.y + page.box.height - glyph.y) / POINTS_PER_INCH,
+    height: glyph.height / POINTS_PER_INCH
+  };
+}
+
+/**
+ * Groups glyphs into reading-order lines of words
+ */
+function groupLines(glyphs: PlacedGlyph[]): WordBox[][] {
+  // Cluster glyphs that share a baseline
+  const rows: { baseline: number; glyphs: PlacedGlyph[] }[] = [];
+  for (const glyph of glyphs) {
+    if (glyph.height <= 0) continue;
+    const row = rows.find(r => Math.abs(r.baseline - glyph.baseline) < glyph.height * SAME_LINE_TOLERANCE);
+    if (row) {
+      row.glyphs.push(glyph);
+    } else {
+      rows.push({ baseline: glyph.baseline, glyphs: [glyph] });
+    }
+  }
+  rows.sort((a, b) => a.baseline - b.baseline);
+
+  const lines: WordBox[][] = [];
+  for (const row of rows) {
+    row.glyphs.sort((a, b) => a.left - b.left);
+
+    let line: WordBox[] = [];
+    let word: WordBox | null = null;
+    let previous: PlacedGlyph | null = null;
+
+    const closeWord = () => {
+      if (word) line.push(word);
+      word = null;
+    };
+    const closeLine = () => {
+      closeWord();
+      if (line.length > 0) lines.push(line);
+      line = [];
+    };
+
+    for (const glyph of row.glyphs) {
+      const gap = previous ? glyph.left - previous.right : 0;
+      if (previous && gap > glyph.height * COLUMN_GAP) {
+        closeLine();
+      } else if (previous && gap > glyph.height * WORD_GAP) {
+        closeWord();
+      }
+      previous = glyph;
+
+      if (glyph.text.trim() === '') {
+        closeWord();
+        continue;
+      }
+
+      const top = glyph.baseline - glyph.height * ASCENT;
+      const bottom = glyph.baseline + glyph.height * DESCENT;
+      if (!word) {
+        word = { content: glyph.text, left: glyph.left, right: glyph.right, top, bottom };
+      } else {
+        const current: WordBox = word;
+        current.content += glyph.text;
+        current.right = Math.max(current.right, glyph.right);
+        current.top = Math.min(current.top, top);
+        current.bottom = Math.max(current.bottom, bottom);
+      }
+    }
+    closeLine();
+  }
+
+  return lines;
+}
+
+/**
+ * Layout provider that reads the embedded PDF text layer locally.
+ * Scanned pages have no text layer and come back without words or lines.
+ */
+export function createPdfTextLayoutProvider(): LayoutProvider {
+  return {
+    name: 'pdf-text-layer',
+
+    async analyzeLayout(buffer: Buffer): Promise<AnalyzeResult> {
+      const textPages = await readPdfTextLayer(buffer);
+      let content = '';
+      const pages: DocumentPage[] = [];
+
+      for (const textPage of textPages) {
+        if (pages.length > 0) content += '\n';
+        const pageOffset = content.length;
+        const words: DocumentWord[] = [];
+        const lines: DocumentLine[] = [];
+
+        const placed = textPage.glyphs.map(glyph => placeGlyph(glyph, textPage));
+        groupLines(placed).forEach((lineWords, lineIndex) => {
+          if (lineIndex > 0) content += '\n';
+          const lineOffset = content.length;
+          const documentWords: DocumentWord[] = lineWords.map((word, wordIndex) => {
+            if (wordIndex > 0) content += ' ';
+            const documentWord: DocumentWord = {
+              content: word.content,
+              polygon: toPolygon(word),
+              span: { offset: content.length, length: word.content.length },
+              confidence: 1
+            };
+            content += word.content;
+            return documentWord;
+          });
+
+          words.push(...documentWords);
+          lines.push({
+            content: content.slice(lineOffset),
+            polygon: toPolygon({
+              left: Math.min(...lineWords.map(w => w.left)),
+              right: Math.max(...lineWords.map(w => w.right)),
+              top: Math.min(...lineWords.map(w => w.top)),
+              bottom: Math.max(...lineWords.map(w => w.bottom))
+            }),
+            spans: [{ offset: lineOffset, length: content.length - lineOffset }],
+            words: function* () { yield* documentWords; }
+          });
+        });
+
+        if (words.length === 0) {
+          logger.warn(`Page ${textPage.pageNumber} has no text layer; it may be a scanned image`);
+        }
+
+        pages.push({
+          pageNumber: textPage.pageNumber,
+          angle: 0,
+          width: round(textPage.box.width / POINTS_PER_INCH),
+          height: round(textPage.box.height / POINTS_PER_INCH),
+          unit: 'inch',
+          spans: [{ offset: pageOffset, length: content.length - pageOffset }],
+          words,
+          lines,
+          selectionMarks: []
+        });
+      }
+
+      return {
+        apiVersion: 'local',
+        modelId: 'pdf-text-layer',
+        content,
+        pages,
+        tables: [],
+        keyValuePairs: [],
+        languages: [],
+        styles: [],
+        documents: [],
+        paragraphs: []
+      };
+    }
+  };
+}
@@ -0,0 +1,77 @@
+import type OpenAI from 'openai';
+import zodToJsonSchema from 'zod-to-json-schema';
+import { LlmProvider, LlmProviderError, StructuredOutputRequest, StructuredOutputResult, TextRequest } from './llmProvider';
+
+export interface LlmFixture {
+  match?: string | RegExp; // Tested against the user prompt; matches every request when omitted
+  result: any;
+}
+
+/**
+ * Builds the same minimal value for a JSON schema on every call: empty strings, zeros,
+ * false, empty arrays and objects with every declared property.
+ */
+export function buildFixtureValue(schema: any): any {
+  if (!schema || typeof schema !== 'object') return {};
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  const variants = schema.anyOf || schema.oneOf;
+  if (Array.isArray(variants) && variants.length > 0) return buildFixtureValue(variants[0]);
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+  switch (type) {
+    case 'string': return '';
+    case 'number':
+    case 'integer': return 0;
+    case 'boolean': return false;
+    case 'null': return null;
+    case 'array': return [];
+    default: {
+      const value: Record<string, any> = {};
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        value[key] = buildFixtureValue(property);
+      }
+      return value;
+    }
+  }
+}
+
+/**
+ * Deterministic provider for tests: returns the first matching fixture, otherwise a
+ * value derived from the request schema. Makes no network calls.
+ */
+export function createFixtureLlmProvider(fixtures: LlmFixture[] = []): LlmProvider {
+  const findFixture = (userPrompt: string) => fixtures.find(f =>
+    f.match === undefined ||
+    (typeof f.match === 'string' ? userPrompt.includes(f.match) : f.match.test(userPrompt))
+  );
+
+  return {
+    name: 'FIXTURE',
+
+    async generateStructuredOutput(request: StructuredOutputRequest): Promise<StructuredOutputResult> {
+      const fixture = findFixture(request.userPrompt);
+      const schemaJson = request.schema?._def
+        ? zodToJsonSchema(request.schema, { $refStrategy: 'none', target: 'jsonSchema7' })
+        : request.schema;
+
+      return {
+        result: fixture ? structuredClone(fixture.result) : buildFixtureValue(schemaJson),
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+      };
+    },
+
+    // Streams a string fixture word by word; empty when nothing matches
+    async *streamText(request: TextRequest): AsyncIterable<string> {
+      const fixture = findFixture(request.userPrompt);
+      const text = fixture ? (typeof fixture.result === 'string' ? fixture.result : JSON.stringify(fixture.result)) : '';
+      for (const piece of text.match(/\S+\s*/g) || []) {
+        yield piece;
+      }
+    },
+
+    getClient(): OpenAI {
+      throw new LlmProviderError('The FIXTURE LLM provider does not support the Assistants, Files, Vector Store or Embeddings APIs');
+    }
+  };
+}
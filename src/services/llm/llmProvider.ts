@@ -0,0 +1,96 @@
+/**
+ * LLM Provider Registry
+ *
+ * Single entry point for every LLM call in the server. Each operation is routed to a
+ * provider and model from config.llm.operations:
+ * - extraction: per-page structured extraction in documentAnalyzer
+ * - caseSummary: case summary generation through the patient's assistant
+ * - query: vector store queries through the patient's assistant
+ * - embedding: embeddings for the self-hosted chunk index
+ *
+ * Providers:
+ * - AZURE_OPENAI: Azure OpenAI, model is the deployment name
+ * - OPENAI_COMPATIBLE: any OpenAI-compatible base URL (e.g. local vLLM or Ollama)
+ * - FIXTURE: deterministic responses for tests, no network access
+ */
+
+import type OpenAI from 'openai';
+import config from '../../config';
+import { createLogger } from '../../utils/logger';
+import { createAzureOpenAILlmProvider, createOpenAICompatibleLlmProvider } from './openAIProviders';
+import { createFixtureLlmProvider } from './fixtureProvider';
+
+const logger = createLogger('LLM_PROVIDER');
+
+export type LlmOperation = 'extraction' | 'caseSummary' | 'query' | 'embedding';
+export type LlmProviderName = 'AZURE_OPENAI' | 'OPENAI_COMPATIBLE' | 'FIXTURE';
+
+export interface StructuredOutputRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  schema?: any; // Zod schema or JSON schema; json_object mode when omitted
+  model: string;
+}
+
+export type TextRequest = Omit<StructuredOutputRequest, 'schema'>;
+
+export interface StructuredOutputResult {
+  result: any;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  generateStructuredOutput(request: StructuredOutputRequest): Promise<StructuredOutputResult>;
+  /** Plain text completion, yielded as it is generated */
+  streamText(request: TextRequest, signal?: AbortSignal): AsyncIterable<string>;
+  /**
+   * OpenAI SDK client for the Assistants, Files, Vector Store and Embeddings APIs.
+   * Throws for providers that do not implement those APIs.
+   */
+  getClient(): OpenAI;
+}
+
+export class LlmProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+const providerFactories: Record<LlmProviderName, () => LlmProvider> = {
+  AZURE_OPENAI: createAzureOpenAILlmProvider,
+  OPENAI_COMPATIBLE: createOpenAICompatibleLlmProvider,
+  FIXTURE: () => createFixtureLlmProvider()
+};
+
+const providers = new Map<LlmProviderName, LlmProvider>();
+
+/**
+ * Replaces the provider registered under a name, e.g. a fixture provider with canned responses in tests
+ */
+export function registerLlmProvider(provider: LlmProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getLlmProvider(name: LlmProviderName): LlmProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = providerFactories[name]();
+    providers.set(name, provider);
+    logger.info(`Initialized LLM provider: ${name}`);
+  }
+  return provider;
+}
+
+/**
+ * Resolves the provider and model configured for an operation
+ */
+export function getLlmForOperation(operation: LlmOperation): { provider: LlmProvider; model: string } {
+  const { provider, model } = config.llm.operations[operation];
+  return { provider: getLlmProvider(provider), model };
+}
@@ -0,0 +1,125 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import type { ChatCompletionCreateParamsNonStreaming } from 'openai/resources';
+import zodToJsonSchema from 'zod-to-json-schema';
+import config from '../../config';
+import { prepareJsonSchema } from '../../utils/schemaUtils';
+import { createLogger } from '../../utils/logger';
+import { LlmProvider, LlmProviderError, LlmProviderName, StructuredOutputRequest, StructuredOutputResult, TextRequest } from './llmProvider';
+
+const logger = createLogger('LLM_PROVIDER');
+
+const AZURE_CHAT_API_VERSION = '2024-12-01-preview';
+const AZURE_ASSISTANTS_API_VERSION = '2024-05-01-preview';
+
+function buildResponseFormat(schema?: any): ChatCompletionCreateParamsNonStreaming['response_format'] {
+  if (!schema) {
+    return { type: 'json_object' };
+  }
+  // First convert the schema if it's a Zod schema
+  const schemaJson = schema._def ? zodToJsonSchema(schema, { $refStrategy: 'none', target: 'jsonSchema7' }) as any : schema;
+  if (!schemaJson.type) schemaJson.type = 'object';
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: 'structured_output',
+      schema: prepareJsonSchema(schemaJson)
+    }
+  };
+}
+
+/**
+ * Chat completions (JSON or streamed text), shared by every OpenAI SDK based provider
+ */
+function createOpenAILlmProvider(
+  name: LlmProviderName,
+  chatClient: () => OpenAI,
+  assistantsClient: () => OpenAI
+): LlmProvider {
+  return {
+    name,
+
+    async generateStructuredOutput(request: StructuredOutputRequest): Promise<StructuredOutputResult> {
+      const response = await chatClient().chat.completions.create({
+        model: request.model,
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          { role: 'user', content: request.userPrompt }
+        ],
+        response_format: buildResponseFormat(request.schema)
+      });
+
+      let resultJson;
+      if (response.choices && response.choices.length > 0) {
+        try {
+          resultJson = JSON.parse(response.choices[0].message?.content || '{}');
+        } catch (err) {
+          logger.error(`[${name}] Error parsing JSON response: ${err}`);
+          resultJson = {};
+        }
+      }
+
+      return {
+        result: resultJson,
+        usage: {
+          prompt_tokens: response.usage?.prompt_tokens,
+          completion_tokens: response.usage?.completion_tokens,
+          total_tokens: response.usage?.total_tokens
+        }
+      };
+    },
+
+    async *streamText(request: TextRequest, signal?: AbortSignal): AsyncIterable<string> {
+      const stream = await chatClient().chat.completions.create({
+        model: request.model,
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          { role: 'user', content: request.userPrompt }
+        ],
+        stream: true
+      }, { signal });
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+
+    getClient: assistantsClient
+  };
+}
+
+function lazy<T>(create: () => T): () => T {
+  let instance: T | undefined;
+  return () => {
+    if (instance === undefined) instance = create();
+    return instance;
+  };
+}
+
+export function createAzureOpenAILlmProvider(): LlmProvider {
+  // No deployment is pinned: the SDK routes each request to /deployments/{model}
+  const createClient = (apiVersion: string) => new AzureOpenAI({
+    apiKey: config.azure.azureOpenAI.key,
+    endpoint: config.azure.azureOpenAI.endpoint,
+    apiVersion
+  });
+
+  return createOpenAILlmProvider(
+    'AZURE_OPENAI',
+    lazy(() => createClient(AZURE_CHAT_API_VERSION)),
+    lazy(() => createClient(AZURE_ASSISTANTS_API_VERSION))
+  );
+}
+
+export function createOpenAICompatibleLlmProvider(): LlmProvider {
+  const client = lazy(() => {
+    const { baseUrl, apiKey } = config.llm.openAICompatible;
+    if (!baseUrl) {
+      throw new LlmProviderError('OPENAI_COMPATIBLE_BASE_URL is required for the OPENAI_COMPATIBLE LLM provider');
+    }
+    // Local servers usually ignore the key, but the SDK requires one
+    return new OpenAI({ baseURL: baseUrl, apiKey: apiKey || 'not-required' });
+  });
+
+  return createOpenAILlmProvider('OPENAI_COMPATIBLE', client, client);
+}
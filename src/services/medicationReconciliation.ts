@@ -0,0 +1,402 @@
+/**
+ * Medication Reconciliation
+ *
+ * A patient-level medication list built from the medications and allergies extracted on
+ * each page (clinicalContent). Names are normalised to the generic drug so that brand and
+ * generic mentions reconcile; each medication keeps its start, stop and dose changes with
+ * the page they were read from. Allergy–medication conflicts and duplicate therapy are
+ * reported as issues and raised as MEDICATION_CONFLICT alerts on the documents involved.
+ */
+
+import {
+  AllergyRecord,
+  DocumentAlert,
+  DocumentAlertType,
+  MedicalDocument,
+  MedicationChange,
+  MedicationIssue,
+  MedicationMention,
+  MedicationReconciliation,
+  ReconciledMedication
+} from '../shared/types';
+import { storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+import { loadPatientEvidence } from './patientDocuments';
+import { parseTimelineDate } from './patientTimeline';
+
+const logger = createLogger('MEDICATIONS');
+
+interface DrugInfo {
+  generic: string;
+  drugClass: string;
+  ingredients?: string[];          // Combination products
+}
+
+// Common drugs in compensable injury files, by generic and Australian brand name
+const DRUGS: Record<string, DrugInfo> = {
+  paracetamol: { generic: 'paracetamol', drugClass: 'simple analgesic' },
+  panadol: { generic: 'paracetamol', drugClass: 'simple analgesic' },
+  panamax: { generic: 'paracetamol', drugClass: 'simple analgesic' },
+  'panadeine forte': { generic: 'paracetamol/codeine', drugClass: 'opioid', ingredients: ['paracetamol', 'codeine'] },
+  panadeine: { generic: 'paracetamol/codeine', drugClass: 'opioid', ingredients: ['paracetamol', 'codeine'] },
+  codeine: { generic: 'codeine', drugClass: 'opioid' },
+  oxycodone: { generic: 'oxycodone', drugClass: 'opioid' },
+  endone: { generic: 'oxycodone', drugClass: 'opioid' },
+  oxynorm: { generic: 'oxycodone', drugClass: 'opioid' },
+  oxycontin: { generic: 'oxycodone', drugClass: 'opioid' },
+  targin: { generic: 'oxycodone/naloxone', drugClass: 'opioid', ingredients: ['oxycodone', 'naloxone'] },
+  tapentadol: { generic: 'tapentadol', drugClass: 'opioid' },
+  palexia: { generic: 'tapentadol', drugClass: 'opioid' },
+  tramadol: { generic: 'tramadol', drugClass: 'opioid' },
+  tramal: { generic: 'tramadol', drugClass: 'opioid' },
+  morphine: { generic: 'morphine', drugClass: 'opioid' },
+  'ms contin': { generic: 'morphine', drugClass: 'opioid' },
+  buprenorphine: { generic: 'buprenorphine', drugClass: 'opioid' },
+  norspan: { generic: 'buprenorphine', drugClass: 'opioid' },
+  fentanyl: { generic: 'fentanyl', drugClass: 'opioid' },
+  durogesic: { generic: 'fentanyl', drugClass: 'opioid' },
+  hydromorphone: { generic: 'hydromorphone', drugClass: 'opioid' },
+  dilaudid: { generic: 'hydromorphone', drugClass: 'opioid' },
+  ibuprofen: { generic: 'ibuprofen', drugClass: 'nsaid' },
+  nurofen: { generic: 'ibuprofen', drugClass: 'nsaid' },
+  diclofenac: { generic: 'diclofenac', drugClass: 'nsaid' },
+  voltaren: { generic: 'diclofenac', drugClass: 'nsaid' },
+  meloxicam: { generic: 'meloxicam', drugClass: 'nsaid' },
+  mobic: { generic: 'meloxicam', drugClass: 'nsaid' },
+  celecoxib: { generic: 'celecoxib', drugClass: 'nsaid' },
+  celebrex: { generic: 'celecoxib', drugClass: 'nsaid' },
+  naproxen: { generic: 'naproxen', drugClass: 'nsaid' },
+  naprosyn: { generic: 'naproxen', drugClass: 'nsaid' },
+  etoricoxib: { generic: 'etoricoxib', drugClass: 'nsaid' },
+  arcoxia: { generic: 'etoricoxib', drugClass: 'nsaid' },
+  aspirin: { generic: 'aspirin', drugClass: 'nsaid' },
+  pregabalin: { generic: 'pregabalin', drugClass: 'gabapentinoid' },
+  lyrica: { generic: 'pregabalin', drugClass: 'gabapentinoid' },
+  gabapentin: { generic: 'gabapentin', drugClass: 'gabapentinoid' },
+  neurontin: { generic: 'gabapentin', drugClass: 'gabapentinoid' },
+  amitriptyline: { generic: 'amitriptyline', drugClass: 'tricyclic antidepressant' },
+  endep: { generic: 'amitriptyline', drugClass: 'tricyclic antidepressant' },
+  nortriptyline: { generic: 'nortriptyline', drugClass: 'tricyclic antidepressant' },
+  duloxetine: { generic: 'duloxetine', drugClass: 'snri' },
+  cymbalta: { generic: 'duloxetine', drugClass: 'snri' },
+  venlafaxine: { generic: 'venlafaxine', drugClass: 'snri' },
+  efexor: { generic: 'venlafaxine', drugClass: 'snri' },
+  desvenlafaxine: { generic: 'desvenlafaxine', drugClass: 'snri' },
+  pristiq: { generic: 'desvenlafaxine', drugClass: 'snri' },
+  sertraline: { generic: 'sertraline', drugClass: 'ssri' },
+  zoloft: { generic: 'sertraline', drugClass: 'ssri' },
+  escitalopram: { generic: 'escitalopram', drugClass: 'ssri' },
+  lexapro: { generic: 'escitalopram', drugClass: 'ssri' },
+  fluoxetine: { generic: 'fluoxetine', drugClass: 'ssri' },
+  prozac: { generic: 'fluoxetine', drugClass: 'ssri' },
+  diazepam: { generic: 'diazepam', drugClass: 'benzodiazepine' },
+  valium: { generic: 'diazepam', drugClass: 'benzodiazepine' },
+  temazepam: { generic: 'temazepam', drugClass: 'benzodiazepine' },
+  oxazepam: { generic: 'oxazepam', drugClass: 'benzodiazepine' },
+  alprazolam: { generic: 'alprazolam', drugClass: 'benzodiazepine' },
+  xanax: { generic: 'alprazolam', drugClass: 'benzodiazepine' },
+  zolpidem: { generic: 'zolpidem', drugClass: 'hypnotic' },
+  stilnox: { generic: 'zolpidem', drugClass: 'hypnotic' },
+  pantoprazole: { generic: 'pantoprazole', drugClass: 'proton pump inhibitor' },
+  somac: { generic: 'pantoprazole', drugClass: 'proton pump inhibitor' },
+  esomeprazole: { generic: 'esomeprazole', drugClass: 'proton pump inhibitor' },
+  nexium: { generic: 'esomeprazole', drugClass: 'proton pump inhibitor' },
+  amoxicillin: { generic: 'amoxicillin', drugClass: 'penicillin' },
+  amoxil: { generic: 'amoxicillin', drugClass: 'penicillin' },
+  augmentin: { generic: 'amoxicillin/clavulanate', drugClass: 'penicillin', ingredients: ['amoxicillin', 'clavulanate'] },
+  flucloxacillin: { generic: 'flucloxacillin', drugClass: 'penicillin' },
+  cephalexin: { generic: 'cephalexin', drugClass: 'cephalosporin' },
+  keflex: { generic: 'cephalexin', drugClass: 'cephalosporin' },
+  trimethoprim: { generic: 'trimethoprim', drugClass: 'antibiotic' },
+  sulfamethoxazole: { generic: 'sulfamethoxazole', drugClass: 'sulfonamide' },
+  bactrim: { generic: 'trimethoprim/sulfamethoxazole', drugClass: 'sulfonamide', ingredients: ['trimethoprim', 'sulfamethoxazole'] }
+};
+
+// Allergen wording that names a whole class rather than a drug
+const ALLERGEN_CLASSES: [RegExp, string][] = [
+  [/penicillin/, 'penicillin'],
+  [/\bnsaid|anti[- ]?inflammator/, 'nsaid'],
+  [/\bopioid|\bopiate|narcotic/, 'opioid'],
+  [/sulfa|sulpha|sulfonamide/, 'sulfonamide'],
+  [/cephalosporin/, 'cephalosporin'],
+  [/benzodiazepine/, 'benzodiazepine']
+];
+
+// Classes where two concurrent drugs are not duplicate therapy in themselves
+const NON_DUPLICATING_CLASSES = new Set(['antibiotic']);
+
+const CEASED = /\b(ceased|cease|stopped|discontinued|withdrawn|weaned|completed|no longer)\b/i;
+const ACTIVE = /\b(active|current|continu\w*|ongoing|commenced|started|regular|prn)\b/i;
+
+// Strength, form and release suffixes that are not part of the drug's name
+const NAME_NOISE = /\b(\d+(\.\d+)?\s*(mg|mcg|microg|g|ml|%)\b.*|tablets?|tabs?|capsules?|caps?|patch(es)?|cream|gel|oral|sr|cr|xr|er|mr|slow release|modified release|controlled release)\b/g;
+
+/**
+ * The generic drug a name refers to, e.g. "Endone 5mg tablets" → oxycodone. Unknown names
+ * are kept, lower-cased and without strength or form.
+ */
+export function normaliseMedicationName(name: string): DrugInfo & { known: boolean } {
+  const cleaned = name.toLowerCase().replace(/[()]/g, ' ').replace(NAME_NOISE, ' ').replace(/[^a-z/ -]+/g, ' ').replace(/\s+/g, ' ').trim();
+  const words = cleaned.split(' ');
+  for (let length = Math.min(words.length, 2); length > 0; length--) {
+    const info = DRUGS[words.slice(0, length).join(' ')];
+    if (info) return { ...info, known: true };
+  }
+  const generic = cleaned || name.toLowerCase().trim();
+  return { generic, drugClass: '', known: false };
+}
+
+const ingredientsOf = (info: DrugInfo): string[] => info.ingredients || [info.generic];
+
+const doseText = (dosage: string | null, frequency: string | null): string =>
+  [dosage, frequency].filter(Boolean).join(' ');
+
+const sameDose = (a: string | null, b: string | null): boolean =>
+  (a || '').toLowerCase().replace(/\s+/g, '') === (b || '').toLowerCase().replace(/\s+/g, '');
+
+const byDate = (a: { date: string | null }, b: { date: string | null }): number =>
+  a.date === b.date ? 0 : !a.date ? 1 : !b.date ? -1 : a.date.localeCompare(b.date);
+
+interface Reading {
+  info: DrugInfo & { known: boolean };
+  mention: MedicationMention;
+  startDate: string | null;
+  endDate: string | null;
+  reasonForCessation: string | null;
+}
+
+function readDocument(document: MedicalDocument): { readings: Reading[]; allergies: AllergyRecord[] } {
+  const documentTitle = document.title || document.originalName;
+  const readings: Reading[] = [];
+  const allergies: AllergyRecord[] = [];
+
+  (document.content?.extractedSchemas || []).forEach((page: any, index: number) => {
+    const clinical = page?.clinicalContent;
+    if (!clinical) return;
+    const pageNumber = page.pageNumber || index + 1;
+    const date = parseTimelineDate(page.documentDate) || parseTimelineDate(document.documentDate);
+
+    for (const medication of clinical.medications || []) {
+      if (!medication?.name?.trim()) continue;
+      readings.push({
+        info: normaliseMedicationName(medication.name),
+        mention: {
+          clientFileId: document.clientFileId,
+          documentTitle,
+          pageNumber,
+          date: date || parseTimelineDate(medication.startDate),
+          nameAsWritten: medication.name.trim(),
+          dosage: medication.dosage || null,
+          frequency: medication.frequency || null,
+          route: medication.route || null,
+          status: medication.status || null
+        },
+        startDate: parseTimelineDate(medication.startDate),
+        endDate: parseTimelineDate(medication.endDate),
+        reasonForCessation: medication.reasonForCessation || null
+      });
+    }
+
+    for (const allergy of clinical.allergies || []) {
+      if (!allergy?.allergen?.trim() || /^(nil|none|nkda|no known)/i.test(allergy.allergen.trim())) continue;
+      const source = { clientFileId: document.clientFileId, documentTitle, pageNumbers: [pageNumber] };
+      const known = allergies.find(a => a.allergen.toLowerCase() === allergy.allergen.trim().toLowerCase());
+      if (known) {
+        const ref = known.sources[0];
+        if (!ref.pageNumbers.includes(pageNumber)) ref.pageNumbers.push(pageNumber);
+        known.reaction ??= allergy.reaction || null;
+        known.severity ??= allergy.severity || null;
+        continue;
+      }
+      allergies.push({
+        allergen: allergy.allergen.trim(),
+        reaction: allergy.reaction || null,
+        severity: allergy.severity || null,
+        status: allergy.status || null,
+        sources: [source]
+      });
+    }
+  });
+
+  return { readings, allergies };
+}
+
+function reconcileMedication(readings: Reading[]): ReconciledMedication {
+  const sorted = [...readings].sort((a, b) => byDate(a.mention, b.mention));
+  const { info } = sorted[0];
+  const changes: MedicationChange[] = [];
+  const change = (type: MedicationChange['type'], reading: Reading, date: string | null, extra: Partial<MedicationChange> = {}) =>
+    changes.push({ type, date, clientFileId: reading.mention.clientFileId, pageNumber: reading.mention.pageNumber, ...extra });
+
+  const startDate = sorted.map(r => r.startDate).filter((d): d is string => !!d).sort()[0] || null;
+  const first = sorted.find(r => r.startDate === startDate) || sorted[0];
+  change('started', first, startDate || first.mention.date);
+
+  let ceased: Reading | null = null;
+  let previous: Reading | null = null;
+  for (const reading of sorted) {
+    const { dosage, frequency } = reading.mention;
+    if (previous && (dosage || frequency) && !(sameDose(dosage, previous.mention.dosage) && sameDose(frequency, previous.mention.frequency))) {
+      change('dose_changed', reading, reading.mention.date, {
+        from: doseText(previous.mention.dosage, previous.mention.frequency) || undefined,
+        to: doseText(dosage, frequency)
+      });
+    }
+    if (dosage || frequency) previous = reading;
+
+    const stopped = !!reading.endDate || CEASED.test(reading.mention.status || '');
+    if (stopped && !ceased) {
+      ceased = reading;
+      change('stopped', reading, reading.endDate || reading.mention.date, reading.reasonForCessation ? { reason: reading.reasonForCessation } : {});
+    } else if (!stopped && ceased && (reading.mention.date || '') > (ceased.endDate || ceased.mention.date || '')) {
+      // Documented again after it was stopped: recommenced
+      ceased = null;
+      change('started', reading, reading.startDate || reading.mention.date);
+    }
+  }
+
+  const latest = sorted[sorted.length - 1];
+  const status: ReconciledMedication['status'] = ceased ? 'ceased' : ACTIVE.test(latest.mention.status || '') ? 'active' : 'unknown';
+  const brandNames = [...new Set(sorted.map(r => r.mention.nameAsWritten))].filter(name => name.toLowerCase() !== info.generic);
+
+  return {
+    id: info.generic,
+    name: info.generic,
+    brandNames,
+    drugClass: info.drugClass || null,
+    ingredients: ingredientsOf(info),
+    status,
+    currentDose: previous?.mention.dosage || null,
+    currentFrequency: previous?.mention.frequency || null,
+    route: [...sorted].reverse().find(r => r.mention.route)?.mention.route || null,
+    startDate,
+    endDate: ceased ? ceased.endDate || ceased.mention.date : null,
+    changes: changes.sort(byDate),
+    mentions: sorted.map(r => r.mention)
+  };
+}
+
+const documentsOf = (medication: ReconciledMedication): string[] =>
+  [...new Set(medication.mentions.map(m => m.clientFileId))];
+
+function findIssues(medications: ReconciledMedication[], allergies: AllergyRecord[]): MedicationIssue[] {
+  const issues: MedicationIssue[] = [];
+
+  for (const allergy of allergies) {
+    if (/resolved|inactive/i.test(allergy.status || '')) continue;
+    const allergen = normaliseMedicationName(allergy.allergen);
+    const allergenClass = ALLERGEN_CLASSES.find(([pattern]) => pattern.test(allergy.allergen.toLowerCase()))?.[1];
+    for (const medication of medications) {
+      const byIngredient = allergen.known && ingredientsOf(allergen).some(i => medication.ingredients.includes(i));
+      const byClass = !!allergenClass && medication.drugClass === allergenClass;
+      if (!byIngredient && !byClass) continue;
+      issues.push({
+        type: 'allergy_conflict',
+        description: `${medication.name}${medication.drugClass ? ` (${medication.drugClass})` : ''} is documented for a patient recorded as allergic to ${allergy.allergen}` +
+          (allergy.reaction ? ` (${allergy.reaction})` : ''),
+        medicationIds: [medication.id],
+        allergen: allergy.allergen,
+        clientFileIds: [...new Set([...documentsOf(medication), ...allergy.sources.map(s => s.clientFileId)])]
+      });
+    }
+  }
+
+  const current = medications.filter(m => m.status !== 'ceased');
+  const byClass = new Map<string, ReconciledMedication[]>();
+  for (const medication of current) {
+    if (!medication.drugClass || NON_DUPLICATING_CLASSES.has(medication.drugClass)) continue;
+    byClass.set(medication.drugClass, [...(byClass.get(medication.drugClass) || []), medication]);
+  }
+  for (const [drugClass, members] of byClass) {
+    if (members.length < 2) continue;
+    issues.push({
+      type: 'duplicate_therapy',
+      description: `${members.map(m => m.name).join(', ')} are all current ${drugClass} medications`,
+      medicationIds: members.map(m => m.id),
+      drugClass,
+      clientFileIds: [...new Set(members.flatMap(documentsOf))]
+    });
+  }
+
+  // The same ingredient in drugs of different classes, e.g. paracetamol alone and with codeine
+  for (let i = 0; i < current.length; i++) {
+    for (let j = i + 1; j < current.length; j++) {
+      const [a, b] = [current[i], current[j]];
+      const shared = a.ingredients.filter(ingredient => b.ingredients.includes(ingredient));
+      if (shared.length === 0 || (a.drugClass && a.drugClass === b.drugClass)) continue;
+      issues.push({
+        type: 'duplicate_therapy',
+        description: `${a.name} and ${b.name} are both current and both contain ${shared.join(' and ')}`,
+        medicationIds: [a.id, b.id],
+        clientFileIds: [...new Set([...documentsOf(a), ...documentsOf(b)])]
+      });
+    }
+  }
+  return issues;
+}
+
+export function buildMedicationReconciliation(silknotePatientUuid: string, documents: MedicalDocument[]): MedicationReconciliation {
+  const readings: Reading[] = [];
+  const allergies: AllergyRecord[] = [];
+  for (const document of documents) {
+    const read = readDocument(document);
+    readings.push(...read.readings);
+    for (const allergy of read.allergies) {
+      const known = allergies.find(a => a.allergen.toLowerCase() === allergy.allergen.toLowerCase());
+      if (known) known.sources.push(...allergy.sources);
+      else allergies.push(allergy);
+    }
+  }
+
+  const byDrug = new Map<string, Reading[]>();
+  for (const reading of readings) {
+    byDrug.set(reading.info.generic, [...(byDrug.get(reading.info.generic) || []), reading]);
+  }
+  const rank = { active: 0, unknown: 1, ceased: 2 };
+  const medications = [...byDrug.values()]
+    .map(reconcileMedication)
+    .sort((a, b) => rank[a.status] - rank[b.status] || a.name.localeCompare(b.name));
+
+  return { silknotePatientUuid, medications, allergies, issues: findIssues(medications, allergies) };
+}
+
+export async function getMedicationReconciliation(silknoteUserUuid: string, silknotePatientUuid: string): Promise<MedicationReconciliation> {
+  return buildMedicationReconciliation(silknotePatientUuid, await loadPatientEvidence(silknoteUserUuid, silknotePatientUuid));
+}
+
+/**
+ * Brings each document's MEDICATION_CONFLICT alerts in line with the current issues:
+ * new issues are raised on every document they are drawn from, unacknowledged alerts for
+ * issues that no longer apply are dropped, and acknowledged alerts are kept. Returns the
+ * alerts of the documents that changed, by clientFileId.
+ */
+export async function refreshMedicationAlerts(silknoteUserUuid: string, silknotePatientUuid: string): Promise<Map<string, DocumentAlert[]>> {
+  const documents = await loadPatientEvidence(silknoteUserUuid, silknotePatientUuid);
+  const { issues } = buildMedicationReconciliation(silknotePatientUuid, documents);
+  const changed = new Map<string, DocumentAlert[]>();
+
+  for (const document of documents) {
+    const wanted = issues.filter(issue => issue.clientFileIds.includes(document.clientFileId)).map(issue => issue.description);
+    const existing = document.alerts || [];
+    const kept = existing.filter(alert =>
+      alert.type !== DocumentAlertType.MEDICATION_CONFLICT || alert.acknowledged || wanted.includes(alert.description));
+    const raised = wanted
+      .filter(description => !kept.some(alert => alert.type === DocumentAlertType.MEDICATION_CONFLICT && alert.description === description))
+      .map((description): DocumentAlert => ({
+        type: DocumentAlertType.MEDICATION_CONFLICT,
+        description,
+        source: 'SERVER_API_CALL',
+        timestamp: new Date().toISOString(),
+        acknowledged: false
+      }));
+    if (raised.length === 0 && kept.length === existing.length) continue;
+
+    const alerts = [...kept, ...raised];
+    if (await storageService.updateDocument(silknoteUserUuid, silknotePatientUuid, { ...document, alerts })) {
+      changed.set(document.clientFileId, alerts);
+    } else {
+      logger.warn(`Failed to update medication alerts on document ${document.clientFileId}`);
+    }
+  }
+  return changed;
+}
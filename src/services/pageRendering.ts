@@ -0,0 +1,78 @@
+/**
+ * Page Rendering
+ *
+ * Page images are rendered when they are first requested instead of being stored as base64
+ * in the document content. A page is rasterised from the stored PDF with pdf2pic
+ * (GraphicsMagick and Ghostscript) at a density suited to the requested size, then sharp
+ * scales it to that size and encodes it as WebP. Each rendering is cached in file storage
+ * under the document; its name and ETag carry a version of the stored file, so a file that
+ * is replaced (decrypted, converted) is never served stale pages.
+ */
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { fromBuffer } from 'pdf2pic';
+import { MedicalDocument } from '../shared/types';
+import { pageCachePrefix, storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('PAGE_RENDERING');
+
+export const PAGE_IMAGE_SIZES = {
+  thumbnail: { width: 200, density: 72 },
+  viewer: { width: 1200, density: 150 },
+  print: { width: 2480, density: 300 }   // A4 width at 300 dpi
+} as const;
+
+export type PageImageSize = keyof typeof PAGE_IMAGE_SIZES;
+
+export interface PageImage {
+  content: Buffer;
+  contentType: 'image/webp';
+  etag: string;
+}
+
+export const isPageImageSize = (value: unknown): value is PageImageSize =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PAGE_IMAGE_SIZES, value);
+
+// Changes whenever the stored file does
+const fileVersion = (document: MedicalDocument): string =>
+  createHash('sha256').update(`${document.storedPath}|${document.hash || ''}|${document.fileSize || 0}`).digest('hex').slice(0, 16);
+
+export const pageImageETag = (document: MedicalDocument, page: number, size: PageImageSize): string =>
+  `"${fileVersion(document)}-${page}-${size}"`;
+
+async function rasterisePage(pdf: Buffer, page: number, density: number): Promise<Buffer> {
+  // No width or height: GraphicsMagick keeps the page's own size at this density
+  const convert = fromBuffer(pdf, { density, format: 'png', width: undefined, height: undefined, preserveAspectRatio: true });
+  const { buffer } = await convert(page, { responseType: 'buffer' });
+  if (!buffer?.length) throw new Error(`Page ${page} could not be rendered`);
+  return buffer;
+}
+
+/**
+ * The image of a page (1-based) at the given size, from the cache or rendered and cached.
+ * The caller checks the page is within the document.
+ */
+export async function renderPageImage(document: MedicalDocument, page: number, size: PageImageSize): Promise<PageImage> {
+  const etag = pageImageETag(document, page, size);
+  const key = `${pageCachePrefix(document.silknotePatientUuid, document.clientFileId)}${page}-${size}-${fileVersion(document)}.webp`;
+
+  const cached = await storageService.getCachedFile(key);
+  if (cached) return { content: cached, contentType: 'image/webp', etag };
+
+  const { width, density } = PAGE_IMAGE_SIZES[size];
+  const raster = await rasterisePage(await storageService.getFileContent(document.storedPath), page, density);
+  const content = await sharp(raster)
+    .flatten({ background: '#ffffff' })
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: size === 'thumbnail' ? 70 : 85 })
+    .toBuffer();
+
+  try {
+    await storageService.storeCachedFile(key, content);
+  } catch (error) {
+    logger.warn(`Failed to cache page ${page} (${size}) of ${document.clientFileId}:`, error);
+  }
+  return { content, contentType: 'image/webp', etag };
+}
@@ -0,0 +1,36 @@
+/**
+ * Patient Documents
+ *
+ * Which of a patient's documents the derived views (case summary, inconsistency rules,
+ * timeline, work capacity, medications) draw on: processed documents, leaving out any
+ * flagged as belonging to another patient, whose alert already covers them.
+ */
+
+import { MedicalDocument } from '../shared/types';
+import { storageService } from '../utils/storage';
+
+/**
+ * Processed and not flagged as another patient's
+ */
+export const isPatientEvidence = (document: MedicalDocument): boolean =>
+  document.status === 'complete' && !document.isIncorrectPatient;
+
+/**
+ * The patient's evidence documents. The patient document list may omit heavy content,
+ * so a document is loaded in full when needsContent says the listed copy will not do.
+ */
+export async function loadPatientEvidence(
+  silknoteUserUuid: string,
+  silknotePatientUuid: string,
+  needsContent: (document: MedicalDocument) => boolean = document => !document.content?.extractedSchemas
+): Promise<MedicalDocument[]> {
+  const documents = await storageService.getDocumentsForPatient(silknoteUserUuid, silknotePatientUuid);
+  const evidence: MedicalDocument[] = [];
+  for (const document of documents.filter(isPatientEvidence)) {
+    const full = needsContent(document)
+      ? await storageService.getDocument(silknoteUserUuid, silknotePatientUuid, document.clientFileId)
+      : document;
+    if (full) evidence.push(full);
+  }
+  return evidence;
+}
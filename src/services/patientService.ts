@@ -1,14 +1,12 @@
 import { PatientDetails, MedicalDocument } from '../shared/types';
 import { io } from '../socket';
 import { storageService } from '../utils/storage'; // Use storageService
-import { AzureOpenAI } from 'openai';
-import type { TextContentBlock } from 'openai/resources/beta/threads/messages';
-import config from '../config';
 import { Response } from 'express';
 import { v4 as uuidv4 } from 'uuid'; // Ensure UUID is imported
 import * as vectorStore from './vectorStore'  // Add the vectorStore import here
 import { removeFileFromVectorStore } from './vectorStore'; // Specific import
 import { createLogger } from '../utils/logger'; // Import logger
+import { createSocketSink, createSseSink, streamQuery } from './queryStream';
 
 const logger = createLogger('PATIENT_SERVICE'); // Create logger instance
 
@@ -424,7 +422,9 @@ export async function updateFileForPatient(
 // Leaving it here for now to minimize disruption, but recommend moving it.
 
 /**
- * Stream search results with Server-Sent Events
+ * Stream search results with Server-Sent Events.
+ * Sets the SSE headers and streams token deltas, citations and a final `done` event
+ * (see queryStream.ts); stops generating if the client disconnects.
  */
 export async function streamSearchQuery(
   silknotePatientUuid: string,
@@ -434,6 +434,8 @@ export async function streamSearchQuery(
   options: {
     includeExactQuotes?: boolean;
     outputFormat?: string;
+    clientFileIds?: string[];
+    emitToPatientRoom?: boolean; // Mirror events to the patient's socket room
   } = {}
 ): Promise<void> {
   console.log(`[PATIENT SERVICE - streamSearchQuery] Starting for patient ${silknotePatientUuid}`);
@@ -441,206 +443,30 @@ export async function streamSearchQuery(
     throw new Error('Missing required parameters for streamSearchQuery');
   }
 
-  // Get patient data using the refactored getPatientById
-  const patient = await getPatientById(silknotePatientUuid, silknoteUserUuid);
-  if (!patient?.vectorStore?.assistantId) {
-    // Use a more specific error message
-    const errorMsg = !patient
-      ? `Patient with ID ${silknotePatientUuid} not found.`
-      : 'No vector store or assistant configured for this patient.';
-    console.error(`[PATIENT SERVICE - streamSearchQuery] Error: ${errorMsg}`);
-    // Send SSE error before throwing to ensure client is notified
-    res.write(`data: ${JSON.stringify({ type: 'error', error: errorMsg })}\n\n`);
-    res.end(); // End the response after sending the error
-    throw new Error(errorMsg); // Throw after sending SSE error
-  }
-
-  const { outputFormat = 'text' } = options;
-
-  // --- OpenAI Logic (Remains mostly the same, uses patient data fetched above) ---
-  const openai = new AzureOpenAI({
-    apiKey: config.azure.azureOpenAI.key,
-    endpoint: config.azure.azureOpenAI.endpoint,
-    apiVersion: '2024-05-01-preview',
-  });
-
-  let systemMessage = '';
-  if (outputFormat === 'json') {
-    systemMessage = `
-      For each citation, include the reference inline using the format 【citation_index:position†filename】.
-      Example: "The patient was diagnosed with hypertension【1:0†medical_report.pdf】."
-    `;
-  }
-
-  const thread = await openai.beta.threads.create();
-  console.log(`[PATIENT SERVICE - streamSearchQuery] Created thread ${thread.id}`);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
 
-  if (systemMessage) {
-    await openai.beta.threads.messages.create(thread.id, { role: 'user', content: systemMessage });
-  }
-
-  await openai.beta.threads.messages.create(thread.id, { role: 'user', content: query });
-
-  const run = await openai.beta.threads.runs.create(thread.id, {
-    assistant_id: patient.vectorStore.assistantId,
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      console.log(`[PATIENT SERVICE - streamSearchQuery] Client disconnected for patient ${silknotePatientUuid}. Stopping stream.`);
+      controller.abort();
+    }
   });
-  console.log(`[PATIENT SERVICE - streamSearchQuery] Started run ${run.id} on thread ${thread.id}`);
-
-  let attempts = 0;
-  const maxAttempts = 60; // 60 seconds timeout
-  const pollIntervalMs = 1000;
-
-  const pollInterval = setInterval(async () => {
-    // Check if response is already finished or headers sent (client disconnected)
-     if (res.writableEnded) {
-        console.log(`[PATIENT SERVICE - streamSearchQuery] Response ended or client disconnected. Clearing interval for run ${run.id}`);
-        clearInterval(pollInterval);
-        return;
-      }
-
-    try {
-      attempts++;
-       if (attempts > maxAttempts) {
-          console.log(`[PATIENT SERVICE - streamSearchQuery] Query timed out after ${maxAttempts} seconds for run ${run.id}.`);
-          clearInterval(pollInterval);
-          res.write(`data: ${JSON.stringify({ type: 'error', error: `Query timed out after ${maxAttempts} seconds` })}\n\n`);
-          res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`); // Send done event even on timeout
-          res.end();
-          return;
-        }
-
-
-      const runStatus = await openai.beta.threads.runs.retrieve(thread.id, run.id);
-
-      if (runStatus.status === 'completed') {
-        console.log(`[PATIENT SERVICE - streamSearchQuery] Run ${run.id} completed.`);
-        clearInterval(pollInterval);
-
-        const messages = await openai.beta.threads.messages.list(thread.id, { order: 'asc' }); // Get messages in chronological order
-        const lastAssistantMessage = messages.data.filter(m => m.role === 'assistant').pop(); // Get the last assistant message
-
-        if (lastAssistantMessage) {
-          const textContent = lastAssistantMessage.content.find((c): c is TextContentBlock => c.type === 'text');
-
-          if (textContent?.text) {
-            console.log(`[PATIENT SERVICE - streamSearchQuery] Processing assistant response (length: ${textContent.text.value.length})`);
-            const originalText = textContent.text.value;
-            const citationRegex = /【(\d+):(\d+)†([^】]+)】/g;
-            const extractedCitations: Array<{ /* ... citation fields ... */ originalMarker: string; documentName: string; pageNumber: number; position: number; startPosition: number; endPosition: number; length: number; }> = []; // Define fields properly
-            let match;
-
-            while ((match = citationRegex.exec(originalText)) !== null) {
-              const [fullMatch, pageNumber, position, documentName] = match;
-               extractedCitations.push({
-                  originalMarker: fullMatch,
-                  documentName: documentName,
-                  pageNumber: parseInt(pageNumber, 10) || 1,
-                  position: parseInt(position, 10) || 0,
-                  startPosition: match.index,
-                  endPosition: match.index + fullMatch.length,
-                  length: fullMatch.length
-                });
-            }
-             extractedCitations.sort((a, b) => a.startPosition - b.startPosition);
-             console.log(`[PATIENT SERVICE - streamSearchQuery] Extracted ${extractedCitations.length} citations`);
-
-            // Stream content chunks
-            const chunks = originalText.match(/.{1,300}(?:\s|$)/g) || [originalText]; // Ensure non-empty text is sent
-             console.log(`[PATIENT SERVICE - streamSearchQuery] Splitting response into ${chunks.length} chunks`);
-            for (const chunk of chunks) {
-              if (res.writableEnded) break; // Stop if client disconnected
-              // Ensure chunk is not undefined or null before stringifying
-              if (chunk) {
-                res.write(`data: ${JSON.stringify({ type: 'content', content: chunk })}\n\n`);
-              }
-              await new Promise(resolve => setTimeout(resolve, 10)); // Small delay between chunks
-            }
-
-             if (res.writableEnded) { // Check again after loop
-                console.log(`[PATIENT SERVICE - streamSearchQuery] Client disconnected during content streaming for run ${run.id}.`);
-                return;
-             }
-
-            // Send processing complete signal before sending citations
-            res.write(`data: ${JSON.stringify({ type: 'processing_complete' })}\n\n`);
-            console.log('[PATIENT SERVICE - streamSearchQuery] Content streaming complete, sending citation information');
-
-            // Send extracted citations
-            for (let i = 0; i < extractedCitations.length; i++) {
-               if (res.writableEnded) break; // Stop if client disconnected
-              const citation = extractedCitations[i];
-              // Explicitly type 'doc' in the find method
-              const document = patient.fileSet.find((doc: MedicalDocument) =>
-                doc.clientFileId === citation.documentName.split('.')[0] || doc.originalName === citation.documentName
-              );
-              const citationData = {
-                type: 'citation',
-                documentId: document?.clientFileId || citation.documentName, // Use clientFileId if found
-                documentName: citation.documentName,
-                pageNumber: citation.pageNumber,
-                pageImage: null, // Placeholder, page image generation needs separate logic
-                excerpt: citation.originalMarker, // Use the marker itself as excerpt?
-                quote: citation.originalMarker, // Use the marker as quote?
-                position: citation.position,
-                citationIndex: i + 1
-              };
-              res.write(`data: ${JSON.stringify(citationData)}\n\n`);
-              await new Promise(resolve => setTimeout(resolve, 5)); // Very small delay
-            }
-             if (res.writableEnded) { // Check again after loop
-                console.log(`[PATIENT SERVICE - streamSearchQuery] Client disconnected during citation streaming for run ${run.id}.`);
-                return;
-             }
-          } else {
-             console.log(`[PATIENT SERVICE - streamSearchQuery] Run ${run.id} completed, but no text content found in the last assistant message.`);
-          }
-        } else {
-           console.log(`[PATIENT SERVICE - streamSearchQuery] Run ${run.id} completed, but no assistant message found.`);
-        }
 
-        // Send final 'all_complete' and 'done' signals
-         console.log(`[PATIENT SERVICE - streamSearchQuery] Sending all_complete and done signals for run ${run.id}.`);
-        res.write(`data: ${JSON.stringify({ type: 'all_complete' })}\n\n`);
-        await new Promise(resolve => setTimeout(resolve, 50)); // Short delay before final done
-        res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`);
-        res.end();
-
-      } else if (['failed', 'cancelled', 'expired'].includes(runStatus.status)) {
-        const errorReason = runStatus.last_error?.message || `Assistant run ${runStatus.status}`;
-        console.log(`[PATIENT SERVICE - streamSearchQuery] Run ${run.id} ${runStatus.status}: ${errorReason}`);
-        clearInterval(pollInterval);
-        res.write(`data: ${JSON.stringify({ type: 'error', error: errorReason })}\n\n`);
-        res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`); // Send done event even on failure
-        res.end();
-      } else {
-        // Still in progress or queued, wait for next poll
-        // console.log(`[PATIENT SERVICE - streamSearchQuery] Run ${run.id} status: ${runStatus.status}. Waiting...`);
-      }
-    } catch (error) {
-      console.error(`[PATIENT SERVICE - streamSearchQuery] Error during polling/processing for run ${run.id}:`, error);
-      clearInterval(pollInterval);
-      // Avoid writing to response if headers already sent or response ended
-       if (!res.headersSent && !res.writableEnded) {
-          try {
-              res.write(`data: ${JSON.stringify({ type: 'error', error: error instanceof Error ? error.message : 'Unknown streaming error' })}\n\n`);
-              res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`); // Send done event on error
-              res.end();
-          } catch (writeError) {
-              console.error(`[PATIENT SERVICE - streamSearchQuery] Error writing error to response for run ${run.id}:`, writeError);
-          }
-       } else {
-          console.log(`[PATIENT SERVICE - streamSearchQuery] Response already ended/headers sent for run ${run.id}, cannot send error.`);
-       }
-    }
-  }, pollIntervalMs);
+  const sinks = [createSseSink(res)];
+  if (options.emitToPatientRoom) sinks.push(createSocketSink(silknotePatientUuid));
 
-  // Handle client disconnect during polling
-  res.on('close', () => {
-    console.log(`[PATIENT SERVICE - streamSearchQuery] Client disconnected for run ${run.id}. Clearing interval.`);
-    clearInterval(pollInterval);
-    // Optionally cancel the OpenAI run if still in progress
-    // openai.beta.threads.runs.cancel(thread.id, run.id).catch(cancelErr => console.error("Error cancelling run:", cancelErr));
-  });
+  await streamQuery({
+    silknotePatientUuid,
+    silknoteUserUuid,
+    query,
+    outputFormat: options.outputFormat,
+    clientFileIds: options.clientFileIds,
+    signal: controller.signal
+  }, sinks);
 }
 
 /**
@@ -0,0 +1,288 @@
+/**
+ * Patient Timeline
+ *
+ * A deduplicated chronology of a patient's case built from each document's page
+ * extractions (keyEvents, workCapacity, procedure and imaging), without an LLM call.
+ * Events are extracted per document when it completes processing and stored through
+ * the DatabaseAdapter; the patient timeline merges them so that an event reported by
+ * several documents appears once, linked to every document and page that mentions it.
+ */
+
+import { createHash } from 'crypto';
+import { KeyEventTypes } from '../shared/extraction-schema';
+import {
+  DocumentType,
+  MedicalDocument,
+  PatientTimeline,
+  TimelineDocumentEvents,
+  TimelineEvent,
+  TimelineEventType
+} from '../shared/types';
+import { storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+import { loadPatientEvidence } from './patientDocuments';
+
+const logger = createLogger('TIMELINE');
+
+export const TIMELINE_EVENT_TYPES = Object.keys(KeyEventTypes) as TimelineEventType[];
+
+const CERTIFICATE_TYPES: TimelineEventType[] = ['WORKCOVER_FIRST_CERTIFICATE', 'WORKCOVER_PROGRESS_CERTIFICATE', 'WORKCOVER_FINAL_CERTIFICATE'];
+
+// Types that happen at most once a day, so same-day events of the type are one event whatever their titles
+const ONCE_A_DAY: Partial<Record<TimelineEventType, string>> = {
+  INJURY: 'INJURY',
+  SURGERY: 'SURGERY',
+  WORKCOVER_FIRST_CERTIFICATE: 'CERTIFICATE',
+  WORKCOVER_PROGRESS_CERTIFICATE: 'CERTIFICATE',
+  WORKCOVER_FINAL_CERTIFICATE: 'CERTIFICATE',
+  ALLIED_HEALTH_CAPACITY_ASSESSMENT: 'ALLIED_HEALTH_CAPACITY_ASSESSMENT'
+};
+
+// Checked in order; the first match classifies a key event
+const KEY_EVENT_RULES: [RegExp, TimelineEventType][] = [
+  [/\b(first|initial)\b.*\bcertificate\b/, 'WORKCOVER_FIRST_CERTIFICATE'],
+  [/\bfinal\b.*\bcertificate\b/, 'WORKCOVER_FINAL_CERTIFICATE'],
+  [/\bcertificate\b/, 'WORKCOVER_PROGRESS_CERTIFICATE'],
+  [/\b(functional )?capacity (assessment|evaluation)\b|\bfce\b/, 'ALLIED_HEALTH_CAPACITY_ASSESSMENT'],
+  [/\binjur|\baccident\b|\bincident\b/, 'INJURY'],
+  [/\bsurg|\boperation\b|scopy\b|ectomy\b|plasty\b|\bfusion\b|\brepair\b/, 'SURGERY'],
+  [/\blegal\b|\bsolicitor|\blawyer|\bcourt\b|\btribunal\b|\bnotice\b|\bdispute\b/, 'LEGAL_NOTICE'],
+  [/\b(first|initial) (presentation|attendance)\b|\bpresented\b|\bemergency\b/, 'FIRST_PRESENTATION'],
+  [/\b(first|initial) (appointment|consult)/, 'FIRST_APPOINTMENT'],
+  [/\bfinal (appointment|review|consult)|\bdischarged?\b/, 'FINAL_APPOINTMENT'],
+  [/\bfollow[- ]?up\b|\breview\b/, 'FOLLOW_UP_APPOINTMENT']
+];
+
+const FULL_CAPACITY = /\b(full|fit)\b.*\b(capacity|duties|work)\b|\bclear(ed)?\b/i;
+
+const normalize = (text: string | null | undefined): string =>
+  (text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Parses DD/MM/YYYY (also D/M/YY, dashes or dots) and ISO dates to YYYY-MM-DD
+ */
+export function parseTimelineDate(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  let [year, month, day] = iso ? [Number(iso[1]), Number(iso[2]), Number(iso[3])] : [0, 0, 0];
+  if (!iso) {
+    const dmy = text.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+    if (!dmy) return null;
+    [day, month, year] = [Number(dmy[1]), Number(dmy[2]), Number(dmy[3])];
+    if (year < 100) year += year < 50 ? 2000 : 1900;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+export function classifyKeyEvent(title: string | null | undefined, description?: string | null): TimelineEventType {
+  const text = normalize(title);
+  const byLabel = TIMELINE_EVENT_TYPES.find(type => normalize(KeyEventTypes[type]) === text || normalize(type) === text);
+  if (byLabel) return byLabel;
+  for (const candidate of [text, `${text} ${normalize(description)}`]) {
+    const rule = KEY_EVENT_RULES.find(([pattern]) => pattern.test(candidate));
+    if (rule) return rule[1];
+  }
+  return 'OTHER_KEY_EVENT';
+}
+
+function details(values: Record<string, string | null | undefined>): Record<string, string> {
+  return Object.fromEntries(Object.entries(values).filter((entry): entry is [string, string] => !!entry[1]?.trim()));
+}
+
+/**
+ * Extracts a document's timeline events from its page extractions, merged within the document
+ */
+export function extractDocumentTimeline(document: MedicalDocument): TimelineEvent[] {
+  const source = (pageNumber: number) => [{
+    clientFileId: document.clientFileId,
+    documentTitle: document.title || document.originalName,
+    pageNumbers: [pageNumber]
+  }];
+  const event = (dateText: string | null | undefined, fields: Omit<TimelineEvent, 'id' | 'date' | 'dateText'>): TimelineEvent => ({
+    id: '',
+    date: parseTimelineDate(dateText),
+    dateText: dateText || null,
+    ...fields
+  });
+  const capacityAssessment = document.category === DocumentType.ALLIED_HEALTH_REPORT || document.category === DocumentType.REHABILITATION_REPORT;
+
+  const events: TimelineEvent[] = [];
+  (document.content?.extractedSchemas || []).forEach((page: any, index: number) => {
+    if (!page) return;
+    const pageNumber = page.pageNumber || index + 1;
+
+    for (const keyEvent of page.keyEvents || []) {
+      if (!keyEvent?.event && !keyEvent?.description) continue;
+      events.push(event(keyEvent.date, {
+        eventType: classifyKeyEvent(keyEvent.event, keyEvent.description),
+        source: 'keyEvent',
+        title: keyEvent.event || 'Event',
+        description: keyEvent.description || null,
+        details: details({ significance: keyEvent.significance }),
+        sources: source(pageNumber)
+      }));
+    }
+
+    const capacity = page.workCapacity;
+    if (capacity && (capacity.status || capacity.certifiedFrom || capacity.certifiedTo)) {
+      events.push(event(capacity.certifiedFrom || document.documentDate, {
+        eventType: capacityAssessment ? 'ALLIED_HEALTH_CAPACITY_ASSESSMENT' : 'WORKCOVER_PROGRESS_CERTIFICATE',
+        source: 'workCapacity',
+        title: capacity.status ? `Work capacity: ${capacity.status}` : 'Work capacity certified',
+        description: null,
+        details: details({
+          status: capacity.status,
+          hours: capacity.hours,
+          certifiedFrom: capacity.certifiedFrom,
+          certifiedTo: capacity.certifiedTo,
+          reviewDate: capacity.reviewDate,
+          restrictions: (capacity.restrictions || []).map((r: any) => r?.restriction).filter(Boolean).join('; '),
+          modifications: (capacity.modifications || []).map((m: any) => m?.modification).filter(Boolean).join('; ')
+        }),
+        sources: source(pageNumber)
+      }));
+    }
+
+    for (const procedure of page.procedure || []) {
+      if (!procedure?.name) continue;
+      events.push(event(procedure.date, {
+        eventType: 'SURGERY',
+        source: 'procedure',
+        title: procedure.name,
+        description: procedure.outcome || procedure.notes || null,
+        details: details({ practitioner: procedure.practitioner, organisation: procedure.organisation }),
+        sources: source(pageNumber)
+      }));
+    }
+
+    const imaging = page.imaging;
+    if (imaging && (imaging.technique || imaging.bodyPart)) {
+      events.push(event(imaging.date, {
+        eventType: 'OTHER_KEY_EVENT',
+        source: 'imaging',
+        title: [imaging.technique, imaging.bodyPart].filter(Boolean).join(' '),
+        description: imaging.conclusion || imaging.findings || null,
+        details: details({ provider: imaging.provider, requestedBy: imaging.requestedBy, reportedBy: imaging.reportedBy }),
+        sources: source(pageNumber)
+      }));
+    }
+  });
+
+  return mergeTimelineEvents(events);
+}
+
+function eventKey(event: TimelineEvent): string {
+  const day = event.date || normalize(event.dateText) || 'undated';
+  const group = ONCE_A_DAY[event.eventType];
+  return group && event.date ? `${day}|${group}` : `${day}|${event.eventType}|${normalize(event.title)}`;
+}
+
+const SOURCE_PRIORITY: TimelineEvent['source'][] = ['procedure', 'workCapacity', 'imaging', 'keyEvent'];
+
+/**
+ * Merges events that describe the same thing, keeping every source reference. The most
+ * specific source (e.g. a procedure over a key event titled "Surgery") names the event.
+ */
+export function mergeTimelineEvents(events: TimelineEvent[]): TimelineEvent[] {
+  const merged = new Map<string, TimelineEvent>();
+  for (const event of events) {
+    const key = eventKey(event);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...event, id: createHash('sha1').update(key).digest('hex').slice(0, 12), sources: event.sources.map(s => ({ ...s, pageNumbers: [...s.pageNumbers] })) });
+      continue;
+    }
+
+    const preferred = SOURCE_PRIORITY.indexOf(event.source) < SOURCE_PRIORITY.indexOf(existing.source) ? event : existing;
+    existing.title = preferred.title;
+    existing.source = preferred.source;
+    existing.eventType = preferred.eventType;
+    if ((event.description?.length || 0) > (existing.description?.length || 0)) existing.description = event.description;
+    existing.details = { ...event.details, ...existing.details, ...preferred.details };
+    for (const ref of event.sources) {
+      const known = existing.sources.find(s => s.clientFileId === ref.clientFileId);
+      if (known) {
+        known.pageNumbers = [...new Set([...known.pageNumbers, ...ref.pageNumbers])].sort((a, b) => a - b);
+      } else {
+        existing.sources.push({ ...ref, pageNumbers: [...ref.pageNumbers] });
+      }
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Merges per-document events into the patient chronology. The earliest certificate
+ * becomes the first certificate, and the latest the final one if it certifies full capacity.
+ */
+export function buildPatientTimeline(silknotePatientUuid: string, documents: TimelineDocumentEvents[]): PatientTimeline {
+  const events = mergeTimelineEvents(documents.flatMap(doc => doc.events))
+    .sort((a, b) => (a.date && b.date ? a.date.localeCompare(b.date) : a.date ? -1 : b.date ? 1 : 0) || a.title.localeCompare(b.title));
+
+  const certificates = events.filter(event => event.source === 'workCapacity' && CERTIFICATE_TYPES.includes(event.eventType));
+  certificates.forEach((certificate, i) => {
+    certificate.eventType = 'WORKCOVER_PROGRESS_CERTIFICATE';
+    if (i === 0) certificate.eventType = 'WORKCOVER_FIRST_CERTIFICATE';
+    else if (i === certificates.length - 1 && FULL_CAPACITY.test(certificate.details.status || '')) certificate.eventType = 'WORKCOVER_FINAL_CERTIFICATE';
+  });
+
+  return {
+    silknotePatientUuid,
+    events,
+    documentCount: documents.filter(doc => doc.events.length > 0).length
+  };
+}
+
+export interface TimelineFilter {
+  types?: TimelineEventType[];
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+}
+
+// Date bounds exclude undated events
+export function filterTimeline(timeline: PatientTimeline, filter: TimelineFilter): PatientTimeline {
+  const events = timeline.events.filter(event =>
+    (!filter.types?.length || filter.types.includes(event.eventType)) &&
+    (!filter.from || (!!event.date && event.date >= filter.from)) &&
+    (!filter.to || (!!event.date && event.date <= filter.to)));
+  return { ...timeline, events };
+}
+
+/**
+ * Extracts and stores a document's events, replacing those from its previous processing.
+ * The events are returned even if they could not be stored.
+ */
+export async function updateDocumentTimeline(document: MedicalDocument, silknoteUserUuid: string): Promise<TimelineDocumentEvents> {
+  const entry: TimelineDocumentEvents = {
+    silknoteUserUuid,
+    silknotePatientUuid: document.silknotePatientUuid,
+    clientFileId: document.clientFileId,
+    builtAt: new Date().toISOString(),
+    events: extractDocumentTimeline(document)
+  };
+  if (await storageService.saveTimelineEvents(entry)) {
+    logger.info(`Stored ${entry.events.length} timeline event(s) for document ${document.clientFileId}`);
+  } else {
+    logger.warn(`Failed to store timeline events for document ${document.clientFileId}`);
+  }
+  return entry;
+}
+
+/**
+ * The patient's timeline. Completed documents without stored events (processed before the
+ * timeline existed) are extracted first; stored events of removed documents, and of documents
+ * flagged as another patient's, are ignored.
+ */
+export async function getPatientTimeline(silknoteUserUuid: string, silknotePatientUuid: string): Promise<PatientTimeline> {
+  const stored = await storageService.getTimelineEvents(silknoteUserUuid, silknotePatientUuid);
+  const byDocument = new Map(stored.map(entry => [entry.clientFileId, entry]));
+  const documents = await loadPatientEvidence(silknoteUserUuid, silknotePatientUuid, document => !byDocument.has(document.clientFileId));
+
+  const current: TimelineDocumentEvents[] = [];
+  for (const document of documents) {
+    current.push(byDocument.get(document.clientFileId) ?? await updateDocumentTimeline(document, silknoteUserUuid));
+  }
+  return buildPatientTimeline(silknotePatientUuid, current);
+}
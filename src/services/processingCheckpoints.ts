@@ -0,0 +1,146 @@
+/**
+ * Processing Checkpoints
+ *
+ * Saves the output of each processDocument stage so that a failed or reprocessed
+ * document resumes from the first incomplete stage instead of repeating the
+ * Document Intelligence call, the per-page LLM extractions and the vector store upload.
+ *
+ * Checkpoints per document:
+ * - analyzing / analysisResult: raw AnalyzeResult from Document Intelligence
+ * - analyzing / page-<n>: extraction output for page n
+ * - extracting / vectorStoreReceipt: result of the vector store upload, which only counts
+ *   for the retrieval backend that wrote it, so switching backends ingests into the new one
+ *
+ * 'initializing', 'segmenting' and 'categorizing' are cheap and always rerun.
+ */
+
+import { AnalyzeResult } from '@azure/ai-form-recognizer';
+import { storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+import config from '../config';
+
+const logger = createLogger('PROCESSING_CHECKPOINTS');
+
+export const PROCESSING_STAGES = ['initializing', 'analyzing', 'segmenting', 'extracting', 'categorizing'] as const;
+export type ProcessingStage = typeof PROCESSING_STAGES[number];
+
+// Stages whose output is checkpointed and can therefore be forced to rerun
+export const CHECKPOINTED_STAGES: ProcessingStage[] = ['analyzing', 'extracting'];
+
+const ANALYSIS_RESULT_KEY = 'analysisResult';
+const VECTOR_STORE_RECEIPT_KEY = 'vectorStoreReceipt';
+const PAGE_KEY_PREFIX = 'page-';
+
+export interface VectorStoreReceipt {
+  assistantId: string;
+  vectorStoreId: string;
+  processedFiles: Array<{ fileName: string; fileId: string; status: string }>;
+  backend?: 'ASSISTANTS' | 'CHUNK_INDEX'; // Receipts saved before the chunk index existed are ASSISTANTS
+  chunkCount?: number;
+}
+
+export interface DocumentCheckpoints {
+  analysisResult: AnalyzeResult | null;
+  pageExtractions: Record<number, any>; // Keyed by page number
+  vectorStoreReceipt: VectorStoreReceipt | null;
+}
+
+/**
+ * Scopes checkpoint reads and writes to a single document
+ */
+export interface CheckpointContext {
+  silknoteUserUuid: string;
+  silknotePatientUuid: string;
+  clientFileId: string;
+}
+
+export function isProcessingStage(value: unknown): value is ProcessingStage {
+  return typeof value === 'string' && (PROCESSING_STAGES as readonly string[]).includes(value);
+}
+
+export async function loadDocumentCheckpoints(context: CheckpointContext): Promise<DocumentCheckpoints> {
+  const checkpoints: DocumentCheckpoints = { analysisResult: null, pageExtractions: {}, vectorStoreReceipt: null };
+  const saved = await storageService.getProcessingCheckpoints(
+    context.silknoteUserUuid,
+    context.silknotePatientUuid,
+    context.clientFileId
+  );
+
+  for (const checkpoint of saved) {
+    if (checkpoint.stage === 'analyzing' && checkpoint.key === ANALYSIS_RESULT_KEY) {
+      checkpoints.analysisResult = checkpoint.data;
+    } else if (checkpoint.stage === 'analyzing' && checkpoint.key.startsWith(PAGE_KEY_PREFIX)) {
+      const pageNumber = Number(checkpoint.key.slice(PAGE_KEY_PREFIX.length));
+      if (!Number.isNaN(pageNumber)) checkpoints.pageExtractions[pageNumber] = checkpoint.data;
+    } else if (checkpoint.stage === 'extracting' && checkpoint.key === VECTOR_STORE_RECEIPT_KEY) {
+      const backend = checkpoint.data?.backend ?? 'ASSISTANTS';
+      if (backend === config.retrieval.backend) {
+        checkpoints.vectorStoreReceipt = checkpoint.data;
+      } else {
+        logger.info(`Ignoring ${backend} vector store receipt for ${context.clientFileId}; the configured backend is ${config.retrieval.backend}`);
+      }
+    }
+  }
+
+  return checkpoints;
+}
+
+async function saveCheckpoint(context: CheckpointContext, stage: ProcessingStage, key: string, data: any): Promise<void> {
+  try {
+    const saved = await storageService.saveProcessingCheckpoint({
+      ...context,
+      stage,
+      key,
+      data,
+      createdAt: new Date().toISOString()
+    });
+    if (!saved) logger.warn(`Checkpoint ${stage}/${key} for ${context.clientFileId} was not saved`);
+  } catch (error) {
+    // A missing checkpoint only costs a rerun, so never fail processing over it
+    logger.error(`Failed to save checkpoint ${stage}/${key} for ${context.clientFileId}:`, error);
+  }
+}
+
+export function saveAnalysisResultCheckpoint(context: CheckpointContext, analysisResult: AnalyzeResult): Promise<void> {
+  return saveCheckpoint(context, 'analyzing', ANALYSIS_RESULT_KEY, analysisResult);
+}
+
+export function savePageExtractionCheckpoint(context: CheckpointContext, pageNumber: number, extraction: any): Promise<void> {
+  return saveCheckpoint(context, 'analyzing', `${PAGE_KEY_PREFIX}${pageNumber}`, extraction);
+}
+
+export function saveVectorStoreReceiptCheckpoint(context: CheckpointContext, receipt: VectorStoreReceipt): Promise<void> {
+  return saveCheckpoint(context, 'extracting', VECTOR_STORE_RECEIPT_KEY, receipt);
+}
+
+/**
+ * Clears checkpoints so the stage reruns in full. Clears every stage when stage is omitted.
+ */
+export async function clearDocumentCheckpoints(context: CheckpointContext, stage?: ProcessingStage): Promise<number> {
+  const cleared = await storageService.clearProcessingCheckpoints(
+    context.silknoteUserUuid,
+    context.silknotePatientUuid,
+    context.clientFileId,
+    stage
+  );
+  logger.info(`Cleared ${cleared} checkpoint(s) for ${context.clientFileId}${stage ? ` (stage: ${stage})` : ''}`);
+  return cleared;
+}
+
+/**
+ * Analysis is complete once the AnalyzeResult and an extraction for every page are saved
+ */
+export function isAnalysisComplete(checkpoints: DocumentCheckpoints): boolean {
+  const pages = checkpoints.analysisResult?.pages || [];
+  if (!checkpoints.analysisResult || pages.length === 0) return false;
+  return pages.every(page => checkpoints.pageExtractions[page.pageNumber] !== undefined);
+}
+
+/**
+ * Returns the first stage whose output is not checkpointed
+ */
+export function getFirstIncompleteStage(checkpoints: DocumentCheckpoints): ProcessingStage {
+  if (!isAnalysisComplete(checkpoints)) return 'analyzing';
+  if (!checkpoints.vectorStoreReceipt) return 'extracting';
+  return 'categorizing';
+}
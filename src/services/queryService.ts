@@ -0,0 +1,87 @@
+/**
+ * Query Service
+ *
+ * Answers POST /api/query: a question scoped to selected documents of one patient.
+ * Retrieval always goes through the self-hosted chunk index because the Assistants
+ * vector store cannot be filtered to a subset of a patient's files.
+ */
+
+import { Citation, MedicalDocument, QueryRequest, QueryResponse } from '../shared/types';
+import { storageService } from '../utils/storage';
+import { createLogger } from '../utils/logger';
+import { queryChunkIndexWithCitations } from './retrieval/chunkIndex';
+
+const logger = createLogger('QUERY');
+
+const DEFAULT_MAX_RESULTS = 10;
+
+/**
+ * Returns the requested clientFileIds that do not belong to the patient
+ */
+export async function findUnknownDocuments(
+  silknoteUserUuid: string,
+  silknotePatientUuid: string,
+  clientFileIds: string[]
+): Promise<string[]> {
+  const documents = await storageService.getDocumentsForPatient(silknoteUserUuid, silknotePatientUuid);
+  const known = new Set(documents.map(document => document.clientFileId));
+  return clientFileIds.filter(clientFileId => !known.has(clientFileId));
+}
+
+/**
+ * Returns the requested documents that are open duplicates. They are kept out of
+ * retrieval until the duplicate is merged or dismissed, so a query could not use them.
+ */
+export async function findUnresolvedDuplicates(
+  silknoteUserUuid: string,
+  silknotePatientUuid: string,
+  clientFileIds: string[]
+): Promise<MedicalDocument[]> {
+  const documents = await storageService.getDocumentsForPatient(silknoteUserUuid, silknotePatientUuid);
+  return documents.filter(document =>
+    clientFileIds.includes(document.clientFileId) && document.duplicateOf && !document.duplicateOf.dismissed);
+}
+
+// Sentence of the answer that ends at a citation marker
+export function citedSentence(answer: string, markerIndex: number): string {
+  return (answer.slice(0, markerIndex).split(/(?<=[.!?\n])\s*/).pop() || '').trim();
+}
+
+/**
+ * Answers a query from the given documents only.
+ * maxResults caps the excerpts retrieved (and so the citations); minConfidence (0-1)
+ * drops excerpts whose hybrid retrieval score is lower.
+ */
+export async function processQuery(silknoteUserUuid: string, request: QueryRequest): Promise<QueryResponse> {
+  const { query, silknotePatientUuid, clientFileIds, context } = request;
+  const maxResults = context?.maxResults ?? DEFAULT_MAX_RESULTS;
+  const minConfidence = context?.minConfidence ?? 0;
+
+  logger.info(`Query over ${clientFileIds.length} document(s) for patient ${silknotePatientUuid} (maxResults=${maxResults}, minConfidence=${minConfidence})`);
+
+  const timestamp = new Date().toISOString();
+  if (clientFileIds.length === 0) {
+    return { response: 'No documents were selected for this query.', citations: [], confidence: 0, metadata: { timestamp } };
+  }
+
+  const result = await queryChunkIndexWithCitations(silknotePatientUuid, query, silknoteUserUuid, {
+    clientFileIds,
+    limit: maxResults,
+    threshold: minConfidence
+  });
+
+  const citations: Citation[] = result.citations.map(citation => ({
+    clientFileId: citation.clientFileId,
+    pageNumber: citation.pageNumber,
+    boundingBoxes: citation.boundingBoxes,
+    quote: citation.quote,
+    text: citedSentence(result.content, citation.startIndex),
+    confidence: citation.score
+  }));
+
+  // Confidence is the mean retrieval score of the distinct excerpts the answer cites
+  const scores = new Map(result.citations.map(citation => [citation.chunkId, citation.score as number]));
+  const confidence = scores.size > 0 ? [...scores.values()].reduce((sum, score) => sum + score, 0) / scores.size : 0;
+
+  return { response: result.content, citations, confidence, metadata: { timestamp } };
+}
@@ -0,0 +1,94 @@
+/**
+ * Query Streaming
+ *
+ * Streams a vector search answer token by token to one or more sinks: the HTTP
+ * response as Server-Sent Events and/or the patient's socket room. Citations are
+ * sent as they resolve, and a final `done` event carries the full answer with the
+ * structured citations (sent after an `error` event too, so clients can always
+ * close the stream on `done`).
+ */
+
+import type { Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import { QueryStreamEvent } from '../shared/types';
+import { io } from '../utils/io';
+import { createLogger } from '../utils/logger';
+import { streamAssistantWithCitations } from './vectorStore';
+import { streamChunkIndexAnswer } from './retrieval/chunkIndex';
+
+const logger = createLogger('QUERY_STREAM');
+
+export interface QueryStreamSink {
+  send(event: QueryStreamEvent): void;
+  close?(): void;
+}
+
+export interface QueryStreamRequest {
+  silknotePatientUuid: string;
+  silknoteUserUuid: string;
+  query: string;
+  outputFormat?: string;
+  clientFileIds?: string[];  // Chunk index only; the assistant searches all of the patient's files
+  streamId?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Writes events as SSE `data:` frames. The caller sets the SSE headers.
+ */
+export function createSseSink(res: Response): QueryStreamSink {
+  return {
+    send(event) {
+      if (!res.writableEnded) res.write(`data: ${JSON.stringify(event)}\n\n`);
+    },
+    close() {
+      if (!res.writableEnded) res.end();
+    }
+  };
+}
+
+/**
+ * Emits events as `queryStream` to the patient room
+ */
+export function createSocketSink(silknotePatientUuid: string): QueryStreamSink {
+  return {
+    send(event) {
+      if (!io) return;
+      io.to(`patient-${silknotePatientUuid}`).emit('queryStream', event);
+    }
+  };
+}
+
+/**
+ * Answers a query with the configured retrieval backend, streaming to every sink
+ */
+export async function streamQuery(request: QueryStreamRequest, sinks: QueryStreamSink[]): Promise<void> {
+  const { silknotePatientUuid, silknoteUserUuid, query, outputFormat, clientFileIds, signal } = request;
+  const streamId = request.streamId || uuidv4();
+  const send = (event: QueryStreamEvent) => sinks.forEach(sink => sink.send(event));
+  const handlers = {
+    onText: (content: string) => send({ type: 'content', streamId, content }),
+    onCitation: (citation: any) => send({ type: 'citation', streamId, citation })
+  };
+
+  send({ type: 'start', streamId, silknotePatientUuid });
+  logger.info(`Streaming answer ${streamId} for patient ${silknotePatientUuid} (${config.retrieval.backend})`);
+
+  try {
+    const result = config.retrieval.backend === 'CHUNK_INDEX'
+      ? await streamChunkIndexAnswer(silknotePatientUuid, query, silknoteUserUuid, handlers, { clientFileIds, signal })
+      : await streamAssistantWithCitations(silknotePatientUuid, query, silknoteUserUuid, handlers, { outputFormat, signal });
+    send({ type: 'done', streamId, content: result.content, citations: result.citations });
+  } catch (error) {
+    if (signal?.aborted) {
+      logger.info(`Answer ${streamId} cancelled by the client`);
+    } else {
+      logger.error(`Answer ${streamId} failed:`, error);
+      send({ type: 'error', streamId, error: error instanceof Error ? error.message : 'Unknown streaming error' });
+      send({ type: 'done', streamId, content: '', citations: [] });
+    }
+  } finally {
+    sinks.forEach(sink => sink.close?.());
+  }
+}
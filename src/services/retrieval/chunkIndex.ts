@@ -0,0 +1,311 @@
+/**
+ * Self-hosted Chunk Index
+ *
+ * Retrieval over a patient's documents without the OpenAI Assistants vector store.
+ * Layout pages are split into chunks (see chunking.ts), embedded with the configured
+ * EmbeddingProvider and persisted through the DatabaseAdapter as VectorEntry rows.
+ * Search blends cosine similarity with BM25 so exact terms (drug names, dates,
+ * claim numbers) rank well even when the embedding misses them.
+ *
+ * Used instead of an assistant run when config.retrieval.backend is CHUNK_INDEX.
+ */
+
+import { z } from 'zod';
+import { MedicalDocument } from '../../shared/types';
+import { ChunkSearchResult, VectorEntry, VectorSearchParams } from '../../shared/vectorStore';
+import { storageService } from '../../utils/storage';
+import { createLogger } from '../../utils/logger';
+import { generateStructuredOutput } from '../llmService';
+import { getEmbeddingProvider } from './embeddingProvider';
+import { bm25Scores, chunkAnalysisResult, cosineSimilarity } from './chunking';
+import { locateQuote, selectSupportingQuote } from '../analyzer/citation-locator';
+import { getLlmForOperation } from '../llm/llmProvider';
+
+const logger = createLogger('CHUNK_INDEX');
+
+const DEFAULT_SEARCH_LIMIT = 10;
+const VECTOR_WEIGHT = 0.5; // Share of the hybrid score from cosine similarity; the rest is BM25
+const ANSWER_CONTEXT_CHUNKS = 12;
+
+/**
+ * Chunks, embeds and stores a processed document, replacing any entries it already had
+ * @returns Number of chunks indexed
+ */
+export async function indexDocumentChunks(document: MedicalDocument, silknoteUserUuid: string): Promise<number> {
+  const analysisResult = document.content?.analysisResult;
+  if (!analysisResult?.pages?.length) {
+    logger.warn(`Document ${document.clientFileId} has no layout pages; nothing to index`);
+    return 0;
+  }
+
+  const chunks = chunkAnalysisResult(analysisResult, {
+    clientFileId: document.clientFileId,
+    silknotePatientUuid: document.silknotePatientUuid,
+    source: document.originalName || document.clientFileId
+  });
+  const vectors = chunks.length > 0 ? await getEmbeddingProvider().embed(chunks.map(chunk => chunk.text)) : [];
+
+  const entries: VectorEntry[] = chunks.map((metadata, i) => ({
+    id: `${document.clientFileId}:${metadata.chunkIndex}`,
+    vector: vectors[i],
+    metadata
+  }));
+
+  const saved = await storageService.saveVectorEntries(silknoteUserUuid, document.silknotePatientUuid, document.clientFileId, entries);
+  if (!saved) {
+    throw new Error(`Failed to save chunk index entries for document ${document.clientFileId}`);
+  }
+  logger.info(`Indexed ${entries.length} chunk(s) across ${analysisResult.pages.length} page(s) for ${document.clientFileId}`);
+  return entries.length;
+}
+
+/**
+ * Indexes completed documents that have no entries yet, e.g. documents processed
+ * while the Assistants backend was selected. A split bundle is indexed as a whole
+ * rather than per child.
+ * @returns Number of documents indexed
+ */
+export async function syncPatientChunkIndex(silknoteUserUuid: string, silknotePatientUuid: string): Promise<number> {
+  const [documents, entries] = await Promise.all([
+    storageService.getDocumentsForPatient(silknoteUserUuid, silknotePatientUuid),
+    storageService.getVectorEntries(silknoteUserUuid, silknotePatientUuid)
+  ]);
+  const indexed = new Set(entries.map(entry => entry.metadata.documentId));
+
+  let count = 0;
+  for (const document of documents) {
+    if (!['complete', 'split'].includes(document.status) || document.parentClientFileId || indexed.has(document.clientFileId)) continue;
+    // Open duplicates are kept out of retrieval, as processing keeps them out of the vector store
+    if (document.duplicateOf && !document.duplicateOf.dismissed) continue;
+    // The patient document list may omit heavy content, so load the full document
+    const full = await storageService.getDocument(silknoteUserUuid, silknotePatientUuid, document.clientFileId);
+    if (!full) continue;
+    try {
+      if (await indexDocumentChunks(full, silknoteUserUuid) > 0) count++;
+    } catch (error) {
+      logger.error(`Failed to index document ${document.clientFileId} during sync:`, error);
+    }
+  }
+  if (count > 0) logger.info(`Synced ${count} document(s) into the chunk index for patient ${silknotePatientUuid}`);
+  return count;
+}
+
+/**
+ * Entries for the given documents. A child split out of a bundle has no entries of its own,
+ * so it gets its parent's entries for its page range, attributed to the child.
+ */
+async function getScopedEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileIds?: string[]): Promise<VectorEntry[]> {
+  if (!clientFileIds?.length) return storageService.getVectorEntries(silknoteUserUuid, silknotePatientUuid, clientFileIds);
+
+  const documents = await Promise.all(clientFileIds.map(clientFileId => storageService.getDocument(silknoteUserUuid, silknotePatientUuid, clientFileId)));
+  // A child whose parent is also in scope is covered by the parent's entries
+  const children = documents.filter((document): document is MedicalDocument =>
+    !!document?.parentClientFileId && !!document.pageRange && !clientFileIds.includes(document.parentClientFileId));
+  const childIds = new Set(children.map(child => child.clientFileId));
+  const parentIds = [...new Set(children.map(child => child.parentClientFileId!))];
+  const ownIds = clientFileIds.filter(clientFileId => !childIds.has(clientFileId));
+
+  const [own, parentEntries] = await Promise.all([
+    ownIds.length > 0 ? storageService.getVectorEntries(silknoteUserUuid, silknotePatientUuid, ownIds) : [],
+    parentIds.length > 0 ? storageService.getVectorEntries(silknoteUserUuid, silknotePatientUuid, parentIds) : []
+  ]);
+  const childEntries = children.flatMap(child => parentEntries
+    .filter(entry => entry.metadata.documentId === child.parentClientFileId
+      && entry.metadata.pageNumber >= child.pageRange!.start && entry.metadata.pageNumber <= child.pageRange!.end)
+    .map(entry => ({ ...entry, metadata: { ...entry.metadata, documentId: child.clientFileId } })));
+  return [...own, ...childEntries];
+}
+
+/**
+ * Hybrid cosine/BM25 search over a patient's chunks
+ */
+export async function searchChunks(params: VectorSearchParams, silknoteUserUuid: string): Promise<ChunkSearchResult[]> {
+  const { query, silknotePatientUuid, limit = DEFAULT_SEARCH_LIMIT, threshold = 0, clientFileIds } = params;
+  const entries = await getScopedEntries(silknoteUserUuid, silknotePatientUuid, clientFileIds);
+  if (entries.length === 0) return [];
+
+  const [queryVector] = await getEmbeddingProvider().embed([query]);
+  const keywordScores = bm25Scores(query, entries.map(entry => entry.metadata.text));
+  const maxKeywordScore = Math.max(...keywordScores, 0);
+
+  return entries
+    .map((entry, i): ChunkSearchResult => {
+      const vectorScore = Math.max(0, cosineSimilarity(queryVector, entry.vector));
+      const keywordScore = maxKeywordScore > 0 ? keywordScores[i] / maxKeywordScore : 0;
+      return {
+        id: entry.id,
+        score: VECTOR_WEIGHT * vectorScore + (1 - VECTOR_WEIGHT) * keywordScore,
+        vectorScore,
+        keywordScore,
+        metadata: entry.metadata
+      };
+    })
+    .filter(result => result.score > 0 && result.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+const ChunkAnswerSchema = z.object({
+  answer: z.string(),
+  citations: z.array(z.object({
+    sourceNumber: z.number(),
+    quote: z.string()
+  }))
+});
+
+const ANSWER_INSTRUCTIONS = `You answer questions from a medicolegal doctor about one patient, using only the numbered document excerpts provided.
+- Cite every statement with the excerpt number in square brackets, e.g. "Lumbar fusion was performed on 12/03/2021 [2]."
+- Use DD/MM/YYYY dates. If the excerpts do not contain the answer, say so.`;
+
+const ANSWER_SYSTEM_PROMPT = `${ANSWER_INSTRUCTIONS}
+- For each excerpt you cite, add an entry to citations with its sourceNumber and a short verbatim quote from it.`;
+
+const NO_RESULTS_ANSWER = 'No indexed documents contain information relevant to this question.';
+
+type AnswerOptions = Pick<VectorSearchParams, 'clientFileIds' | 'limit' | 'threshold'>;
+
+export interface ChunkAnswerHandlers {
+  onText?: (delta: string) => void;
+  onCitation?: (citation: any) => void;
+}
+
+async function retrieveExcerpts(
+  silknotePatientUuid: string,
+  query: string,
+  silknoteUserUuid: string,
+  options: AnswerOptions
+): Promise<{ results: ChunkSearchResult[]; userPrompt: string }> {
+  await syncPatientChunkIndex(silknoteUserUuid, silknotePatientUuid);
+
+  const { clientFileIds, limit = ANSWER_CONTEXT_CHUNKS, threshold } = options;
+  const results = await searchChunks({ query, silknotePatientUuid, limit, threshold, clientFileIds }, silknoteUserUuid);
+  const excerpts = results
+    .map((result, i) => `[${i + 1}] ${result.metadata.source}, page ${result.metadata.pageNumber}:\n${result.metadata.text}`)
+    .join('\n\n');
+  return { results, userPrompt: `Document excerpts:\n\n${excerpts}\n\nQuestion: ${query}` };
+}
+
+/**
+ * Builds citations for [n] markers in an answer, loading each cited document's
+ * layout once to place quotes on the page. Split-out children use their parent's
+ * layout, whose page numbers they keep.
+ */
+function createCitationBuilder(silknoteUserUuid: string, silknotePatientUuid: string, results: ChunkSearchResult[]) {
+  const documents = new Map<string, Promise<MedicalDocument | null>>();
+  const loadDocument = (clientFileId: string) => {
+    if (!documents.has(clientFileId)) {
+      documents.set(clientFileId, storageService.getDocument(silknoteUserUuid, silknotePatientUuid, clientFileId));
+    }
+    return documents.get(clientFileId)!;
+  };
+  const loadLayout = async (clientFileId: string) => {
+    const document = await loadDocument(clientFileId);
+    if (document?.parentClientFileId && !document.content?.analysisResult) {
+      return (await loadDocument(document.parentClientFileId))?.content?.analysisResult;
+    }
+    return document?.content?.analysisResult;
+  };
+  let citationCount = 0;
+
+  return async (marker: { sourceNumber: number; index: number; length: number }, quote?: string): Promise<any | null> => {
+    const result = results[marker.sourceNumber - 1];
+    if (!result) return null;
+    const citationIndex = ++citationCount;
+    const text = quote || result.metadata.text;
+    const analysisResult = await loadLayout(result.metadata.documentId);
+    const location = analysisResult ? locateQuote(text, analysisResult, result.metadata.pageNumber) : null;
+    return {
+      documentId: result.metadata.documentId,
+      clientFileId: result.metadata.documentId,
+      documentName: result.metadata.source,
+      pageNumber: location?.pageNumber ?? result.metadata.pageNumber,
+      boundingBoxes: location?.boundingBoxes ?? [],
+      quote: text,
+      startIndex: marker.index,
+      endIndex: marker.index + marker.length,
+      citationIndex,
+      chunkId: result.id,
+      score: result.score
+    };
+  };
+}
+
+/**
+ * Answers a query from the chunk index. Returns the same shape as
+ * vectorStore.queryAssistantWithCitations so routes can use either backend.
+ */
+export async function queryChunkIndexWithCitations(
+  silknotePatientUuid: string,
+  query: string,
+  silknoteUserUuid: string,
+  options: AnswerOptions = {}
+): Promise<{ content: string; citations: any[] }> {
+  const { results, userPrompt } = await retrieveExcerpts(silknotePatientUuid, query, silknoteUserUuid, options);
+  if (results.length === 0) {
+    return { content: NO_RESULTS_ANSWER, citations: [] };
+  }
+
+  const response = await generateStructuredOutput(ANSWER_SYSTEM_PROMPT, userPrompt, ChunkAnswerSchema, 'query');
+  const parsed = ChunkAnswerSchema.safeParse(response.result);
+  const answer = parsed.success ? parsed.data.answer : '';
+  const quotes = new Map((parsed.success ? parsed.data.citations : []).map(c => [c.sourceNumber, c.quote]));
+
+  // One citation per marker, located in the answer text like assistant annotations
+  const buildCitation = createCitationBuilder(silknoteUserUuid, silknotePatientUuid, results);
+  const citations: any[] = [];
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const sourceNumber = Number(match[1]);
+    const citation = await buildCitation({ sourceNumber, index: match.index ?? 0, length: match[0].length }, quotes.get(sourceNumber));
+    if (citation) citations.push(citation);
+  }
+
+  return { content: answer, citations };
+}
+
+/**
+ * Streaming variant of queryChunkIndexWithCitations. The answer is generated as plain
+ * text; each [n] marker becomes a citation as soon as it is complete, quoting the
+ * excerpt sentence that best supports the statement it ends.
+ */
+export async function streamChunkIndexAnswer(
+  silknotePatientUuid: string,
+  query: string,
+  silknoteUserUuid: string,
+  handlers: ChunkAnswerHandlers,
+  options: AnswerOptions & { signal?: AbortSignal } = {}
+): Promise<{ content: string; citations: any[] }> {
+  const { results, userPrompt } = await retrieveExcerpts(silknotePatientUuid, query, silknoteUserUuid, options);
+  if (results.length === 0) {
+    handlers.onText?.(NO_RESULTS_ANSWER);
+    return { content: NO_RESULTS_ANSWER, citations: [] };
+  }
+
+  const { provider, model } = getLlmForOperation('query');
+  const buildCitation = createCitationBuilder(silknoteUserUuid, silknotePatientUuid, results);
+  const pending: Promise<any | null>[] = [];
+  let answer = '';
+  let scannedTo = 0;
+
+  for await (const delta of provider.streamText({ systemPrompt: ANSWER_INSTRUCTIONS, userPrompt, model }, options.signal)) {
+    answer += delta;
+    handlers.onText?.(delta);
+
+    // A marker split across deltas is picked up once its closing bracket arrives
+    for (const match of answer.slice(scannedTo).matchAll(/\[(\d+)\]/g)) {
+      const marker = { sourceNumber: Number(match[1]), index: scannedTo + (match.index ?? 0), length: match[0].length };
+      const result = results[marker.sourceNumber - 1];
+      const claim = answer.slice(0, marker.index).split(/(?<=[.!?\n])\s*/).pop() || '';
+      const quote = result ? selectSupportingQuote(result.metadata.text, claim) : undefined;
+      pending.push(buildCitation(marker, quote).then(citation => {
+        if (citation) handlers.onCitation?.(citation);
+        return citation;
+      }));
+    }
+    const lastOpen = answer.lastIndexOf('[');
+    scannedTo = lastOpen >= scannedTo && !answer.slice(lastOpen).includes(']') ? lastOpen : answer.length;
+  }
+
+  const citations = (await Promise.all(pending)).filter(citation => citation !== null);
+  citations.sort((a, b) => a.citationIndex - b.citationIndex);
+  return { content: answer, citations };
+}
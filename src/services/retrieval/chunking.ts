@@ -0,0 +1,128 @@
+/**
+ * Chunking and keyword scoring for the self-hosted chunk index.
+ *
+ * Chunks are built from the lines of each layout page and never span pages,
+ * so every search hit carries an exact page number.
+ */
+
+import { AnalyzeResult } from '@azure/ai-form-recognizer';
+import { VectorMetadata } from '../../shared/vectorStore';
+
+const CHUNK_MAX_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;  // Trailing lines repeated at the start of the next chunk
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'he', 'her', 'his', 'in', 'is',
+  'it', 'of', 'on', 'or', 'she', 'that', 'the', 'their', 'this', 'to', 'was', 'were', 'with'
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+export interface ChunkSource {
+  clientFileId: string;
+  silknotePatientUuid: string;
+  source: string; // Original file name
+}
+
+/**
+ * Splits every page of a layout result into overlapping chunks of whole lines
+ */
+export function chunkAnalysisResult(analysisResult: AnalyzeResult, chunkSource: ChunkSource): VectorMetadata[] {
+  const chunks: VectorMetadata[] = [];
+  const timestamp = new Date().toISOString();
+
+  for (const page of analysisResult.pages || []) {
+    const lines = (page.lines || []).map(line => line.content.trim()).filter(Boolean);
+    if (lines.length === 0) continue;
+
+    const words = page.words || [];
+    const confidence = words.length > 0
+      ? words.reduce((sum, word) => sum + (word.confidence ?? 1), 0) / words.length
+      : 1;
+
+    const pushChunk = (chunkLines: string[]) => {
+      chunks.push({
+        documentId: chunkSource.clientFileId,
+        silknotePatientUuid: chunkSource.silknotePatientUuid,
+        pageNumber: page.pageNumber,
+        text: chunkLines.join('\n'),
+        source: chunkSource.source,
+        timestamp,
+        confidence,
+        chunkIndex: chunks.length
+      });
+    };
+
+    let current: string[] = [];
+    let currentLength = 0;
+    for (const line of lines) {
+      if (currentLength + line.length > CHUNK_MAX_CHARS && current.length > 0) {
+        pushChunk(current);
+        // Carry trailing lines into the next chunk so text at the boundary stays findable
+        const overlap: string[] = [];
+        let overlapLength = 0;
+        for (let i = current.length - 1; i >= 0 && overlapLength + current[i].length <= CHUNK_OVERLAP_CHARS; i--) {
+          overlap.unshift(current[i]);
+          overlapLength += current[i].length;
+        }
+        current = overlap;
+        currentLength = overlapLength;
+      }
+      current.push(line);
+      currentLength += line.length;
+    }
+    pushChunk(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * BM25 score of every document for the query terms
+ */
+export function bm25Scores(query: string, documents: string[]): number[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const tokenized = documents.map(tokenize);
+  const averageLength = tokenized.reduce((sum, tokens) => sum + tokens.length, 0) / (tokenized.length || 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of tokenized) {
+    for (const term of new Set(tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return tokenized.map(tokens => {
+    const termFrequency = new Map<string, number>();
+    for (const token of tokens) termFrequency.set(token, (termFrequency.get(token) || 0) + 1);
+
+    return queryTerms.reduce((score, term) => {
+      const tf = termFrequency.get(term) || 0;
+      if (tf === 0) return score;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (tokenized.length - df + 0.5) / (df + 0.5));
+      const lengthNorm = 1 - BM25_B + BM25_B * (tokens.length / (averageLength || 1));
+      return score + idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+    }, 0);
+  });
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
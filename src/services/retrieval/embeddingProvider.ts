@@ -0,0 +1,87 @@
+/**
+ * Embedding Providers
+ *
+ * Turn chunk and query text into vectors for the self-hosted chunk index.
+ * Selected by config.retrieval.embeddingProvider:
+ * - LLM: embeddings API of the provider configured for the 'embedding' LLM operation
+ * - HASHING: local feature hashing of word tokens; no network access, deterministic
+ */
+
+import config from '../../config';
+import { createLogger } from '../../utils/logger';
+import { getLlmForOperation } from '../llm/llmProvider';
+import { tokenize } from './chunking';
+
+const logger = createLogger('EMBEDDINGS');
+
+const EMBEDDING_BATCH_SIZE = 64;
+const HASHING_DIMENSIONS = 256;
+
+export interface EmbeddingProvider {
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+// FNV-1a, stable across processes so stored vectors stay comparable
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function createHashingEmbeddingProvider(dimensions: number = HASHING_DIMENSIONS): EmbeddingProvider {
+  return {
+    name: 'hashing',
+
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map(text => {
+        const vector = new Array<number>(dimensions).fill(0);
+        for (const token of tokenize(text)) {
+          const hash = hashToken(token);
+          // The top bit picks the sign so colliding tokens tend to cancel rather than add up
+          vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+        }
+        return normalize(vector);
+      });
+    }
+  };
+}
+
+export function createLlmEmbeddingProvider(): EmbeddingProvider {
+  return {
+    name: 'llm',
+
+    async embed(texts: string[]): Promise<number[][]> {
+      const { provider, model } = getLlmForOperation('embedding');
+      const client = provider.getClient();
+      const vectors: number[][] = [];
+      for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+        const response = await client.embeddings.create({ model, input: batch });
+        const ordered = [...response.data].sort((a, b) => a.index - b.index);
+        vectors.push(...ordered.map(item => item.embedding));
+      }
+      return vectors;
+    }
+  };
+}
+
+let embeddingProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    embeddingProvider = config.retrieval.embeddingProvider === 'HASHING'
+      ? createHashingEmbeddingProvider()
+      : createLlmEmbeddingProvider();
+    logger.info(`Using embedding provider: ${embeddingProvider.name}`);
+  }
+  return embeddingProvider;
+}
@@ -1,18 +1,15 @@
 // server/src/services/vectorStore.ts
 
-import { AzureOpenAI } from 'openai';
+import type OpenAI from 'openai';
 import * as patientService from './patientService';
-import config from '../config';
-import { MedicalDocument } from '../shared/types';
+import { MedicalDocument, PatientDetails } from '../shared/types';
 import { storageService } from '../utils/storage';
-// import { createLogger } from '../utils/logger'; // Unused import
+import { getLlmForOperation } from './llm/llmProvider';
+import { locateQuote, selectSupportingQuote } from './analyzer/citation-locator';
+import { createLogger } from '../utils/logger';
 
+const logger = createLogger('VECTOR_STORE');
 
-const openai = new AzureOpenAI({
-  apiKey: config.azure.azureOpenAI.key,
-  endpoint: config.azure.azureOpenAI.endpoint,
-  apiVersion: '2024-05-01-preview',
-});
 
 // Enhance the existing PatientVectorStore type with fileIdMappings
 declare module '../shared/vectorStore' {
@@ -47,6 +44,9 @@ export async function processDocumentsForVectorStore(
   })
 
   try {
+    const { provider, model } = getLlmForOperation('query');
+    const openai = provider.getClient();
+
     // Log important instructions about clientFileIds parameter
     console.log(`[VECTOR STORE] Processing documents for patient ${silknotePatientUuid}`);
     if (clientFileIds) {
@@ -65,7 +65,7 @@ export async function processDocumentsForVectorStore(
       const assistant = await openai.beta.assistants.create({
         name: `Assistant-${silknotePatientUuid}`,
         instructions: `You are a helpful assistant with access to a vector store containing important documents for medical, medicolegal and very high tier healthcare information for medical interpretation. Medicolegal doctors ask you questions to inform their clinical judgement about the case they have been asked to review. It is important your answers are succinct dot points but cover all pertinent information. The questions are not general in nature - they relate to the files in the vector store, so you MUST always use it.`,
-        model: 'gpt-4o',
+        model,
         tools: [
           {
             type: 'file_search',
@@ -198,6 +198,8 @@ export async function queryVectorStore(
   console.log('[VECTOR STORE] Querying vector store for patient:', silknotePatientUuid)
 
   try {
+    const { provider, model } = getLlmForOperation('query');
+    const openai = provider.getClient();
     const patient = await patientService.getPatientById(silknotePatientUuid, silknoteUserUuid);
   if (!patient) throw new Error('Patient not found');
   if (!patient.vectorStore?.assistantId) {
@@ -212,6 +214,7 @@ export async function queryVectorStore(
 
   const run = await openai.beta.threads.runs.create(thread.id, {
     assistant_id: patient.vectorStore.assistantId,
+    model,
   });
 
   console.log(JSON.stringify(run, null, 2));
@@ -510,6 +513,165 @@ export async function queryVectorStore(
 //   }
 // }
 
+/**
+ * Collects the passages file_search retrieved during a run, in result order.
+ * Result content is only returned when explicitly included.
+ */
+async function getFileSearchPassages(
+  openai: OpenAI,
+  threadId: string,
+  runId: string
+): Promise<{ fileId: string; text: string }[]> {
+  try {
+    const steps = await openai.beta.threads.runs.steps.list(threadId, runId, {
+      include: ['step_details.tool_calls[*].file_search.results[*].content']
+    });
+    const passages: { fileId: string; text: string }[] = [];
+    for (const step of steps.data) {
+      if (step.step_details.type !== 'tool_calls') continue;
+      for (const toolCall of step.step_details.tool_calls) {
+        if (toolCall.type !== 'file_search') continue;
+        for (const result of toolCall.file_search.results || []) {
+          const text = (result.content || []).map(part => part.text || '').join('\n');
+          passages.push({ fileId: result.file_id, text });
+        }
+      }
+    }
+    return passages;
+  } catch (error) {
+    logger.warn('Could not retrieve file_search results for citation quotes:', error);
+    return [];
+  }
+}
+
+/**
+ * Picks the retrieved passage an annotation refers to. Annotation markers look like
+ * 【message:result†source】, where result indexes the file_search results.
+ */
+function findCitedPassage(
+  passages: { fileId: string; text: string }[],
+  openaiFileId: string,
+  annotationText?: string
+): string | null {
+  const resultIndex = Number(annotationText?.match(/【\d+:(\d+)†/)?.[1]);
+  const indexed = Number.isInteger(resultIndex) ? passages[resultIndex] : undefined;
+  if (indexed?.fileId === openaiFileId && indexed.text) return indexed.text;
+  return passages.find(passage => passage.fileId === openaiFileId && passage.text)?.text ?? null;
+}
+
+/**
+ * Resolves one file_citation annotation of an assistant answer to the cited document,
+ * page and bounding boxes. Returns null for annotations without a file or indices.
+ * @param answerText - Answer text up to at least the annotation, used to pick the quote
+ * @param passages - file_search results of the run (see getFileSearchPassages)
+ */
+export async function resolveFileCitation(
+  openai: OpenAI,
+  patient: PatientDetails,
+  silknoteUserUuid: string,
+  annotation: any,
+  citationIndex: number,
+  answerText: string,
+  passages: { fileId: string; text: string }[]
+): Promise<any | null> {
+  if (annotation.type !== 'file_citation') return null;
+
+  const openaiFileId = annotation.file_citation?.file_id;
+  const startIndex = annotation.start_index;
+  const endIndex = annotation.end_index;
+  const annotationText = annotation.text; // Still log this to see if it gets fixed later
+
+  if (!openaiFileId || startIndex === undefined || endIndex === undefined) {
+    logger.warn(`Citation ${citationIndex}: Annotation missing file_id or indices:`, annotation);
+    return null; // Skip this annotation
+  }
+
+  // *** REMOVED: Logging comparing annotation.text to assistant response slice ***
+  logger.debug(`Citation ${citationIndex}: Processing Annotation: OpenAI File ID=${openaiFileId}, Indices=[${startIndex}-${endIndex}], Annotation Text=\"${annotationText}\"`);
+
+  let clientFileId: string | null = null;
+  let matchedDocName: string | null = null;
+  let medicalDocument: MedicalDocument | null = null;
+
+  try {
+    // 1. Retrieve filename from OpenAI (for mapping)
+    const fileInfo = await openai.files.retrieve(openaiFileId);
+    const openAIFilename = fileInfo.filename;
+    // *** REMOVED: Call to openai.files.content() and related logging ***
+
+    // 2. Map OpenAI filename/ID to our clientFileId
+    const mapping = patient.vectorStore?.fileIdMappings?.find(
+      (m) => m.openaiFileId === openaiFileId || m.fileName === openAIFilename
+    );
+
+    if (mapping) {
+      clientFileId = mapping.clientFileId;
+      matchedDocName = mapping.fileName || openAIFilename;
+      logger.debug(`Citation ${citationIndex}: Mapped OpenAI ID ${openaiFileId} to clientFileId: ${clientFileId} (Name: ${matchedDocName})`);
+    } else {
+      clientFileId = openAIFilename.split('.')[0];
+      matchedDocName = openAIFilename;
+      logger.warn(`Citation ${citationIndex}: No mapping found for OpenAI ID ${openaiFileId}. Using filename-derived clientFileId: ${clientFileId}`);
+    }
+
+    // 3. Retrieve the MedicalDocument containing analysis results
+    if (clientFileId) {
+      medicalDocument = await storageService.getDocument(silknoteUserUuid, patient.silknotePatientUuid, clientFileId);
+      if (!medicalDocument) {
+        logger.error(`Citation ${citationIndex}: Failed to retrieve MedicalDocument for clientFileId: ${clientFileId}`);
+      }
+    }
+
+    // 4. Locate the retrieved passage in the document's layout. Annotation indices
+    //    point into the assistant's answer, not the document, so they cannot give a page.
+    const passage = findCitedPassage(passages, openaiFileId, annotationText);
+    const claim = answerText.slice(0, startIndex).split(/(?<=[.!?\n])\s*/).pop() || '';
+    const quote = passage ? selectSupportingQuote(passage, claim) : (annotation.file_citation?.quote || '');
+    const analysisResult = medicalDocument?.content?.analysisResult;
+    const location = analysisResult ? locateQuote(quote, analysisResult) : null;
+    const pageNumber = location?.pageNumber ?? 1;
+    if (!location) {
+      logger.warn(`Citation ${citationIndex}: Could not locate the cited passage in document ${clientFileId}. Defaulting page to 1.`);
+    }
+
+    // 5. Construct the simplified final citation object
+    const citationObj = {
+      documentId: clientFileId || openaiFileId, // Use mapped client ID or fallback
+      clientFileId: clientFileId || openaiFileId,
+      documentName: matchedDocName || `Unknown (ID: ${openaiFileId})`,
+      pageNumber: pageNumber,
+      boundingBoxes: location?.boundingBoxes ?? [],
+      quote,
+      // excerpt: field removed
+      // pageImage: field removed (was already null)
+      startIndex: startIndex, // Keep indices for potential client use
+      endIndex: endIndex,
+      citationIndex // Use original annotation order for sequence
+    };
+
+    logger.debug(`Citation ${citationIndex}: FINAL Constructed Citation Object (Simplified):`, JSON.stringify(citationObj));
+    return citationObj;
+
+  } catch (error) {
+    logger.error(`Citation ${citationIndex}: Error processing annotation for OpenAI File ID ${openaiFileId}:`, error);
+    const fallbackCitation = {
+      documentId: clientFileId || openaiFileId,
+      clientFileId: clientFileId || openaiFileId,
+      documentName: `Error Processing (ID: ${openaiFileId})`,
+      pageNumber: 1,
+      boundingBoxes: [],
+      quote: '',
+      // excerpt: field removed
+      startIndex: startIndex,
+      endIndex: endIndex,
+      citationIndex,
+      error: `Failed processing citation: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+    logger.debug(`Citation ${citationIndex}: FALLBACK Constructed Citation Object (Simplified):`, JSON.stringify(fallbackCitation));
+    return fallbackCitation;
+  }
+}
+
 /**
  * Queries the assistant, waits for completion, and processes citations from annotations.
  * @param silknotePatientUuid - Patient ID
@@ -542,11 +704,8 @@ export async function queryAssistantWithCitations(
     throw new Error(errorMsg);
   }
 
-  const openai = new AzureOpenAI({
-    apiKey: config.azure.azureOpenAI.key,
-    endpoint: config.azure.azureOpenAI.endpoint,
-    apiVersion: '2024-05-01-preview',
-  });
+  const { provider, model } = getLlmForOperation('query');
+  const openai = provider.getClient();
 
   // System message (less critical now as annotations drive citation details)
   let systemMessage = '';
@@ -566,6 +725,7 @@ export async function queryAssistantWithCitations(
 
   const run = await openai.beta.threads.runs.create(thread.id, {
     assistant_id: patient.vectorStore.assistantId,
+    model,
   });
   console.log(`[VECTOR STORE - queryAssistantWithCitations] Started run ${run.id} on thread ${thread.id}`);
 
@@ -599,123 +759,12 @@ export async function queryAssistantWithCitations(
           console.log("[VECTOR STORE - queryAssistantWithCitations] Assistant Message Content Object:", JSON.stringify(textContent, null, 2));
           
           const finalCitations: any[] = [];
+          const passages = annotations.length > 0 ? await getFileSearchPassages(openai, thread.id, run.id) : [];
 
           // Use Promise.all to process annotations potentially in parallel
           await Promise.all(annotations.map(async (annotation: any, i: number) => {
-            // *** REMOVED: Raw annotation log for brevity ***
-            // console.log(`\n[VECTOR STORE - CITATION ${i+1}] RAW ANNOTATION:`, JSON.stringify(annotation));
-
-            if (annotation.type === 'file_citation') {
-              const openaiFileId = annotation.file_citation?.file_id;
-              const startIndex = annotation.start_index;
-              const endIndex = annotation.end_index;
-              const annotationText = annotation.text; // Still log this to see if it gets fixed later
-              
-              if (!openaiFileId || startIndex === undefined || endIndex === undefined) {
-                console.warn(`[VECTOR STORE - CITATION ${i+1}] Annotation missing file_id or indices:`, annotation);
-                return; // Skip this annotation
-              }
-              
-              // *** REMOVED: Logging comparing annotation.text to assistant response slice ***
-              console.log(`[VECTOR STORE - CITATION ${i+1}] Processing Annotation: OpenAI File ID=${openaiFileId}, Indices=[${startIndex}-${endIndex}], Annotation Text=\"${annotationText}\"`);
-
-              let clientFileId: string | null = null;
-              let matchedDocName: string | null = null;
-              let medicalDocument: MedicalDocument | null = null;
-
-              try {
-                // 1. Retrieve filename from OpenAI (for mapping)
-                const fileInfo = await openai.files.retrieve(openaiFileId);
-                const openAIFilename = fileInfo.filename;
-                // *** REMOVED: Call to openai.files.content() and related logging ***
-                
-                // 2. Map OpenAI filename/ID to our clientFileId
-                const mapping = patient.vectorStore?.fileIdMappings?.find(
-                  (m) => m.openaiFileId === openaiFileId || m.fileName === openAIFilename
-                );
-
-                if (mapping) {
-                  clientFileId = mapping.clientFileId;
-                  matchedDocName = mapping.fileName || openAIFilename;
-                  console.log(`[VECTOR STORE - CITATION ${i+1}] Mapped OpenAI ID ${openaiFileId} to clientFileId: ${clientFileId} (Name: ${matchedDocName})`);
-                } else {
-                  clientFileId = openAIFilename.split('.')[0];
-                  matchedDocName = openAIFilename;
-                  console.warn(`[VECTOR STORE - CITATION ${i+1}] No mapping found for OpenAI ID ${openaiFileId}. Using filename-derived clientFileId: ${clientFileId}`);
-                }
-                
-                // 3. Retrieve the MedicalDocument containing analysis results
-                if (clientFileId) {
-                  medicalDocument = await storageService.getDocument(silknoteUserUuid, silknotePatientUuid, clientFileId);
-                  if (!medicalDocument) {
-                    console.error(`[VECTOR STORE - CITATION ${i+1}] Failed to retrieve MedicalDocument for clientFileId: ${clientFileId}`);
-                  }
-                }
-                
-                // 4. Determine Page Number using indices and analysis results
-                let pageNumber = 1; // Default
-                const analysisResult = medicalDocument?.content?.analysisResult;
-
-                if (medicalDocument && analysisResult?.pages && analysisResult.pages.length > 0) {
-                   console.log(`[VECTOR STORE - CITATION ${i+1}] Found analysisResult for document ${clientFileId}. Trying to find page number.`);
-                   let pageFound = false;
-                   for (const page of analysisResult.pages) {
-                     if (page.spans && page.spans.length > 0) {
-                       const pageStart = page.spans[0].offset;
-                       const pageEnd = pageStart + page.spans[0].length;
-                       if (startIndex >= pageStart && startIndex < pageEnd) {
-                         pageNumber = page.pageNumber;
-                         pageFound = true;
-                         console.log(`[VECTOR STORE - CITATION ${i+1}] Found page number ${pageNumber} for startIndex ${startIndex}`);
-                         break;
-                       }
-                     }
-                   }
-                   if (!pageFound) {
-                     console.warn(`[VECTOR STORE - CITATION ${i+1}] Could not determine page number for startIndex ${startIndex}. Defaulting to 1.`);
-                   }
-                 } else {
-                    console.warn(`[VECTOR STORE - CITATION ${i+1}] Missing analysisResult or pages for document ${clientFileId}. Defaulting page to 1.`);
-                 }
-                
-                // *** REMOVED: Logic to extract quote from analysisResult using indices ***
-                // *** REMOVED: Comparison logging between annotation.text and extracted source text ***
-
-                // 5. Construct the simplified final citation object
-                const citationObj = {
-                  documentId: clientFileId || openaiFileId, // Use mapped client ID or fallback
-                  documentName: matchedDocName || `Unknown (ID: ${openaiFileId})`,
-                  pageNumber: pageNumber,
-                  // quote: field removed
-                  // excerpt: field removed
-                  // pageImage: field removed (was already null)
-                  startIndex: startIndex, // Keep indices for potential client use
-                  endIndex: endIndex,
-                  citationIndex: i + 1 // Use original loop index for sequence
-                };
-                
-                console.log(`[VECTOR STORE - CITATION ${i+1}] FINAL Constructed Citation Object (Simplified):`, JSON.stringify(citationObj));
-                finalCitations.push(citationObj);
-
-              } catch (error) {
-                console.error(`[VECTOR STORE - CITATION ${i+1}] Error processing annotation for OpenAI File ID ${openaiFileId}:`, error);
-                const fallbackCitation = {
-                  documentId: clientFileId || openaiFileId,
-                  documentName: `Error Processing (ID: ${openaiFileId})`,
-                  pageNumber: 1,
-                  // quote: field removed
-                  // excerpt: field removed
-                  startIndex: startIndex,
-                  endIndex: endIndex,
-                  citationIndex: i + 1,
-                  error: `Failed processing citation: ${error instanceof Error ? error.message : 'Unknown error'}`
-                };
-                console.log(`[VECTOR STORE - CITATION ${i+1}] FALLBACK Constructed Citation Object (Simplified):`, JSON.stringify(fallbackCitation));
-                finalCitations.push(fallbackCitation);
-              }
-            } else {
-               // Skip non-file_citation annotations
-            }
+            const citation = await resolveFileCitation(openai, patient, silknoteUserUuid, annotation, i + 1, originalText, passages);
+            if (citation) finalCitations.push(citation);
           })); // End Promise.all map
           
           // Sort citations based on their original index to maintain order
@@ -748,6 +797,88 @@ export async function queryAssistantWithCitations(
   throw new Error(`Query timed out after ${maxAttempts} seconds`);
 }
 
+/**
+ * Streaming variant of queryAssistantWithCitations. Text deltas are passed to onText as
+ * the assistant generates them, and each file_citation annotation is resolved in the
+ * background and passed to onCitation when ready (not necessarily in answer order).
+ * Resolves with the full answer and all citations once the run has finished.
+ */
+export async function streamAssistantWithCitations(
+  silknotePatientUuid: string,
+  query: string,
+  silknoteUserUuid: string,
+  handlers: { onText?: (delta: string) => void; onCitation?: (citation: any) => void },
+  options: { outputFormat?: string; signal?: AbortSignal } = {}
+): Promise<{ content: string; citations: any[] }> {
+  const patient = await patientService.getPatientById(silknotePatientUuid, silknoteUserUuid);
+  if (!patient) {
+    throw new Error(`Patient with ID ${silknotePatientUuid} not found`);
+  }
+  if (!patient.vectorStore?.assistantId) {
+    throw new Error('No vector store or assistant configured for this patient.');
+  }
+
+  const { provider, model } = getLlmForOperation('query');
+  const openai = provider.getClient();
+
+  const thread = await openai.beta.threads.create();
+  if (options.outputFormat === 'json') {
+    await openai.beta.threads.messages.create(thread.id, {
+      role: 'user',
+      content: `
+      For each citation, include the reference inline using the format 【citation_index:position†filename】.
+      Example: "The patient was diagnosed with hypertension【1:0†medical_report.pdf】."
+    `
+    });
+  }
+  await openai.beta.threads.messages.create(thread.id, { role: 'user', content: query });
+
+  const stream = openai.beta.threads.runs.stream(
+    thread.id,
+    { assistant_id: patient.vectorStore.assistantId, model },
+    { signal: options.signal }
+  );
+  logger.info(`Streaming run on thread ${thread.id}`);
+
+  let content = '';
+  let citationCount = 0;
+  let passages: Promise<{ fileId: string; text: string }[]> | null = null;
+  const pending: Promise<any | null>[] = [];
+
+  stream.on('textDelta', (delta, snapshot) => {
+    if (delta.value) {
+      content += delta.value;
+      handlers.onText?.(delta.value);
+    }
+    for (const annotation of delta.annotations || []) {
+      if (annotation.type !== 'file_citation') continue;
+      const runId = stream.currentRun()?.id;
+      // file_search has finished by the time the message cites its results
+      passages ??= runId ? getFileSearchPassages(openai, thread.id, runId) : Promise.resolve([]);
+      const citationIndex = ++citationCount;
+      const answerText = snapshot.value;
+      pending.push(passages
+        .then(found => resolveFileCitation(openai, patient, silknoteUserUuid, annotation, citationIndex, answerText, found))
+        .then(citation => {
+          if (citation) handlers.onCitation?.(citation);
+          return citation;
+        }));
+    }
+  });
+
+  const run = await stream.finalRun();
+  if (run.status !== 'completed') {
+    const errorReason = run.last_error?.message || `Assistant run ${run.status}`;
+    logger.error(`Run ${run.id} ${run.status}: ${errorReason}`);
+    throw new Error(errorReason);
+  }
+
+  const citations = (await Promise.all(pending)).filter(citation => citation !== null);
+  citations.sort((a, b) => a.citationIndex - b.citationIndex);
+  logger.info(`Run ${run.id} completed with ${citations.length} citations`);
+  return { content, citations };
+}
+
 
 /**
  * Queries the assistant, waits for completion, and processes citations from annotations.
@@ -982,6 +1113,7 @@ export async function removeFileFromVectorStore(
 ): Promise<boolean> {
   console.log(`[VECTOR STORE] Attempting to remove file ${clientFileId} from vector store for patient ${silknotePatientUuid}`);
   try {
+    const openai = getLlmForOperation('query').provider.getClient();
     const patient = await patientService.getPatientById(silknotePatientUuid, silknoteUserUuid);
     if (!patient) {
       console.error(`[VECTOR STORE] Patient ${silknotePatientUuid} not found.`);
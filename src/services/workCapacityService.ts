@@ -0,0 +1,288 @@
+/**
+ * Work Capacity Series
+ *
+ * Orders a patient's WorkCover certificates of capacity by certified period and reads the
+ * series as a whole: days left uncertified between consecutive certificates, changes in
+ * capacity, hours and restrictions, and periods that different certifiers certified
+ * differently. Built from each certificate page's workCapacity extraction, without an LLM call.
+ */
+
+import {
+  CapacityChange,
+  CapacityLevel,
+  CertificateKind,
+  CertificationGap,
+  CertifierConflict,
+  DocumentType,
+  MedicalDocument,
+  WorkCapacityCertificate,
+  WorkCapacitySeries
+} from '../shared/types';
+import { loadPatientEvidence } from './patientDocuments';
+import { parseTimelineDate } from './patientTimeline';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Page categories (DocumentTypes keys) of certificates
+const CERTIFICATE_KINDS: Record<string, CertificateKind> = {
+  WORKCOVER_FIRST_CERTIFICATE_OF_CAPACITY: 'first',
+  WORKCOVER_PROGRESS_CERTIFICATE: 'progress',
+  WORKCOVER_FINAL_CERTIFICATE: 'final'
+};
+
+const CAPACITY_RANK: Record<CapacityLevel, number> = { none: 0, modified: 1, full: 2, unknown: -1 };
+
+// Checked in order, so "no capacity for pre-injury duties, fit for modified duties" is modified
+const CAPACITY_RULES: [RegExp, CapacityLevel][] = [
+  [/\b(modified|alternat|light|restricted|suitable|partial|reduced|graduated|some capacity)/, 'modified'],
+  [/\bno (current |work )?capacity\b|\bunfit\b|\bincapacit|\btotally\b|\bnil\b/, 'none'],
+  [/\bfull\b|\bpre[- ]?injury\b|\bnormal duties\b|\bunrestricted\b|\bclear(ed)?\b|\bfit\b/, 'full']
+];
+
+export function classifyCapacity(status: string | null | undefined): CapacityLevel {
+  const text = (status || '').toLowerCase();
+  return CAPACITY_RULES.find(([pattern]) => pattern.test(text))?.[1] || 'unknown';
+}
+
+/**
+ * Hours per week from hours as printed, e.g. "20 hrs/week" or "4 hours a day, 3 days a week"
+ */
+export function parseHoursPerWeek(hours: string | null | undefined): number | null {
+  const text = (hours || '').toLowerCase();
+  const weekly = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)?\s*(?:per|\/|a|each)\s*(?:wk|week)/);
+  if (weekly) return Number(weekly[1]);
+  const daily = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)?\s*(?:per|\/|a|each)\s*day/);
+  if (daily) {
+    const days = text.match(/(\d)\s*days?\b/);
+    return Number(daily[1]) * (days ? Number(days[1]) : 5);
+  }
+  const bare = text.match(/^\s*(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)?\s*$/);
+  return bare ? Number(bare[1]) : null;
+}
+
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+function isCertificateDocument(document: MedicalDocument): boolean {
+  return document.category === DocumentType.WORKCOVER_CERTIFICATE ||
+    /certificate of capacity|workcover certificate|work capacity certificate/i.test(document.title || '');
+}
+
+function certificateKind(category: string | null | undefined, title: string): CertificateKind {
+  if (category && CERTIFICATE_KINDS[category]) return CERTIFICATE_KINDS[category];
+  if (/\bfirst\b|\binitial\b/i.test(title)) return 'first';
+  if (/\bfinal\b/i.test(title)) return 'final';
+  if (/\bprogress\b/i.test(title)) return 'progress';
+  return 'unspecified';
+}
+
+function certifierOf(page: any, document: MedicalDocument): WorkCapacityCertificate['certifier'] {
+  const name = [page.author?.firstName, page.author?.familyName].filter(Boolean).join(' ') || document.author || null;
+  const role = page.author?.providerRole && page.author.providerRole !== 'Unknown' ? page.author.providerRole : document.authorTitle || null;
+  const organisation = page.author?.providerOrganization || document.authorOrganization || null;
+  return name || organisation ? { name, role, organisation } : null;
+}
+
+/**
+ * The certificates in a document: each page with a workCapacity extraction that is a
+ * certificate page (or belongs to a certificate document). Pages repeating the same
+ * period and capacity, such as a certificate's second page, are one certificate.
+ */
+export function extractCertificates(document: MedicalDocument): WorkCapacityCertificate[] {
+  const title = document.title || document.originalName;
+  const wholeDocument = isCertificateDocument(document);
+  const certificates: WorkCapacityCertificate[] = [];
+
+  (document.content?.extractedSchemas || []).forEach((page: any, index: number) => {
+    const capacity = page?.workCapacity;
+    if (!capacity || !(capacity.status || capacity.certifiedFrom || capacity.certifiedTo)) return;
+    if (!wholeDocument && !CERTIFICATE_KINDS[page.category]) return;
+    const pageNumber = page.pageNumber || index + 1;
+
+    const certificate: WorkCapacityCertificate = {
+      id: `${document.clientFileId}:${pageNumber}`,
+      clientFileId: document.clientFileId,
+      documentTitle: title,
+      pageNumbers: [pageNumber],
+      kind: certificateKind(page.category, title),
+      certifier: certifierOf(page, document),
+      issuedDate: parseTimelineDate(page.documentDate) || parseTimelineDate(document.documentDate),
+      certifiedFrom: parseTimelineDate(capacity.certifiedFrom),
+      certifiedTo: parseTimelineDate(capacity.certifiedTo),
+      reviewDate: parseTimelineDate(capacity.reviewDate),
+      status: capacity.status || null,
+      capacity: classifyCapacity(capacity.status),
+      hours: capacity.hours || null,
+      hoursPerWeek: parseHoursPerWeek(capacity.hours),
+      restrictions: (capacity.restrictions || []).map((r: any) => r?.restriction?.trim()).filter(Boolean),
+      modifications: (capacity.modifications || []).map((m: any) => m?.modification?.trim()).filter(Boolean)
+    };
+
+    const same = certificates.find(existing =>
+      existing.certifiedFrom === certificate.certifiedFrom &&
+      existing.certifiedTo === certificate.certifiedTo &&
+      (existing.capacity === certificate.capacity || existing.capacity === 'unknown' || certificate.capacity === 'unknown'));
+    if (!same) {
+      certificates.push(certificate);
+      return;
+    }
+    same.pageNumbers.push(pageNumber);
+    if (same.capacity === 'unknown') Object.assign(same, { status: certificate.status, capacity: certificate.capacity });
+    same.hoursPerWeek ??= certificate.hoursPerWeek;
+    same.hours ??= certificate.hours;
+    same.reviewDate ??= certificate.reviewDate;
+    same.certifier ??= certificate.certifier;
+    same.restrictions = [...new Set([...same.restrictions, ...certificate.restrictions])];
+    same.modifications = [...new Set([...same.modifications, ...certificate.modifications])];
+  });
+
+  return certificates;
+}
+
+const startOf = (certificate: WorkCapacityCertificate): string | null => certificate.certifiedFrom || certificate.issuedDate;
+
+function compareCertificates(a: WorkCapacityCertificate, b: WorkCapacityCertificate): number {
+  const [startA, startB] = [startOf(a), startOf(b)];
+  if (startA !== startB) return !startA ? 1 : !startB ? -1 : startA.localeCompare(startB);
+  return (a.issuedDate || '').localeCompare(b.issuedDate || '') || a.id.localeCompare(b.id);
+}
+
+const certifierKey = (certificate: WorkCapacityCertificate): string | null => {
+  const name = certificate.certifier?.name || certificate.certifier?.organisation;
+  return name ? name.toLowerCase().replace(/^dr\.?\s+/, '').replace(/[^a-z]+/g, ' ').trim() : null;
+};
+
+const hasPeriod = (certificate: WorkCapacityCertificate): certificate is WorkCapacityCertificate & { certifiedFrom: string; certifiedTo: string } =>
+  !!certificate.certifiedFrom && !!certificate.certifiedTo && certificate.certifiedFrom <= certificate.certifiedTo;
+
+function findGaps(certificates: WorkCapacityCertificate[]): CertificationGap[] {
+  const gaps: CertificationGap[] = [];
+  let coveredTo: string | null = null;
+  let lastId = '';
+  for (const certificate of certificates.filter(hasPeriod)) {
+    if (coveredTo && certificate.certifiedFrom > addDays(coveredTo, 1)) {
+      const from = addDays(coveredTo, 1);
+      const to = addDays(certificate.certifiedFrom, -1);
+      gaps.push({ from, to, days: daysBetween(from, to) + 1, afterCertificateId: lastId, beforeCertificateId: certificate.id });
+    }
+    if (!coveredTo || certificate.certifiedTo! >= coveredTo) {
+      coveredTo = certificate.certifiedTo!;
+      lastId = certificate.id;
+    }
+  }
+  return gaps;
+}
+
+function findCapacityChanges(certificates: WorkCapacityCertificate[]): CapacityChange[] {
+  const changes: CapacityChange[] = [];
+  const known = certificates.filter(certificate => certificate.capacity !== 'unknown' || certificate.hoursPerWeek !== null);
+  for (let i = 1; i < known.length; i++) {
+    const [previous, current] = [known[i - 1], known[i]];
+    const restrictionsAdded = current.restrictions.filter(r => !previous.restrictions.includes(r));
+    const restrictionsRemoved = previous.restrictions.filter(r => !current.restrictions.includes(r));
+    const levelChanged = previous.capacity !== current.capacity;
+    const hoursChanged = previous.hoursPerWeek !== null && current.hoursPerWeek !== null && previous.hoursPerWeek !== current.hoursPerWeek;
+    if (!levelChanged && !hoursChanged && restrictionsAdded.length === 0 && restrictionsRemoved.length === 0) continue;
+
+    let direction: CapacityChange['direction'] = 'change';
+    if (levelChanged && previous.capacity !== 'unknown' && current.capacity !== 'unknown') {
+      direction = CAPACITY_RANK[current.capacity] > CAPACITY_RANK[previous.capacity] ? 'upgrade' : 'downgrade';
+    } else if (!levelChanged && hoursChanged) {
+      direction = current.hoursPerWeek! > previous.hoursPerWeek! ? 'upgrade' : 'downgrade';
+    }
+    changes.push({
+      date: startOf(current),
+      previousCertificateId: previous.id,
+      certificateId: current.id,
+      direction,
+      from: { capacity: previous.capacity, hoursPerWeek: previous.hoursPerWeek },
+      to: { capacity: current.capacity, hoursPerWeek: current.hoursPerWeek },
+      restrictionsAdded,
+      restrictionsRemoved
+    });
+  }
+  return changes;
+}
+
+function describeCapacity(certificate: WorkCapacityCertificate): string {
+  const hours = certificate.hoursPerWeek !== null ? ` (${certificate.hoursPerWeek} hours/week)` : '';
+  return `${certificate.status || certificate.capacity}${hours}`;
+}
+
+function findConflicts(certificates: WorkCapacityCertificate[]): CertifierConflict[] {
+  const conflicts: CertifierConflict[] = [];
+  const periods = certificates.filter(hasPeriod);
+  for (let i = 0; i < periods.length; i++) {
+    for (let j = i + 1; j < periods.length; j++) {
+      const [a, b] = [periods[i], periods[j]];
+      const [keyA, keyB] = [certifierKey(a), certifierKey(b)];
+      if (!keyA || !keyB || keyA === keyB) continue;
+      const from = a.certifiedFrom > b.certifiedFrom ? a.certifiedFrom : b.certifiedFrom;
+      const to = a.certifiedTo < b.certifiedTo ? a.certifiedTo : b.certifiedTo;
+      if (from > to) continue;
+
+      const levelsDiffer = a.capacity !== b.capacity && a.capacity !== 'unknown' && b.capacity !== 'unknown';
+      const hoursDiffer = a.hoursPerWeek !== null && b.hoursPerWeek !== null && a.hoursPerWeek !== b.hoursPerWeek;
+      if (!levelsDiffer && !hoursDiffer) continue;
+      conflicts.push({
+        from,
+        to,
+        certificateIds: [a.id, b.id],
+        description: `${a.certifier!.name || a.certifier!.organisation} certified ${describeCapacity(a)} while ` +
+          `${b.certifier!.name || b.certifier!.organisation} certified ${describeCapacity(b)}`
+      });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Days certified at each capacity over the whole series. Where periods overlap, a day
+ * counts once, at the capacity of the most recently issued certificate covering it.
+ */
+function summarise(certificates: WorkCapacityCertificate[], gaps: CertificationGap[]): WorkCapacitySeries['summary'] {
+  const periods = certificates.filter(hasPeriod);
+  const daysByCapacity: Record<CapacityLevel, number> = { none: 0, modified: 0, full: 0, unknown: 0 };
+  const firstCertifiedFrom = periods.length > 0 ? periods[0].certifiedFrom : null;
+  const lastCertifiedTo = periods.reduce<string | null>((last, c) => (!last || c.certifiedTo > last ? c.certifiedTo : last), null);
+
+  if (firstCertifiedFrom && lastCertifiedTo) {
+    const byIssue = [...periods].sort((a, b) => (b.issuedDate || '').localeCompare(a.issuedDate || ''));
+    for (let day = firstCertifiedFrom; day <= lastCertifiedTo; day = addDays(day, 1)) {
+      const covering = byIssue.find(c => c.certifiedFrom <= day && c.certifiedTo >= day);
+      if (covering) daysByCapacity[covering.capacity]++;
+    }
+  }
+
+  const latest = [...certificates].reverse().find(certificate => certificate.capacity !== 'unknown');
+  return {
+    firstCertifiedFrom,
+    lastCertifiedTo,
+    currentCapacity: latest ? latest.capacity : null,
+    daysByCapacity,
+    uncertifiedDays: gaps.reduce((sum, gap) => sum + gap.days, 0)
+  };
+}
+
+export function buildWorkCapacitySeries(silknotePatientUuid: string, documents: MedicalDocument[]): WorkCapacitySeries {
+  const certificates = documents.flatMap(extractCertificates).sort(compareCertificates);
+  const gaps = findGaps(certificates);
+  return {
+    silknotePatientUuid,
+    certificates,
+    gaps,
+    capacityChanges: findCapacityChanges(certificates),
+    conflicts: findConflicts(certificates),
+    summary: summarise(certificates, gaps)
+  };
+}
+
+/**
+ * The certificate series of a patient's completed documents, leaving out any flagged as another patient's
+ */
+export async function getWorkCapacitySeries(silknoteUserUuid: string, silknotePatientUuid: string): Promise<WorkCapacitySeries> {
+  return buildWorkCapacitySeries(silknotePatientUuid, await loadPatientEvidence(silknoteUserUuid, silknotePatientUuid));
+}
@@ -84,7 +84,8 @@ const CaseSummaryZodSchema = z.object({
       relatedDocuments: z.array(z.object({
         id: z.string().nullable().describe("Document ID"),
         citationToVectorStoreFile: z.string().nullable().describe("Document title"),
-        contradictingValues: z.array(z.string()).nullable().describe("Specific contradicting values in this document")
+        contradictingValues: z.array(z.string()).nullable().describe("Specific contradicting values in this document"),
+        pageNumbers: z.array(z.number()).nullable().optional().describe("Pages the contradicting values were read from")
       })).nullable().describe("Documents related to this inconsistency")
     })).nullable().describe("List of detected inconsistencies")
   }).describe("Medical inconsistencies detected in the documents")
@@ -115,7 +116,7 @@ interface ViewerCaseSummarySchema {
   clinicalSummary: { diagnoses: Array<{ diagnosis: string; diagnosisDate?: string; status: string }>; treatments: Array<{ treatment: string; treatmentDate?: string; provider?: string; type?: string; notes?: string }>; testResults?: Array<{ testName: string; date?: string; result: string; referenceRange?: string }> }
   insurance?: { insurerName: string; policyNumber?: string; claimID?: string; scheme?: string; notes?: string }
   medicolegalSummary?: { employerDocumentation?: { employerName?: string; employmentStatus?: string; workRelatedInjury?: boolean; notes?: string }; legalNotes?: string }
-  medicalInconsistencies?: { hasInconsistencies: boolean; inconsistencies?: Array<{ type: string; severity: string | null; description: string; relatedDocuments?: Array<{ id: string; citationToVectorStoreFile: string; contradictingValues?: string[] }> }> }
+  medicalInconsistencies?: { hasInconsistencies: boolean; inconsistencies?: Array<{ type: string; severity: string | null; description: string; relatedDocuments?: Array<{ id: string; citationToVectorStoreFile: string; contradictingValues?: string[]; pageNumbers?: number[] }> }> }
 }
 
 // Copied adaptForCaseSummaryViewer function from extraction-schema.ts
@@ -221,7 +222,8 @@ function adaptForCaseSummaryViewer(flattenedSummary: CaseSummaryType): ViewerCas
             relatedDocuments: inc.relatedDocuments?.map(doc => ({
               id: doc.id || '',
               citationToVectorStoreFile: doc.citationToVectorStoreFile || doc.id || '',
-              contradictingValues: doc.contradictingValues || []
+              contradictingValues: doc.contradictingValues || [],
+              ...(doc.pageNumbers ? { pageNumbers: doc.pageNumbers } : {})
             })) || []
           })) || []
         }
@@ -4,6 +4,7 @@ import {
 } from '@azure/ai-form-recognizer';
 import { PatientVectorStore } from './vectorStore';
 import { CaseSummaryType } from './case-summary-types';
+import type { KeyEventTypes } from './extraction-schema';
 
 
 export interface UserDetails {
@@ -31,7 +32,9 @@ export enum DocumentAlertType {
   ERROR = 'ERROR',
   ALERT = 'ALERT',
   DELAYED = 'DELAYED',
-  INCORRECT_PATIENT = 'INCORRECT_PATIENT'
+  INCORRECT_PATIENT = 'INCORRECT_PATIENT',
+  MEDICATION_CONFLICT = 'MEDICATION_CONFLICT',
+  DUPLICATE_DOCUMENT = 'DUPLICATE_DOCUMENT'
 }
 
 export interface DocumentAlert {
@@ -42,6 +45,33 @@ export interface DocumentAlert {
   acknowledged?: boolean
 }
 
+// Marks a document whose content repeats one already in the fileset
+export interface DocumentDuplicate {
+  clientFileId: string            // The document this one duplicates
+  match: 'exact' | 'near'         // Same file bytes, or MinHash similarity of the layout text
+  similarity: number              // 1 for exact matches
+  dismissed?: boolean             // Reviewed and kept as a separate document
+}
+
+// How a file that was not uploaded as a PDF became one
+export type ConversionMethod = 'image' | 'libreoffice' | 'mammoth' | 'text'
+
+export interface DocumentConversion {
+  method: ConversionMethod        // Sharp and pdf-lib for images, LibreOffice, mammoth's text for DOCX, or pdf-lib text rendering
+  sourceMimeType: string          // MIME type of the file as uploaded
+  originalPath: string            // The file as uploaded, kept next to the generated PDF
+  convertedAt: string
+}
+
+export interface DocumentEmail {
+  fromName: string | null
+  fromAddress: string | null
+  to: string[]
+  cc: string[]
+  subject: string
+  sentDate: string | null         // ISO timestamp the email was sent
+}
+
 export interface MedicalDocument {
   clientFileId: string;          // Unique ID for the client context
   silknoteDocumentUuid?: string; // Consistent DB UUID for the document
@@ -59,7 +89,7 @@ export interface MedicalDocument {
     extension: string
   }
   fileSize: number
-  hash?: string
+  hash?: string                   // SHA-256 of the stored file
   pageCount?: number
   documentDate?: string | null
   processedAt?: string
@@ -78,8 +108,20 @@ export interface MedicalDocument {
     enrichedSchemas: any[]
     pageImages: string[]
     data?: ArrayBuffer
+    textSignature?: number[]      // MinHash of the layout text, for near-duplicate detection
   }
   alerts?: DocumentAlert[]
+  duplicateOf?: DocumentDuplicate
+  parentClientFileId?: string     // Set on documents split out of a bundled PDF; the parent's status is 'split'
+  pageRange?: {                   // Pages of the parent's file this document covers
+    start: number
+    end: number
+  }
+  mergedInto?: string             // Set on documents combined into a merged PDF; their status is 'merged'
+  sourceClientFileIds?: string[]  // Documents combined into this one, in the order their pages were taken
+  conversion?: DocumentConversion // Set when storedPath holds a PDF generated from another format
+  attachedTo?: string             // Set on documents extracted from an email's attachments; the email document's clientFileId
+  email?: DocumentEmail           // Sender, recipients and sent date of the email this document is or was attached to
   confidence: number
   isIncorrectPatient?: boolean
   detectedPatientInfo?: {
@@ -89,11 +131,7 @@ export interface MedicalDocument {
   insurerRequestForIME?: {
     referenceNumber?: string
     addressedTo?: string
-    questions: {
-      questionNumber: number
-      questionText: string
-      responseText?: string
-    }[]
+    questions: ImeQuestion[]
   }
   patientConsentForInsurerRelease?: {
     patientSigned: boolean
@@ -268,6 +306,7 @@ export interface ValidationWarning extends ValidationError {
 // Query Types
 export interface QueryRequest {
   query: string;
+  silknotePatientUuid: string;
   clientFileIds: string[];  // Changed from documentIds
   context?: {
     maxResults?: number;
@@ -282,17 +321,38 @@ export interface QueryResponse {
   metadata: QueryMetadata;
 }
 
-export interface Citation {
+export interface Citation extends CitationLocation {
   clientFileId: string;  // Changed from documentId
-  pageNumber: number;
-  text: string;
+  quote: string;         // Source passage the citation points at
+  text: string;          // Answer sentence the citation supports
   confidence: number;
 }
 
+/**
+ * Where a cited passage sits in a document. Bounding boxes are in the page units of
+ * the document's analysisResult (inches for PDFs) and are empty when the quote
+ * could not be located.
+ */
+export interface CitationLocation {
+  pageNumber: number;
+  boundingBoxes: EnrichedExtractionPosition['boundingBox'][];
+}
+
 export interface QueryMetadata {
   timestamp: string;
 }
 
+/**
+ * Streamed query answer, sent as SSE `data:` frames and as `queryStream` socket events
+ * to the patient room. Every event of one answer carries the same streamId.
+ */
+export type QueryStreamEvent =
+  | { type: 'start'; streamId: string; silknotePatientUuid: string }
+  | { type: 'content'; streamId: string; content: string }
+  | { type: 'citation'; streamId: string; citation: any }
+  | { type: 'error'; streamId: string; error: string }
+  | { type: 'done'; streamId: string; content: string; citations: any[] };
+
 
 
 
@@ -418,6 +478,347 @@ export interface CaseSummaryApiResponse {
   citations: SummaryCitation[]; // Array of citation objects
   summaryGenerationCount: number; // Current count of summary generations
   maxCount: number; // Maximum allowed generations
+  sources?: CaseSummarySources; // Documents each part of the summary was built from
+  staleSections?: CaseSummarySection[]; // Computed on retrieval, never stored
+  fieldProvenance?: Partial<Record<CaseSummaryField, CaseSummaryFieldState>>; // Fields without an entry are generated
+  conflicts?: CaseSummaryConflict[]; // Edited fields where a later generation disagrees
+  auditTrail?: CaseSummaryAuditEntry[]; // Oldest first
+}
+
+// Top-level field of a case summary; lists such as diagnoses are edited as a whole
+export type CaseSummaryField = keyof CaseSummaryType;
+
+/**
+ * Who owns a field's value:
+ * - generated: replaced by every generation
+ * - edited: corrected by a clinician; kept on regeneration, with a conflict raised when
+ *   a generation produces a different value from the one the edit replaced
+ * - locked: signed off by a clinician; kept on regeneration without conflicts
+ */
+export type CaseSummaryFieldProvenance = 'generated' | 'edited' | 'locked';
+
+export interface CaseSummaryFieldState {
+  provenance: CaseSummaryFieldProvenance;
+  changedBy: string; // silknoteUserUuid
+  changedAt: string;
+  generatedValue: unknown; // Latest generated value for the field, kept so an edit can be reverted
+}
+
+export interface CaseSummaryConflict {
+  field: CaseSummaryField;
+  currentValue: unknown;   // The clinician's value, still in the summary
+  generatedValue: unknown; // What the latest generation produced
+  previousGeneratedValue: unknown; // What generation produced when the field was edited
+  detectedAt: string;
+}
+
+export type CaseSummaryAuditAction = 'edited' | 'locked' | 'unlocked' | 'reverted' | 'conflictResolved';
+
+export interface CaseSummaryAuditEntry {
+  field: CaseSummaryField;
+  action: CaseSummaryAuditAction;
+  changedBy: string; // silknoteUserUuid
+  changedAt: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+// Sections of a case summary that can be reported stale. patientInfo covers the
+// patient, insurer and employment fields.
+export type CaseSummarySection =
+  | 'patientInfo'
+  | 'narrativeOverview'
+  | 'diagnoses'
+  | 'treatments'
+  | 'testResults'
+  | 'keyEvents'
+  | 'medicalInconsistencies';
+
+// Extraction steps of summary generation; each produces one or more sections
+export type CaseSummaryExtraction =
+  | 'patientInfo'
+  | 'diagnosesAndTreatments'
+  | 'keyEvents'
+  | 'medicalInconsistencies'
+  | 'narrativeOverview';
+
+export interface CaseSummarySourceDocument {
+  clientFileId: string;
+  contentHash: string;
+  category?: string;
+}
+
+export interface CaseSummarySources {
+  extractions: Partial<Record<CaseSummaryExtraction, {
+    builtAt: string;
+    documents: CaseSummarySourceDocument[];
+  }>>;
+}
+
+export interface CaseSummaryStaleness {
+  staleSections: CaseSummarySection[];
+  addedDocuments: string[];
+  removedDocuments: string[];
+  changedDocuments: string[];
+}
+
+// How a case summary version came about: a full generation, an incremental update of
+// stale sections, or a restore of an earlier version
+export type CaseSummaryVersionSource = 'generated' | 'updated' | 'restored';
+
+/**
+ * Immutable snapshot of a patient's case summary. A version is recorded every time
+ * the current summary is generated, updated or restored; versions are never changed
+ * and survive clearing the current summary.
+ */
+export interface CaseSummaryVersion {
+  versionId: string;
+  versionNumber: number; // 1-based, per patient
+  silknotePatientUuid: string;
+  silknoteUserUuid: string;
+  source: CaseSummaryVersionSource;
+  createdAt: string;
+  caseSummary: CaseSummaryApiResponse;
+  inputs: {
+    documents: CaseSummarySourceDocument[]; // Documents available to the generator
+    extractions: CaseSummaryExtraction[];   // Extraction steps that were run (empty for a restore)
+    restoredFromVersionId?: string;
+  };
+  model?: {
+    provider: string;
+    model: string;
+  };
+}
+
+// Version metadata as listed, without the summary itself
+export type CaseSummaryVersionInfo = Omit<CaseSummaryVersion, 'caseSummary'>;
+
+export interface CaseSummaryFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface CaseSummaryListDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: Array<{ from: T; to: T; fields: string[] }>;
+}
+
+type CaseSummaryListItem<K extends keyof CaseSummaryType> = NonNullable<CaseSummaryType[K]> extends Array<infer T> ? T : never;
+type CaseSummaryInconsistency = NonNullable<CaseSummaryType['medicalInconsistencies']['inconsistencies']>[number];
+
+/**
+ * Field-level differences between two case summaries. List entries are matched on
+ * their content (e.g. diagnosis condition, key event date and type), not their ids,
+ * since ids are reassigned on every generation.
+ */
+export interface CaseSummaryDiff {
+  fromVersionId: string;
+  toVersionId: string;
+  fields: CaseSummaryFieldChange[]; // Scalar fields, including narrativeOverview
+  diagnoses: CaseSummaryListDiff<CaseSummaryListItem<'diagnoses'>>;
+  treatments: CaseSummaryListDiff<CaseSummaryListItem<'treatments'>>;
+  testResults: CaseSummaryListDiff<CaseSummaryListItem<'testResults'>>;
+  keyEvents: CaseSummaryListDiff<CaseSummaryListItem<'keyEvents'>>;
+  medicalInconsistencies: CaseSummaryListDiff<CaseSummaryInconsistency>;
+}
+
+// Review state of an IME answer: drafted from the evidence, changed by the doctor, or signed off
+export type ImeResponseReviewStatus = 'unanswered' | 'draft' | 'edited' | 'approved';
+
+// A numbered insurer question and its answer. Citations line up with the [n] markers
+// of responseText in order of appearance.
+export interface ImeQuestion {
+  questionNumber: number;
+  questionText: string;
+  responseText?: string;
+  reviewStatus?: ImeResponseReviewStatus;
+  citations?: Citation[];
+  confidence?: number;
+  draftedAt?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
+// Ordered IME report skeleton for one insurer request document
+export interface ImeReport {
+  silknotePatientUuid: string;
+  clientFileId: string;            // The insurer's IME request document
+  title: string;
+  referenceNumber?: string;
+  addressedTo?: string;
+  patientName: string;
+  questions: ImeQuestion[];
+  pendingReview: number;           // Questions not yet approved
+}
+
+// Patient timeline. Events come from the extracted keyEvents, workCapacity, procedure and
+// imaging of each document and are classified into KeyEventTypes.
+export type TimelineEventType = keyof typeof KeyEventTypes;
+export type TimelineEventSource = 'keyEvent' | 'workCapacity' | 'procedure' | 'imaging';
+
+export interface TimelineSourceRef {
+  clientFileId: string;
+  documentTitle: string;
+  pageNumbers: number[];
+}
+
+export interface TimelineEvent {
+  id: string;                      // Stable across rebuilds for the same date, type and title
+  date: string | null;             // YYYY-MM-DD, null when the documents give no usable date
+  dateText: string | null;         // Date as written in the document
+  eventType: TimelineEventType;
+  source: TimelineEventSource;
+  title: string;
+  description: string | null;
+  details: Record<string, string>; // e.g. hours and restrictions of a certificate, practitioner of a procedure
+  sources: TimelineSourceRef[];
+}
+
+// Timeline events of one document, rebuilt whenever the document completes processing
+export interface TimelineDocumentEvents {
+  silknoteUserUuid: string;
+  silknotePatientUuid: string;
+  clientFileId: string;
+  builtAt: string;
+  events: TimelineEvent[];
+}
+
+export interface PatientTimeline {
+  silknotePatientUuid: string;
+  events: TimelineEvent[];         // Oldest first; undated events last
+  documentCount: number;           // Documents contributing events
+}
+
+// Work capacity certificate series, built from the workCapacity extraction of certificate pages
+export type CertificateKind = 'first' | 'progress' | 'final' | 'unspecified';
+export type CapacityLevel = 'none' | 'modified' | 'full' | 'unknown';
+
+export interface WorkCapacityCertificate {
+  id: string;                      // clientFileId:firstPage
+  clientFileId: string;
+  documentTitle: string;
+  pageNumbers: number[];
+  kind: CertificateKind;
+  certifier: { name: string | null; role: string | null; organisation: string | null } | null;
+  issuedDate: string | null;       // YYYY-MM-DD
+  certifiedFrom: string | null;
+  certifiedTo: string | null;
+  reviewDate: string | null;
+  status: string | null;           // Capacity as printed
+  capacity: CapacityLevel;
+  hours: string | null;            // Hours as printed
+  hoursPerWeek: number | null;
+  restrictions: string[];
+  modifications: string[];
+}
+
+// Days between the end of one certified period and the start of the next
+export interface CertificationGap {
+  from: string;
+  to: string;
+  days: number;
+  afterCertificateId: string;
+  beforeCertificateId: string;
+}
+
+export interface CapacityChange {
+  date: string | null;
+  previousCertificateId: string;
+  certificateId: string;
+  direction: 'upgrade' | 'downgrade' | 'change';
+  from: { capacity: CapacityLevel; hoursPerWeek: number | null };
+  to: { capacity: CapacityLevel; hoursPerWeek: number | null };
+  restrictionsAdded: string[];
+  restrictionsRemoved: string[];
+}
+
+// Overlapping periods certified differently by different certifiers
+export interface CertifierConflict {
+  from: string;
+  to: string;
+  certificateIds: [string, string];
+  description: string;
+}
+
+export interface WorkCapacitySeries {
+  silknotePatientUuid: string;
+  certificates: WorkCapacityCertificate[]; // By certified period, then issue date; undated last
+  gaps: CertificationGap[];
+  capacityChanges: CapacityChange[];
+  conflicts: CertifierConflict[];
+  summary: {
+    firstCertifiedFrom: string | null;
+    lastCertifiedTo: string | null;
+    currentCapacity: CapacityLevel | null;
+    daysByCapacity: Record<CapacityLevel, number>;
+    uncertifiedDays: number;
+  };
+}
+
+// Medication reconciliation across the fileset, built from the extracted clinicalContent
+// medications and allergies. Medications are keyed by generic name.
+export interface MedicationMention {
+  clientFileId: string;
+  documentTitle: string;
+  pageNumber: number;
+  date: string | null;             // YYYY-MM-DD of the page or document
+  nameAsWritten: string;
+  dosage: string | null;
+  frequency: string | null;
+  route: string | null;
+  status: string | null;           // As printed
+}
+
+export interface MedicationChange {
+  type: 'started' | 'stopped' | 'dose_changed';
+  date: string | null;
+  from?: string;                   // Dose and frequency before a change
+  to?: string;
+  reason?: string;
+  clientFileId: string;
+  pageNumber: number;
+}
+
+export interface ReconciledMedication {
+  id: string;                      // Generic name, lower case
+  name: string;                    // Generic name, e.g. "oxycodone" for Endone
+  brandNames: string[];            // Other names the documents use
+  drugClass: string | null;
+  ingredients: string[];
+  status: 'active' | 'ceased' | 'unknown';
+  currentDose: string | null;
+  currentFrequency: string | null;
+  route: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  changes: MedicationChange[];
+  mentions: MedicationMention[];
+}
+
+export interface AllergyRecord {
+  allergen: string;
+  reaction: string | null;
+  severity: string | null;
+  status: string | null;
+  sources: TimelineSourceRef[];
+}
+
+export interface MedicationIssue {
+  type: 'allergy_conflict' | 'duplicate_therapy';
+  description: string;
+  medicationIds: string[];
+  allergen?: string;
+  drugClass?: string;
+  clientFileIds: string[];         // Documents the issue is drawn from, which carry its alert
+}
+
+export interface MedicationReconciliation {
+  silknotePatientUuid: string;
+  medications: ReconciledMedication[]; // Active first, then by name
+  allergies: AllergyRecord[];
+  issues: MedicationIssue[];
 }
 
 // Document Upload Types
@@ -434,6 +835,7 @@ export interface SummaryCitation {
   endIndex?: number;
   markerId?: string; // Added for embedding
   originalAnnotationText?: string; // Store the original marker text for replacement
+  extraction?: CaseSummaryExtraction; // Extraction step that produced the citation
 }
 
 // Add this interface near other patient-related types
@@ -22,13 +22,14 @@ export interface PatientVectorStore {
  */
 
 export interface VectorMetadata {
-  documentId: string;
+  documentId: string;              // clientFileId of the source document
   silknotePatientUuid: string;
   pageNumber: number;
   text: string;
-  source: string;
+  source: string;                  // Original file name
   timestamp: string;
   confidence: number;
+  chunkIndex?: number;             // Position of the chunk within the document
 }
 
 export interface VectorEntry {
@@ -48,6 +49,19 @@ export interface VectorSearchParams {
   silknotePatientUuid: string;
   limit?: number;
   threshold?: number;
+  clientFileIds?: string[];        // Restricts the search to these documents
+}
+
+/**
+ * Hybrid search hit from the self-hosted chunk index.
+ * score blends vectorScore (cosine) and keywordScore (BM25, normalised to 0-1).
+ */
+export interface ChunkSearchResult {
+  id: string;
+  score: number;
+  vectorScore: number;
+  keywordScore: number;
+  metadata: VectorMetadata;
 }
 
 export interface VectorSearchResponse {
@@ -0,0 +1,89 @@
+import {
+  applyClinicianEdits,
+  CaseSummaryEditError,
+  editCaseSummaryField,
+  recordClinicianChanges,
+  resolveCaseSummaryConflict,
+  revertCaseSummaryField
+} from '../../services/caseSummaryEdits';
+
+const at = '2026-01-01T00:00:00.000Z';
+
+function stored(summary: any = {}): any {
+  return {
+    summary: { claimNumber: 'WC-1', patientOccupation: 'Nurse', employerName: 'Acme', ...summary },
+    citations: [],
+    summaryGenerationCount: 1,
+    maxCount: 5
+  };
+}
+
+describe('case summary edits', () => {
+  it('records changed fields of a saved summary as edits with an audit entry', () => {
+    const saved = recordClinicianChanges(stored(), { ...stored().summary, claimNumber: 'WC-9' }, 'doctor-1', at);
+
+    expect(saved.summary.claimNumber).toBe('WC-9');
+    expect(saved.fieldProvenance).toEqual({
+      claimNumber: { provenance: 'edited', changedBy: 'doctor-1', changedAt: at, generatedValue: 'WC-1' }
+    });
+    expect(saved.auditTrail).toEqual([
+      { field: 'claimNumber', action: 'edited', changedBy: 'doctor-1', changedAt: at, from: 'WC-1', to: 'WC-9' }
+    ]);
+  });
+
+  it('keeps edited and locked values on regeneration and raises a conflict only for edits the new evidence disagrees with', () => {
+    let caseSummary = editCaseSummaryField(stored(), 'claimNumber', { value: 'WC-9' }, 'doctor-1', at);
+    caseSummary = editCaseSummaryField(caseSummary, 'patientOccupation', { value: 'Senior nurse', locked: true }, 'doctor-1', at);
+    caseSummary = editCaseSummaryField(caseSummary, 'employerName', { value: 'Acme Pty Ltd' }, 'doctor-1', at);
+
+    const merged = applyClinicianEdits(caseSummary, {
+      claimNumber: 'WC-2',
+      patientOccupation: 'Theatre nurse',
+      employerName: 'Acme',
+      insurerName: 'Insurer'
+    } as any, at);
+
+    expect(merged.summary).toMatchObject({
+      claimNumber: 'WC-9',
+      patientOccupation: 'Senior nurse',
+      employerName: 'Acme Pty Ltd',
+      insurerName: 'Insurer'
+    });
+    expect(merged.conflicts).toEqual([
+      { field: 'claimNumber', currentValue: 'WC-9', generatedValue: 'WC-2', previousGeneratedValue: 'WC-1', detectedAt: at }
+    ]);
+    expect(merged.fieldProvenance?.patientOccupation).toMatchObject({ provenance: 'locked', generatedValue: 'Theatre nurse' });
+  });
+
+  it('resolves a conflict by accepting the generated value', () => {
+    const edited = editCaseSummaryField(stored(), 'claimNumber', { value: 'WC-9' }, 'doctor-1', at);
+    const regenerated = { ...edited, ...applyClinicianEdits(edited, { ...stored().summary, claimNumber: 'WC-2' }, at) };
+
+    const resolved = resolveCaseSummaryConflict(regenerated, 'claimNumber', 'generated', 'doctor-2', at);
+
+    expect(resolved.summary.claimNumber).toBe('WC-2');
+    expect(resolved.conflicts).toEqual([]);
+    expect(resolved.fieldProvenance?.claimNumber).toBeUndefined();
+    expect(resolved.auditTrail?.map(entry => entry.action)).toEqual(['edited', 'conflictResolved']);
+  });
+
+  it('reverts an edit to the generated value and hands an unedited field back to generation on unlock', () => {
+    const edited = editCaseSummaryField(stored(), 'claimNumber', { value: 'WC-9' }, 'doctor-1', at);
+    expect(revertCaseSummaryField(edited, 'claimNumber', 'doctor-1', at).summary.claimNumber).toBe('WC-1');
+
+    const locked = editCaseSummaryField(stored(), 'employerName', { locked: true }, 'doctor-1', at);
+    const unlocked = editCaseSummaryField(locked, 'employerName', { locked: false }, 'doctor-1', at);
+    expect(unlocked.fieldProvenance).toEqual({});
+    expect(unlocked.auditTrail?.map(entry => entry.action)).toEqual(['locked', 'unlocked']);
+
+    expect(() => revertCaseSummaryField(stored(), 'claimNumber', 'doctor-1')).toThrow(CaseSummaryEditError);
+  });
+
+  it('rejects values that do not match the field schema', () => {
+    expect(() => editCaseSummaryField(stored(), 'diagnoses', { value: 'Lumbar strain' }, 'doctor-1', at)).toThrow(CaseSummaryEditError);
+    expect(() => editCaseSummaryField(stored(), 'claimNumber', { value: 42 }, 'doctor-1', at)).toThrow(/Invalid value for claimNumber/);
+
+    const diagnoses = [{ id: 'd1', condition: 'Lumbar strain', status: 'active', diagnosisDate: null, notes: null }];
+    expect(editCaseSummaryField(stored(), 'diagnoses', { value: diagnoses }, 'doctor-1', at).summary.diagnoses).toEqual(diagnoses);
+  });
+});
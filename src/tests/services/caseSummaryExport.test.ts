@@ -0,0 +1,82 @@
+import { inflateRawSync } from 'zlib';
+import { PDFDocument } from 'pdf-lib';
+import { adaptForCaseSummaryViewer } from '../../shared/case-summary-types';
+import { buildCaseSummaryReport } from '../../services/export/caseSummaryReport';
+import { renderCaseSummaryDocx } from '../../services/export/docxRenderer';
+import { renderCaseSummaryPdf } from '../../services/export/pdfRenderer';
+
+const letterhead = { practiceName: 'Harbour Occupational Medicine', lines: ['1 Quay St, Sydney', 'Ph 02 9000 0000'] };
+
+const summary: any = {
+  reportTitle: 'Case Summary',
+  patientName: 'Jane Citizen',
+  reportDate: '2026-01-01',
+  narrativeOverview: 'Lumbar strain lifting a patient【cite-aaa111】【cite-aaa222】. Returned to light duties【cite-bbb111】【cite-missing】.',
+  diagnoses: [{ condition: 'Lumbar strain【cite-bbb111】', status: 'Active' }],
+  treatments: [],
+  keyEvents: [],
+  medicalInconsistencies: { hasInconsistencies: false, inconsistencies: [] }
+};
+
+const citations: any[] = [
+  { markerId: 'cite-aaa111', documentId: 'doc-1', documentName: 'gp-notes.pdf', pageNumber: 2 },
+  { markerId: 'cite-aaa222', documentId: 'doc-1', documentName: 'gp-notes.pdf', pageNumber: 2 },
+  { markerId: 'cite-bbb111', documentId: 'doc-2', documentName: 'physio.pdf', pageNumber: 1 }
+];
+
+const documents: any[] = [
+  { clientFileId: 'doc-1', title: 'GP Progress Notes', originalName: 'gp-notes.pdf' },
+  { clientFileId: 'doc-2', originalName: 'physio.pdf' }
+];
+
+// Reads one entry of a ZIP by scanning its local file headers
+function unzipEntry(zip: Buffer, name: string): string | null {
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const size = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const entryName = zip.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    if (entryName === name) return inflateRawSync(zip.subarray(start, start + size)).toString('utf8');
+    offset = start + size;
+  }
+  return null;
+}
+
+describe('case summary export', () => {
+  const report = buildCaseSummaryReport(adaptForCaseSummaryViewer(summary), citations, documents, letterhead);
+
+  it('turns citation markers into footnotes naming the document and page', () => {
+    expect(report.footnotes).toEqual(['GP Progress Notes, page 2', 'physio.pdf, page 1', 'physio.pdf, page 1']);
+
+    const narrative = report.blocks.find(block => block.type === 'paragraph');
+    expect(narrative).toEqual({
+      type: 'paragraph',
+      runs: [
+        { text: 'Lumbar strain lifting a patient' },
+        { text: '', footnote: 1 },
+        { text: '. Returned to light duties' },
+        { text: '', footnote: 2 },
+        { text: '.' }
+      ]
+    });
+  });
+
+  it('renders a DOCX package with footnotes and the letterhead', () => {
+    const docx = renderCaseSummaryDocx(report);
+
+    expect(docx.subarray(0, 2).toString()).toBe('PK');
+    expect(unzipEntry(docx, 'word/footnotes.xml')).toContain('GP Progress Notes, page 2');
+    expect(unzipEntry(docx, 'word/header1.xml')).toContain('Harbour Occupational Medicine');
+    expect(unzipEntry(docx, 'word/document.xml')).toContain('Lumbar strain lifting a patient');
+  });
+
+  it('renders a PDF that loads back', async () => {
+    const pdf = await renderCaseSummaryPdf(report);
+
+    expect(pdf.subarray(0, 4).toString()).toBe('%PDF');
+    const loaded = await PDFDocument.load(pdf);
+    expect(loaded.getPageCount()).toBeGreaterThanOrEqual(2);
+    expect(loaded.getTitle()).toBe(report.title);
+  });
+});
@@ -0,0 +1,99 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    getCaseSummaryVersions: jest.fn(),
+    saveCaseSummaryVersion: jest.fn()
+  }
+}));
+
+jest.mock('../../services/patientService', () => ({
+  updatePatient: jest.fn(async (patient: any) => patient)
+}));
+
+jest.mock('../../services/llm/llmProvider', () => ({
+  getLlmForOperation: jest.fn(() => ({ provider: { name: 'FIXTURE' }, model: 'summary-model' }))
+}));
+
+import { storageService } from '../../utils/storage';
+import { updatePatient } from '../../services/patientService';
+import { diffCaseSummaries, recordCaseSummaryVersion, restoreCaseSummaryVersion } from '../../services/caseSummaryHistory';
+
+const patient: any = {
+  silknotePatientUuid: 'patient-1',
+  silknoteUserUuid: 'user-1',
+  summaryGenerationCount: 3,
+  fileSet: [{ clientFileId: 'file-1', hash: 'abc', category: 'MEDICAL_REPORT', status: 'complete' }]
+};
+
+function summary(overrides: any = {}): any {
+  return {
+    patientName: 'Jane Citizen',
+    claimNumber: 'WC-1',
+    diagnoses: [{ id: 'd1', condition: 'Lumbar disc protrusion', status: 'active', diagnosisDate: null, notes: null }],
+    keyEvents: [{ id: 'e1', eventType: 'Surgery', eventDate: '2024-03-01', eventTitle: 'Discectomy', eventDescription: 'L4/5' }],
+    treatments: [],
+    testResults: [],
+    medicalInconsistencies: { hasInconsistencies: false, inconsistencies: [] },
+    ...overrides
+  };
+}
+
+describe('case summary history', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (storageService.saveCaseSummaryVersion as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('records the next version with the documents and configured model', async () => {
+    (storageService.getCaseSummaryVersions as jest.Mock).mockResolvedValue([{ versionNumber: 1 }, { versionNumber: 2 }]);
+
+    const version = await recordCaseSummaryVersion(patient, { summary: summary() } as any, 'generated', { extractions: ['keyEvents'] });
+
+    expect(version).toMatchObject({
+      versionNumber: 3,
+      source: 'generated',
+      model: { provider: 'FIXTURE', model: 'summary-model' },
+      inputs: { documents: [{ clientFileId: 'file-1', contentHash: 'abc', category: 'MEDICAL_REPORT' }], extractions: ['keyEvents'] }
+    });
+    expect(storageService.saveCaseSummaryVersion).toHaveBeenCalledWith(version);
+  });
+
+  it('restores a version without changing the generation count and records the restore', async () => {
+    (storageService.getCaseSummaryVersions as jest.Mock).mockResolvedValue([{ versionNumber: 1 }]);
+    const original: any = {
+      versionId: 'v1',
+      caseSummary: { summary: summary(), citations: [], summaryGenerationCount: 1, maxCount: 5 },
+      model: { provider: 'AZURE_OPENAI', model: 'older-model' }
+    };
+
+    const { caseSummary, version } = await restoreCaseSummaryVersion(patient, original);
+
+    expect(caseSummary.summaryGenerationCount).toBe(3);
+    expect(updatePatient).toHaveBeenCalledWith(expect.objectContaining({ caseSummary }));
+    expect(version).toMatchObject({
+      versionNumber: 2,
+      source: 'restored',
+      model: original.model,
+      inputs: { restoredFromVersionId: 'v1' }
+    });
+  });
+
+  it('diffs scalar fields and matches list entries on content rather than id', () => {
+    const from = summary();
+    const to = summary({
+      claimNumber: 'WC-2',
+      diagnoses: [
+        { id: 'x1', condition: 'lumbar disc  protrusion', status: 'active', diagnosisDate: null, notes: null },
+        { id: 'x2', condition: 'Radiculopathy', status: 'active', diagnosisDate: null, notes: null }
+      ],
+      keyEvents: [{ id: 'x3', eventType: 'Surgery', eventDate: '2024-03-01', eventTitle: 'Discectomy', eventDescription: 'L4/5 microdiscectomy' }]
+    });
+
+    const diff = diffCaseSummaries(from, to, { fromVersionId: 'v1', toVersionId: 'v2' });
+
+    expect(diff.fields).toEqual([{ field: 'claimNumber', from: 'WC-1', to: 'WC-2' }]);
+    expect(diff.diagnoses.added.map(d => d.condition)).toEqual(['Radiculopathy']);
+    expect(diff.diagnoses.removed).toEqual([]);
+    expect(diff.diagnoses.changed).toEqual([expect.objectContaining({ fields: ['condition'] })]);
+    expect(diff.keyEvents.changed).toEqual([expect.objectContaining({ fields: ['eventDescription'] })]);
+  });
+});
@@ -0,0 +1,63 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {}
+}));
+
+import {
+  findStaleExtractions,
+  getCaseSummaryStaleness,
+  recordSummarySources,
+  ALL_CASE_SUMMARY_EXTRACTIONS
+} from '../../services/caseSummarySources';
+import { DocumentType, MedicalDocument, SummaryCitation } from '../../shared/types';
+
+function document(clientFileId: string, category: DocumentType, hash: string): MedicalDocument {
+  return { clientFileId, category, hash, status: 'complete' } as MedicalDocument;
+}
+
+function citation(documentId: string, extraction: SummaryCitation['extraction']): SummaryCitation {
+  return { documentId, extraction } as SummaryCitation;
+}
+
+const builtFrom = [
+  document('report', DocumentType.MEDICAL_REPORT, 'a'),
+  document('claim', DocumentType.INSURANCE_FORM, 'b')
+];
+const sources = recordSummarySources(undefined, ALL_CASE_SUMMARY_EXTRACTIONS, builtFrom, '2026-01-01T00:00:00.000Z');
+
+describe('case summary sources', () => {
+  it('reports nothing stale when the documents are unchanged', () => {
+    const result = findStaleExtractions(sources, [], builtFrom);
+
+    expect(result).toEqual({ stale: [], added: [], removed: [], changed: [] });
+  });
+
+  it('marks extractions that draw on an added document category, and the narrative that depends on them', () => {
+    const documents = [...builtFrom, document('mri', DocumentType.IMAGING_REPORT, 'c')];
+    const staleness = getCaseSummaryStaleness(sources, [], documents);
+
+    expect(staleness.addedDocuments).toEqual(['mri']);
+    expect(staleness.staleSections).toEqual([
+      'diagnoses', 'treatments', 'testResults', 'keyEvents', 'medicalInconsistencies', 'narrativeOverview'
+    ]);
+  });
+
+  it('only marks extractions that cited a removed document', () => {
+    const citations = [citation('claim', 'patientInfo'), citation('report', 'keyEvents')];
+    const result = findStaleExtractions(sources, citations, [builtFrom[1]]);
+
+    expect(result.removed).toEqual(['report']);
+    expect(result.stale).toEqual(['keyEvents']);
+  });
+
+  it('marks an extraction that cited a changed document outside its categories', () => {
+    const documents = [builtFrom[0], document('claim', DocumentType.INSURANCE_FORM, 'b2')];
+    const result = findStaleExtractions(sources, [citation('claim', 'medicalInconsistencies')], documents);
+
+    expect(result.changed).toEqual(['claim']);
+    expect(result.stale).toEqual(['patientInfo', 'keyEvents', 'medicalInconsistencies', 'narrativeOverview']);
+  });
+
+  it('treats a summary without recorded sources as stale throughout', () => {
+    expect(findStaleExtractions(undefined, [], builtFrom).stale).toEqual(ALL_CASE_SUMMARY_EXTRACTIONS);
+  });
+});
@@ -0,0 +1,128 @@
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: { retrieval: { backend: 'CHUNK_INDEX', embeddingProvider: 'HASHING' } }
+}));
+
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    saveVectorEntries: jest.fn(),
+    getVectorEntries: jest.fn(),
+    getDocumentsForPatient: jest.fn(),
+    getDocument: jest.fn()
+  }
+}));
+
+jest.mock('../../services/llmService', () => ({
+  generateStructuredOutput: jest.fn()
+}));
+
+import { storageService } from '../../utils/storage';
+import { generateStructuredOutput } from '../../services/llmService';
+import { indexDocumentChunks, queryChunkIndexWithCitations, searchChunks, syncPatientChunkIndex } from '../../services/retrieval/chunkIndex';
+import { chunkAnalysisResult } from '../../services/retrieval/chunking';
+
+function page(pageNumber: number, lines: string[]) {
+  return {
+    pageNumber,
+    spans: [],
+    words: [],
+    lines: lines.map(content => ({ content, polygon: [], spans: [], words: function* () {} }))
+  };
+}
+
+const analysisResult: any = {
+  apiVersion: 'local',
+  modelId: 'pdf-text-layer',
+  content: '',
+  pages: [
+    page(1, ['Discharge summary', 'Patient commenced on Lyrica 75mg twice daily for neuropathic pain']),
+    page(2, ['Orthopaedic review', 'MRI lumbar spine shows L4/5 disc protrusion with nerve root compression']),
+    page(3, ['Work capacity certificate', 'Fit for modified duties from 01/02/2023'])
+  ]
+};
+
+const document: any = {
+  clientFileId: 'file-1',
+  silknotePatientUuid: 'patient-1',
+  originalName: 'hospital-records.pdf',
+  content: { analysisResult }
+};
+
+describe('chunk index', () => {
+  const saveVectorEntries = storageService.saveVectorEntries as jest.Mock;
+  const getVectorEntries = storageService.getVectorEntries as jest.Mock;
+  let indexed: any[];
+
+  beforeAll(async () => {
+    saveVectorEntries.mockResolvedValue(true);
+    await indexDocumentChunks(document, 'user-1');
+    indexed = saveVectorEntries.mock.calls[0][3];
+    getVectorEntries.mockResolvedValue(indexed);
+  });
+
+  test('chunks never span pages', () => {
+    const chunks = chunkAnalysisResult(analysisResult, { clientFileId: 'file-1', silknotePatientUuid: 'patient-1', source: 'a.pdf' });
+    expect(chunks.map(chunk => chunk.pageNumber)).toEqual([1, 2, 3]);
+    expect(chunks[1].text).toContain('L4/5 disc protrusion');
+  });
+
+  test('splits long pages into overlapping chunks', () => {
+    const lines = Array.from({ length: 40 }, (_, i) => `Line ${i} of a long clinical note describing ongoing physiotherapy sessions`);
+    const chunks = chunkAnalysisResult({ ...analysisResult, pages: [page(1, lines)] }, { clientFileId: 'f', silknotePatientUuid: 'p', source: 'a.pdf' });
+    expect(chunks.length).toBeGreaterThan(1);
+    const lastLineOfFirst = chunks[0].text.split('\n').pop()!;
+    expect(chunks[1].text.split('\n')).toContain(lastLineOfFirst);
+  });
+
+  test('persists one entry per chunk with embeddings', () => {
+    const [user, patient, clientFileId, entries] = saveVectorEntries.mock.calls[0];
+    expect([user, patient, clientFileId]).toEqual(['user-1', 'patient-1', 'file-1']);
+    expect(entries).toHaveLength(3);
+    expect(entries[0].id).toBe('file-1:0');
+    expect(entries[0].vector.length).toBeGreaterThan(0);
+  });
+
+  test('hybrid search ranks the page with matching terms first', async () => {
+    const results = await searchChunks({ query: 'Lyrica neuropathic pain', silknotePatientUuid: 'patient-1' }, 'user-1');
+    expect(results[0].metadata.pageNumber).toBe(1);
+    expect(results[0].keywordScore).toBe(1);
+
+    const spine = await searchChunks({ query: 'MRI disc protrusion', silknotePatientUuid: 'patient-1', limit: 1 }, 'user-1');
+    expect(spine).toHaveLength(1);
+    expect(spine[0].metadata.pageNumber).toBe(2);
+  });
+
+  test('sync indexes unindexed documents but skips open duplicates', async () => {
+    const documents = [
+      { ...document, clientFileId: 'file-2', status: 'complete' },
+      { ...document, clientFileId: 'file-3', status: 'complete', duplicateOf: { clientFileId: 'file-2', match: 'exact' } },
+      { ...document, clientFileId: 'file-4', status: 'complete', duplicateOf: { clientFileId: 'file-2', match: 'exact', dismissed: true } }
+    ];
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue(documents);
+    (storageService.getDocument as jest.Mock).mockImplementation(async (_user, _patient, clientFileId) => documents.find(d => d.clientFileId === clientFileId));
+    saveVectorEntries.mockClear();
+
+    expect(await syncPatientChunkIndex('user-1', 'patient-1')).toBe(2);
+    expect(saveVectorEntries.mock.calls.map(call => call[2])).toEqual(['file-2', 'file-4']);
+  });
+
+  test('answers a query scoped to a split-out child from its pages of the parent', async () => {
+    const parent = { ...document, status: 'split' };
+    const child = { ...document, clientFileId: 'file-1-p2-3', parentClientFileId: 'file-1', pageRange: { start: 2, end: 3 }, status: 'complete', content: { analysisResult: null } };
+    const documents = [parent, child];
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue([]);
+    (storageService.getDocument as jest.Mock).mockImplementation(async (_user, _patient, clientFileId) => documents.find(d => d.clientFileId === clientFileId) ?? null);
+    getVectorEntries.mockImplementation(async (_user, _patient, clientFileIds?: string[]) =>
+      indexed.filter(entry => !clientFileIds || clientFileIds.includes(entry.metadata.documentId)));
+    (generateStructuredOutput as jest.Mock).mockResolvedValue({
+      result: { answer: 'The MRI shows an L4/5 disc protrusion [1].', citations: [{ sourceNumber: 1, quote: 'L4/5 disc protrusion' }] }
+    });
+
+    const answer = await queryChunkIndexWithCitations('patient-1', 'MRI disc protrusion', 'user-1', { clientFileIds: ['file-1-p2-3'] });
+
+    const [, userPrompt] = (generateStructuredOutput as jest.Mock).mock.calls[0];
+    expect(userPrompt).toContain('L4/5 disc protrusion');
+    expect(userPrompt).not.toContain('Lyrica');
+    expect(answer.citations).toEqual([expect.objectContaining({ clientFileId: 'file-1-p2-3', pageNumber: 2 })]);
+  });
+});
@@ -0,0 +1,58 @@
+import { locateQuote, selectSupportingQuote } from '../../services/analyzer/citation-locator';
+
+function box(top: number) {
+  return [{ x: 1, y: top }, { x: 6, y: top }, { x: 6, y: top + 0.5 }, { x: 1, y: top + 0.5 }];
+}
+
+function page(pageNumber: number, lines: string[]) {
+  return {
+    pageNumber,
+    spans: [],
+    words: [],
+    lines: lines.map((content, i) => ({ content, polygon: box(1 + i * 0.5), spans: [] }))
+  };
+}
+
+const analysisResult: any = {
+  pages: [
+    page(1, ['Discharge summary', 'Patient commenced on Lyrica 75mg twice daily']),
+    page(2, [
+      'MRI lumbar spine shows L4/5 disc protrusion',
+      'with compression of the traversing L5 nerve root.',
+      'Surgical review recommended.'
+    ])
+  ]
+};
+
+describe('citation locator', () => {
+  it('locates a quote within a single line', () => {
+    const location = locateQuote('Lyrica 75mg twice daily', analysisResult);
+
+    expect(location?.pageNumber).toBe(1);
+    expect(location?.boundingBoxes).toEqual([{ x: 1, y: 1.5, width: 5, height: 0.5 }]);
+  });
+
+  it('locates a quote that runs across lines', () => {
+    const location = locateQuote('L4/5 disc protrusion with compression of the traversing', analysisResult);
+
+    expect(location?.pageNumber).toBe(2);
+    expect(location?.boundingBoxes.map(b => b.y)).toEqual([1, 1.5]);
+  });
+
+  it('falls back to the line window sharing most words with a paraphrased quote', () => {
+    const location = locateQuote('L5 nerve root compression; surgical review recommended', analysisResult);
+
+    expect(location?.pageNumber).toBe(2);
+    expect(location?.boundingBoxes.map(b => b.y)).toEqual([1.5, 2]);
+  });
+
+  it('returns null when the quote is not in the document', () => {
+    expect(locateQuote('Total knee replacement', analysisResult)).toBeNull();
+  });
+
+  it('narrows a retrieved passage to the sentence supporting a claim', () => {
+    const passage = 'Patient seen in clinic. MRI shows L4/5 disc protrusion. Follow up in six weeks.';
+
+    expect(selectSupportingQuote(passage, 'Imaging showed an L4/5 disc protrusion')).toBe('MRI shows L4/5 disc protrusion.');
+  });
+});
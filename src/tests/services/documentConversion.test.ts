@@ -0,0 +1,272 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    getFileContent: jest.fn(),
+    storeFile: jest.fn(async (_content: Buffer, filename: string) => `/documents/${filename}`)
+  }
+}));
+// LibreOffice is not installed where the tests run, so conversions take their fallbacks
+jest.mock('libreoffice-convert', () => ({
+  convert: (_input: Buffer, _format: string, _filter: unknown, callback: (error: Error) => void) => callback(new Error('Could not find soffice binary'))
+}));
+// Published as an ES module only; PDF decryption is not used here
+jest.mock('node-qpdf2', () => ({ info: jest.fn(), decrypt: jest.fn() }));
+
+import sharp from 'sharp';
+import { PDFDocument } from 'pdf-lib';
+import { storageService } from '../../utils/storage';
+import { handleDocument } from '../../utils/document-handlers';
+import { resolveMimeType } from '../../utils/handler-types';
+import { parseEml, parseMsg } from '../../utils/email-parser';
+import { convertToPdf, needsConversion } from '../../services/documentConversion';
+
+const EML = [
+  'From: "Dr Anna Lee" <anna.lee@northside.example>',
+  'To: claims@insurer.example, Case Manager <cm@insurer.example>',
+  'Subject: =?utf-8?B?UmU6IEphbmUgQ2l0aXplbiDigJMgcmVwb3J0?=',
+  'Date: Tue, 1 Aug 2023 10:00:00 +1000',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary="inner"',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Please find my report attached. She remains unfit =E2=80=93 review in 2 we=',
+  'eks.',
+  '--inner',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<p>Please find my report attached.</p><img src="cid:logo@northside">',
+  '--inner--',
+  '--outer',
+  'Content-Type: image/png; name="logo.png"',
+  'Content-ID: <logo@northside>',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('logo').toString('base64'),
+  '--outer',
+  'Content-Type: application/pdf; name="report.pdf"',
+  'Content-Disposition: attachment; filename="report.pdf"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('%PDF-1.7 report').toString('base64'),
+  '--outer--',
+  ''
+].join('\r\n');
+
+// A minimal OLE compound file: every stream in the mini stream, siblings chained to the right
+function compoundFile(streams: Record<string, Buffer>): Buffer {
+  const NONE = 0xffffffff;
+  const entries: { name: string; type: number; child: number; right: number; start: number; size: number }[] = [
+    { name: 'Root Entry', type: 5, child: NONE, right: NONE, start: 0, size: 0 }
+  ];
+  const storages = new Map<string, number>([['', 0]]);
+  const link = (parent: number, index: number) => {
+    let sibling = entries[parent].child;
+    if (sibling === NONE) entries[parent].child = index;
+    else {
+      while (entries[sibling].right !== NONE) sibling = entries[sibling].right;
+      entries[sibling].right = index;
+    }
+  };
+  const miniStream: Buffer[] = [];
+  const miniFat: number[] = [];
+  for (const [path, content] of Object.entries(streams)) {
+    const [storage, name] = path.includes('/') ? path.split('/') : ['', path];
+    if (!storages.has(storage)) {
+      storages.set(storage, entries.length);
+      entries.push({ name: storage, type: 1, child: NONE, right: NONE, start: 0, size: 0 });
+      link(0, entries.length - 1);
+    }
+    const sectors = Math.max(1, Math.ceil(content.length / 64));
+    const start = miniFat.length;
+    for (let i = 0; i < sectors; i++) miniFat.push(i === sectors - 1 ? 0xfffffffe : start + i + 1);
+    miniStream.push(Buffer.concat([content, Buffer.alloc(sectors * 64 - content.length)]));
+    entries.push({ name, type: 2, child: NONE, right: NONE, start, size: content.length });
+    link(storages.get(storage)!, entries.length - 1);
+  }
+
+  const mini = Buffer.concat(miniStream);
+  const dirSectors = Math.ceil(entries.length / 4);
+  const miniFatSectors = Math.ceil(miniFat.length / 128);
+  const miniSectors = Math.ceil(mini.length / 512);
+  const fat = [0xfffffffd];
+  const chain = (count: number) => {
+    const start = fat.length;
+    for (let i = 0; i < count; i++) fat.push(i === count - 1 ? 0xfffffffe : start + i + 1);
+    return start;
+  };
+  const dirStart = chain(dirSectors);
+  const miniFatStart = chain(miniFatSectors);
+  entries[0].start = chain(miniSectors);
+  entries[0].size = mini.length;
+
+  const header = Buffer.alloc(512, 0xff);
+  Buffer.from('d0cf11e0a1b11ae1', 'hex').copy(header);
+  header.fill(0, 8, 0x4c);
+  header.writeUInt16LE(0x3e, 0x18);
+  header.writeUInt16LE(3, 0x1a);
+  header.writeUInt16LE(0xfffe, 0x1c);
+  header.writeUInt16LE(9, 0x1e);
+  header.writeUInt16LE(6, 0x20);
+  header.writeUInt32LE(1, 0x2c);
+  header.writeUInt32LE(dirStart, 0x30);
+  header.writeUInt32LE(4096, 0x38);
+  header.writeUInt32LE(miniFatStart, 0x3c);
+  header.writeUInt32LE(miniFatSectors, 0x40);
+  header.writeUInt32LE(0xfffffffe, 0x44);
+  header.writeUInt32LE(0, 0x4c);
+
+  const sector = (values: number[]) => {
+    const buffer = Buffer.alloc(512, 0xff);
+    values.forEach((value, i) => buffer.writeUInt32LE(value >>> 0, i * 4));
+    return buffer;
+  };
+  const directory = Buffer.alloc(dirSectors * 512);
+  entries.forEach((entry, i) => {
+    const offset = i * 128;
+    directory.write(`${entry.name}\0`, offset, 'utf16le');
+    directory.writeUInt16LE((entry.name.length + 1) * 2, offset + 0x40);
+    directory[offset + 0x42] = entry.type;
+    directory[offset + 0x43] = 1;
+    directory.writeUInt32LE(NONE, offset + 0x44);
+    directory.writeUInt32LE(entry.right, offset + 0x48);
+    directory.writeUInt32LE(entry.child, offset + 0x4c);
+    directory.writeUInt32LE(entry.start, offset + 0x74);
+    directory.writeUInt32LE(entry.size, offset + 0x78);
+  });
+  return Buffer.concat([
+    header,
+    sector(fat),
+    directory,
+    ...Array.from({ length: miniFatSectors }, (_, i) => sector(miniFat.slice(i * 128, (i + 1) * 128))),
+    Buffer.concat([mini, Buffer.alloc(miniSectors * 512 - mini.length)])
+  ]);
+}
+
+const unicode = (text: string) => Buffer.from(`${text}\0`, 'utf16le');
+
+function msgProperties(sent: Date): Buffer {
+  const properties = Buffer.alloc(48);
+  const fileTime = BigInt(sent.getTime() + 11644473600000) * 10000n;
+  properties.writeUInt32LE(0x00390040, 32);
+  properties.writeBigUInt64LE(fileTime, 40);
+  return properties;
+}
+
+async function pageCount(pdf: Buffer | undefined): Promise<number> {
+  return (await PDFDocument.load(pdf!)).getPageCount();
+}
+
+describe('Document conversion', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('reads .eml headers, bodies and attachments, leaving out inline images', () => {
+    const email = parseEml(Buffer.from(EML, 'latin1'));
+
+    expect(email).toMatchObject({
+      fromName: 'Dr Anna Lee',
+      fromAddress: 'anna.lee@northside.example',
+      to: ['claims@insurer.example', 'Case Manager <cm@insurer.example>'],
+      subject: 'Re: Jane Citizen – report',
+      date: '2023-08-01T00:00:00.000Z',
+      text: 'Please find my report attached. She remains unfit – review in 2 weeks.'
+    });
+    expect(email.html).toContain('cid:logo@northside');
+    expect(email.attachments.map(a => [a.filename, a.contentType, a.content.toString()])).toEqual([
+      ['report.pdf', 'application/pdf', '%PDF-1.7 report']
+    ]);
+  });
+
+  it('decodes RFC 2231 attachment names in their declared charset', () => {
+    const named = (filename: string) => [
+      'Content-Type: multipart/mixed; boundary="outer"',
+      '',
+      '--outer',
+      'Content-Type: application/pdf',
+      `Content-Disposition: attachment; ${filename}`,
+      '',
+      '%PDF-1.7',
+      '--outer--',
+      ''
+    ].join('\r\n');
+
+    const [utf8] = parseEml(Buffer.from(named("filename*=utf-8''R%C3%A9port%20final.pdf"), 'latin1')).attachments;
+    const [latin1] = parseEml(Buffer.from(named("filename*=iso-8859-1''R%E9port.pdf"), 'latin1')).attachments;
+
+    expect(utf8.filename).toBe('Réport final.pdf');
+    expect(latin1.filename).toBe('Réport.pdf');
+  });
+
+  it('reads Outlook .msg properties and attachments from the compound file', () => {
+    const email = parseMsg(compoundFile({
+      '__substg1.0_0037001F': unicode('Certificate of capacity'),
+      '__substg1.0_0C1A001F': unicode('Mark Chen'),
+      '__substg1.0_5D01001F': unicode('mark.chen@orthopaedics.example'),
+      '__substg1.0_0E04001F': unicode('Claims; Case Manager'),
+      '__substg1.0_1000001F': unicode('Updated certificate attached.'),
+      '__properties_version1.0': msgProperties(new Date('2023-09-04T03:30:00.000Z')),
+      '__attach_version1.0_#00000000/__substg1.0_3707001F': unicode('certificate.pdf'),
+      '__attach_version1.0_#00000000/__substg1.0_370E001F': unicode('application/pdf'),
+      '__attach_version1.0_#00000000/__substg1.0_37010102': Buffer.from('%PDF-1.4 certificate')
+    }));
+
+    expect(email).toMatchObject({
+      fromName: 'Mark Chen',
+      fromAddress: 'mark.chen@orthopaedics.example',
+      to: ['Claims', 'Case Manager'],
+      subject: 'Certificate of capacity',
+      date: '2023-09-04T03:30:00.000Z',
+      text: 'Updated certificate attached.',
+      html: null
+    });
+    expect(email.attachments).toEqual([{ filename: 'certificate.pdf', contentType: 'application/pdf', content: Buffer.from('%PDF-1.4 certificate') }]);
+  });
+
+  it('converts images frame by frame and text without LibreOffice', async () => {
+    expect(resolveMimeType('application/octet-stream', 'RE Claim.MSG')).toBe('application/vnd.ms-outlook');
+    expect(resolveMimeType('image/tiff', 'scan.tif')).toBe('image/tiff');
+    expect(resolveMimeType('application/zip', 'archive.zip')).toBeNull();
+
+    const frame = (background: string) => sharp({ create: { width: 200, height: 300, channels: 3, background } }).tiff().toBuffer();
+    const tiff = await sharp([await frame('#ffffff'), await frame('#eeeeee')], { join: { animated: true } }).tiff().toBuffer();
+    const image = await handleDocument(tiff, 'image/tiff');
+    expect(image.method).toBe('image');
+    expect(await pageCount(image.data)).toBe(2);
+
+    const text = await handleDocument(Buffer.from(Array.from({ length: 120 }, (_, i) => `Line ${i + 1} “quoted” – ok`).join('\n')), 'text/plain');
+    expect(text.method).toBe('text');
+    expect(await pageCount(text.data)).toBe(3);
+
+    const email = await handleDocument(Buffer.from(EML, 'latin1'), 'message/rfc822');
+    expect(email).toMatchObject({ success: true, method: 'text' });
+
+    expect((await handleDocument(Buffer.from('not a spreadsheet'), 'application/vnd.ms-excel')).success).toBe(false);
+  });
+
+  it('stores the PDF in place of the upload and records the conversion', async () => {
+    (storageService.getFileContent as jest.Mock).mockResolvedValue(Buffer.from('Progress notes'));
+    const upload: any = {
+      clientFileId: 'notes-1',
+      originalName: 'notes.txt',
+      storedPath: '/documents/notes-1-original.txt',
+      type: 'text/plain',
+      format: { mimeType: 'text/plain', extension: 'txt' }
+    };
+    expect(needsConversion(upload)).toBe(true);
+
+    const converted = await convertToPdf(upload);
+
+    expect(storageService.storeFile).toHaveBeenCalledWith(expect.any(Buffer), 'notes-1');
+    expect(converted).toMatchObject({
+      storedPath: '/documents/notes-1',
+      filename: 'notes-1',
+      format: { mimeType: 'application/pdf', extension: 'pdf' },
+      conversion: { method: 'text', sourceMimeType: 'text/plain', originalPath: '/documents/notes-1-original.txt' }
+    });
+    expect(needsConversion(converted)).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    getFileContent: jest.fn(),
+    storeFile: jest.fn(async (_content: Buffer, filename: string) => `/documents/${filename}`)
+  }
+}));
+// qpdf is not installed where the tests run: 'secret' opens the file, as qpdf would report it
+jest.mock('node-qpdf2', () => ({
+  decrypt: jest.fn(async ({ output, password }: { output: string; password?: string }) => {
+    if (password !== 'secret') throw 'qpdf: /tmp/doc/temp: invalid password\n';
+    await require('fs/promises').writeFile(output, '%PDF-1.7 decrypted');
+    return Buffer.alloc(0);
+  })
+}));
+
+import { PDFDocument, PDFName } from 'pdf-lib';
+import { decrypt } from 'node-qpdf2';
+import { storageService } from '../../utils/storage';
+import { decryptStoredPdf, needsDecryptionCheck } from '../../services/documentDecryption';
+
+async function pdf(encrypted: boolean): Promise<Buffer> {
+  const document = await PDFDocument.create();
+  document.addPage();
+  if (encrypted) {
+    document.context.trailerInfo.Encrypt = document.context.register(document.context.obj({ Filter: PDFName.of('Standard'), V: 4, R: 4 }));
+  }
+  return Buffer.from(await document.save({ useObjectStreams: false }));
+}
+
+const upload: any = {
+  clientFileId: 'scan-1',
+  originalName: 'scan.pdf',
+  storedPath: '/documents/scan-1',
+  status: 'stored',
+  format: { mimeType: 'application/pdf', extension: 'pdf' }
+};
+
+describe('Document decryption', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('leaves PDFs that are not encrypted alone', async () => {
+    (storageService.getFileContent as jest.Mock).mockResolvedValue(await pdf(false));
+
+    expect(needsDecryptionCheck(upload)).toBe(true);
+    expect(needsDecryptionCheck({ ...upload, conversion: { method: 'text' } })).toBe(false);
+    expect(await decryptStoredPdf(upload, ['secret'])).toEqual({ outcome: 'not_encrypted', document: upload });
+    expect(decrypt).not.toHaveBeenCalled();
+  });
+
+  it('tries the file and batch passwords, then none, and stores the decrypted PDF', async () => {
+    (storageService.getFileContent as jest.Mock).mockResolvedValue(await pdf(true));
+
+    const { outcome, document } = await decryptStoredPdf(upload, ['wrong', 'secret']);
+
+    expect(outcome).toBe('decrypted');
+    expect((decrypt as jest.Mock).mock.calls.map(([settings]) => settings.password)).toEqual(['wrong', 'secret']);
+    expect(storageService.storeFile).toHaveBeenCalledWith(Buffer.from('%PDF-1.7 decrypted'), 'scan-1');
+    expect(document).toMatchObject({ status: 'stored', storedPath: '/documents/scan-1', size: 18, fileSize: 18 });
+  });
+
+  it('parks the document when no password opens it', async () => {
+    (storageService.getFileContent as jest.Mock).mockResolvedValue(await pdf(true));
+
+    const { outcome, document } = await decryptStoredPdf(upload, ['wrong']);
+
+    expect(outcome).toBe('password_required');
+    expect((decrypt as jest.Mock).mock.calls.map(([settings]) => settings.password)).toEqual(['wrong', '']);
+    expect(document.status).toBe('password_required');
+    expect(storageService.storeFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,118 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    getDocumentsForPatient: jest.fn(async () => []),
+    getDocument: jest.fn(),
+    getFileContent: jest.fn(),
+    updateDocument: jest.fn(async () => true),
+    deleteDocument: jest.fn(async () => true)
+  }
+}));
+jest.mock('../../services/vectorStore', () => ({
+  removeFileFromVectorStore: jest.fn(async () => true)
+}));
+
+import { storageService } from '../../utils/storage';
+import { removeFileFromVectorStore } from '../../services/vectorStore';
+import {
+  detectDuplicate,
+  flagDuplicate,
+  hashFileContent,
+  hashStoredDocument,
+  resolveDuplicate,
+  signatureSimilarity,
+  textSignature
+} from '../../services/documentDuplicates';
+import { DocumentAlertType } from '../../shared/types';
+
+const LETTER = [
+  'Dear Dr Nguyen, thank you for referring Ms Jane Citizen, a 43 year old storeperson, who injured',
+  'her right shoulder on 3 February 2023 while lifting a heavy box of stock onto a high shelf at work.',
+  'She reports constant aching pain with sharp pain on overhead reaching and difficulty sleeping on the',
+  'right side. Examination showed painful arc between 70 and 120 degrees with weakness of resisted',
+  'external rotation. Ultrasound confirmed a full thickness supraspinatus tear. I have recommended',
+  'arthroscopic rotator cuff repair and she remains unfit for her pre-injury duties until reviewed.'
+];
+
+const layout = (lines: string[]): any => ({ content: lines.join('\n'), pages: [{ pageNumber: 1, lines: lines.map(content => ({ content })) }] });
+
+const document = (clientFileId: string, overrides: any = {}): any => ({
+  clientFileId,
+  silknotePatientUuid: 'patient-1',
+  title: `${clientFileId}.pdf`,
+  originalName: `${clientFileId}.pdf`,
+  status: 'complete',
+  uploadDate: '2024-01-01T00:00:00.000Z',
+  alerts: [],
+  content: { analysisResult: null, extractedSchemas: [], enrichedSchemas: [], pageImages: [] },
+  ...overrides
+});
+
+describe('Document duplicates', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('scores re-scans of the same text as near duplicates and different letters apart', () => {
+    const original = textSignature(layout(LETTER))!;
+    const rescan = textSignature(layout([...LETTER.slice(0, 5), 'arthroscopic rotator cuff repair and she remains unfit for her pre-injury duties until reviewed']))!;
+    const other = textSignature(layout(LETTER.map(line => line.split(' ').reverse().join(' '))))!;
+
+    expect(original).toHaveLength(64);
+    expect(textSignature(layout(['Fax cover sheet, 2 pages']))).toBeNull();
+    expect(signatureSimilarity(original, rescan)).toBeGreaterThanOrEqual(0.9);
+    expect(signatureSimilarity(original, other)).toBeLessThan(0.2);
+  });
+
+  it('flags a later upload of the same file as an exact duplicate of the earliest copy', () => {
+    const hash = hashFileContent(Buffer.from('%PDF-1.7 referral letter'));
+    const first = document('letter-1', { hash, uploadDate: '2024-01-01T00:00:00.000Z' });
+    const second = document('letter-2', { hash, uploadDate: '2024-02-01T00:00:00.000Z' });
+    const upload = document('letter-3', { hash, uploadDate: '2024-03-01T00:00:00.000Z', status: 'stored' });
+
+    expect(flagDuplicate(first, [second])).toBeNull();
+    expect(flagDuplicate(upload, [second, first])).toEqual({ clientFileId: 'letter-1', match: 'exact', similarity: 1 });
+    expect(upload.alerts).toEqual([expect.objectContaining({
+      type: DocumentAlertType.DUPLICATE_DOCUMENT,
+      description: 'Duplicate of "letter-1.pdf": the files are identical',
+      acknowledged: false
+    })]);
+  });
+
+  it('hashes documents stored without a hash, from the original of a converted file', async () => {
+    const content = Buffer.from('PK referral.docx');
+    (storageService.getFileContent as jest.Mock).mockResolvedValue(content);
+    const earlier = document('letter-1', { hash: hashFileContent(content), uploadDate: '2024-01-01T00:00:00.000Z' });
+    const attachment = document('letter-2', {
+      uploadDate: '2024-02-01T00:00:00.000Z',
+      status: 'stored',
+      conversion: { method: 'libreoffice', sourceMimeType: 'application/msword', originalPath: '/documents/letter-2-original.docx', convertedAt: '2024-02-01T00:00:00.000Z' }
+    });
+
+    expect(await hashStoredDocument(attachment, [earlier])).toEqual({ clientFileId: 'letter-1', match: 'exact', similarity: 1 });
+    expect(storageService.getFileContent).toHaveBeenCalledWith('/documents/letter-2-original.docx');
+    expect(attachment.hash).toBe(earlier.hash);
+
+    (storageService.getFileContent as jest.Mock).mockClear();
+    expect(await hashStoredDocument(attachment, [earlier])).toBeNull();
+    expect(storageService.getFileContent).not.toHaveBeenCalled();
+  });
+
+  it('checks analysed documents against the fileset once and keeps dismissed duplicates apart', async () => {
+    const original = document('letter-1', { content: { ...document('x').content, analysisResult: layout(LETTER) } });
+    const rescan = document('scan-1', { status: 'processing', content: { ...document('x').content, analysisResult: layout(LETTER) } });
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue([{ ...original, content: undefined }, rescan]);
+    (storageService.getDocument as jest.Mock).mockResolvedValue(original);
+
+    expect(await detectDuplicate(rescan, 'user-1')).toEqual({ clientFileId: 'letter-1', match: 'near', similarity: 1 });
+    expect(rescan.content.textSignature).toHaveLength(64);
+    expect(rescan.alerts[0].description).toBe('Possible duplicate of "letter-1.pdf": 100% of the text matches');
+    expect(await detectDuplicate(rescan, 'user-1')).toBeNull();
+
+    const dismissed = await resolveDuplicate('user-1', rescan, 'dismiss');
+    expect(dismissed?.duplicateOf).toMatchObject({ clientFileId: 'letter-1', dismissed: true });
+    expect(dismissed?.alerts?.[0].acknowledged).toBe(true);
+    expect(storageService.updateDocument).toHaveBeenCalledWith('user-1', 'patient-1', dismissed);
+
+    expect(await resolveDuplicate('user-1', dismissed!, 'merge')).toBeNull();
+    expect(removeFileFromVectorStore).toHaveBeenCalledWith('patient-1', 'scan-1', 'user-1');
+    expect(storageService.deleteDocument).toHaveBeenCalledWith('user-1', 'patient-1', 'scan-1');
+  });
+});
@@ -0,0 +1,120 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    getFileContent: jest.fn(),
+    storeFile: jest.fn(async (_content: Buffer, filename: string) => filename),
+    getDocumentsForPatient: jest.fn(async () => []),
+    updateDocument: jest.fn(async () => true),
+    deleteDocument: jest.fn(async () => true),
+    deleteVectorEntries: jest.fn(async () => 0),
+    deleteTimelineEvents: jest.fn(async () => 0)
+  }
+}));
+jest.mock('../../services/patientService', () => ({
+  addFileToPatient: jest.fn(async (_patient: string, document: any) => document)
+}));
+jest.mock('../../services/vectorStore', () => ({
+  removeFileFromVectorStore: jest.fn(async () => true)
+}));
+// Published as an ES module only; PDF decryption is not used here
+jest.mock('node-qpdf2', () => ({ info: jest.fn(), decrypt: jest.fn() }));
+
+import sharp from 'sharp';
+import { PDFDocument } from 'pdf-lib';
+import { storageService } from '../../utils/storage';
+import * as patientService from '../../services/patientService';
+import { removeFileFromVectorStore } from '../../services/vectorStore';
+import { combineDocuments, isSettled, mergeDocuments, suggestGroupings } from '../../services/documentGrouping';
+
+const document = (clientFileId: string, originalName: string, uploadDate: string, overrides: any = {}): any => ({
+  clientFileId,
+  silknotePatientUuid: 'patient-1',
+  originalName,
+  title: originalName,
+  storedPath: `${clientFileId}-blob`,
+  status: 'complete',
+  uploadDate,
+  alerts: [],
+  content: { analysisResult: null, extractedSchemas: [], enrichedSchemas: [], pageImages: [] },
+  ...overrides
+});
+
+async function pdfWithPages(widths: number[]): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  widths.forEach(width => pdf.addPage([width, 800]));
+  return Buffer.from(await pdf.save());
+}
+
+describe('Document grouping', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('suggests numbered sequences and images uploaded together', () => {
+    const suggestions = suggestGroupings([
+      document('img-1', 'IMG001.jpg', '2024-05-01T09:00:00.000Z'),
+      document('img-3', 'IMG003.jpg', '2024-05-01T09:00:20.000Z'),
+      document('img-2', 'IMG002.jpg', '2024-05-01T09:00:10.000Z'),
+      document('img-9', 'IMG009.jpg', '2024-05-01T09:00:30.000Z'),
+      document('photo-a', 'wound.png', '2024-05-02T10:00:00.000Z'),
+      document('photo-b', 'dressing.png', '2024-05-02T10:01:00.000Z'),
+      document('report', 'report.pdf', '2024-05-02T10:00:30.000Z'),
+      document('scan-1', 'scan1.pdf', '2024-05-03T10:00:00.000Z', { mergedInto: 'merged-1', status: 'merged' }),
+      document('scan-2', 'scan2.pdf', '2024-05-03T10:00:00.000Z', { mergedInto: 'merged-1', status: 'merged' })
+    ]);
+
+    expect(suggestions).toEqual([
+      { clientFileIds: ['img-1', 'img-2', 'img-3'], reason: 'filename_sequence' },
+      { clientFileIds: ['photo-a', 'photo-b'], reason: 'upload_time' }
+    ]);
+  });
+
+  it('only merges sources whose processing has finished', () => {
+    expect(isSettled(document('img-1', 'IMG001.jpg', '2024-05-01T09:00:00.000Z'))).toBe(true);
+    expect(isSettled(document('img-2', 'IMG002.jpg', '2024-05-01T09:00:10.000Z', { status: 'queued' }))).toBe(false);
+    expect(isSettled(document('img-3', 'IMG003.jpg', '2024-05-01T09:00:20.000Z', { status: 'processing' }))).toBe(false);
+  });
+
+  it('combines images and chosen PDF pages in the order given', async () => {
+    const png = await sharp({ create: { width: 300, height: 400, channels: 3, background: '#ffffff' } }).png().toBuffer();
+    const files: Record<string, Buffer> = { 'photo-blob': png, 'letter-blob': await pdfWithPages([500, 600, 700]) };
+    (storageService.getFileContent as jest.Mock).mockImplementation(async (ref: string) => files[ref]);
+    const sources = [document('photo', 'photo.png', ''), document('letter', 'letter.pdf', '')];
+
+    const { content, pageCount } = await combineDocuments([
+      { clientFileId: 'letter', pages: [3, 1] },
+      { clientFileId: 'photo' },
+      { clientFileId: 'letter', pages: [2] }
+    ], sources);
+
+    expect(pageCount).toBe(4);
+    const merged = await PDFDocument.load(content);
+    expect(merged.getPages().map(page => page.getWidth())).toEqual([700, 500, 300, 600]);
+    await expect(combineDocuments([{ clientFileId: 'letter', pages: [4] }], sources)).rejects.toThrow('Page 4 is outside letter.pdf');
+  });
+
+  it('stores the merged document and hides its sources', async () => {
+    (storageService.getFileContent as jest.Mock).mockImplementation(async () => pdfWithPages([500]));
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue([
+      document('bundle-p1-1', 'bundle.pdf', '', { parentClientFileId: 'bundle' }),
+      document('other-p1-1', 'other.pdf', '', { parentClientFileId: 'other' })
+    ]);
+    const sources = [document('scan-1', 'scan1.pdf', ''), document('bundle', 'bundle.pdf', '', { status: 'split' })];
+
+    const result = await mergeDocuments('user-1', 'patient-1', sources, [{ clientFileId: 'scan-1' }, { clientFileId: 'bundle' }]);
+
+    expect(result.document).toMatchObject({
+      originalName: 'scan1-bundle.pdf',
+      status: 'stored',
+      pageCount: 2,
+      sourceClientFileIds: ['scan-1', 'bundle']
+    });
+    expect(result.document.hash).toHaveLength(64);
+    expect(storageService.storeFile).toHaveBeenCalledWith(expect.any(Buffer), result.document.clientFileId);
+    expect(patientService.addFileToPatient).toHaveBeenCalledWith('patient-1', result.document, 'user-1');
+    expect(result.removedChildren).toEqual(['bundle-p1-1']);
+    expect(result.sources.map(source => [source.clientFileId, source.status, source.mergedInto])).toEqual([
+      ['scan-1', 'merged', result.document.clientFileId],
+      ['bundle', 'merged', result.document.clientFileId]
+    ]);
+    expect(removeFileFromVectorStore).toHaveBeenCalledWith('patient-1', 'bundle', 'user-1');
+    expect(storageService.deleteTimelineEvents).toHaveBeenCalledWith('user-1', 'patient-1', 'scan-1');
+  });
+});
@@ -0,0 +1,104 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    getDocumentsForPatient: jest.fn(async () => []),
+    deleteDocument: jest.fn(async () => true)
+  }
+}));
+jest.mock('../../services/patientService', () => ({
+  addFileToPatient: jest.fn(async (_patient: string, document: any) => document),
+  updateFileForPatient: jest.fn(async () => undefined)
+}));
+jest.mock('../../socket', () => ({
+  io: { to: jest.fn(() => ({ emit: jest.fn() })) }
+}));
+
+import { storageService } from '../../utils/storage';
+import * as patientService from '../../services/patientService';
+import { buildChildDocument, saveChildDocuments, segmentPages } from '../../services/documentSegmentation';
+
+const gp = { firstName: 'Anna', familyName: 'Lee', providerOrganization: 'Northside Medical Centre' };
+const surgeon = { firstName: 'Mark', familyName: 'Chen', providerRole: 'Orthopaedic Surgeon', providerOrganization: 'Sydney Orthopaedics' };
+
+const page = (pageNumber: number, fields: any, lines: string[] = []): any => ({
+  pageNumber,
+  confidence: 0.9,
+  azureAnalysis: { lines: lines.map(content => ({ content })) },
+  ...fields
+});
+
+// A GP letter, a two-page surgeon's report, a certificate from the same GP and a
+// continuation page of an insurer letter with no header of its own
+const bundle = [
+  page(1, { category: 'CLINICAL_NOTES', documentTitle: 'GP Referral', documentDate: '01/03/2023', author: gp }),
+  page(2, { category: 'MEDICAL_REPORT', documentTitle: 'Orthopaedic Report', documentDate: '15/04/2023', author: surgeon }),
+  page(3, { category: 'MEDICAL_REPORT', documentDate: null, author: null }),
+  page(4, { category: 'WORKCOVER_CERTIFICATE', documentTitle: 'Certificate of Capacity', documentDate: '20/04/2023', author: gp }),
+  page(5, { category: 'INSURANCE_FORM', documentTitle: 'Claim Update', author: null }, ['Claim 12345', 'Page 1 of 2']),
+  page(6, { category: 'CLINICAL_NOTES', documentDate: '02/05/2023', author: gp }, ['Page 2 of 2'])
+];
+
+const parent: any = {
+  clientFileId: 'bundle-1',
+  silknotePatientUuid: 'patient-1',
+  originalName: 'insurer-bundle.pdf',
+  title: 'Insurer bundle',
+  storedPath: 'bundle-1',
+  status: 'complete',
+  category: 'CLINICAL_NOTES',
+  hash: 'abc',
+  alerts: [],
+  content: { analysisResult: { pages: [] }, extractedSchemas: bundle, enrichedSchemas: [], pageImages: [] }
+};
+
+describe('Document segmentation', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('finds document boundaries from author, date, category and page markers', () => {
+    expect(segmentPages(bundle).map(s => [s.startPage, s.endPage, s.category, s.documentDate, s.author?.familyName ?? null])).toEqual([
+      [1, 1, 'CLINICAL_NOTES', '01/03/2023', 'Lee'],
+      [2, 3, 'MEDICAL_REPORT', '15/04/2023', 'Chen'],
+      [4, 4, 'WORKCOVER_CERTIFICATE', '20/04/2023', 'Lee'],
+      [5, 6, 'INSURANCE_FORM', '02/05/2023', 'Lee']
+    ]);
+    expect(segmentPages(bundle.slice(1, 3))).toHaveLength(1);
+  });
+
+  it('builds children that cover a page range of the parent file', () => {
+    const child = buildChildDocument(parent, segmentPages(bundle)[1]);
+
+    expect(child).toMatchObject({
+      clientFileId: 'bundle-1-p2-3',
+      parentClientFileId: 'bundle-1',
+      pageRange: { start: 2, end: 3 },
+      storedPath: 'bundle-1',
+      status: 'complete',
+      category: 'MEDICAL_REPORT',
+      title: 'Orthopaedic Report',
+      author: 'Mark Chen',
+      authorOrganization: 'Sydney Orthopaedics',
+      pageCount: 2,
+      hash: undefined
+    });
+    expect(child.content.analysisResult).toBeNull();
+    expect(child.content.extractedSchemas.map(p => p.pageNumber)).toEqual([2, 3]);
+  });
+
+  it('keeps children whose page range is unchanged and removes the rest', async () => {
+    const kept = { clientFileId: 'kept-child', silknoteDocumentUuid: 'kept-uuid', parentClientFileId: 'bundle-1', pageRange: { start: 1, end: 1 } };
+    const stale = { clientFileId: 'stale-child', parentClientFileId: 'bundle-1', pageRange: { start: 1, end: 3 } };
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue([kept, stale, { clientFileId: 'other', parentClientFileId: 'bundle-2' }]);
+
+    const children = await saveChildDocuments(parent, segmentPages(bundle), 'user-1');
+
+    expect(children.map(child => child.clientFileId)).toEqual(['kept-child', 'bundle-1-p2-3', 'bundle-1-p4-4', 'bundle-1-p5-6']);
+    expect(storageService.deleteDocument).toHaveBeenCalledTimes(1);
+    expect(storageService.deleteDocument).toHaveBeenCalledWith('user-1', 'patient-1', 'stale-child');
+    expect(patientService.updateFileForPatient).toHaveBeenCalledWith('patient-1', expect.objectContaining({ silknoteDocumentUuid: 'kept-uuid' }), 'user-1');
+    expect(patientService.addFileToPatient).toHaveBeenCalledTimes(3);
+
+    jest.clearAllMocks();
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue(children);
+    expect(await saveChildDocuments(parent, segmentPages(bundle.slice(1, 3)), 'user-1')).toEqual([]);
+    expect(storageService.deleteDocument).toHaveBeenCalledTimes(4);
+  });
+});
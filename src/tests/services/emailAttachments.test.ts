@@ -0,0 +1,110 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    getFileContent: jest.fn(),
+    storeFile: jest.fn(async (_content: Buffer, filename: string) => `/documents/${filename}`)
+  }
+}));
+jest.mock('../../services/patientService', () => ({
+  addFileToPatient: jest.fn(async (_patient: string, document: any) => document)
+}));
+jest.mock('../../services/vectorStore', () => ({
+  removeFileFromVectorStore: jest.fn(async () => true)
+}));
+// Published as an ES module only; PDF decryption is not used here
+jest.mock('node-qpdf2', () => ({ info: jest.fn(), decrypt: jest.fn() }));
+
+import { storageService } from '../../utils/storage';
+import * as patientService from '../../services/patientService';
+import { hashFileContent } from '../../services/documentDuplicates';
+import { extractEmailAttachments, isEmail } from '../../services/emailAttachments';
+
+const attachment = (filename: string, contentType: string, content: string) => [
+  '--mixed',
+  `Content-Type: ${contentType}; name="${filename}"`,
+  `Content-Disposition: attachment; filename="${filename}"`,
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from(content).toString('base64')
+];
+
+const EML = [
+  'From: "Dr Anna Lee" <anna.lee@northside.example>',
+  'To: claims@insurer.example',
+  'Cc: Case Manager <cm@insurer.example>',
+  'Subject: Jane Citizen - reports',
+  'Date: Tue, 1 Aug 2023 10:00:00 +1000',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="mixed"',
+  '',
+  '--mixed',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'Reports attached.',
+  ...attachment('report.pdf', 'application/pdf', '%PDF-1.7 report'),
+  ...attachment('referral.docx', 'application/octet-stream', 'PK docx'),
+  ...attachment('scans.zip', 'application/zip', 'PK zip'),
+  '--mixed--',
+  ''
+].join('\r\n');
+
+const email: any = {
+  clientFileId: 'email-1',
+  silknotePatientUuid: 'patient-1',
+  originalName: 'Jane Citizen - reports.eml',
+  storedPath: '/documents/email-1',
+  status: 'stored',
+  format: { mimeType: 'application/pdf', extension: 'pdf' },
+  conversion: { method: 'text', sourceMimeType: 'message/rfc822', originalPath: '/documents/email-1-original.eml', convertedAt: '2023-08-02T00:00:00.000Z' },
+  content: { analysisResult: null, extractedSchemas: [], enrichedSchemas: [], pageImages: [] }
+};
+
+describe('Email attachments', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('recognises emails before and after conversion', () => {
+    expect(isEmail(email)).toBe(true);
+    expect(isEmail({ ...email, conversion: undefined, format: { mimeType: 'application/vnd.ms-outlook', extension: 'msg' } })).toBe(true);
+    expect(isEmail({ ...email, conversion: undefined })).toBe(false);
+  });
+
+  it('stores supported attachments as documents linked to the email, with its sender and date', async () => {
+    (storageService.getFileContent as jest.Mock).mockResolvedValue(Buffer.from(EML, 'latin1'));
+    const earlier: any = { clientFileId: 'upload-1', originalName: 'report.pdf', status: 'complete', hash: hashFileContent(Buffer.from('%PDF-1.7 report')) };
+    const patient: any = { silknotePatientUuid: 'patient-1', fileSet: [earlier] };
+
+    const { document, attachments, skipped } = await extractEmailAttachments('user-1', patient, email);
+
+    expect(storageService.getFileContent).toHaveBeenCalledWith('/documents/email-1-original.eml');
+    expect(skipped).toEqual(['scans.zip']);
+    const details = {
+      fromName: 'Dr Anna Lee',
+      fromAddress: 'anna.lee@northside.example',
+      to: ['claims@insurer.example'],
+      cc: ['Case Manager <cm@insurer.example>'],
+      subject: 'Jane Citizen - reports',
+      sentDate: '2023-08-01T00:00:00.000Z'
+    };
+    expect(document).toMatchObject({ clientFileId: 'email-1', author: 'Dr Anna Lee', documentDate: '2023-08-01T00:00:00.000Z', email: details });
+
+    const [report, referral] = attachments;
+    expect(report).toMatchObject({
+      originalName: 'report.pdf',
+      status: 'stored',
+      attachedTo: 'email-1',
+      author: 'Dr Anna Lee',
+      documentDate: '2023-08-01T00:00:00.000Z',
+      email: details,
+      format: { mimeType: 'application/pdf', extension: 'pdf' },
+      storedPath: `/documents/${report.clientFileId}`,
+      duplicateOf: { clientFileId: 'upload-1', match: 'exact' }
+    });
+    expect(referral).toMatchObject({
+      originalName: 'referral.docx',
+      attachedTo: 'email-1',
+      format: { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: 'docx' },
+      storedPath: `/documents/${referral.clientFileId}-original.docx`
+    });
+    expect(patientService.addFileToPatient).toHaveBeenCalledTimes(2);
+    expect(patientService.addFileToPatient).toHaveBeenCalledWith('patient-1', report, 'user-1');
+  });
+});
@@ -0,0 +1,60 @@
+import { defaultUploadPriority, FairQueue } from '../../services/fairQueue';
+import { ProcessingPriority } from '../../utils/storage-interfaces';
+
+interface Job {
+  id: string;
+  user: string;
+  patient: string;
+  priority: ProcessingPriority;
+}
+
+const queueOf = (...jobs: Job[]) => {
+  const queue = new FairQueue<Job>(job => ({ silknoteUserUuid: job.user, silknotePatientUuid: job.patient, priority: job.priority }));
+  jobs.forEach(job => queue.push(job));
+  return queue;
+};
+
+const jobs = (count: number, user: string, patient: string, priority: ProcessingPriority = 'standard'): Job[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `${patient}-${i + 1}`, user, patient, priority }));
+
+const drain = (queue: FairQueue<Job>): string[] => {
+  const ids: string[] = [];
+  for (let job = queue.shift(); job; job = queue.shift()) ids.push(job.id);
+  return ids;
+};
+
+describe('Fair queue', () => {
+  it('lets a later user go next to one with a large upload, and their patients take turns', () => {
+    const queue = queueOf(...jobs(3, 'doctor-1', 'a'), ...jobs(2, 'doctor-1', 'b'), ...jobs(2, 'doctor-2', 'c'));
+
+    expect(queue.size).toBe(7);
+    expect(drain(queue)).toEqual(['a-1', 'c-1', 'b-1', 'c-2', 'a-2', 'b-2', 'a-3']);
+    expect(queue.size).toBe(0);
+  });
+
+  it('serves priorities by weight without starving background work', () => {
+    const queue = queueOf(...jobs(10, 'sync', 'a', 'background'), ...jobs(10, 'doctor-1', 'b', 'interactive'));
+
+    const first = drain(queue).slice(0, 7);
+
+    expect(first.filter(id => id.startsWith('b-'))).toHaveLength(6);
+    expect(first).toContain('a-1');
+  });
+
+  it('reports the order without taking anything', () => {
+    const queue = queueOf(...jobs(2, 'doctor-1', 'a'), ...jobs(1, 'doctor-2', 'b', 'interactive'));
+
+    const ordered = queue.ordered().map(job => job.id);
+
+    expect(ordered).toEqual(['b-1', 'a-1', 'a-2']);
+    expect(queue.size).toBe(3);
+    expect(drain(queue)).toEqual(ordered);
+  });
+
+  it('defaults uploads from the VSRX sync to background', () => {
+    expect(defaultUploadPriority(JSON.stringify({ sourceSystem: 'VSRX_SYNC', vsrxReference: 'vsrx-file-1' }))).toBe('background');
+    expect(defaultUploadPriority(JSON.stringify({ sourceSystem: 'UI' }))).toBe('interactive');
+    expect(defaultUploadPriority('not json')).toBe('interactive');
+    expect(defaultUploadPriority(undefined)).toBe('interactive');
+  });
+});
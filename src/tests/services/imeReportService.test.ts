@@ -0,0 +1,107 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    updateDocument: jest.fn(async () => true)
+  }
+}));
+
+jest.mock('../../services/retrieval/chunkIndex', () => ({
+  queryChunkIndexWithCitations: jest.fn()
+}));
+
+import { storageService } from '../../utils/storage';
+import { queryChunkIndexWithCitations } from '../../services/retrieval/chunkIndex';
+import { draftImeResponses, getImeRequest, ImeReportError, reviewImeResponse } from '../../services/imeReportService';
+import { buildImeReportDocument } from '../../services/export/imeReport';
+
+const imeRequest: any = {
+  clientFileId: 'ime-1',
+  category: 'INSURER_IME_REQUEST',
+  title: 'IME Request',
+  content: {
+    extractedSchemas: [
+      { insurerRequestForIME: { referenceNumber: 'CLM-7', addressedTo: 'Harbour Medicolegal', questions: [
+        { questionNumber: 2, questionText: 'What is the current work capacity?', responseText: null },
+        { questionNumber: 1, questionText: 'What is the diagnosis?', responseText: null }
+      ] } },
+      { insurerRequestForIME: { referenceNumber: null, addressedTo: null, questions: [
+        { questionNumber: 2, questionText: 'What is the current work capacity?', responseText: null }
+      ] } }
+    ]
+  }
+};
+
+const patient: any = {
+  silknotePatientUuid: 'patient-1',
+  name: 'Jane Citizen',
+  fileSet: [imeRequest, { clientFileId: 'gp-1', category: 'CLINICAL_NOTES', title: 'GP Notes' }]
+};
+
+describe('IME report service', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('collects the questions extracted across pages in question order', () => {
+    const request = getImeRequest(imeRequest);
+
+    expect(request?.referenceNumber).toBe('CLM-7');
+    expect(request?.questions.map(q => q.questionNumber)).toEqual([1, 2]);
+    expect(request?.questions[0].reviewStatus).toBe('unanswered');
+  });
+
+  it('drafts cited answers from the other documents and stores them on the request', async () => {
+    const content = 'Lumbar disc protrusion [3]. Confirmed on MRI [9].';
+    (queryChunkIndexWithCitations as jest.Mock).mockResolvedValue({
+      content,
+      citations: [{ clientFileId: 'gp-1', chunkId: 'gp-1:0', pageNumber: 4, boundingBoxes: [], quote: 'L4/5 protrusion', startIndex: content.indexOf('[3]'), score: 0.7 }]
+    });
+
+    const report = await draftImeResponses('user-1', patient, imeRequest, { questionNumbers: [1] });
+
+    expect(queryChunkIndexWithCitations).toHaveBeenCalledWith('patient-1', 'What is the diagnosis?', 'user-1', { clientFileIds: ['gp-1'], limit: 12 });
+    expect(report.questions[0]).toMatchObject({
+      responseText: 'Lumbar disc protrusion [1]. Confirmed on MRI.',
+      reviewStatus: 'draft',
+      confidence: 0.7
+    });
+    expect(report.questions[0].citations).toEqual([
+      { clientFileId: 'gp-1', pageNumber: 4, boundingBoxes: [], quote: 'L4/5 protrusion', text: 'Lumbar disc protrusion', confidence: 0.7 }
+    ]);
+    expect(report.questions[1].reviewStatus).toBe('unanswered');
+    expect(report.pendingReview).toBe(2);
+
+    const saved = (storageService.updateDocument as jest.Mock).mock.calls[0][2];
+    expect(saved.insurerRequestForIME.questions[0].responseText).toBe(report.questions[0].responseText);
+
+    const document = buildImeReportDocument(report, patient.fileSet, { practiceName: '', lines: [] });
+    expect(document.footnotes).toEqual(['GP Notes, page 4']);
+  });
+
+  it('marks changed answers as edited and refuses to approve an empty answer', () => {
+    const drafted: any = { ...imeRequest, insurerRequestForIME: { questions: [
+      { questionNumber: 1, questionText: 'What is the diagnosis?', responseText: 'Lumbar strain [1].', reviewStatus: 'draft', citations: [] },
+      { questionNumber: 2, questionText: 'What is the current work capacity?', reviewStatus: 'unanswered' }
+    ] } };
+
+    const edited = reviewImeResponse(drafted, 1, { responseText: 'Lumbar disc protrusion [1].' }, 'doctor-1', '2026-01-01T00:00:00.000Z');
+    expect(edited.insurerRequestForIME?.questions[0]).toMatchObject({ reviewStatus: 'edited', reviewedBy: 'doctor-1' });
+
+    expect(() => reviewImeResponse(drafted, 2, { reviewStatus: 'approved' }, 'doctor-1')).toThrow(ImeReportError);
+  });
+
+  it('leaves the bundle a request was split out of out of the evidence', async () => {
+    const childRequest = { ...imeRequest, clientFileId: 'bundle-1-p1-2', parentClientFileId: 'bundle-1', pageRange: { start: 1, end: 2 } };
+    const bundled: any = {
+      ...patient,
+      fileSet: [
+        { clientFileId: 'bundle-1', category: 'INSURER_CORRESPONDENCE', status: 'split', title: 'Insurer bundle' },
+        childRequest,
+        { clientFileId: 'bundle-1-p3-5', parentClientFileId: 'bundle-1', pageRange: { start: 3, end: 5 }, category: 'CLINICAL_NOTES', status: 'complete' },
+        { clientFileId: 'gp-1', category: 'CLINICAL_NOTES', status: 'complete' }
+      ]
+    };
+    (queryChunkIndexWithCitations as jest.Mock).mockResolvedValue({ content: 'No information.', citations: [] });
+
+    await draftImeResponses('user-1', bundled, childRequest, { questionNumbers: [1] });
+
+    expect((queryChunkIndexWithCitations as jest.Mock).mock.calls[0][3].clientFileIds).toEqual(['bundle-1-p3-5', 'gp-1']);
+  });
+});
@@ -0,0 +1,75 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {}
+}));
+
+import { detectInconsistencies } from '../../services/inconsistencyRules';
+
+const document = (clientFileId: string, title: string, pages: any[]): any => ({
+  clientFileId,
+  title,
+  status: 'complete',
+  content: { extractedSchemas: pages.map((page, index) => ({ pageNumber: index + 1, ...page })) }
+});
+
+const gpNotes = document('gp-1', 'GP Notes', [
+  { patient: { firstName: 'Jane', familyName: 'Citizen', dateOfBirth: '02/07/1980' } },
+  {
+    injury: { dateOfInjury: '03/02/2023', mechanism: 'Lifting a heavy box', affectedArea: 'Right shoulder' },
+    clinicalContent: { diagnosis: [{ condition: 'Rotator cuff tear', status: 'Confirmed' }] }
+  }
+]);
+
+const specialist = document('ortho-1', 'Orthopaedic Report', [
+  {
+    patient: { firstName: 'J', familyName: 'Citizen', dateOfBirth: '1980-07-02' },
+    injury: { dateOfInjury: '3.2.23', mechanism: 'Lifted a crate and felt a twist', affectedArea: 'Right shoulder' }
+  }
+]);
+
+const claimForm = document('claim-1', 'Claim Form', [
+  {
+    patient: { firstName: 'Janet', familyName: 'Smith', dateOfBirth: '07/02/1980' },
+    injury: { dateOfInjury: '13/02/2023', mechanism: 'Slipped on a wet floor', affectedArea: 'Left shoulder' }
+  },
+  { clinicalContent: { diagnosis: [{ condition: 'Rotator cuff tear', status: 'Excluded on ultrasound' }] } }
+]);
+
+describe('Inconsistency rules', () => {
+  it('finds nothing when the documents agree', () => {
+    expect(detectInconsistencies([gpNotes, specialist])).toEqual({ hasInconsistencies: false, inconsistencies: [] });
+  });
+
+  it('reports each contradiction with the values and pages of every document', () => {
+    const { hasInconsistencies, inconsistencies } = detectInconsistencies([gpNotes, specialist, claimForm]);
+
+    expect(hasInconsistencies).toBe(true);
+    expect(inconsistencies?.map(i => [i.type, i.severity])).toEqual([
+      ['Patient Details', 'Critical'],
+      ['Patient Details', 'High'],
+      ['Date of Injury', 'High'],
+      ['Laterality', 'High'],
+      ['Mechanism of Injury', 'Medium'],
+      ['Diagnosis', 'Medium']
+    ]);
+
+    const injuryDate = inconsistencies![2];
+    expect(injuryDate.description).toBe('The date of injury is recorded as 2023-02-03, 2023-02-13 in different documents');
+    expect(injuryDate.relatedDocuments).toEqual([
+      { id: 'gp-1', citationToVectorStoreFile: 'GP Notes', contradictingValues: ['03/02/2023'], pageNumbers: [2] },
+      { id: 'ortho-1', citationToVectorStoreFile: 'Orthopaedic Report', contradictingValues: ['3.2.23'], pageNumbers: [1] },
+      { id: 'claim-1', citationToVectorStoreFile: 'Claim Form', contradictingValues: ['13/02/2023'], pageNumbers: [1] }
+    ]);
+
+    expect(inconsistencies![1].relatedDocuments?.map(d => d.contradictingValues)).toEqual([['Jane Citizen'], ['J Citizen'], ['Janet Smith']]);
+    expect(inconsistencies![3].relatedDocuments?.find(d => d.id === 'claim-1')?.contradictingValues).toEqual(['Left shoulder']);
+    expect(inconsistencies![5].relatedDocuments?.map(d => [d.id, d.contradictingValues, d.pageNumbers])).toEqual([
+      ['gp-1', ['Rotator cuff tear'], [2]],
+      ['claim-1', ['Rotator cuff tear (Excluded on ultrasound)'], [2]]
+    ]);
+  });
+
+  it("leaves out documents flagged as another patient's", () => {
+    const misfiled = { ...claimForm, isIncorrectPatient: true };
+    expect(detectInconsistencies([gpNotes, specialist, misfiled])).toEqual({ hasInconsistencies: false, inconsistencies: [] });
+  });
+});
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: {
+    llm: {
+      openAICompatible: { baseUrl: '', apiKey: '' },
+      operations: {
+        extraction: { provider: 'FIXTURE', model: 'extraction-model' },
+        caseSummary: { provider: 'FIXTURE', model: 'summary-model' },
+        query: { provider: 'OPENAI_COMPATIBLE', model: 'query-model' }
+      }
+    }
+  }
+}));
+
+import { generateStructuredOutput } from '../../services/llmService';
+import { getLlmForOperation, registerLlmProvider, LlmProviderError } from '../../services/llm/llmProvider';
+import { createFixtureLlmProvider } from '../../services/llm/fixtureProvider';
+
+describe('LLM provider registry', () => {
+  test('resolves provider and model per operation', () => {
+    const extraction = getLlmForOperation('extraction');
+    expect(extraction.provider.name).toBe('FIXTURE');
+    expect(extraction.model).toBe('extraction-model');
+    expect(getLlmForOperation('caseSummary').model).toBe('summary-model');
+  });
+
+  test('fixture provider derives a deterministic value from the schema', async () => {
+    const schema = z.object({
+      patientName: z.string(),
+      pageCount: z.number(),
+      diagnoses: z.array(z.string()),
+      documentType: z.enum(['report', 'letter']),
+      author: z.object({ name: z.string().nullable() })
+    });
+
+    const first = await generateStructuredOutput('system', 'user', schema);
+    const second = await generateStructuredOutput('system', 'user', schema);
+    expect(first.result).toEqual({
+      patientName: '',
+      pageCount: 0,
+      diagnoses: [],
+      documentType: 'report',
+      author: { name: '' }
+    });
+    expect(second.result).toEqual(first.result);
+  });
+
+  test('registered fixtures are matched against the user prompt', async () => {
+    registerLlmProvider(createFixtureLlmProvider([
+      { match: /page 2/, result: { patientName: 'Jane Citizen' } },
+      { result: { patientName: 'fallback' } }
+    ]));
+
+    expect((await generateStructuredOutput('system', 'Extract page 2')).result).toEqual({ patientName: 'Jane Citizen' });
+    expect((await generateStructuredOutput('system', 'Extract page 3')).result).toEqual({ patientName: 'fallback' });
+  });
+
+  test('fixture provider does not expose an assistants client', () => {
+    expect(() => getLlmForOperation('extraction').provider.getClient()).toThrow(LlmProviderError);
+  });
+
+  test('OpenAI-compatible provider requires a base URL', () => {
+    expect(() => getLlmForOperation('query').provider.getClient()).toThrow(/OPENAI_COMPATIBLE_BASE_URL/);
+  });
+});
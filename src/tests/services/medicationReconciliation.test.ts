@@ -0,0 +1,111 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    getDocumentsForPatient: jest.fn(async () => []),
+    getDocument: jest.fn(),
+    updateDocument: jest.fn(async () => true)
+  }
+}));
+
+import { storageService } from '../../utils/storage';
+import {
+  buildMedicationReconciliation,
+  normaliseMedicationName,
+  refreshMedicationAlerts
+} from '../../services/medicationReconciliation';
+import { DocumentAlertType } from '../../shared/types';
+
+const page = (documentDate: string, clinicalContent: any) => ({ pageNumber: 1, documentDate, clinicalContent });
+
+const gpNotes: any = {
+  clientFileId: 'gp-1',
+  title: 'GP Notes',
+  status: 'complete',
+  content: { extractedSchemas: [
+    page('01/03/2023', {
+      medications: [
+        { name: 'Endone 5mg tablets', dosage: '5 mg', frequency: 'QID', status: 'Active', startDate: '01/03/2023' },
+        { name: 'Nurofen', dosage: '400 mg', frequency: 'TDS', status: 'Active' }
+      ],
+      allergies: [{ allergen: 'NSAIDs', reaction: 'Angioedema' }]
+    }),
+    page('01/05/2023', {
+      medications: [
+        { name: 'Oxycodone', dosage: '5 mg', frequency: 'BD', status: 'Current' },
+        { name: 'Nurofen', status: 'Ceased', endDate: '20/04/2023', reasonForCessation: 'Allergy' }
+      ]
+    })
+  ] }
+};
+
+const painClinic: any = {
+  clientFileId: 'pain-1',
+  title: 'Pain Clinic Letter',
+  status: 'complete',
+  alerts: [],
+  content: { extractedSchemas: [
+    page('10/05/2023', {
+      medications: [
+        { name: 'Palexia SR 50mg', dosage: '50 mg', frequency: 'BD', status: 'Commenced' },
+        { name: 'Lyrica', dosage: '75 mg', frequency: 'nocte', status: 'Active' }
+      ],
+      allergies: [{ allergen: 'Nil known' }]
+    })
+  ] }
+};
+
+describe('Medication reconciliation', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('normalises brand names to the generic drug', () => {
+    expect(normaliseMedicationName('Endone 5mg tablets')).toMatchObject({ generic: 'oxycodone', drugClass: 'opioid', known: true });
+    expect(normaliseMedicationName('Panadeine Forte')).toMatchObject({ generic: 'paracetamol/codeine', ingredients: ['paracetamol', 'codeine'] });
+    expect(normaliseMedicationName('Vitamin D 1000IU')).toMatchObject({ known: false });
+  });
+
+  it('tracks changes per drug and flags allergy conflicts and duplicate therapy', () => {
+    const reconciliation = buildMedicationReconciliation('patient-1', [gpNotes, painClinic]);
+
+    expect(reconciliation.medications.map(m => [m.name, m.status])).toEqual([
+      ['oxycodone', 'active'],
+      ['pregabalin', 'active'],
+      ['tapentadol', 'active'],
+      ['ibuprofen', 'ceased']
+    ]);
+    const oxycodone = reconciliation.medications[0];
+    expect(oxycodone.brandNames).toEqual(['Endone 5mg tablets']);
+    expect(oxycodone.changes.map(c => [c.type, c.date, c.to])).toEqual([
+      ['started', '2023-03-01', undefined],
+      ['dose_changed', '2023-05-01', '5 mg BD']
+    ]);
+    expect(reconciliation.medications[3].changes[1]).toMatchObject({ type: 'stopped', date: '2023-04-20', reason: 'Allergy' });
+    expect(reconciliation.allergies.map(a => a.allergen)).toEqual(['NSAIDs']);
+
+    expect(reconciliation.issues).toEqual([
+      expect.objectContaining({ type: 'allergy_conflict', medicationIds: ['ibuprofen'], allergen: 'NSAIDs', clientFileIds: ['gp-1'] }),
+      expect.objectContaining({ type: 'duplicate_therapy', medicationIds: ['oxycodone', 'tapentadol'], drugClass: 'opioid', clientFileIds: ['gp-1', 'pain-1'] })
+    ]);
+  });
+
+  it('raises new issues as alerts and drops unacknowledged alerts that no longer apply', async () => {
+    const stale = { type: DocumentAlertType.MEDICATION_CONFLICT, description: 'Old issue', source: 'SERVER_API_CALL', timestamp: '', acknowledged: false };
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue([{ ...painClinic, alerts: [stale] }]);
+
+    const changed = await refreshMedicationAlerts('user-1', 'patient-1');
+    expect(changed.get('pain-1')).toEqual([]);
+
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue([gpNotes, painClinic]);
+    const raised = await refreshMedicationAlerts('user-1', 'patient-1');
+    expect(raised.get('pain-1')?.map(alert => alert.description)).toEqual(['oxycodone, tapentadol are all current opioid medications']);
+    expect(raised.get('gp-1')).toHaveLength(2);
+    expect(storageService.updateDocument).toHaveBeenCalledTimes(3);
+  });
+
+  it("raises no alerts from documents flagged as another patient's", async () => {
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue([{ ...gpNotes, isIncorrectPatient: true }, painClinic]);
+
+    const changed = await refreshMedicationAlerts('user-1', 'patient-1');
+
+    expect(changed.size).toBe(0);
+    expect(storageService.updateDocument).not.toHaveBeenCalled();
+  });
+});
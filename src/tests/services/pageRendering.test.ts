@@ -0,0 +1,63 @@
+jest.mock('../../utils/storage', () => ({
+  pageCachePrefix: (patientUuid: string, clientFileId: string) => `pages/${patientUuid}/${clientFileId}/`,
+  storageService: {
+    getFileContent: jest.fn(async () => Buffer.from('%PDF-1.7')),
+    getCachedFile: jest.fn(async () => null),
+    storeCachedFile: jest.fn(async () => undefined)
+  }
+}));
+// GraphicsMagick is not installed where the tests run: every page rasterises to a blank A4 page at 150 dpi
+jest.mock('pdf2pic', () => ({
+  fromBuffer: jest.fn(() => jest.fn(async () => ({
+    buffer: await require('sharp')({ create: { width: 1240, height: 1754, channels: 3, background: '#ffffff' } }).png().toBuffer()
+  })))
+}));
+
+import sharp from 'sharp';
+import { fromBuffer } from 'pdf2pic';
+import { storageService } from '../../utils/storage';
+import { isPageImageSize, pageImageETag, renderPageImage } from '../../services/pageRendering';
+
+const document: any = {
+  clientFileId: 'report-1',
+  silknotePatientUuid: 'patient-1',
+  storedPath: '/documents/report-1',
+  hash: 'abc',
+  fileSize: 1024,
+  status: 'complete',
+  format: { mimeType: 'application/pdf', extension: 'pdf' }
+};
+
+describe('Page rendering', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('versions ETags by the stored file', () => {
+    expect(isPageImageSize('viewer')).toBe(true);
+    expect(isPageImageSize('toString')).toBe(false);
+    expect(pageImageETag(document, 2, 'viewer')).toBe(pageImageETag({ ...document }, 2, 'viewer'));
+    expect(pageImageETag(document, 2, 'viewer')).not.toBe(pageImageETag(document, 2, 'print'));
+    expect(pageImageETag(document, 2, 'viewer')).not.toBe(pageImageETag({ ...document, hash: 'def' }, 2, 'viewer'));
+  });
+
+  it('serves cached pages without rendering', async () => {
+    (storageService.getCachedFile as jest.Mock).mockResolvedValueOnce(Buffer.from('cached'));
+
+    const image = await renderPageImage(document, 2, 'thumbnail');
+
+    expect(image).toEqual({ content: Buffer.from('cached'), contentType: 'image/webp', etag: pageImageETag(document, 2, 'thumbnail') });
+    expect(fromBuffer).not.toHaveBeenCalled();
+    expect(storageService.getFileContent).not.toHaveBeenCalled();
+  });
+
+  it('renders a missing page as WebP at the requested size and caches it', async () => {
+    const image = await renderPageImage(document, 3, 'viewer');
+
+    expect(fromBuffer).toHaveBeenCalledWith(Buffer.from('%PDF-1.7'), expect.objectContaining({ density: 150 }));
+    const { format, width } = await sharp(image.content).metadata();
+    expect(format).toBe('webp');
+    expect(width).toBe(1200);
+    const [[key, content]] = (storageService.storeCachedFile as jest.Mock).mock.calls;
+    expect(key).toMatch(/^pages\/patient-1\/report-1\/3-viewer-[0-9a-f]{16}\.webp$/);
+    expect(content).toBe(image.content);
+  });
+});
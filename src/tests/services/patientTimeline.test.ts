@@ -0,0 +1,105 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    saveTimelineEvents: jest.fn(async () => true),
+    getTimelineEvents: jest.fn(async () => []),
+    getDocumentsForPatient: jest.fn(async () => []),
+    getDocument: jest.fn()
+  }
+}));
+
+import { storageService } from '../../utils/storage';
+import {
+  buildPatientTimeline,
+  extractDocumentTimeline,
+  filterTimeline,
+  getPatientTimeline,
+  parseTimelineDate
+} from '../../services/patientTimeline';
+
+const gpNotes: any = {
+  clientFileId: 'gp-1',
+  silknotePatientUuid: 'patient-1',
+  title: 'GP Notes',
+  category: 'CLINICAL_NOTES',
+  status: 'complete',
+  content: {
+    extractedSchemas: [
+      { pageNumber: 1, keyEvents: [
+        { date: '03/02/2023', event: 'Injured lifting boxes at work', description: 'Lower back pain' },
+        { date: '15/04/2023', event: 'Surgery', description: null }
+      ] },
+      { pageNumber: 2, workCapacity: { status: 'Modified duties', certifiedFrom: '06/02/2023', certifiedTo: '06/03/2023' } },
+      { pageNumber: 3, workCapacity: { status: 'Fit for full duties', certifiedFrom: '01/06/2023' } }
+    ]
+  }
+};
+
+const operationReport: any = {
+  clientFileId: 'op-1',
+  silknotePatientUuid: 'patient-1',
+  title: 'Operation Report',
+  category: 'SURGICAL_REPORT',
+  status: 'complete',
+  content: {
+    extractedSchemas: [
+      { pageNumber: 1, procedure: [{ name: 'L4/5 microdiscectomy', date: '2023-04-15', outcome: 'Uncomplicated' }] },
+      { pageNumber: 2, keyEvents: [{ date: '3.2.23', event: 'Workplace injury' }] }
+    ]
+  }
+};
+
+const entry = (document: any) => ({
+  silknoteUserUuid: 'user-1',
+  silknotePatientUuid: 'patient-1',
+  clientFileId: document.clientFileId,
+  builtAt: '2026-01-01T00:00:00.000Z',
+  events: extractDocumentTimeline(document)
+});
+
+describe('Patient timeline', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('parses day-first and ISO dates', () => {
+    expect(parseTimelineDate('3.2.23')).toBe('2023-02-03');
+    expect(parseTimelineDate('2023-04-15T00:00:00Z')).toBe('2023-04-15');
+    expect(parseTimelineDate('31/02/2023')).toBeNull();
+    expect(parseTimelineDate('early 2023')).toBeNull();
+  });
+
+  it('merges the same event reported by several documents and orders the certificates', () => {
+    const timeline = buildPatientTimeline('patient-1', [entry(gpNotes), entry(operationReport)]);
+
+    expect(timeline.events.map(event => [event.date, event.eventType])).toEqual([
+      ['2023-02-03', 'INJURY'],
+      ['2023-02-06', 'WORKCOVER_FIRST_CERTIFICATE'],
+      ['2023-04-15', 'SURGERY'],
+      ['2023-06-01', 'WORKCOVER_FINAL_CERTIFICATE']
+    ]);
+    const surgery = timeline.events[2];
+    expect(surgery).toMatchObject({ title: 'L4/5 microdiscectomy', source: 'procedure', description: 'Uncomplicated' });
+    expect(surgery.sources).toEqual([
+      { clientFileId: 'gp-1', documentTitle: 'GP Notes', pageNumbers: [1] },
+      { clientFileId: 'op-1', documentTitle: 'Operation Report', pageNumbers: [1] }
+    ]);
+    expect(timeline.documentCount).toBe(2);
+
+    const filtered = filterTimeline(timeline, { types: ['SURGERY', 'INJURY'], from: '2023-03-01' });
+    expect(filtered.events.map(event => event.eventType)).toEqual(['SURGERY']);
+  });
+
+  it("extracts completed documents that have no stored events, leaving out another patient's", async () => {
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue([
+      gpNotes,
+      { ...operationReport, status: 'processing' },
+      { ...operationReport, clientFileId: 'misfiled-1', isIncorrectPatient: true }
+    ]);
+    (storageService.getTimelineEvents as jest.Mock).mockResolvedValue([]);
+    (storageService.getDocument as jest.Mock).mockResolvedValue(gpNotes);
+
+    const timeline = await getPatientTimeline('user-1', 'patient-1');
+
+    expect(storageService.saveTimelineEvents).toHaveBeenCalledTimes(1);
+    expect((storageService.saveTimelineEvents as jest.Mock).mock.calls[0][0].clientFileId).toBe('gp-1');
+    expect(timeline.events).toHaveLength(4);
+  });
+});
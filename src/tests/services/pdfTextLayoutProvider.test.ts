@@ -0,0 +1,51 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { createPdfTextLayoutProvider } from '../../services/layout/pdfTextLayoutProvider';
+import { findAllTextLocations } from '../../services/analyzer/enrich-extraction';
+
+async function buildPdf(): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+
+  const first = pdfDoc.addPage([612, 792]);
+  first.drawText('Patient: Jane Citizen', { x: 72, y: 720, size: 12, font });
+  first.drawText('Date of injury 03/04/2023', { x: 72, y: 700, size: 12, font });
+
+  pdfDoc.addPage([612, 792]); // Blank page with no text layer
+
+  return Buffer.from(await pdfDoc.save());
+}
+
+describe('PDF text layout provider', () => {
+  test('returns pages, lines and words with inch polygons from the text layer', async () => {
+    const result = await createPdfTextLayoutProvider().analyzeLayout(await buildPdf());
+
+    expect(result.pages).toHaveLength(2);
+    const [page, blankPage] = result.pages!;
+    expect(page.width).toBe(8.5);
+    expect(page.height).toBe(11);
+    expect(page.unit).toBe('inch');
+    expect(page.lines!.map(line => line.content)).toEqual(['Patient: Jane Citizen', 'Date of injury 03/04/2023']);
+    expect(page.words!.map(word => word.content)).toContain('03/04/2023');
+    expect(Array.from(page.lines![0].words()).map(word => word.content)).toEqual(['Patient:', 'Jane', 'Citizen']);
+
+    // Top-left origin: the baseline at y=720pt sits 1 inch below the top of the page
+    const [topLeft, topRight, bottomRight] = page.words![0].polygon!;
+    expect(topLeft.x).toBeCloseTo(1, 2);
+    expect(bottomRight.y).toBeGreaterThan(1);
+    expect(topLeft.y).toBeLessThan(1);
+    expect(topRight.x).toBeGreaterThan(topLeft.x);
+
+    const word = page.words!.find(w => w.content === 'Jane')!;
+    expect(result.content.substr(word.span.offset, word.span.length)).toBe('Jane');
+
+    expect(blankPage.words).toHaveLength(0);
+  });
+
+  test('resolves text locations for extraction enrichment', async () => {
+    const result = await createPdfTextLayoutProvider().analyzeLayout(await buildPdf());
+    const locations = findAllTextLocations('Citizen', result, result.pages![0]);
+    expect(locations.length).toBeGreaterThan(0);
+    expect(locations[0].boundingBox.width).toBeGreaterThan(0);
+    expect(locations[0].boundingBox.height).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,70 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    getProcessingCheckpoints: jest.fn(),
+    saveProcessingCheckpoint: jest.fn(),
+    clearProcessingCheckpoints: jest.fn()
+  }
+}));
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: { retrieval: { backend: 'ASSISTANTS' } }
+}));
+
+import { storageService } from '../../utils/storage';
+import { loadDocumentCheckpoints, getFirstIncompleteStage } from '../../services/processingCheckpoints';
+
+const context = { silknoteUserUuid: 'user-1', silknotePatientUuid: 'patient-1', clientFileId: 'file-1' };
+
+function checkpoint(stage: string, key: string, data: any) {
+  return { ...context, stage, key, data, createdAt: new Date().toISOString() };
+}
+
+describe('processing checkpoints', () => {
+  const getCheckpoints = storageService.getProcessingCheckpoints as jest.Mock;
+  const analysisResult = { pages: [{ pageNumber: 1 }, { pageNumber: 2 }] };
+
+  test('starts at analyzing when nothing is saved', async () => {
+    getCheckpoints.mockResolvedValue([]);
+    const checkpoints = await loadDocumentCheckpoints(context);
+    expect(getFirstIncompleteStage(checkpoints)).toBe('analyzing');
+  });
+
+  test('stays at analyzing while a page extraction is missing', async () => {
+    getCheckpoints.mockResolvedValue([
+      checkpoint('analyzing', 'analysisResult', analysisResult),
+      checkpoint('analyzing', 'page-1', { pageNumber: 1 })
+    ]);
+    const checkpoints = await loadDocumentCheckpoints(context);
+    expect(checkpoints.pageExtractions[1]).toEqual({ pageNumber: 1 });
+    expect(getFirstIncompleteStage(checkpoints)).toBe('analyzing');
+  });
+
+  test('moves to extracting, then categorizing, as stages are saved', async () => {
+    const analysed = [
+      checkpoint('analyzing', 'analysisResult', analysisResult),
+      checkpoint('analyzing', 'page-1', { pageNumber: 1 }),
+      checkpoint('analyzing', 'page-2', { pageNumber: 2 })
+    ];
+    getCheckpoints.mockResolvedValue(analysed);
+    expect(getFirstIncompleteStage(await loadDocumentCheckpoints(context))).toBe('extracting');
+
+    getCheckpoints.mockResolvedValue([
+      ...analysed,
+      checkpoint('extracting', 'vectorStoreReceipt', { assistantId: 'a', vectorStoreId: 'vs', processedFiles: [] })
+    ]);
+    expect(getFirstIncompleteStage(await loadDocumentCheckpoints(context))).toBe('categorizing');
+  });
+
+  test('extracts again when the receipt was written by another retrieval backend', async () => {
+    getCheckpoints.mockResolvedValue([
+      checkpoint('analyzing', 'analysisResult', analysisResult),
+      checkpoint('analyzing', 'page-1', { pageNumber: 1 }),
+      checkpoint('analyzing', 'page-2', { pageNumber: 2 }),
+      checkpoint('extracting', 'vectorStoreReceipt', { assistantId: '', vectorStoreId: 'chunk-index', processedFiles: [], backend: 'CHUNK_INDEX' })
+    ]);
+    const checkpoints = await loadDocumentCheckpoints(context);
+    expect(checkpoints.vectorStoreReceipt).toBeNull();
+    expect(getFirstIncompleteStage(checkpoints)).toBe('extracting');
+  });
+});
@@ -0,0 +1,128 @@
+jest.mock('../../socket', () => {
+  const emit = jest.fn();
+  return { io: { to: jest.fn(() => ({ emit })), emit } };
+});
+jest.mock('../../config', () => ({ __esModule: true, default: {} }));
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    isInitialized: jest.fn(() => true),
+    enqueueProcessingJob: jest.fn(async (job: any) => job),
+    leaseProcessingJob: jest.fn(),
+    heartbeatProcessingJob: jest.fn(async () => true),
+    completeProcessingJob: jest.fn(async () => true),
+    failProcessingJob: jest.fn(async () => true),
+    retryProcessingJob: jest.fn(async () => true),
+    requeueExpiredProcessingJobs: jest.fn(async () => []),
+    getQueuedProcessingJobs: jest.fn(async () => [])
+  }
+}));
+jest.mock('../../services/centralRateLimiter', () => ({
+  centralRateLimiter: { getStatusInfo: jest.fn(async () => ({ tokenLimit: 1000, tokensUsed: 0 })) }
+}));
+jest.mock('../../services/patientService', () => ({
+  updateFileForPatient: jest.fn(async () => undefined)
+}));
+jest.mock('../../services/vectorStore', () => ({}));
+jest.mock('../../services/documentAnalyzer', () => ({}));
+jest.mock('../../services/retrieval/chunkIndex', () => ({}));
+
+import { io } from '../../socket';
+import { storageService } from '../../utils/storage';
+import * as patientService from '../../services/patientService';
+import { SequentialProcessingQueue } from '../../services/documentService';
+
+const queued = (clientFileId: string): any => ({
+  partialDoc: { clientFileId, status: 'queued' },
+  patientContext: { silknoteUserUuid: 'user-1', silknotePatientUuid: 'patient-1' },
+  filePath: `/documents/${clientFileId}`,
+  priority: 'interactive'
+});
+
+// Lets the queue run its batch: lease, process and record the outcome
+const settle = () => jest.advanceTimersByTimeAsync(0);
+
+describe('Processing queue', () => {
+  let attempts: number;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    attempts = 0;
+    (storageService.leaseProcessingJob as jest.Mock).mockImplementation(async (jobId: string) => ({ jobId, attempts: ++attempts, maxAttempts: 3 }));
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('retries a failed document with backoff and fails it once out of attempts', async () => {
+    const processDocument = jest.fn(async () => { throw new Error('Document Intelligence unavailable'); });
+    const queue = new SequentialProcessingQueue(processDocument);
+
+    await queue.add(queued('report-1'));
+    await settle();
+
+    expect(storageService.retryProcessingJob).toHaveBeenCalledWith(expect.any(String), 'Document Intelligence unavailable', expect.any(String));
+    expect((io as any).emit).toHaveBeenCalledWith('fileStatus', expect.objectContaining({ processingStage: 'retry_scheduled', attempt: 1, retryInSeconds: 60 }));
+    expect(queue.has('report-1')).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(processDocument).toHaveBeenCalledTimes(2);
+    expect(storageService.failProcessingJob).not.toHaveBeenCalled();
+    // Nothing terminal reaches the client or the document while a retry is pending
+    expect(patientService.updateFileForPatient).not.toHaveBeenCalled();
+    expect((io as any).emit).not.toHaveBeenCalledWith('fileStatus', expect.objectContaining({ status: 'error' }));
+
+    await jest.advanceTimersByTimeAsync(120 * 1000);
+    expect(processDocument).toHaveBeenCalledTimes(3);
+    expect(storageService.retryProcessingJob).toHaveBeenCalledTimes(2);
+    expect(storageService.failProcessingJob).toHaveBeenCalledTimes(1);
+    expect(patientService.updateFileForPatient).toHaveBeenCalledWith('patient-1', expect.objectContaining({
+      status: 'error',
+      category: 'ERROR',
+      alerts: [expect.objectContaining({ description: expect.stringContaining('Document Intelligence unavailable') })]
+    }), 'user-1');
+    expect((io as any).emit).toHaveBeenCalledWith('fileStatus', expect.objectContaining({ clientFileId: 'report-1', status: 'error' }));
+    expect(queue.has('report-1')).toBe(false);
+  });
+
+  it("stops retrying at the leased job's maxAttempts", async () => {
+    (storageService.leaseProcessingJob as jest.Mock).mockImplementation(async (jobId: string) => ({ jobId, attempts: ++attempts, maxAttempts: 2 }));
+    const processDocument = jest.fn(async () => { throw new Error('Document Intelligence unavailable'); });
+    const queue = new SequentialProcessingQueue(processDocument);
+
+    await queue.add(queued('report-3'));
+    await settle();
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(processDocument).toHaveBeenCalledTimes(2);
+    expect(storageService.retryProcessingJob).toHaveBeenCalledTimes(1);
+    expect(storageService.failProcessingJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('completes a document that succeeds on a retry', async () => {
+    const processDocument = jest.fn()
+      .mockRejectedValueOnce(new Error('LLM rate limited'))
+      .mockResolvedValueOnce(undefined);
+    const queue = new SequentialProcessingQueue(processDocument);
+
+    await queue.add(queued('report-2'));
+    await settle();
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(processDocument).toHaveBeenCalledTimes(2);
+    expect(storageService.completeProcessingJob).toHaveBeenCalledTimes(1);
+    expect(storageService.failProcessingJob).not.toHaveBeenCalled();
+  });
+
+  it('lets a bundle that ended split be queued again', async () => {
+    const processDocument = jest.fn(async (input: any) => { input.partialDoc.status = 'split'; });
+    const queue = new SequentialProcessingQueue(processDocument);
+
+    await queue.add(queued('bundle-1'));
+    await settle();
+    expect(queue.has('bundle-1')).toBe(false);
+
+    await queue.add(queued('bundle-1'));
+    await settle();
+    expect(processDocument).toHaveBeenCalledTimes(2);
+  });
+});
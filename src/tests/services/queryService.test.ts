@@ -0,0 +1,82 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    getDocumentsForPatient: jest.fn()
+  }
+}));
+
+jest.mock('../../services/retrieval/chunkIndex', () => ({
+  queryChunkIndexWithCitations: jest.fn()
+}));
+
+import { storageService } from '../../utils/storage';
+import { queryChunkIndexWithCitations } from '../../services/retrieval/chunkIndex';
+import { findUnknownDocuments, findUnresolvedDuplicates, processQuery } from '../../services/queryService';
+
+const request = {
+  query: 'What medication was commenced?',
+  silknotePatientUuid: 'patient-1',
+  clientFileIds: ['file-1', 'file-2'],
+  context: { maxResults: 4, minConfidence: 0.3 }
+};
+
+describe('query service', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('reports requested documents that do not belong to the patient', async () => {
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue([{ clientFileId: 'file-1' }]);
+
+    expect(await findUnknownDocuments('user-1', 'patient-1', ['file-1', 'file-9'])).toEqual(['file-9']);
+  });
+
+  it('reports requested documents that are unresolved duplicates', async () => {
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue([
+      { clientFileId: 'file-1' },
+      { clientFileId: 'file-2', duplicateOf: { clientFileId: 'file-1', match: 'exact' } },
+      { clientFileId: 'file-3', duplicateOf: { clientFileId: 'file-1', match: 'exact', dismissed: true } },
+      { clientFileId: 'file-4', duplicateOf: { clientFileId: 'file-1', match: 'exact' } }
+    ]);
+
+    const duplicates = await findUnresolvedDuplicates('user-1', 'patient-1', ['file-1', 'file-2', 'file-3']);
+
+    expect(duplicates.map(document => document.clientFileId)).toEqual(['file-2']);
+  });
+
+  it('scopes retrieval to the selected documents and maps citations to the QueryResponse shape', async () => {
+    const content = 'Lyrica was commenced [1]. It was increased a week later [2].';
+    (queryChunkIndexWithCitations as jest.Mock).mockResolvedValue({
+      content,
+      citations: [
+        { clientFileId: 'file-1', chunkId: 'file-1:0', pageNumber: 2, boundingBoxes: [{ x: 1, y: 2, width: 3, height: 0.2 }], quote: 'Lyrica 75mg', startIndex: content.indexOf('[1]'), score: 0.8 },
+        { clientFileId: 'file-2', chunkId: 'file-2:3', pageNumber: 1, boundingBoxes: [], quote: 'Lyrica 150mg', startIndex: content.indexOf('[2]'), score: 0.4 }
+      ]
+    });
+
+    const response = await processQuery('user-1', request);
+
+    expect(queryChunkIndexWithCitations).toHaveBeenCalledWith('patient-1', request.query, 'user-1', {
+      clientFileIds: ['file-1', 'file-2'],
+      limit: 4,
+      threshold: 0.3
+    });
+    expect(response.response).toBe(content);
+    expect(response.citations[0]).toEqual({
+      clientFileId: 'file-1',
+      pageNumber: 2,
+      boundingBoxes: [{ x: 1, y: 2, width: 3, height: 0.2 }],
+      quote: 'Lyrica 75mg',
+      text: 'Lyrica was commenced',
+      confidence: 0.8
+    });
+    expect(response.citations[1].text).toBe('It was increased a week later');
+    expect(response.confidence).toBeCloseTo(0.6);
+    expect(response.metadata.timestamp).toBeDefined();
+  });
+
+  it('answers without retrieval when no documents are selected', async () => {
+    const response = await processQuery('user-1', { ...request, clientFileIds: [] });
+
+    expect(queryChunkIndexWithCitations).not.toHaveBeenCalled();
+    expect(response.citations).toEqual([]);
+    expect(response.confidence).toBe(0);
+  });
+});
@@ -0,0 +1,108 @@
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: {
+    retrieval: { backend: 'CHUNK_INDEX', embeddingProvider: 'HASHING' },
+    llm: { operations: { query: { provider: 'FIXTURE', model: 'fixture' } } }
+  }
+}));
+
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    saveVectorEntries: jest.fn(),
+    getVectorEntries: jest.fn(),
+    getDocumentsForPatient: jest.fn(),
+    getDocument: jest.fn()
+  }
+}));
+
+jest.mock('../../services/vectorStore', () => ({
+  streamAssistantWithCitations: jest.fn()
+}));
+
+import { storageService } from '../../utils/storage';
+import { QueryStreamEvent } from '../../shared/types';
+import { registerLlmProvider } from '../../services/llm/llmProvider';
+import { createFixtureLlmProvider } from '../../services/llm/fixtureProvider';
+import { indexDocumentChunks } from '../../services/retrieval/chunkIndex';
+import { streamQuery } from '../../services/queryStream';
+
+function page(pageNumber: number, lines: string[]) {
+  return {
+    pageNumber,
+    spans: [],
+    words: [],
+    lines: lines.map((content, i) => ({
+      content,
+      polygon: [{ x: 1, y: 1 + i }, { x: 7, y: 1 + i }, { x: 7, y: 1.5 + i }, { x: 1, y: 1.5 + i }],
+      spans: []
+    }))
+  };
+}
+
+const document: any = {
+  clientFileId: 'file-1',
+  silknotePatientUuid: 'patient-1',
+  originalName: 'hospital-records.pdf',
+  status: 'complete',
+  content: {
+    analysisResult: {
+      content: '',
+      pages: [
+        page(1, ['Discharge summary', 'Patient commenced on Lyrica 75mg twice daily for neuropathic pain.']),
+        page(2, ['Orthopaedic review', 'MRI lumbar spine shows L4/5 disc protrusion.'])
+      ]
+    }
+  }
+};
+
+describe('query streaming', () => {
+  beforeAll(async () => {
+    (storageService.saveVectorEntries as jest.Mock).mockResolvedValue(true);
+    await indexDocumentChunks(document, 'user-1');
+    (storageService.getVectorEntries as jest.Mock).mockResolvedValue((storageService.saveVectorEntries as jest.Mock).mock.calls[0][3]);
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue([document]);
+    (storageService.getDocument as jest.Mock).mockResolvedValue(document);
+  });
+
+  test('streams content, citations as markers complete, and a final done event', async () => {
+    registerLlmProvider(createFixtureLlmProvider([
+      { result: 'Lyrica was commenced for neuropathic pain [1]. It was continued on discharge [1].' }
+    ]));
+
+    const events: QueryStreamEvent[] = [];
+    await streamQuery(
+      { silknotePatientUuid: 'patient-1', silknoteUserUuid: 'user-1', query: 'Lyrica neuropathic pain', streamId: 's-1' },
+      [{ send: event => events.push(event) }]
+    );
+
+    expect(events[0]).toEqual({ type: 'start', streamId: 's-1', silknotePatientUuid: 'patient-1' });
+    const content = events.filter(e => e.type === 'content').map(e => (e as any).content).join('');
+    expect(content).toBe('Lyrica was commenced for neuropathic pain [1]. It was continued on discharge [1].');
+    expect(events.filter(e => e.type === 'citation')).toHaveLength(2);
+
+    const done = events[events.length - 1] as Extract<QueryStreamEvent, { type: 'done' }>;
+    expect(done.type).toBe('done');
+    expect(done.content).toBe(content);
+    expect(done.citations.map(c => c.citationIndex)).toEqual([1, 2]);
+    expect(done.citations[0]).toMatchObject({
+      clientFileId: 'file-1',
+      pageNumber: 1,
+      quote: 'Patient commenced on Lyrica 75mg twice daily for neuropathic pain.',
+      boundingBoxes: [{ x: 1, y: 2, width: 6, height: 0.5 }]
+    });
+    expect(done.citations[1].startIndex).toBe(content.lastIndexOf('[1]'));
+  });
+
+  test('sends an error followed by done when the answer fails', async () => {
+    (storageService.getVectorEntries as jest.Mock).mockRejectedValueOnce(new Error('index unavailable'));
+
+    const events: QueryStreamEvent[] = [];
+    await streamQuery(
+      { silknotePatientUuid: 'patient-1', silknoteUserUuid: 'user-1', query: 'anything', streamId: 's-2' },
+      [{ send: event => events.push(event) }]
+    );
+
+    expect(events.map(e => e.type)).toEqual(['start', 'error', 'done']);
+    expect((events[1] as any).error).toBe('index unavailable');
+  });
+});
@@ -0,0 +1,75 @@
+jest.mock('../../utils/storage', () => ({
+  storageService: {
+    getDocumentsForPatient: jest.fn(async () => []),
+    getDocument: jest.fn()
+  }
+}));
+
+import { storageService } from '../../utils/storage';
+import { buildWorkCapacitySeries, classifyCapacity, getWorkCapacitySeries, parseHoursPerWeek } from '../../services/workCapacityService';
+
+const certificate = (clientFileId: string, page: any): any => ({
+  clientFileId,
+  silknotePatientUuid: 'patient-1',
+  title: 'Certificate of Capacity',
+  category: 'WORKCOVER_CERTIFICATE',
+  status: 'complete',
+  content: { extractedSchemas: [{ pageNumber: 1, ...page }] }
+});
+
+const gp = { firstName: 'Anna', familyName: 'Lee', providerRole: 'General Practitioner' };
+const surgeon = { firstName: 'Raj', familyName: 'Patel', providerRole: 'Orthopaedic Surgeon' };
+
+describe('Work capacity series', () => {
+  it('reads capacity and weekly hours as printed', () => {
+    expect(classifyCapacity('No capacity for pre-injury duties, fit for modified duties')).toBe('modified');
+    expect(classifyCapacity('Unfit for work')).toBe('none');
+    expect(classifyCapacity('Fit for pre-injury duties')).toBe('full');
+    expect(parseHoursPerWeek('20 hrs/week')).toBe(20);
+    expect(parseHoursPerWeek('4 hours per day, 3 days')).toBe(12);
+  });
+
+  it('orders certificates and finds gaps, capacity changes and certifier conflicts', () => {
+    const series = buildWorkCapacitySeries('patient-1', [
+      certificate('c3', { category: 'WORKCOVER_FINAL_CERTIFICATE', author: gp, workCapacity: { status: 'Fit for full duties', certifiedFrom: '15/03/2023', certifiedTo: '15/04/2023' } }),
+      certificate('c1', { category: 'WORKCOVER_FIRST_CERTIFICATE_OF_CAPACITY', author: gp, workCapacity: { status: 'No capacity', certifiedFrom: '01/02/2023', certifiedTo: '14/02/2023' } }),
+      certificate('c2', { author: gp, workCapacity: {
+        status: 'Modified duties', hours: '20 hours per week', certifiedFrom: '20/02/2023', certifiedTo: '20/03/2023',
+        restrictions: [{ restriction: 'No lifting over 5kg' }]
+      } }),
+      certificate('s1', { author: surgeon, workCapacity: { status: 'Unfit for work', certifiedFrom: '01/03/2023', certifiedTo: '31/03/2023' } })
+    ]);
+
+    expect(series.certificates.map(c => [c.clientFileId, c.kind, c.capacity])).toEqual([
+      ['c1', 'first', 'none'],
+      ['c2', 'unspecified', 'modified'],
+      ['s1', 'unspecified', 'none'],
+      ['c3', 'final', 'full']
+    ]);
+    expect(series.gaps).toEqual([
+      { from: '2023-02-15', to: '2023-02-19', days: 5, afterCertificateId: 'c1:1', beforeCertificateId: 'c2:1' }
+    ]);
+    expect(series.capacityChanges.map(change => [change.certificateId, change.direction])).toEqual([
+      ['c2:1', 'upgrade'],
+      ['s1:1', 'downgrade'],
+      ['c3:1', 'upgrade']
+    ]);
+    expect(series.capacityChanges[0].restrictionsAdded).toEqual(['No lifting over 5kg']);
+    expect(series.conflicts.map(conflict => [conflict.certificateIds, conflict.from, conflict.to])).toEqual([
+      [['c2:1', 's1:1'], '2023-03-01', '2023-03-20'],
+      [['s1:1', 'c3:1'], '2023-03-15', '2023-03-31']
+    ]);
+    expect(series.summary).toMatchObject({ firstCertifiedFrom: '2023-02-01', lastCertifiedTo: '2023-04-15', currentCapacity: 'full', uncertifiedDays: 5 });
+  });
+
+  it("leaves out certificates of documents flagged as another patient's", async () => {
+    (storageService.getDocumentsForPatient as jest.Mock).mockResolvedValue([
+      certificate('c1', { author: gp, workCapacity: { status: 'No capacity', certifiedFrom: '01/02/2023', certifiedTo: '14/02/2023' } }),
+      { ...certificate('x1', { author: gp, workCapacity: { status: 'Fit for full duties', certifiedFrom: '01/02/2023', certifiedTo: '28/02/2023' } }), isIncorrectPatient: true }
+    ]);
+
+    const series = await getWorkCapacitySeries('user-1', 'patient-1');
+
+    expect(series.certificates.map(c => c.clientFileId)).toEqual(['c1']);
+  });
+});
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ProcessingJob } from '../../utils/storage-interfaces';
+
+const testOutputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'processing-jobs-'));
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: { processing: { outputDir: testOutputDir } }
+}));
+
+const { createLocalDatabaseAdapter } = require('../../utils/local/local-database-adapter');
+
+function buildJob(overrides: Partial<ProcessingJob> = {}): ProcessingJob {
+  const now = new Date().toISOString();
+  return {
+    jobId: uuidv4(),
+    silknoteUserUuid: 'user-1',
+    silknotePatientUuid: 'patient-1',
+    clientFileId: `file-${uuidv4()}`,
+    filePath: '/tmp/file.pdf',
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: 2,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides
+  };
+}
+
+describe('Local DB adapter processing jobs', () => {
+  const adapter = createLocalDatabaseAdapter();
+
+  beforeAll(async () => {
+    await adapter.initialize();
+  });
+
+  afterAll(() => {
+    fs.rmSync(testOutputDir, { recursive: true, force: true });
+  });
+
+  test('returns the existing active job for the same document', async () => {
+    const job = buildJob();
+    const first = await adapter.enqueueProcessingJob(job);
+    const second = await adapter.enqueueProcessingJob({ ...job, jobId: uuidv4() });
+    expect(second.jobId).toBe(first.jobId);
+  });
+
+  test('only one worker can lease a queued job', async () => {
+    const job = await adapter.enqueueProcessingJob(buildJob());
+    const leased = await adapter.leaseProcessingJob(job.jobId, 'worker-a', 60000);
+    expect(leased.status).toBe('leased');
+    expect(leased.attempts).toBe(1);
+    expect(await adapter.leaseProcessingJob(job.jobId, 'worker-b', 60000)).toBeNull();
+    expect(await adapter.heartbeatProcessingJob(job.jobId, 'worker-b', 60000)).toBe(false);
+    expect(await adapter.heartbeatProcessingJob(job.jobId, 'worker-a', 60000)).toBe(true);
+  });
+
+  test('requeues expired leases and fails jobs out of attempts', async () => {
+    const job = await adapter.enqueueProcessingJob(buildJob());
+
+    await adapter.leaseProcessingJob(job.jobId, 'worker-a', -1);
+    let touched = await adapter.requeueExpiredProcessingJobs();
+    expect(touched.find((j: ProcessingJob) => j.jobId === job.jobId)?.status).toBe('queued');
+
+    await adapter.leaseProcessingJob(job.jobId, 'worker-a', -1);
+    touched = await adapter.requeueExpiredProcessingJobs();
+    expect(touched.find((j: ProcessingJob) => j.jobId === job.jobId)?.status).toBe('failed');
+  });
+
+  test('releases unexpired leases held by a stale owner prefix', async () => {
+    const job = await adapter.enqueueProcessingJob(buildJob());
+    await adapter.leaseProcessingJob(job.jobId, 'web.1-42-abcd', 60000);
+
+    expect((await adapter.requeueExpiredProcessingJobs()).some((j: ProcessingJob) => j.jobId === job.jobId)).toBe(false);
+    const touched = await adapter.requeueExpiredProcessingJobs('web.1-');
+    expect(touched.find((j: ProcessingJob) => j.jobId === job.jobId)?.status).toBe('queued');
+
+    const queued = await adapter.getQueuedProcessingJobs();
+    expect(queued.some((j: ProcessingJob) => j.jobId === job.jobId)).toBe(true);
+  });
+
+  test('holds a job queued for a retry until its runAfter has passed', async () => {
+    const job = await adapter.enqueueProcessingJob(buildJob());
+    await adapter.leaseProcessingJob(job.jobId, 'worker-a', 60000);
+
+    expect(await adapter.retryProcessingJob(job.jobId, 'Layout analysis timed out', new Date(Date.now() + 60000).toISOString())).toBe(true);
+    expect((await adapter.getQueuedProcessingJobs()).some((j: ProcessingJob) => j.jobId === job.jobId)).toBe(false);
+
+    await adapter.retryProcessingJob(job.jobId, 'Layout analysis timed out', new Date(Date.now() - 1).toISOString());
+    const retried = (await adapter.getQueuedProcessingJobs()).find((j: ProcessingJob) => j.jobId === job.jobId);
+    expect(retried).toMatchObject({ status: 'queued', lastError: 'Layout analysis timed out', leaseOwner: null });
+    expect((await adapter.leaseProcessingJob(job.jobId, 'worker-b', 60000)).attempts).toBe(2);
+  });
+});
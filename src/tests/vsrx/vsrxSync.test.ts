@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+
+// The sync is its own package; its dependencies are installed under VSRX-integration
+const syncDir = path.join(__dirname, '../../../VSRX-integration');
+const describeSync = fs.existsSync(path.join(syncDir, 'node_modules/form-data')) ? describe : describe.skip;
+
+interface CapturedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+describeSync('VSRX sync', () => {
+  let server: Server;
+  let baseUrl: string;
+  let basePath: string;
+  let requests: CapturedRequest[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body: Buffer.concat(chunks).toString('latin1') });
+        res.writeHead(202, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, accepted: 1, message: 'Accepted 1 file(s) for processing' }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(done => { server.close(() => done()); });
+
+  beforeEach(() => {
+    requests = [];
+    basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'vsrx-'));
+    fs.mkdirSync(path.join(basePath, 'notes'));
+    fs.writeFileSync(path.join(basePath, 'notes/referral.docx'), 'docx bytes');
+  });
+
+  afterEach(() => fs.rmSync(basePath, { recursive: true, force: true }));
+
+  it('uploads a file to the patient process endpoint and links the stored document', async () => {
+    const { VSRXSync } = require(path.join(syncDir, 'vsrx-sync'));
+    const sync = new VSRXSync({
+      MYSQL_HOST: 'localhost',
+      MYSQL_USER: 'sync',
+      MYSQL_PASSWORD: '',
+      MYSQL_DATABASE: 'silknote',
+      VSRX_FILE_BASE_PATH: basePath,
+      SilknoteDocAnalysis_SERVER_PATH: baseUrl,
+      SYNC_LOG_LEVEL: 'error'
+    });
+    const execute = jest.fn(async () => [[]]);
+    sync.connection = { execute };
+
+    await sync.addFile(
+      { silknotePatientUuid: 'patient-1', silknoteUserUuid: 'user-1' },
+      { id: '42', file_uuid: 'vsrx-file-1', file: 'notes/referral.docx', datestamp: new Date('2024-05-01'), description: 'Referral' }
+    );
+
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/api/patients/patient-1/process');
+    expect(request.headers['x-silknote-user-uuid']).toBe('user-1');
+    expect(request.headers['content-type']).toMatch(/^multipart\/form-data; boundary=/);
+    expect(request.body).toContain('name="file"; filename="referral.docx"');
+    expect(request.body).toContain('docx bytes');
+    expect(request.body).toContain('"sourceSystem":"VSRX_SYNC"');
+    expect(request.body).toMatch(/name="priority"\r\n\r\nbackground\r\n/);
+
+    const clientFileId = request.body.match(/name="clientFileId"\r\n\r\n([^\r]+)\r\n/)?.[1];
+    expect(clientFileId).toBeDefined();
+    expect(execute).toHaveBeenCalledWith(expect.stringContaining('clientFileId = ?'), ['vsrx-file-1', 'patient-1', clientFileId]);
+  });
+});
@@ -1,7 +1,7 @@
 import { MedicalDocument } from '../shared/types';
 import { SocketErrorCode } from '../middleware/error-handler';
 import { DisconnectReason } from 'socket.io';
-import { CaseSummaryApiResponse } from '../shared/types';
+import { CaseSummaryApiResponse, QueryStreamEvent } from '../shared/types';
 
 /**
  * Server -> Client Events
@@ -50,6 +50,9 @@ export interface ServerToClientEvents {
     details?: any;
   }) => void;
 
+  // Streamed vector search answers
+  queryStream: (data: QueryStreamEvent) => void;
+
   // Example: for document processing updates (you might already have something like this)
   documentStatusUpdate: (data: { 
     documentId: string; 
@@ -6,6 +6,7 @@ import config from '../../config'; // Added import for config
 import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid'; // For generating unique blob names
 import path from 'path'; // For getting file extension
+import { resolveMimeType } from '../handler-types';
 
 // Extend Express.Multer.File interface to include our custom properties
 declare global {
@@ -265,11 +266,11 @@ export function createAzureBlobFileAdapter(): FileStorageAdapter {
                 fileSize: config.processing.maxFileSize, // Use from config
             },
             fileFilter: (_req, file, cb) => {
-                if (file.mimetype === 'application/pdf') {
+                if (config.processing.allowedTypes.includes(resolveMimeType(file.mimetype, file.originalname) || file.mimetype)) {
                     cb(null, true);
                 } else {
-                    logger.warn(`Attempted upload of non-PDF file: ${file.originalname} (${file.mimetype})`);
-                    cb(new Error('Only PDF files are allowed.'));
+                    logger.warn(`Attempted upload of unsupported file: ${file.originalname} (${file.mimetype})`);
+                    cb(new Error(`Unsupported file type: ${file.mimetype}. Allowed: ${config.processing.allowedTypes.join(', ')}`));
                 }
             },
         });
@@ -300,6 +301,39 @@ export function createAzureBlobFileAdapter(): FileStorageAdapter {
         }
     };
 
+    // Cached files live in the same container, under a prefix that no document blob uses
+    const CACHE_PREFIX = 'cache/';
+
+    const getCachedFile = async (key: string): Promise<Buffer | null> => {
+        if (!containerClient) throw new Error('Azure Blob adapter not initialized.');
+        const blobClient = containerClient.getBlobClient(`${CACHE_PREFIX}${key}`);
+        try {
+            return await blobClient.downloadToBuffer();
+        } catch (error: any) {
+            if (error?.statusCode !== 404) logger.error(`Failed to read cached blob "${key}":`, error);
+            return null;
+        }
+    };
+
+    const storeCachedFile = async (key: string, content: Buffer): Promise<void> => {
+        if (!containerClient) throw new Error('Azure Blob adapter not initialized.');
+        await containerClient.getBlockBlobClient(`${CACHE_PREFIX}${key}`).uploadData(content);
+    };
+
+    const deleteCachedFiles = async (prefix: string): Promise<number> => {
+        if (!containerClient) throw new Error('Azure Blob adapter not initialized.');
+        let deleted = 0;
+        try {
+            for await (const blob of containerClient.listBlobsFlat({ prefix: `${CACHE_PREFIX}${prefix}` })) {
+                await containerClient.deleteBlob(blob.name);
+                deleted++;
+            }
+        } catch (error: any) {
+            logger.error(`Failed to delete cached blobs under "${prefix}":`, error);
+        }
+        return deleted;
+    };
+
     return {
         initialize,
         storeFile,
@@ -308,5 +342,8 @@ export function createAzureBlobFileAdapter(): FileStorageAdapter {
         finalizeUploadedFile,
         createPdfUploadMiddleware,
         getPdfPageCount, // Include if you implement it
+        getCachedFile,
+        storeCachedFile,
+        deleteCachedFiles,
     };
 } 
\ No newline at end of file
@@ -11,15 +11,22 @@
  * 
  * Supported Input Types:
  * - PDFs (including encrypted)
- * - Images (JPEG, PNG, TIFF, WebP)
- * - Office Documents (DOC, DOCX, RTF)
+ * - Images (JPEG, PNG, WebP, multi-page TIFF), one page per frame
+ * - Office Documents (DOC, DOCX, RTF, XLS, XLSX) via LibreOffice
+ * - Emails (Outlook .msg, .eml), rendered with their headers and attachment list
+ * - Plain text and HTML
+ * 
+ * Where LibreOffice is not installed, DOCX (through mammoth's raw text), emails, text and
+ * HTML fall back to plain text laid out by pdf-lib.
  * 
  * Output:
  * Always returns a HandlerResult containing:
  * {
  *   success: boolean,
  *   data?: Buffer,    // PDF format if successful
- *   error?: string    // Error message if failed
+ *   error?: string,   // Error message if failed
+ *   method?: string,  // How a non-PDF input was converted
+ *   passwordRequired?: boolean // Encrypted PDF the password given does not open
  * }
  * 
  * Consistency:
@@ -30,10 +37,11 @@
 
 import { Readable } from 'stream';
 import sharp from 'sharp';
-import { PDFDocument } from 'pdf-lib';
+import { PageSizes, PDFDocument, StandardFonts } from 'pdf-lib';
 import { convert } from 'libreoffice-convert';
+import mammoth from 'mammoth';
 import { promisify } from 'util';
-import { info, decrypt } from 'node-qpdf2';
+import { decrypt } from 'node-qpdf2';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
@@ -44,11 +52,17 @@ import {
   PDFMimeType,
   ImageMimeType,
   OfficeMimeType,
+  EmailMimeType,
+  TextMimeType,
   SupportedMimeType,
   PDF_MIME_TYPES,
   IMAGE_MIME_TYPES,
-  OFFICE_MIME_TYPES
+  OFFICE_MIME_TYPES,
+  EMAIL_MIME_TYPES,
+  TEXT_MIME_TYPES
 } from './handler-types';
+import { ParsedEmail, parseEmail } from './email-parser';
+import { wrapText } from './pdf-text';
 
 const convertAsync = promisify(convert);
 
@@ -59,15 +73,6 @@ async function createTempFile(buffer: Buffer): Promise<string> {
   return filePath;
 }
 
-async function cleanupTempFile(filePath: string): Promise<void> {
-  try {
-    await fs.unlink(filePath);
-    await fs.rmdir(path.dirname(filePath));
-  } catch (error) {
-    console.log('Cleanup error:', error);
-  }
-}
-
 async function streamToBuffer(stream: Readable): Promise<Buffer> {
   const chunks: Buffer[] = [];
   for await (const chunk of stream) {
@@ -76,76 +81,204 @@ async function streamToBuffer(stream: Readable): Promise<Buffer> {
   return Buffer.concat(chunks);
 }
 
+/**
+ * Whether a PDF is encrypted, read from its trailer without needing the password. Files
+ * that cannot be parsed are reported as not encrypted and fail where they are used.
+ */
+export async function isEncryptedPdf(buffer: Buffer): Promise<boolean> {
+  try {
+    return (await PDFDocument.load(buffer, { ignoreEncryption: true, updateMetadata: false })).isEncrypted;
+  } catch {
+    return false;
+  }
+}
+
+// Encrypted PDFs are decrypted with qpdf; those that only restrict printing or copying open with no password
 async function handlePDF(input: HandlerInput, options?: HandlerOptions): Promise<HandlerResult> {
   try {
     const buffer = Buffer.isBuffer(input) ? input : await streamToBuffer(input);
-    
+    if (!await isEncryptedPdf(buffer)) {
+      return { success: true, data: buffer };
+    }
+
     const tempPath = await createTempFile(buffer);
-    const encryptionInfo = await info({ input: tempPath });
-    
-    if (encryptionInfo !== "File is not encrypted") {
-      if (!options?.password) {
-        return { success: false, error: 'Password required for encrypted PDF' };
+    const decryptedPath = `${tempPath}_decrypted`;
+    try {
+      await decrypt({ input: tempPath, output: decryptedPath, password: options?.password });
+      return { success: true, data: await fs.readFile(decryptedPath) };
+    } catch (error) {
+      // node-qpdf2 rejects with qpdf's stderr when the password is missing or wrong
+      if (typeof error === 'string' && /invalid password/i.test(error)) {
+        return {
+          success: false,
+          error: options?.password ? 'Incorrect password for encrypted PDF' : 'Password required for encrypted PDF',
+          passwordRequired: true
+        };
       }
-      
-      const decryptedPath = `${tempPath}_decrypted`;
-      await decrypt({
-        input: tempPath,
-        output: decryptedPath,
-        password: options.password
-      });
-      
-      const decryptedBuffer = await fs.readFile(decryptedPath);
-      await cleanupTempFile(decryptedPath);
-      await cleanupTempFile(tempPath);
-      return { success: true, data: decryptedBuffer };
+      throw error;
+    } finally {
+      await fs.rm(path.dirname(tempPath), { recursive: true, force: true });
     }
-    
-    await cleanupTempFile(tempPath);
-    return { success: true, data: buffer };
   } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : 'PDF processing failed' };
+    return { success: false, error: error instanceof Error ? error.message : typeof error === 'string' ? error.trim() : 'PDF processing failed' };
   }
 }
 
+// Fits a page within A4 (or landscape A4 for wide images) while keeping the full image resolution
+function pageSizeFor(width: number, height: number): [number, number] {
+  const [short, long] = PageSizes.A4;
+  const [maxWidth, maxHeight] = width > height ? [long, short] : [short, long];
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return [width * scale, height * scale];
+}
+
 async function handleImage(input: HandlerInput): Promise<HandlerResult> {
   try {
     const buffer = Buffer.isBuffer(input) ? input : await streamToBuffer(input);
     
-    const image = sharp(buffer);
-    const metadata = await image.metadata();
+    const metadata = await sharp(buffer).metadata();
     
     if (!metadata.width || !metadata.height) {
       return { success: false, error: 'Invalid image dimensions' };
     }
     
     const pdfDoc = await PDFDocument.create();
-    const page = pdfDoc.addPage([metadata.width, metadata.height]);
-    
-    const pngBuffer = await image.png().toBuffer();
-    const pngImage = await pdfDoc.embedPng(pngBuffer);
     
-    page.drawImage(pngImage, {
-      x: 0,
-      y: 0,
-      width: metadata.width,
-      height: metadata.height
-    });
+    // Every frame of a multi-page TIFF becomes a page, upright according to its EXIF orientation
+    for (let frame = 0; frame < (metadata.pages || 1); frame++) {
+      const image = sharp(buffer, { page: frame }).rotate();
+      const { data, info: output } = metadata.format === 'jpeg'
+        ? await image.jpeg({ quality: 90 }).toBuffer({ resolveWithObject: true })
+        : await image.png().toBuffer({ resolveWithObject: true });
+      const embedded = metadata.format === 'jpeg' ? await pdfDoc.embedJpg(data) : await pdfDoc.embedPng(data);
+      const [width, height] = pageSizeFor(output.width, output.height);
+      pdfDoc.addPage([width, height]).drawImage(embedded, { x: 0, y: 0, width, height });
+    }
     
     const pdfBuffer = Buffer.from(await pdfDoc.save());
-    return { success: true, data: pdfBuffer };
+    return { success: true, data: pdfBuffer, method: 'image' };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Image processing failed' };
   }
 }
 
-async function handleOffice(input: HandlerInput): Promise<HandlerResult> {
+/**
+ * Lays plain text out on A4 pages with pdf-lib. Needs no external tools, so it is the
+ * fallback when LibreOffice is not available.
+ */
+export async function renderTextToPdf(text: string): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const [pageWidth, pageHeight] = PageSizes.A4;
+  const margin = 50;
+  const size = 10;
+  const lineHeight = 14;
+
+  const lines = wrapText(text, font, size, pageWidth - margin * 2);
+  let page = pdfDoc.addPage(PageSizes.A4);
+  let y = pageHeight - margin;
+  for (const line of lines) {
+    if (y < margin) {
+      page = pdfDoc.addPage(PageSizes.A4);
+      y = pageHeight - margin;
+    }
+    if (line) page.drawText(line, { x: margin, y, size, font });
+    y -= lineHeight;
+  }
+  return Buffer.from(await pdfDoc.save());
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h[1-6]|table|blockquote)>/gi, '\n')
+    .replace(/<(td|th)[^>]*>/gi, '\t')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&#(\d+);/g, (_match, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_match, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/gi, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+async function libreOfficeToPdf(buffer: Buffer): Promise<Buffer> {
+  return Buffer.from(await convertAsync(buffer, '.pdf', undefined));
+}
+
+async function handleOffice(input: HandlerInput, mimeType: OfficeMimeType): Promise<HandlerResult> {
+  const buffer = Buffer.isBuffer(input) ? input : await streamToBuffer(input);
+  try {
+    return { success: true, data: await libreOfficeToPdf(buffer), method: 'libreoffice' };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Office conversion failed';
+    if (mimeType !== 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+      return { success: false, error: message };
+    }
+    try {
+      const { value } = await mammoth.extractRawText({ buffer });
+      return { success: true, data: await renderTextToPdf(value), method: 'mammoth' };
+    } catch {
+      return { success: false, error: message };
+    }
+  }
+}
+
+function formatEmailHeaders(email: ParsedEmail): [string, string][] {
+  const from = [email.fromName, email.fromAddress && `<${email.fromAddress}>`].filter(Boolean).join(' ');
+  return [
+    ['From', from],
+    ['To', email.to.join('; ')],
+    ['Cc', email.cc.join('; ')],
+    ['Date', email.date ? new Date(email.date).toUTCString() : ''],
+    ['Subject', email.subject || '(No Subject)'],
+    ['Attachments', email.attachments.map(attachment => attachment.filename).join(', ')]
+  ].filter(([, value]) => value) as [string, string][];
+}
+
+async function handleEmail(input: HandlerInput, mimeType: EmailMimeType): Promise<HandlerResult> {
+  let email: ParsedEmail;
   try {
     const buffer = Buffer.isBuffer(input) ? input : await streamToBuffer(input);
-    const pdfBuffer = Buffer.from(await convertAsync(buffer, '.pdf', undefined));
-    return { success: true, data: pdfBuffer };
+    email = parseEmail(buffer, mimeType);
   } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : 'Office conversion failed' };
+    return { success: false, error: error instanceof Error ? error.message : 'Email parsing failed' };
+  }
+
+  const headers = formatEmailHeaders(email);
+  const html = `<!DOCTYPE html><html><head><meta charset="utf-8"></head><body style="font-family: Arial, sans-serif">`
+    + `<table style="margin-bottom: 16px">${headers.map(([label, value]) => `<tr><td><b>${label}:</b></td><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`
+    + (email.html ? email.html.replace(/<\/?(html|body)[^>]*>|<head[^>]*>[\s\S]*?<\/head>/gi, '') : `<div style="white-space: pre-wrap">${escapeHtml(email.text)}</div>`)
+    + `</body></html>`;
+  try {
+    return { success: true, data: await libreOfficeToPdf(Buffer.from(html, 'utf-8')), method: 'libreoffice' };
+  } catch {
+    const body = email.text || htmlToText(email.html || '');
+    const text = `${headers.map(([label, value]) => `${label}: ${value}`).join('\n')}\n\n${body}`;
+    return { success: true, data: await renderTextToPdf(text), method: 'text' };
+  }
+}
+
+async function handleText(input: HandlerInput, mimeType: TextMimeType): Promise<HandlerResult> {
+  const buffer = Buffer.isBuffer(input) ? input : await streamToBuffer(input);
+  try {
+    return { success: true, data: await libreOfficeToPdf(buffer), method: 'libreoffice' };
+  } catch {
+    try {
+      const text = buffer.toString('utf-8');
+      return { success: true, data: await renderTextToPdf(mimeType === 'text/html' ? htmlToText(text) : text), method: 'text' };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Text conversion failed' };
+    }
   }
 }
 
@@ -167,7 +300,15 @@ export async function handleDocument(
   }
   
   if (OFFICE_MIME_TYPES.includes(mimeType as OfficeMimeType)) {
-    return handleOffice(input);
+    return handleOffice(input, mimeType as OfficeMimeType);
+  }
+  
+  if (EMAIL_MIME_TYPES.includes(mimeType as EmailMimeType)) {
+    return handleEmail(input, mimeType as EmailMimeType);
+  }
+  
+  if (TEXT_MIME_TYPES.includes(mimeType as TextMimeType)) {
+    return handleText(input, mimeType as TextMimeType);
   }
   
   return { 
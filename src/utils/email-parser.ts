@@ -0,0 +1,388 @@
+/**
+ * Email Parser
+ *
+ * Reads saved emails into one shape for conversion: sender, recipients, subject, sent date,
+ * plain text and HTML bodies, and attachments with their content.
+ *
+ * - .eml files are RFC 822 messages with MIME parts (base64 and quoted-printable transfer
+ *   encodings, RFC 2047 encoded headers).
+ * - Outlook .msg files are OLE compound files holding MAPI properties, one stream per
+ *   property ("__substg1.0_<id><type>") and one storage per attachment.
+ *
+ * Inline images referenced from the HTML body (signatures, logos) are not attachments.
+ */
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string | null;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  fromName: string | null;
+  fromAddress: string | null;
+  to: string[];
+  cc: string[];
+  subject: string;
+  date: string | null;            // ISO timestamp the message was sent
+  text: string;
+  html: string | null;
+  attachments: EmailAttachment[];
+}
+
+// ---------------------------------------------------------------------------
+// .eml
+// ---------------------------------------------------------------------------
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+function decodeCharset(content: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(content);
+  } catch {
+    return content.toString('latin1');
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const cleaned = text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < cleaned.length; i++) {
+    const hex = cleaned.slice(i + 1, i + 3);
+    if (cleaned[i] === '=' && /^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(cleaned.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 2231 %XX escapes; the rest of the value is already one byte per character
+function decodePercentEscapes(text: string): Buffer {
+  return Buffer.from(text.replace(/%([0-9a-f]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+}
+
+// RFC 2047 encoded words, e.g. =?utf-8?B?...?=, with the whitespace between adjacent words dropped
+function decodeWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?[^?]+\?[bq]\?[^?]*\?=)/gi, '$1')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_match, charset: string, encoding: string, text: string) => {
+      const content = encoding.toLowerCase() === 'b'
+        ? Buffer.from(text, 'base64')
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeCharset(content, charset.split('*')[0]);
+    });
+}
+
+function splitHeaders(message: Buffer): { headers: Map<string, string>; body: Buffer } {
+  const text = message.toString('latin1');
+  // A part may have no headers at all, leaving only the blank line
+  const separator = /^\r?\n|\r?\n\r?\n/.exec(text);
+  const headerText = separator ? text.slice(0, separator.index) : text;
+  const body = separator ? message.subarray(separator.index + separator[0].length) : Buffer.alloc(0);
+
+  const headers = new Map<string, string>();
+  let last: string | null = null;
+  for (const line of headerText.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && last) {
+      headers.set(last, `${headers.get(last)} ${line.trim()}`);
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Keep the first of repeated headers, but let continuation lines reach the right one
+    last = headers.has(name) ? null : name;
+    if (last) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+function parseHeaderValue(raw: string | undefined): HeaderValue {
+  const [value, ...rest] = (raw || '').split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const equals = param.indexOf('=');
+    if (equals < 0) continue;
+    let name = param.slice(0, equals).trim().toLowerCase();
+    let paramValue = param.slice(equals + 1).trim().replace(/^"(.*)"$/, '$1');
+    // RFC 2231: filename*=utf-8''Report%20final.pdf
+    if (name.endsWith('*')) {
+      name = name.slice(0, -1);
+      const [charset, , encoded] = paramValue.split("'");
+      if (encoded !== undefined) paramValue = decodeCharset(decodePercentEscapes(encoded), charset);
+    }
+    params[name] = decodeWords(paramValue);
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function decodeBody(body: Buffer, encoding: string | undefined): Buffer {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.toString('latin1').replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body.toString('latin1'));
+    default:
+      return body;
+  }
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const text = body.toString('latin1');
+  const delimiter = `--${boundary}`;
+  const parts: Buffer[] = [];
+  let start = text.indexOf(delimiter);
+  while (start >= 0 && !text.startsWith(`${delimiter}--`, start)) {
+    const contentStart = text.indexOf('\n', start) + 1;
+    if (contentStart === 0) break;
+    const next = text.indexOf(delimiter, contentStart);
+    // The line break before a delimiter belongs to the delimiter
+    let end = next >= 0 ? next : text.length;
+    if (text[end - 1] === '\n') end--;
+    if (text[end - 1] === '\r') end--;
+    parts.push(body.subarray(contentStart, Math.max(contentStart, end)));
+    start = next;
+  }
+  return parts;
+}
+
+function splitAddresses(value: string | undefined): string[] {
+  return decodeWords(value || '')
+    .split(/[,;](?=(?:[^"]*"[^"]*")*[^"]*$)/)
+    .map(address => address.trim())
+    .filter(Boolean);
+}
+
+function parseAddress(value: string | undefined): { name: string | null; address: string | null } {
+  const [first] = splitAddresses(value);
+  if (!first) return { name: null, address: null };
+  const angle = /^(.*?)<([^>]+)>\s*$/.exec(first);
+  if (angle) return { name: angle[1].trim().replace(/^"(.*)"$/, '$1') || null, address: angle[2].trim() };
+  return first.includes('@') ? { name: null, address: first } : { name: first, address: null };
+}
+
+const toIsoDate = (value: string | number | undefined | null): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// A part that is not itself multipart
+interface MimeLeaf {
+  contentType: HeaderValue;
+  disposition: HeaderValue;
+  contentId: string;
+  filename: string | undefined;
+  content: Buffer;
+}
+
+function collectLeaves(part: Buffer, leaves: MimeLeaf[] = []): MimeLeaf[] {
+  const { headers, body } = splitHeaders(part);
+  const contentType = parseHeaderValue(headers.get('content-type') || 'text/plain');
+  if (contentType.value.startsWith('multipart/') && contentType.params['boundary']) {
+    for (const child of splitMultipart(body, contentType.params['boundary'])) collectLeaves(child, leaves);
+    return leaves;
+  }
+  const disposition = parseHeaderValue(headers.get('content-disposition'));
+  leaves.push({
+    contentType,
+    disposition,
+    contentId: (headers.get('content-id') || '').replace(/[<>]/g, '').trim(),
+    filename: disposition.params['filename'] || contentType.params['name'] || (contentType.value === 'message/rfc822' ? 'message.eml' : undefined),
+    content: decodeBody(body, headers.get('content-transfer-encoding'))
+  });
+  return leaves;
+}
+
+export function parseEml(message: Buffer): ParsedEmail {
+  const { headers } = splitHeaders(message);
+  const from = parseAddress(headers.get('from'));
+  const leaves = collectLeaves(message);
+  const isBody = (leaf: MimeLeaf, type: string) =>
+    leaf.contentType.value === type && leaf.disposition.value !== 'attachment' && !leaf.filename;
+
+  const htmlLeaf = leaves.find(leaf => isBody(leaf, 'text/html'));
+  const textLeaf = leaves.find(leaf => isBody(leaf, 'text/plain'));
+  const html = htmlLeaf ? decodeCharset(htmlLeaf.content, htmlLeaf.contentType.params['charset']) : null;
+  const inlineIds = new Set([...(html || '').matchAll(/cid:([^"'\s)>]+)/gi)].map(match => match[1]));
+
+  return {
+    fromName: from.name,
+    fromAddress: from.address,
+    to: splitAddresses(headers.get('to')),
+    cc: splitAddresses(headers.get('cc')),
+    subject: decodeWords(headers.get('subject') || ''),
+    date: toIsoDate(headers.get('date')),
+    text: textLeaf ? decodeCharset(textLeaf.content, textLeaf.contentType.params['charset']) : '',
+    html,
+    attachments: leaves
+      .filter(leaf => leaf !== htmlLeaf && leaf !== textLeaf && (leaf.disposition.value === 'attachment' || !!leaf.filename))
+      .filter(leaf => leaf.disposition.value === 'attachment' || !inlineIds.has(leaf.contentId))
+      .map(leaf => ({ filename: leaf.filename || 'attachment', contentType: leaf.contentType.value || null, content: leaf.content }))
+  };
+}
+
+// ---------------------------------------------------------------------------
+// .msg (OLE compound file)
+// ---------------------------------------------------------------------------
+
+const CFB_SIGNATURE = 'd0cf11e0a1b11ae1';
+const END_OF_CHAIN = 0xfffffffe;
+const NO_STREAM = 0xffffffff;
+
+interface CompoundEntry {
+  name: string;
+  type: number;                  // 1 storage, 2 stream, 5 root
+  left: number;
+  right: number;
+  child: number;
+  start: number;
+  size: number;
+}
+
+/**
+ * Reads the streams of a compound file into a map keyed by path, storages joined with "/"
+ */
+export function readCompoundFile(file: Buffer): Map<string, Buffer> {
+  if (file.subarray(0, 8).toString('hex') !== CFB_SIGNATURE) throw new Error('Not an OLE compound file');
+
+  const sectorSize = 1 << file.readUInt16LE(0x1e);
+  const miniSectorSize = 1 << file.readUInt16LE(0x20);
+  const miniStreamCutoff = file.readUInt32LE(0x38);
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+  const sectorIds = (sector: number) => Array.from({ length: sectorSize / 4 }, (_, i) => file.readUInt32LE(sectorOffset(sector) + i * 4));
+
+  // The FAT's own sectors: 109 in the header, then a chain of DIFAT sectors
+  const fatSectors: number[] = [];
+  for (let i = 0; i < 109; i++) fatSectors.push(file.readUInt32LE(0x4c + i * 4));
+  let difat = file.readUInt32LE(0x44);
+  for (let count = file.readUInt32LE(0x48); count > 0 && difat < END_OF_CHAIN; count--) {
+    const ids = sectorIds(difat);
+    fatSectors.push(...ids.slice(0, -1));
+    difat = ids[ids.length - 1];
+  }
+  const fat = fatSectors.filter(sector => sector < END_OF_CHAIN && sectorOffset(sector) < file.length).flatMap(sectorIds);
+
+  const chain = (start: number, table: number[]): number[] => {
+    const sectors: number[] = [];
+    for (let sector = start; sector < END_OF_CHAIN && sectors.length <= table.length; sector = table[sector] ?? END_OF_CHAIN) {
+      sectors.push(sector);
+    }
+    return sectors;
+  };
+  const readChain = (start: number, size?: number): Buffer => {
+    const content = Buffer.concat(chain(start, fat).map(sector => file.subarray(sectorOffset(sector), sectorOffset(sector) + sectorSize)));
+    return size === undefined ? content : content.subarray(0, size);
+  };
+
+  const directory = readChain(file.readUInt32LE(0x30));
+  const entries: CompoundEntry[] = [];
+  for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+    const nameLength = directory.readUInt16LE(offset + 0x40);
+    entries.push({
+      name: directory.toString('utf16le', offset, offset + Math.max(0, nameLength - 2)),
+      type: directory[offset + 0x42],
+      left: directory.readUInt32LE(offset + 0x44),
+      right: directory.readUInt32LE(offset + 0x48),
+      child: directory.readUInt32LE(offset + 0x4c),
+      start: directory.readUInt32LE(offset + 0x74),
+      size: directory.readUInt32LE(offset + 0x78)
+    });
+  }
+  const root = entries[0];
+  if (!root || root.type !== 5) throw new Error('Compound file has no root entry');
+
+  const miniStream = readChain(root.start, root.size);
+  const miniFatStart = file.readUInt32LE(0x3c);
+  const miniFatContent = miniFatStart < END_OF_CHAIN ? readChain(miniFatStart) : Buffer.alloc(0);
+  const miniFat = Array.from({ length: miniFatContent.length / 4 }, (_, i) => miniFatContent.readUInt32LE(i * 4));
+  const readMiniChain = (start: number, size: number): Buffer =>
+    Buffer.concat(chain(start, miniFat).map(sector => miniStream.subarray(sector * miniSectorSize, (sector + 1) * miniSectorSize))).subarray(0, size);
+
+  const streams = new Map<string, Buffer>();
+  const visited = new Set<number>();
+  const walk = (index: number, prefix: string) => {
+    if (index === NO_STREAM || visited.has(index) || !entries[index]) return;
+    visited.add(index);
+    const entry = entries[index];
+    walk(entry.left, prefix);
+    walk(entry.right, prefix);
+    const entryPath = `${prefix}${entry.name}`;
+    if (entry.type === 1) walk(entry.child, `${entryPath}/`);
+    if (entry.type === 2) streams.set(entryPath, entry.size < miniStreamCutoff ? readMiniChain(entry.start, entry.size) : readChain(entry.start, entry.size));
+  };
+  walk(root.child, '');
+  return streams;
+}
+
+// FILETIME: 100ns intervals since 1601-01-01
+const fileTimeToIso = (low: number, high: number): string | null => {
+  const ms = (high * 2 ** 32 + low) / 10000 - 11644473600000;
+  return ms > 0 ? toIsoDate(ms) : null;
+};
+
+export function parseMsg(file: Buffer): ParsedEmail {
+  const streams = readCompoundFile(file);
+  const property = (prefix: string, id: string): string | null => {
+    const unicode = streams.get(`${prefix}__substg1.0_${id}001F`);
+    if (unicode) return unicode.toString('utf16le').replace(/\0+$/, '');
+    const ansi = streams.get(`${prefix}__substg1.0_${id}001E`);
+    return ansi ? decodeCharset(ansi, 'windows-1252').replace(/\0+$/, '') : null;
+  };
+  const binary = (prefix: string, id: string): Buffer | null => streams.get(`${prefix}__substg1.0_${id}0102`) || null;
+
+  // Fixed-size properties of the message: a 32-byte header, then 16-byte entries
+  let date: string | null = null;
+  const properties = streams.get('__properties_version1.0');
+  if (properties) {
+    const times = new Map<number, string | null>();
+    for (let offset = 32; offset + 16 <= properties.length; offset += 16) {
+      if ((properties.readUInt32LE(offset) & 0xffff) !== 0x0040) continue;
+      times.set(properties.readUInt32LE(offset) >>> 16, fileTimeToIso(properties.readUInt32LE(offset + 8), properties.readUInt32LE(offset + 12)));
+    }
+    // Sent time, then delivery time
+    date = times.get(0x0039) || times.get(0x0e06) || null;
+  }
+
+  const html = binary('', '1013') ? decodeCharset(binary('', '1013')!, 'utf-8') : property('', '1013');
+  const senderAddresses = [property('', '5D01'), property('', '0C1F'), property('', '0065')];
+  const splitDisplay = (value: string | null) => (value || '').split(';').map(name => name.trim()).filter(Boolean);
+
+  const attachments: EmailAttachment[] = [];
+  const storages = new Set([...streams.keys()].filter(key => key.startsWith('__attach_version1.0_#')).map(key => key.split('/')[0]));
+  for (const storage of [...storages].sort()) {
+    const prefix = `${storage}/`;
+    const content = binary(prefix, '3701');
+    // Embedded messages and OLE objects have no binary data stream
+    if (!content) continue;
+    const contentId = property(prefix, '3712');
+    if (contentId && html?.includes(`cid:${contentId}`)) continue;
+    attachments.push({
+      filename: property(prefix, '3707') || property(prefix, '3704') || property(prefix, '3001') || 'attachment',
+      contentType: property(prefix, '370E'),
+      content
+    });
+  }
+
+  return {
+    fromName: property('', '0C1A') || property('', '0042'),
+    fromAddress: senderAddresses.find(address => address?.includes('@')) || null,
+    to: splitDisplay(property('', '0E04')),
+    cc: splitDisplay(property('', '0E03')),
+    subject: property('', '0037') || '',
+    date,
+    text: property('', '1000') || '',
+    html,
+    attachments
+  };
+}
+
+// Outlook saves .msg files; anything else is read as an RFC 822 message
+export const parseEmail = (file: Buffer, mimeType: string): ParsedEmail =>
+  mimeType === 'application/vnd.ms-outlook' ? parseMsg(file) : parseEml(file);
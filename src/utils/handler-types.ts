@@ -1,10 +1,13 @@
 // handler-types.ts
 import { Readable } from 'stream';
+import { ConversionMethod } from '../shared/types';
 
 export interface HandlerResult {
   success: boolean;
   data?: Buffer;
   error?: string;
+  method?: ConversionMethod; // Unset when the input was already a PDF
+  passwordRequired?: boolean; // Encrypted PDF that the password given, if any, does not open
 }
 
 export interface HandlerOptions {
@@ -30,12 +33,64 @@ export const OFFICE_MIME_TYPES = [
   'application/msword',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
   'application/rtf',
-  'text/rtf'
+  'text/rtf',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+] as const;
+export const EMAIL_MIME_TYPES = [
+  'message/rfc822',
+  'application/vnd.ms-outlook'
+] as const;
+export const TEXT_MIME_TYPES = [
+  'text/plain',
+  'text/html'
 ] as const;
 
 export type PDFMimeType = typeof PDF_MIME_TYPES[number];
 export type ImageMimeType = typeof IMAGE_MIME_TYPES[number];
 export type OfficeMimeType = typeof OFFICE_MIME_TYPES[number];
-export type SupportedMimeType = PDFMimeType | ImageMimeType | OfficeMimeType;
+export type EmailMimeType = typeof EMAIL_MIME_TYPES[number];
+export type TextMimeType = typeof TEXT_MIME_TYPES[number];
+export type SupportedMimeType = PDFMimeType | ImageMimeType | OfficeMimeType | EmailMimeType | TextMimeType;
+
+export const SUPPORTED_MIME_TYPES: SupportedMimeType[] = [
+  ...PDF_MIME_TYPES,
+  ...IMAGE_MIME_TYPES,
+  ...OFFICE_MIME_TYPES,
+  ...EMAIL_MIME_TYPES,
+  ...TEXT_MIME_TYPES
+];
+
+const EXTENSION_MIME_TYPES: Record<string, SupportedMimeType> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  webp: 'image/webp',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  rtf: 'application/rtf',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  eml: 'message/rfc822',
+  msg: 'application/vnd.ms-outlook',
+  txt: 'text/plain',
+  htm: 'text/html',
+  html: 'text/html'
+};
+
+/**
+ * The supported type of an upload, from its declared MIME type or, when browsers and
+ * mail clients send a generic one (.msg arrives as application/octet-stream), from the
+ * file extension. Null when the file cannot be converted.
+ */
+export function resolveMimeType(mimeType: string | undefined, filename: string): SupportedMimeType | null {
+  const declared = (mimeType || '').split(';')[0].trim().toLowerCase();
+  if ((SUPPORTED_MIME_TYPES as string[]).includes(declared)) return declared as SupportedMimeType;
+  const extension = filename.slice(filename.lastIndexOf('.') + 1).toLowerCase();
+  return filename.includes('.') ? EXTENSION_MIME_TYPES[extension] || null : null;
+}
 
-export type HandlerInput = Buffer | Readable;
\ No newline at end of file
+export type HandlerInput = Buffer | Readable;
@@ -1,5 +1,6 @@
-import { DatabaseAdapter, StorageError } from '../storage-interfaces';
-import { MedicalDocument, PatientDetails, DocumentAlertType } from '../../shared/types'; // Removed unused DocumentAlert import
+import { DatabaseAdapter, StorageError, ProcessingJob, ProcessingCheckpoint } from '../storage-interfaces';
+import { MedicalDocument, PatientDetails, DocumentAlertType, CaseSummaryVersion, TimelineDocumentEvents } from '../../shared/types'; // Removed unused DocumentAlert import
+import { VectorEntry } from '../../shared/vectorStore';
 import fs from 'fs/promises';
 import path from 'path';
 import { createLogger } from '../logger';
@@ -16,11 +17,26 @@ interface LocalDBStructure {
             }
         }
     };
+    processingJobs: {
+        [jobId: string]: ProcessingJob;
+    };
+    processingCheckpoints: {
+        [documentKey: string]: ProcessingCheckpoint[]; // Keyed by `${patientUuid}:${clientFileId}`
+    };
+    vectorEntries: {
+        [documentKey: string]: { silknoteUserUuid: string; entries: VectorEntry[] }; // Keyed by `${patientUuid}:${clientFileId}`
+    };
+    caseSummaryVersions: {
+        [patientUuid: string]: CaseSummaryVersion[]; // Oldest first
+    };
+    timelineEvents: {
+        [documentKey: string]: TimelineDocumentEvents; // Keyed by `${patientUuid}:${clientFileId}`
+    };
 }
 
 const DB_FILE_NAME = 'localUserPatientDb.json'; // More descriptive name
 let dbFilePath: string;
-let localDb: LocalDBStructure = { users: {} };
+let localDb: LocalDBStructure = { users: {}, processingJobs: {}, processingCheckpoints: {}, vectorEntries: {}, caseSummaryVersions: {}, timelineEvents: {} };
 let isInitialized = false;
 
 async function loadDatabase(): Promise<void> {
@@ -42,19 +58,35 @@ async function loadDatabase(): Promise<void> {
                     patient.silknoteUserUuid = userId; // Ensure consistency
                 }
             }
+            // Files written before the persisted queue existed have no jobs collection
+            if (typeof localDb.processingJobs !== 'object' || localDb.processingJobs === null) {
+                localDb.processingJobs = {};
+            }
+            if (typeof localDb.processingCheckpoints !== 'object' || localDb.processingCheckpoints === null) {
+                localDb.processingCheckpoints = {};
+            }
+            if (typeof localDb.vectorEntries !== 'object' || localDb.vectorEntries === null) {
+                localDb.vectorEntries = {};
+            }
+            if (typeof localDb.caseSummaryVersions !== 'object' || localDb.caseSummaryVersions === null) {
+                localDb.caseSummaryVersions = {};
+            }
+            if (typeof localDb.timelineEvents !== 'object' || localDb.timelineEvents === null) {
+                localDb.timelineEvents = {};
+            }
         } else {
             logger.warn('Local database file has incorrect structure, initializing empty.');
-            localDb = { users: {} };
+            localDb = { users: {}, processingJobs: {}, processingCheckpoints: {}, vectorEntries: {}, caseSummaryVersions: {}, timelineEvents: {} };
         }
         logger.info('Local database loaded successfully.');
     } catch (error: any) {
         if (error.code === 'ENOENT') {
             logger.warn('Local database file not found, initializing empty & creating file.');
-            localDb = { users: {} };
+            localDb = { users: {}, processingJobs: {}, processingCheckpoints: {}, vectorEntries: {}, caseSummaryVersions: {}, timelineEvents: {} };
             await saveDatabase(); 
         } else {
             logger.error('Failed to load local database:', error);
-            localDb = { users: {} }; 
+            localDb = { users: {}, processingJobs: {}, processingCheckpoints: {}, vectorEntries: {}, caseSummaryVersions: {}, timelineEvents: {} }; 
         }
     }
 }
@@ -87,6 +119,8 @@ export function createLocalDatabaseAdapter(): DatabaseAdapter {
     return localDb.users[silknoteUserUuid].patients;
   };
 
+  const documentKey = (silknotePatientUuid: string, clientFileId: string): string => `${silknotePatientUuid}:${clientFileId}`;
+
   // Create the adapter object first to have access to its methods
   const adapter: DatabaseAdapter = {
     async initialize(): Promise<{ success: boolean; errors: StorageError[] }> {
@@ -299,24 +333,290 @@ export function createLocalDatabaseAdapter(): DatabaseAdapter {
       return true;
     },
 
-    async resetProcessingDocuments(): Promise<number> {
+    async enqueueProcessingJob(job: ProcessingJob): Promise<ProcessingJob | null> {
       if (!isInitialized) throw new Error('Adapter not initialized');
-      logger.info('[LOCAL_DB] resetProcessingDocuments (global)');
-        let count = 0;
-      Object.values(localDb.users).forEach(userCollection => {
-        Object.values(userCollection.patients).forEach(patient => {
-          if (patient.fileSet) {
-            patient.fileSet.forEach(doc => {
-              if (doc.status === 'processing') {
-                    doc.status = 'queued';
-                    count++;
-                }
-             });
+      logger.info(`[LOCAL_DB] enqueueProcessingJob for patient ${job.silknotePatientUuid}, clientFileId: ${job.clientFileId}`);
+      const existing = Object.values(localDb.processingJobs).find(j =>
+        j.silknotePatientUuid === job.silknotePatientUuid &&
+        j.clientFileId === job.clientFileId &&
+        (j.status === 'queued' || j.status === 'leased')
+      );
+      if (existing) {
+        logger.info(`[LOCAL_DB] enqueueProcessingJob: Active job ${existing.jobId} already exists for ${job.clientFileId}`);
+        return existing;
+      }
+      localDb.processingJobs[job.jobId] = { ...job };
+      await saveDatabase();
+      return localDb.processingJobs[job.jobId];
+    },
+
+    async leaseProcessingJob(jobId: string, leaseOwner: string, leaseMs: number): Promise<ProcessingJob | null> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] leaseProcessingJob ${jobId} for ${leaseOwner}`);
+      const job = localDb.processingJobs[jobId];
+      if (!job || job.status !== 'queued') return null;
+      const now = new Date();
+      job.status = 'leased';
+      job.attempts += 1;
+      job.leaseOwner = leaseOwner;
+      job.leasedAt = now.toISOString();
+      job.heartbeatAt = now.toISOString();
+      job.leaseExpiresAt = new Date(now.getTime() + leaseMs).toISOString();
+      job.updatedAt = now.toISOString();
+      await saveDatabase();
+      return { ...job };
+    },
+
+    async heartbeatProcessingJob(jobId: string, leaseOwner: string, leaseMs: number): Promise<boolean> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      const job = localDb.processingJobs[jobId];
+      if (!job || job.status !== 'leased' || job.leaseOwner !== leaseOwner) return false;
+      const now = new Date();
+      job.heartbeatAt = now.toISOString();
+      job.leaseExpiresAt = new Date(now.getTime() + leaseMs).toISOString();
+      job.updatedAt = now.toISOString();
+      await saveDatabase();
+      return true;
+    },
+
+    async completeProcessingJob(jobId: string): Promise<boolean> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] completeProcessingJob ${jobId}`);
+      const job = localDb.processingJobs[jobId];
+      if (!job) return false;
+      job.status = 'complete';
+      job.leaseOwner = null;
+      job.leaseExpiresAt = null;
+      job.updatedAt = new Date().toISOString();
+      await saveDatabase();
+      return true;
+    },
+
+    async failProcessingJob(jobId: string, error: string): Promise<boolean> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] failProcessingJob ${jobId}`);
+      const job = localDb.processingJobs[jobId];
+      if (!job) return false;
+      job.status = 'failed';
+      job.lastError = error;
+      job.leaseOwner = null;
+      job.leaseExpiresAt = null;
+      job.updatedAt = new Date().toISOString();
+      await saveDatabase();
+      return true;
+    },
+
+    async retryProcessingJob(jobId: string, error: string, runAfter: string): Promise<boolean> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] retryProcessingJob ${jobId} after ${runAfter}`);
+      const job = localDb.processingJobs[jobId];
+      if (!job) return false;
+      job.status = 'queued';
+      job.lastError = error;
+      job.runAfter = runAfter;
+      job.leaseOwner = null;
+      job.leaseExpiresAt = null;
+      job.updatedAt = new Date().toISOString();
+      await saveDatabase();
+      return true;
+    },
+
+    async requeueExpiredProcessingJobs(staleOwnerPrefix?: string): Promise<ProcessingJob[]> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      const now = new Date();
+      const touched: ProcessingJob[] = [];
+      Object.values(localDb.processingJobs).forEach(job => {
+        if (job.status !== 'leased') return;
+        const expired = !job.leaseExpiresAt || new Date(job.leaseExpiresAt).getTime() <= now.getTime();
+        const staleOwner = !!staleOwnerPrefix && !!job.leaseOwner?.startsWith(staleOwnerPrefix);
+        if (!expired && !staleOwner) return;
+        if (job.attempts >= job.maxAttempts) {
+          job.status = 'failed';
+          job.lastError = `Lease expired after ${job.attempts} attempts`;
+        } else {
+          job.status = 'queued';
         }
-        });
+        job.leaseOwner = null;
+        job.leaseExpiresAt = null;
+        job.updatedAt = now.toISOString();
+        touched.push({ ...job });
       });
-      if (count > 0) await saveDatabase();
-      return count;
+      if (touched.length > 0) {
+        logger.info(`[LOCAL_DB] requeueExpiredProcessingJobs: ${touched.length} expired lease(s) released`);
+        await saveDatabase();
+      }
+      return touched;
+    },
+
+    async getQueuedProcessingJobs(limit: number = 100): Promise<ProcessingJob[]> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      return Object.values(localDb.processingJobs)
+        .filter(job => job.status === 'queued' && (!job.runAfter || new Date(job.runAfter).getTime() <= Date.now()))
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+        .slice(0, limit)
+        .map(job => ({ ...job }));
+    },
+
+    async clearInlinePageImages(): Promise<number> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      let cleared = 0;
+      for (const user of Object.values(localDb.users)) {
+        for (const patient of Object.values(user.patients)) {
+          for (const document of patient.fileSet) {
+            if (!document.content?.pageImages?.length) continue;
+            document.content.pageImages = [];
+            cleared++;
+          }
+        }
+      }
+      if (cleared > 0) {
+        logger.info(`[LOCAL_DB] clearInlinePageImages: ${cleared} document(s) cleared`);
+        await saveDatabase();
+      }
+      return cleared;
+    },
+
+    async saveProcessingCheckpoint(checkpoint: ProcessingCheckpoint): Promise<boolean> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] saveProcessingCheckpoint ${checkpoint.stage}/${checkpoint.key} for clientFileId: ${checkpoint.clientFileId}`);
+      const key = documentKey(checkpoint.silknotePatientUuid, checkpoint.clientFileId);
+      const existing = (localDb.processingCheckpoints[key] || [])
+        .filter(c => !(c.stage === checkpoint.stage && c.key === checkpoint.key));
+      localDb.processingCheckpoints[key] = [...existing, { ...checkpoint }];
+      await saveDatabase();
+      return true;
+    },
+
+    async getProcessingCheckpoints(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string): Promise<ProcessingCheckpoint[]> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] getProcessingCheckpoints for user ${silknoteUserUuid}, patient ${silknotePatientUuid}, clientFileId: ${clientFileId}`);
+      return (localDb.processingCheckpoints[documentKey(silknotePatientUuid, clientFileId)] || [])
+        .filter(c => c.silknoteUserUuid === silknoteUserUuid);
+    },
+
+    async clearProcessingCheckpoints(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string, stage?: string): Promise<number> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] clearProcessingCheckpoints for user ${silknoteUserUuid}, patient ${silknotePatientUuid}, clientFileId: ${clientFileId}, stage: ${stage ?? 'all'}`);
+      const key = documentKey(silknotePatientUuid, clientFileId);
+      const existing = localDb.processingCheckpoints[key] || [];
+      const remaining = existing.filter(c => c.silknoteUserUuid !== silknoteUserUuid || (stage !== undefined && c.stage !== stage));
+      const removed = existing.length - remaining.length;
+      if (removed === 0) return 0;
+      if (remaining.length > 0) {
+        localDb.processingCheckpoints[key] = remaining;
+      } else {
+        delete localDb.processingCheckpoints[key];
+      }
+      await saveDatabase();
+      return removed;
+    },
+
+    async saveVectorEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string, entries: VectorEntry[]): Promise<boolean> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] saveVectorEntries ${entries.length} entries for clientFileId: ${clientFileId}`);
+      localDb.vectorEntries[documentKey(silknotePatientUuid, clientFileId)] = { silknoteUserUuid, entries: entries.map(e => ({ ...e })) };
+      await saveDatabase();
+      return true;
+    },
+
+    async getVectorEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileIds?: string[]): Promise<VectorEntry[]> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] getVectorEntries for user ${silknoteUserUuid}, patient ${silknotePatientUuid}, documents: ${clientFileIds?.length ?? 'all'}`);
+      return Object.entries(localDb.vectorEntries)
+        .filter(([key, stored]) =>
+          stored.silknoteUserUuid === silknoteUserUuid &&
+          key.startsWith(`${silknotePatientUuid}:`) &&
+          (!clientFileIds || clientFileIds.includes(key.slice(silknotePatientUuid.length + 1))))
+        .flatMap(([, stored]) => stored.entries);
+    },
+
+    async deleteVectorEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId?: string): Promise<number> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] deleteVectorEntries for user ${silknoteUserUuid}, patient ${silknotePatientUuid}, clientFileId: ${clientFileId ?? 'all'}`);
+      let removed = 0;
+      for (const [key, stored] of Object.entries(localDb.vectorEntries)) {
+        const matches = clientFileId
+          ? key === documentKey(silknotePatientUuid, clientFileId)
+          : key.startsWith(`${silknotePatientUuid}:`);
+        if (matches && stored.silknoteUserUuid === silknoteUserUuid) {
+          removed += stored.entries.length;
+          delete localDb.vectorEntries[key];
+        }
+      }
+      if (removed > 0) await saveDatabase();
+      return removed;
+    },
+
+    async saveCaseSummaryVersion(version: CaseSummaryVersion): Promise<boolean> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] saveCaseSummaryVersion ${version.versionNumber} for patient ${version.silknotePatientUuid}`);
+      const versions = localDb.caseSummaryVersions[version.silknotePatientUuid] || [];
+      localDb.caseSummaryVersions[version.silknotePatientUuid] = [...versions, { ...version }];
+      await saveDatabase();
+      return true;
+    },
+
+    async getCaseSummaryVersions(silknoteUserUuid: string, silknotePatientUuid: string): Promise<CaseSummaryVersion[]> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] getCaseSummaryVersions for user ${silknoteUserUuid}, patient ${silknotePatientUuid}`);
+      return (localDb.caseSummaryVersions[silknotePatientUuid] || [])
+        .filter(v => v.silknoteUserUuid === silknoteUserUuid)
+        .sort((a, b) => a.versionNumber - b.versionNumber);
+    },
+
+    async getCaseSummaryVersion(silknoteUserUuid: string, silknotePatientUuid: string, versionId: string): Promise<CaseSummaryVersion | null> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] getCaseSummaryVersion ${versionId} for user ${silknoteUserUuid}, patient ${silknotePatientUuid}`);
+      return (localDb.caseSummaryVersions[silknotePatientUuid] || [])
+        .find(v => v.versionId === versionId && v.silknoteUserUuid === silknoteUserUuid) || null;
+    },
+
+    async deleteCaseSummaryVersions(silknoteUserUuid: string, silknotePatientUuid: string): Promise<number> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] deleteCaseSummaryVersions for user ${silknoteUserUuid}, patient ${silknotePatientUuid}`);
+      const existing = localDb.caseSummaryVersions[silknotePatientUuid] || [];
+      const remaining = existing.filter(v => v.silknoteUserUuid !== silknoteUserUuid);
+      const removed = existing.length - remaining.length;
+      if (remaining.length > 0) {
+        localDb.caseSummaryVersions[silknotePatientUuid] = remaining;
+      } else {
+        delete localDb.caseSummaryVersions[silknotePatientUuid];
+      }
+      if (removed > 0) await saveDatabase();
+      return removed;
+    },
+
+    async saveTimelineEvents(entry: TimelineDocumentEvents): Promise<boolean> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] saveTimelineEvents ${entry.events.length} events for clientFileId: ${entry.clientFileId}`);
+      localDb.timelineEvents[documentKey(entry.silknotePatientUuid, entry.clientFileId)] = { ...entry };
+      await saveDatabase();
+      return true;
+    },
+
+    async getTimelineEvents(silknoteUserUuid: string, silknotePatientUuid: string): Promise<TimelineDocumentEvents[]> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] getTimelineEvents for user ${silknoteUserUuid}, patient ${silknotePatientUuid}`);
+      return Object.entries(localDb.timelineEvents)
+        .filter(([key, stored]) => stored.silknoteUserUuid === silknoteUserUuid && key.startsWith(`${silknotePatientUuid}:`))
+        .map(([, stored]) => stored);
+    },
+
+    async deleteTimelineEvents(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId?: string): Promise<number> {
+      if (!isInitialized) throw new Error('Adapter not initialized');
+      logger.info(`[LOCAL_DB] deleteTimelineEvents for user ${silknoteUserUuid}, patient ${silknotePatientUuid}, clientFileId: ${clientFileId ?? 'all'}`);
+      let removed = 0;
+      for (const [key, stored] of Object.entries(localDb.timelineEvents)) {
+        const matches = clientFileId
+          ? key === documentKey(silknotePatientUuid, clientFileId)
+          : key.startsWith(`${silknotePatientUuid}:`);
+        if (matches && stored.silknoteUserUuid === silknoteUserUuid) {
+          removed++;
+          delete localDb.timelineEvents[key];
+        }
+      }
+      if (removed > 0) await saveDatabase();
+      return removed;
     },
 
     async forceReprocessPatientDocuments(silknoteUserUuid: string, silknotePatientUuid: string): Promise<number> {
@@ -6,6 +6,7 @@ import { RequestHandler } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { FileStorageAdapter, StorageError } from '../storage-interfaces';
 import config from '../../config'; // Import the config object
+import { resolveMimeType } from '../handler-types';
 
 // const _logger = createLogger('LOCAL_FILE_ADAPTER');
 
@@ -22,6 +23,14 @@ function logError(message: string, error?: Error | any, context?: any): void {
 export function createLocalFileAdapter(): FileStorageAdapter {
   let outputDir: string = ''; // Set during initialization
   let tempDir: string = '';   // Set during initialization
+  let cacheDir: string = '';  // Set during initialization
+
+  // Cache keys are relative paths; anything that would leave the cache directory is refused
+  const cachePath = (key: string): string => {
+    const resolved = path.resolve(cacheDir, key);
+    if (!cacheDir || !resolved.startsWith(`${cacheDir}${path.sep}`)) throw new Error(`Invalid cache key: ${key}`);
+    return resolved;
+  };
 
   return {
     async initialize(basePath?: string): Promise<{ success: boolean; errors: StorageError[] }> {
@@ -34,11 +43,13 @@ export function createLocalFileAdapter(): FileStorageAdapter {
       tempDir = basePath; // Expecting tempDir to be passed here
       // Derive outputDir relative to tempDir or use a config value
       outputDir = path.resolve(tempDir, '..', 'data', 'documents'); // Assumes temp is inside server/
+      cacheDir = path.resolve(tempDir, '..', 'data', 'cache');
       
       try {
         // Ensure both temp and output directories exist
         await fs.mkdir(tempDir, { recursive: true });
         await fs.mkdir(outputDir, { recursive: true });
+        await fs.mkdir(cacheDir, { recursive: true });
         logInfo(`Initialized directories: Temp=${tempDir}, Output=${outputDir}`);
         return { success: true, errors: [] };
       } catch (error: any) {
@@ -132,8 +143,8 @@ export function createLocalFileAdapter(): FileStorageAdapter {
              fileSize: config.processing.maxFileSize // Use config value
         },
         fileFilter: (_req, file, cb) => {
-          // Validate file type based on config
-          if (config.processing.allowedTypes.includes(file.mimetype)) {
+          // Validate file type based on config; generic MIME types are resolved from the extension
+          if (config.processing.allowedTypes.includes(resolveMimeType(file.mimetype, file.originalname) || file.mimetype)) {
             cb(null, true);
           } else {
             logError(`Invalid file type uploaded: ${file.mimetype}`, undefined, { filename: file.originalname });
@@ -159,6 +170,34 @@ export function createLocalFileAdapter(): FileStorageAdapter {
         logError(`Failed to get PDF page count for local file ${filePath}`, error);
         return 0; // Return 0 pages on error
       }
+    },
+
+    async getCachedFile(key: string): Promise<Buffer | null> {
+      try {
+        return await fs.readFile(cachePath(key));
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') logError(`Failed to read cached file ${key}`, error);
+        return null;
+      }
+    },
+
+    async storeCachedFile(key: string, content: Buffer): Promise<void> {
+      const finalPath = cachePath(key);
+      await fs.mkdir(path.dirname(finalPath), { recursive: true });
+      await fs.writeFile(finalPath, content);
+    },
+
+    async deleteCachedFiles(prefix: string): Promise<number> {
+      // Prefixes name a directory of the cache, such as one document's page images
+      const directory = cachePath(prefix);
+      try {
+        const files = await fs.readdir(directory, { recursive: true, withFileTypes: true });
+        await fs.rm(directory, { recursive: true, force: true });
+        return files.filter(file => file.isFile()).length;
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') logError(`Failed to delete cached files under ${prefix}`, error);
+        return 0;
+      }
     }
   };
 } 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { Pool, RowDataPacket, ResultSetHeader, createPool } from 'mysql2/promise';
-import { DatabaseAdapter, StorageError } from '../storage-interfaces';
-import { MedicalDocument, PatientDetails, DocumentType, DocumentAlertType } from '../../shared/types'; // Assuming DocumentType is available
+import { DatabaseAdapter, StorageError, ProcessingJob, ProcessingJobStatus, ProcessingCheckpoint } from '../storage-interfaces';
+import { VectorEntry } from '../../shared/vectorStore';
+import { MedicalDocument, PatientDetails, DocumentType, DocumentAlertType, CaseSummaryVersion, CaseSummaryVersionSource, TimelineDocumentEvents } from '../../shared/types'; // Assuming DocumentType is available
 import { v4 as uuidv4 } from 'uuid'; // Needed for generating UUIDs if not done by DB
 import path from 'path'; // Import path
 
@@ -31,6 +32,11 @@ function mapDocumentRow(row: any): MedicalDocument {
         if (!Array.isArray(alerts)) alerts = [];
     } catch (e) { logError('Failed to parse alertsJson', e, { alertsJson: row.alertsJson?.substring(0,100) }); alerts = []; }
 
+    // The Document table is provisioned outside this adapter, so the IME request, file hash,
+    // duplicate marker and parent link ride in contentJson
+    const { insurerRequestForIME, hash, duplicateOf, parentClientFileId, pageRange, mergedInto, sourceClientFileIds, conversion, attachedTo, email, ...documentContent } =
+        content as typeof content & Pick<MedicalDocument, 'insurerRequestForIME' | 'hash' | 'duplicateOf' | 'parentClientFileId' | 'pageRange' | 'mergedInto' | 'sourceClientFileIds' | 'conversion' | 'attachedTo' | 'email'>;
+
     return {
         // Use the UUID from the DB as both identifiers in the shared type
         silknoteDocumentUuid: row.silknoteDocumentUuid,
@@ -54,13 +60,147 @@ function mapDocumentRow(row: any): MedicalDocument {
         sourceSystem: row.sourceSystem,
         filename: row.originalName, // Use originalName as filename
         confidence: 0, 
-        content: content, // Use parsed content
+        content: documentContent, // Use parsed content
         alerts: alerts, // Use parsed alerts
+        insurerRequestForIME,
+        hash,
+        duplicateOf,
+        parentClientFileId,
+        pageRange,
+        mergedInto,
+        sourceClientFileIds,
+        conversion,
+        attachedTo,
+        email,
         isIncorrectPatient: false, 
         detectedPatientInfo: undefined 
     };
 }
 
+// Maps DB row from the `ProcessingJob` table to the shared `ProcessingJob` type
+function mapProcessingJobRow(row: any): ProcessingJob {
+    const toIso = (value: any): string | null => value instanceof Date ? value.toISOString() : (value ?? null);
+    return {
+        jobId: row.jobId,
+        silknoteUserUuid: row.userUuid,
+        silknotePatientUuid: row.patientUuid,
+        clientFileId: row.clientFileId,
+        silknoteDocumentUuid: row.silknoteDocumentUuid ?? null,
+        filePath: row.filePath,
+        status: row.status as ProcessingJobStatus,
+        priority: row.priority ?? 'standard',
+        attempts: row.attempts,
+        maxAttempts: row.maxAttempts,
+        leaseOwner: row.leaseOwner ?? null,
+        leasedAt: toIso(row.leasedAt),
+        heartbeatAt: toIso(row.heartbeatAt),
+        leaseExpiresAt: toIso(row.leaseExpiresAt),
+        lastError: row.lastError ?? null,
+        runAfter: toIso(row.runAfter),
+        createdAt: toIso(row.createdAt) as string,
+        updatedAt: toIso(row.updatedAt) as string,
+    };
+}
+
+// The job table is not part of the VSRX schema, so the adapter creates it on first use
+const PROCESSING_JOB_TABLE_SQL = `
+    CREATE TABLE IF NOT EXISTS ProcessingJob (
+        jobId VARCHAR(36) NOT NULL PRIMARY KEY,
+        userUuid VARCHAR(36) NOT NULL,
+        patientUuid VARCHAR(36) NOT NULL,
+        clientFileId VARCHAR(191) NOT NULL,
+        silknoteDocumentUuid VARCHAR(36) NULL,
+        filePath TEXT NOT NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'queued',
+        priority VARCHAR(16) NOT NULL DEFAULT 'standard',
+        attempts INT NOT NULL DEFAULT 0,
+        maxAttempts INT NOT NULL DEFAULT 3,
+        leaseOwner VARCHAR(191) NULL,
+        leasedAt DATETIME NULL,
+        heartbeatAt DATETIME NULL,
+        leaseExpiresAt DATETIME NULL,
+        lastError TEXT NULL,
+        runAfter DATETIME NULL,
+        createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_processing_job_status (status, leaseExpiresAt),
+        INDEX idx_processing_job_document (clientFileId, patientUuid)
+    )`;
+
+// Columns added to the job table after it was first created, added on startup to tables that lack them
+const PROCESSING_JOB_COLUMN_SQL = `
+    SELECT COLUMN_NAME FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'ProcessingJob'`;
+const PROCESSING_JOB_ADDED_COLUMNS: Record<string, string> = {
+    priority: "ALTER TABLE ProcessingJob ADD COLUMN priority VARCHAR(16) NOT NULL DEFAULT 'standard' AFTER status",
+    runAfter: 'ALTER TABLE ProcessingJob ADD COLUMN runAfter DATETIME NULL AFTER lastError'
+};
+
+const PROCESSING_CHECKPOINT_TABLE_SQL = `
+    CREATE TABLE IF NOT EXISTS ProcessingCheckpoint (
+        userUuid VARCHAR(36) NOT NULL,
+        patientUuid VARCHAR(36) NOT NULL,
+        clientFileId VARCHAR(191) NOT NULL,
+        stage VARCHAR(32) NOT NULL,
+        checkpointKey VARCHAR(64) NOT NULL,
+        dataJson LONGTEXT NOT NULL,
+        createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (patientUuid, clientFileId, stage, checkpointKey)
+    )`;
+
+const VECTOR_ENTRY_TABLE_SQL = `
+    CREATE TABLE IF NOT EXISTS VectorEntry (
+        entryId VARCHAR(255) NOT NULL PRIMARY KEY,
+        userUuid VARCHAR(36) NOT NULL,
+        patientUuid VARCHAR(36) NOT NULL,
+        clientFileId VARCHAR(191) NOT NULL,
+        pageNumber INT NOT NULL,
+        metadataJson LONGTEXT NOT NULL,
+        vectorJson LONGTEXT NOT NULL,
+        createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_vector_entry_document (patientUuid, clientFileId)
+    )`;
+
+const CASE_SUMMARY_VERSION_TABLE_SQL = `
+    CREATE TABLE IF NOT EXISTS CaseSummaryVersion (
+        versionId VARCHAR(36) NOT NULL PRIMARY KEY,
+        userUuid VARCHAR(36) NOT NULL,
+        patientUuid VARCHAR(36) NOT NULL,
+        versionNumber INT NOT NULL,
+        source VARCHAR(16) NOT NULL,
+        modelProvider VARCHAR(64) NULL,
+        modelName VARCHAR(191) NULL,
+        caseSummaryJson LONGTEXT NOT NULL,
+        inputsJson LONGTEXT NOT NULL,
+        createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_case_summary_version (patientUuid, versionNumber)
+    )`;
+
+const TIMELINE_DOCUMENT_TABLE_SQL = `
+    CREATE TABLE IF NOT EXISTS TimelineDocument (
+        userUuid VARCHAR(36) NOT NULL,
+        patientUuid VARCHAR(36) NOT NULL,
+        clientFileId VARCHAR(191) NOT NULL,
+        eventsJson LONGTEXT NOT NULL,
+        builtAt DATETIME NOT NULL,
+        PRIMARY KEY (patientUuid, clientFileId)
+    )`;
+
+function mapCaseSummaryVersionRow(row: any): CaseSummaryVersion {
+    return {
+        versionId: row.versionId,
+        versionNumber: row.versionNumber,
+        silknotePatientUuid: row.patientUuid,
+        silknoteUserUuid: row.userUuid,
+        source: row.source as CaseSummaryVersionSource,
+        createdAt: row.createdAt instanceof Date ? row.createdAt.toISOString() : row.createdAt,
+        caseSummary: JSON.parse(row.caseSummaryJson),
+        inputs: JSON.parse(row.inputsJson),
+        model: row.modelName ? { provider: row.modelProvider, model: row.modelName } : undefined
+    };
+}
+
 // Maps DB row from assumed `PATIENT` table + documents to `PatientDetails`
 function mapPatientRow(row: any, documents: MedicalDocument[]): PatientDetails {
      // Safely parse JSON content, providing defaults
@@ -130,6 +270,15 @@ export function createMySqlDatabaseAdapter(): DatabaseAdapter {
             await connection.ping(); // Verify connection
             connection.release();
             logInfo('MySQL connection established successfully');
+            await pool.execute(PROCESSING_JOB_TABLE_SQL);
+            const [jobColumns] = await pool.execute<RowDataPacket[]>(PROCESSING_JOB_COLUMN_SQL);
+            for (const [column, sql] of Object.entries(PROCESSING_JOB_ADDED_COLUMNS)) {
+                if (!jobColumns.some(row => row.COLUMN_NAME === column)) await pool.execute(sql);
+            }
+            await pool.execute(PROCESSING_CHECKPOINT_TABLE_SQL);
+            await pool.execute(VECTOR_ENTRY_TABLE_SQL);
+            await pool.execute(CASE_SUMMARY_VERSION_TABLE_SQL);
+            await pool.execute(TIMELINE_DOCUMENT_TABLE_SQL);
             isInitialized = true;
             return { success: true, errors };
         } catch (error: any) {
@@ -172,7 +321,7 @@ export function createMySqlDatabaseAdapter(): DatabaseAdapter {
             document.author,
             document.sourceSystem,
             // Stringify content and alerts before saving
-            document.content ? JSON.stringify(document.content) : null,
+            document.content ? JSON.stringify({ ...document.content, insurerRequestForIME: document.insurerRequestForIME, hash: document.hash, duplicateOf: document.duplicateOf, parentClientFileId: document.parentClientFileId, pageRange: document.pageRange, mergedInto: document.mergedInto, sourceClientFileIds: document.sourceClientFileIds, conversion: document.conversion, attachedTo: document.attachedTo, email: document.email }) : null,
             document.alerts && Array.isArray(document.alerts) ? JSON.stringify(document.alerts) : null
         ];
         try {
@@ -383,18 +532,395 @@ export function createMySqlDatabaseAdapter(): DatabaseAdapter {
         }
      },
 
-     async resetProcessingDocuments(): Promise<number> {
-           if (!isInitialized) throw new Error('Adapter not initialized');
-           logInfo('Resetting processing documents');
-           const sql = "UPDATE Document SET status = 'queued', updatedAt = NOW() WHERE status = 'processing'";
-           try {
-               const result = await executeQuery<ResultSetHeader>(sql, []);
-               logInfo(`Reset ${result.affectedRows} documents.`);
-               return result.affectedRows;
-           } catch (error) {
-               return 0;
-           }
-       },
+     async enqueueProcessingJob(job: ProcessingJob): Promise<ProcessingJob | null> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        logInfo('Enqueueing processing job', { jobId: job.jobId, clientFileId: job.clientFileId, patientUuid: job.silknotePatientUuid });
+        try {
+            const existingSql = "SELECT * FROM ProcessingJob WHERE patientUuid = ? AND clientFileId = ? AND status IN ('queued', 'leased') LIMIT 1";
+            const existing = await executeQuery<RowDataPacket[]>(existingSql, [job.silknotePatientUuid, job.clientFileId]);
+            if (existing.length > 0) {
+                logInfo(`Active job ${existing[0].jobId} already exists for ${job.clientFileId}`);
+                return mapProcessingJobRow(existing[0]);
+            }
+            const insertSql = `
+                INSERT INTO ProcessingJob (jobId, userUuid, patientUuid, clientFileId, silknoteDocumentUuid, filePath, status, priority, attempts, maxAttempts, createdAt, updatedAt)
+                VALUES (?, ?, ?, ?, ?, ?, 'queued', ?, ?, ?, NOW(), NOW())
+            `;
+            await executeQuery<ResultSetHeader>(insertSql, [
+                job.jobId, job.silknoteUserUuid, job.silknotePatientUuid, job.clientFileId,
+                job.silknoteDocumentUuid ?? null, job.filePath, job.priority ?? 'standard', job.attempts, job.maxAttempts
+            ]);
+            const rows = await executeQuery<RowDataPacket[]>('SELECT * FROM ProcessingJob WHERE jobId = ?', [job.jobId]);
+            return rows.length > 0 ? mapProcessingJobRow(rows[0]) : null;
+        } catch (error) {
+            return null;
+        }
+     },
+
+     async leaseProcessingJob(jobId: string, leaseOwner: string, leaseMs: number): Promise<ProcessingJob | null> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        logInfo('Leasing processing job', { jobId, leaseOwner });
+        // Conditional update so two workers cannot lease the same job
+        const sql = `
+            UPDATE ProcessingJob
+            SET status = 'leased', attempts = attempts + 1, leaseOwner = ?, leasedAt = NOW(), heartbeatAt = NOW(),
+                leaseExpiresAt = DATE_ADD(NOW(), INTERVAL ? MICROSECOND), updatedAt = NOW()
+            WHERE jobId = ? AND status = 'queued'
+        `;
+        try {
+            const result = await executeQuery<ResultSetHeader>(sql, [leaseOwner, leaseMs * 1000, jobId]);
+            if (result.affectedRows === 0) return null;
+            const rows = await executeQuery<RowDataPacket[]>('SELECT * FROM ProcessingJob WHERE jobId = ?', [jobId]);
+            return rows.length > 0 ? mapProcessingJobRow(rows[0]) : null;
+        } catch (error) {
+            return null;
+        }
+     },
+
+     async heartbeatProcessingJob(jobId: string, leaseOwner: string, leaseMs: number): Promise<boolean> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        const sql = `
+            UPDATE ProcessingJob
+            SET heartbeatAt = NOW(), leaseExpiresAt = DATE_ADD(NOW(), INTERVAL ? MICROSECOND), updatedAt = NOW()
+            WHERE jobId = ? AND status = 'leased' AND leaseOwner = ?
+        `;
+        try {
+            const result = await executeQuery<ResultSetHeader>(sql, [leaseMs * 1000, jobId, leaseOwner]);
+            return result.affectedRows > 0;
+        } catch (error) {
+            return false;
+        }
+     },
+
+     async completeProcessingJob(jobId: string): Promise<boolean> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        logInfo('Completing processing job', { jobId });
+        const sql = "UPDATE ProcessingJob SET status = 'complete', leaseOwner = NULL, leaseExpiresAt = NULL, updatedAt = NOW() WHERE jobId = ?";
+        try {
+            const result = await executeQuery<ResultSetHeader>(sql, [jobId]);
+            return result.affectedRows > 0;
+        } catch (error) {
+            return false;
+        }
+     },
+
+     async failProcessingJob(jobId: string, errorMessage: string): Promise<boolean> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        logInfo('Failing processing job', { jobId });
+        const sql = "UPDATE ProcessingJob SET status = 'failed', lastError = ?, leaseOwner = NULL, leaseExpiresAt = NULL, updatedAt = NOW() WHERE jobId = ?";
+        try {
+            const result = await executeQuery<ResultSetHeader>(sql, [errorMessage, jobId]);
+            return result.affectedRows > 0;
+        } catch (error) {
+            return false;
+        }
+     },
+
+     async retryProcessingJob(jobId: string, errorMessage: string, runAfter: string): Promise<boolean> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        logInfo('Requeueing processing job for retry', { jobId, runAfter });
+        const sql = "UPDATE ProcessingJob SET status = 'queued', lastError = ?, runAfter = ?, leaseOwner = NULL, leaseExpiresAt = NULL, updatedAt = NOW() WHERE jobId = ?";
+        try {
+            const result = await executeQuery<ResultSetHeader>(sql, [errorMessage, new Date(runAfter), jobId]);
+            return result.affectedRows > 0;
+        } catch (error) {
+            return false;
+        }
+     },
+
+     async requeueExpiredProcessingJobs(staleOwnerPrefix?: string): Promise<ProcessingJob[]> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        const selectSql = staleOwnerPrefix
+            ? "SELECT * FROM ProcessingJob WHERE status = 'leased' AND (leaseExpiresAt IS NULL OR leaseExpiresAt < NOW() OR LEFT(leaseOwner, ?) = ?)"
+            : "SELECT * FROM ProcessingJob WHERE status = 'leased' AND (leaseExpiresAt IS NULL OR leaseExpiresAt < NOW())";
+        const selectParams = staleOwnerPrefix ? [staleOwnerPrefix.length, staleOwnerPrefix] : [];
+        try {
+            const expired = await executeQuery<RowDataPacket[]>(selectSql, selectParams);
+            const touched: ProcessingJob[] = [];
+            for (const row of expired) {
+                const exhausted = row.attempts >= row.maxAttempts;
+                const updateSql = `
+                    UPDATE ProcessingJob
+                    SET status = ?, lastError = ?, leaseOwner = NULL, leaseExpiresAt = NULL, updatedAt = NOW()
+                    WHERE jobId = ? AND status = 'leased'
+                `;
+                const lastError = exhausted ? `Lease expired after ${row.attempts} attempts` : (row.lastError ?? null);
+                const result = await executeQuery<ResultSetHeader>(updateSql, [exhausted ? 'failed' : 'queued', lastError, row.jobId]);
+                if (result.affectedRows > 0) {
+                    touched.push({ ...mapProcessingJobRow(row), status: exhausted ? 'failed' : 'queued', lastError, leaseOwner: null, leaseExpiresAt: null });
+                }
+            }
+            if (touched.length > 0) logInfo(`Released ${touched.length} expired processing job lease(s).`);
+            return touched;
+        } catch (error) {
+            return [];
+        }
+     },
+
+     async getQueuedProcessingJobs(limit: number = 100): Promise<ProcessingJob[]> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        const sql = "SELECT * FROM ProcessingJob WHERE status = 'queued' AND (runAfter IS NULL OR runAfter <= NOW()) ORDER BY createdAt ASC LIMIT ?";
+        try {
+            const rows = await executeQuery<RowDataPacket[]>(sql, [limit]);
+            return rows.map(mapProcessingJobRow);
+        } catch (error) {
+            return [];
+        }
+     },
+
+     async clearInlinePageImages(): Promise<number> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        const sql = `
+            UPDATE Document
+            SET contentJson = JSON_SET(contentJson, '$.pageImages', JSON_ARRAY()), updatedAt = NOW()
+            WHERE JSON_VALID(contentJson) AND JSON_LENGTH(contentJson, '$.pageImages') > 0
+        `;
+        try {
+            const result = await executeQuery<ResultSetHeader>(sql, []);
+            if (result.affectedRows > 0) logInfo(`Cleared inline page images from ${result.affectedRows} document(s).`);
+            return result.affectedRows;
+        } catch (error) {
+            logError('Failed to clear inline page images', error);
+            throw error;
+        }
+     },
+
+     async saveProcessingCheckpoint(checkpoint: ProcessingCheckpoint): Promise<boolean> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        logInfo('Saving processing checkpoint', { clientFileId: checkpoint.clientFileId, stage: checkpoint.stage, key: checkpoint.key });
+        const sql = `
+            INSERT INTO ProcessingCheckpoint (userUuid, patientUuid, clientFileId, stage, checkpointKey, dataJson, createdAt, updatedAt)
+            VALUES (?, ?, ?, ?, ?, ?, NOW(), NOW())
+            ON DUPLICATE KEY UPDATE dataJson = VALUES(dataJson), updatedAt = NOW()
+        `;
+        try {
+            await executeQuery<ResultSetHeader>(sql, [
+                checkpoint.silknoteUserUuid, checkpoint.silknotePatientUuid, checkpoint.clientFileId,
+                checkpoint.stage, checkpoint.key, JSON.stringify(checkpoint.data ?? null)
+            ]);
+            return true;
+        } catch (error) {
+            return false;
+        }
+     },
+
+     async getProcessingCheckpoints(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string): Promise<ProcessingCheckpoint[]> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        const sql = 'SELECT * FROM ProcessingCheckpoint WHERE userUuid = ? AND patientUuid = ? AND clientFileId = ?';
+        try {
+            const rows = await executeQuery<RowDataPacket[]>(sql, [silknoteUserUuid, silknotePatientUuid, clientFileId]);
+            const checkpoints: ProcessingCheckpoint[] = [];
+            for (const row of rows) {
+                try {
+                    checkpoints.push({
+                        silknoteUserUuid: row.userUuid,
+                        silknotePatientUuid: row.patientUuid,
+                        clientFileId: row.clientFileId,
+                        stage: row.stage,
+                        key: row.checkpointKey,
+                        data: JSON.parse(row.dataJson),
+                        createdAt: row.createdAt instanceof Date ? row.createdAt.toISOString() : row.createdAt
+                    });
+                } catch (e) {
+                    // An unreadable checkpoint is treated as missing so the stage reruns
+                    logError('Failed to parse checkpoint dataJson', e, { clientFileId, stage: row.stage, key: row.checkpointKey });
+                }
+            }
+            return checkpoints;
+        } catch (error) {
+            return [];
+        }
+     },
+
+     async clearProcessingCheckpoints(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string, stage?: string): Promise<number> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        logInfo('Clearing processing checkpoints', { clientFileId, silknotePatientUuid, stage: stage ?? 'all' });
+        const sql = stage
+            ? 'DELETE FROM ProcessingCheckpoint WHERE userUuid = ? AND patientUuid = ? AND clientFileId = ? AND stage = ?'
+            : 'DELETE FROM ProcessingCheckpoint WHERE userUuid = ? AND patientUuid = ? AND clientFileId = ?';
+        const params = stage ? [silknoteUserUuid, silknotePatientUuid, clientFileId, stage] : [silknoteUserUuid, silknotePatientUuid, clientFileId];
+        try {
+            const result = await executeQuery<ResultSetHeader>(sql, params);
+            return result.affectedRows;
+        } catch (error) {
+            return 0;
+        }
+     },
+
+     async saveVectorEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string, entries: VectorEntry[]): Promise<boolean> {
+        if (!isInitialized || !pool) throw new Error('Adapter not initialized');
+        logInfo('Saving vector entries', { clientFileId, count: entries.length });
+        const connection = await pool.getConnection();
+        try {
+            await connection.beginTransaction();
+            await connection.execute('DELETE FROM VectorEntry WHERE userUuid = ? AND patientUuid = ? AND clientFileId = ?', [silknoteUserUuid, silknotePatientUuid, clientFileId]);
+            for (const entry of entries) {
+                await connection.execute(
+                    'INSERT INTO VectorEntry (entryId, userUuid, patientUuid, clientFileId, pageNumber, metadataJson, vectorJson) VALUES (?, ?, ?, ?, ?, ?, ?)',
+                    [entry.id, silknoteUserUuid, silknotePatientUuid, clientFileId, entry.metadata.pageNumber, JSON.stringify(entry.metadata), JSON.stringify(entry.vector)]
+                );
+            }
+            await connection.commit();
+            return true;
+        } catch (error) {
+            await connection.rollback();
+            logError('Failed to save vector entries', error, { clientFileId });
+            return false;
+        } finally {
+            connection.release();
+        }
+     },
+
+     async getVectorEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileIds?: string[]): Promise<VectorEntry[]> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        if (clientFileIds && clientFileIds.length === 0) return [];
+        const sql = clientFileIds
+            ? `SELECT * FROM VectorEntry WHERE userUuid = ? AND patientUuid = ? AND clientFileId IN (${clientFileIds.map(() => '?').join(', ')})`
+            : 'SELECT * FROM VectorEntry WHERE userUuid = ? AND patientUuid = ?';
+        try {
+            const rows = await executeQuery<RowDataPacket[]>(sql, [silknoteUserUuid, silknotePatientUuid, ...(clientFileIds || [])]);
+            const entries: VectorEntry[] = [];
+            for (const row of rows) {
+                try {
+                    entries.push({ id: row.entryId, metadata: JSON.parse(row.metadataJson), vector: JSON.parse(row.vectorJson) });
+                } catch (e) {
+                    logError('Failed to parse vector entry', e, { entryId: row.entryId });
+                }
+            }
+            return entries;
+        } catch (error) {
+            return [];
+        }
+     },
+
+     async deleteVectorEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId?: string): Promise<number> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        logInfo('Deleting vector entries', { silknotePatientUuid, clientFileId: clientFileId ?? 'all' });
+        const sql = clientFileId
+            ? 'DELETE FROM VectorEntry WHERE userUuid = ? AND patientUuid = ? AND clientFileId = ?'
+            : 'DELETE FROM VectorEntry WHERE userUuid = ? AND patientUuid = ?';
+        const params = clientFileId ? [silknoteUserUuid, silknotePatientUuid, clientFileId] : [silknoteUserUuid, silknotePatientUuid];
+        try {
+            const result = await executeQuery<ResultSetHeader>(sql, params);
+            return result.affectedRows;
+        } catch (error) {
+            return 0;
+        }
+     },
+
+     async saveCaseSummaryVersion(version: CaseSummaryVersion): Promise<boolean> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        logInfo('Saving case summary version', { silknotePatientUuid: version.silknotePatientUuid, versionNumber: version.versionNumber });
+        const sql = `INSERT INTO CaseSummaryVersion (versionId, userUuid, patientUuid, versionNumber, source, modelProvider, modelName, caseSummaryJson, inputsJson, createdAt)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+        try {
+            await executeQuery<ResultSetHeader>(sql, [
+                version.versionId, version.silknoteUserUuid, version.silknotePatientUuid, version.versionNumber, version.source,
+                version.model?.provider ?? null, version.model?.model ?? null,
+                JSON.stringify(version.caseSummary), JSON.stringify(version.inputs), new Date(version.createdAt)
+            ]);
+            return true;
+        } catch (error) {
+            return false;
+        }
+     },
+
+     async getCaseSummaryVersions(silknoteUserUuid: string, silknotePatientUuid: string): Promise<CaseSummaryVersion[]> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        const sql = 'SELECT * FROM CaseSummaryVersion WHERE userUuid = ? AND patientUuid = ? ORDER BY versionNumber ASC';
+        try {
+            const rows = await executeQuery<RowDataPacket[]>(sql, [silknoteUserUuid, silknotePatientUuid]);
+            const versions: CaseSummaryVersion[] = [];
+            for (const row of rows) {
+                try {
+                    versions.push(mapCaseSummaryVersionRow(row));
+                } catch (e) {
+                    logError('Failed to parse case summary version', e, { versionId: row.versionId });
+                }
+            }
+            return versions;
+        } catch (error) {
+            return [];
+        }
+     },
+
+     async getCaseSummaryVersion(silknoteUserUuid: string, silknotePatientUuid: string, versionId: string): Promise<CaseSummaryVersion | null> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        const sql = 'SELECT * FROM CaseSummaryVersion WHERE userUuid = ? AND patientUuid = ? AND versionId = ?';
+        try {
+            const rows = await executeQuery<RowDataPacket[]>(sql, [silknoteUserUuid, silknotePatientUuid, versionId]);
+            return rows.length > 0 ? mapCaseSummaryVersionRow(rows[0]) : null;
+        } catch (error) {
+            logError('Failed to fetch case summary version', error, { versionId });
+            return null;
+        }
+     },
+
+     async deleteCaseSummaryVersions(silknoteUserUuid: string, silknotePatientUuid: string): Promise<number> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        logInfo('Deleting case summary versions', { silknotePatientUuid });
+        try {
+            const result = await executeQuery<ResultSetHeader>('DELETE FROM CaseSummaryVersion WHERE userUuid = ? AND patientUuid = ?', [silknoteUserUuid, silknotePatientUuid]);
+            return result.affectedRows;
+        } catch (error) {
+            return 0;
+        }
+     },
+
+     async saveTimelineEvents(entry: TimelineDocumentEvents): Promise<boolean> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        logInfo('Saving timeline events', { clientFileId: entry.clientFileId, count: entry.events.length });
+        const sql = `INSERT INTO TimelineDocument (userUuid, patientUuid, clientFileId, eventsJson, builtAt) VALUES (?, ?, ?, ?, ?)
+                     ON DUPLICATE KEY UPDATE userUuid = VALUES(userUuid), eventsJson = VALUES(eventsJson), builtAt = VALUES(builtAt)`;
+        try {
+            await executeQuery<ResultSetHeader>(sql, [
+                entry.silknoteUserUuid, entry.silknotePatientUuid, entry.clientFileId, JSON.stringify(entry.events), new Date(entry.builtAt)
+            ]);
+            return true;
+        } catch (error) {
+            return false;
+        }
+     },
+
+     async getTimelineEvents(silknoteUserUuid: string, silknotePatientUuid: string): Promise<TimelineDocumentEvents[]> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        const sql = 'SELECT * FROM TimelineDocument WHERE userUuid = ? AND patientUuid = ?';
+        try {
+            const rows = await executeQuery<RowDataPacket[]>(sql, [silknoteUserUuid, silknotePatientUuid]);
+            const entries: TimelineDocumentEvents[] = [];
+            for (const row of rows) {
+                try {
+                    entries.push({
+                        silknoteUserUuid: row.userUuid,
+                        silknotePatientUuid: row.patientUuid,
+                        clientFileId: row.clientFileId,
+                        builtAt: row.builtAt instanceof Date ? row.builtAt.toISOString() : row.builtAt,
+                        events: JSON.parse(row.eventsJson)
+                    });
+                } catch (e) {
+                    logError('Failed to parse timeline events', e, { clientFileId: row.clientFileId });
+                }
+            }
+            return entries;
+        } catch (error) {
+            return [];
+        }
+     },
+
+     async deleteTimelineEvents(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId?: string): Promise<number> {
+        if (!isInitialized) throw new Error('Adapter not initialized');
+        logInfo('Deleting timeline events', { silknotePatientUuid, clientFileId: clientFileId ?? 'all' });
+        const sql = clientFileId
+            ? 'DELETE FROM TimelineDocument WHERE userUuid = ? AND patientUuid = ? AND clientFileId = ?'
+            : 'DELETE FROM TimelineDocument WHERE userUuid = ? AND patientUuid = ?';
+        const params = clientFileId ? [silknoteUserUuid, silknotePatientUuid, clientFileId] : [silknoteUserUuid, silknotePatientUuid];
+        try {
+            const result = await executeQuery<ResultSetHeader>(sql, params);
+            return result.affectedRows;
+        } catch (error) {
+            return 0;
+        }
+     },
 
        async forceReprocessPatientDocuments(silknoteUserUuid: string, silknotePatientUuid: string): Promise<number> {
           if (!isInitialized) throw new Error('Adapter not initialized');
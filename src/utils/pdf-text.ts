@@ -0,0 +1,118 @@
+/**
+ * PDF Text Layout
+ *
+ * Text set with pdf-lib's standard fonts, shared by the case summary PDF export and the
+ * plain text conversion: WinAnsi sanitising, splitting text into words and wrapping
+ * words into lines that fit a width.
+ */
+
+import { PDFFont } from 'pdf-lib';
+
+export interface PdfWord {
+  text: string;
+  font: PDFFont;
+  size: number;
+  spaceBefore: boolean;
+  superscript?: boolean;
+  lineBreak?: boolean;
+}
+
+export interface PdfLine<W extends PdfWord = PdfWord> {
+  words: W[];
+  width: number;
+}
+
+const TAB = '    ';
+
+/**
+ * The standard fonts only cover WinAnsi; anything the font cannot encode is drawn as '?'.
+ * Newlines are kept for the caller to break on.
+ */
+export function winAnsiSanitizer(font: PDFFont): (text: string) => string {
+  const supported = new Set(font.getCharacterSet());
+  return text => Array.from(text.replace(/\t/g, TAB).replace(/\r/g, ''))
+    .map(char => char === '\n' || supported.has(char.codePointAt(0)!) ? char : '?')
+    .join('');
+}
+
+/**
+ * Splits text into words, with a line break word for each newline. Runs of spaces
+ * collapse into a single space before the next word.
+ */
+export function textToWords(text: string, font: PDFFont, size: number, spaceBefore = false): PdfWord[] {
+  const words: PdfWord[] = [];
+  let pendingSpace = spaceBefore;
+  for (const part of winAnsiSanitizer(font)(text).split(/( +|\n)/)) {
+    if (part === '\n') {
+      words.push({ text: '', font, size, spaceBefore: false, lineBreak: true });
+      pendingSpace = false;
+    } else if (/^ +$/.test(part)) {
+      pendingSpace = true;
+    } else if (part) {
+      words.push({ text: part, font, size, spaceBefore: pendingSpace });
+      pendingSpace = false;
+    }
+  }
+  return words;
+}
+
+export function wordWidth(word: PdfWord): number {
+  return word.font.widthOfTextAtSize(word.text, word.size);
+}
+
+// A single word wider than the line is broken by characters
+function fitToWidth<W extends PdfWord>(word: W, maxWidth: number): W[] {
+  const pieces: W[] = [];
+  let rest = word.text;
+  while (rest.length > 1 && word.font.widthOfTextAtSize(rest, word.size) > maxWidth) {
+    let fit = rest.length - 1;
+    while (fit > 1 && word.font.widthOfTextAtSize(rest.slice(0, fit), word.size) > maxWidth) fit--;
+    pieces.push({ ...word, text: rest.slice(0, fit), spaceBefore: pieces.length === 0 && word.spaceBefore });
+    rest = rest.slice(fit);
+  }
+  pieces.push({ ...word, text: rest, spaceBefore: pieces.length === 0 && word.spaceBefore });
+  return pieces;
+}
+
+/**
+ * Wraps words into lines no wider than maxWidth. Superscripts stay with the word they
+ * follow, and each line break word ends a line, so consecutive breaks leave empty lines.
+ */
+export function wrapWords<W extends PdfWord>(words: W[], maxWidth: number): PdfLine<W>[] {
+  const lines: PdfLine<W>[] = [];
+  let current: PdfLine<W> = { words: [], width: 0 };
+  const push = () => {
+    lines.push(current);
+    current = { words: [], width: 0 };
+  };
+
+  for (const word of words) {
+    if (word.lineBreak) {
+      push();
+      continue;
+    }
+    for (const piece of word.superscript ? [word] : fitToWidth(word, maxWidth)) {
+      const space = piece.spaceBefore && current.words.length > 0 ? piece.font.widthOfTextAtSize(' ', piece.size) : 0;
+      const advance = space + wordWidth(piece);
+      if (current.words.length > 0 && current.width + advance > maxWidth && !piece.superscript) {
+        push();
+        current.words.push({ ...piece, spaceBefore: false });
+        current.width = wordWidth(piece);
+      } else {
+        current.words.push(piece);
+        current.width += advance;
+      }
+    }
+  }
+  if (current.words.length > 0) push();
+  return lines;
+}
+
+/**
+ * Wraps plain text into the strings to draw, one per line
+ */
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  return wrapWords(textToWords(text, font, size), maxWidth).map(line =>
+    line.words.map((word, i) => (i > 0 && word.spaceBefore ? ' ' : '') + word.text).join('')
+  );
+}
@@ -1,6 +1,7 @@
 import { PrismaClient, Prisma, SilknoteDocument } from '@prisma/client';
-import { DatabaseAdapter, StorageError } from '../storage-interfaces';
-import { MedicalDocument, PatientDetails, DocumentType, DocumentAlert, DocumentAlertType, CaseSummaryApiResponse, VectorStoreError } from '../../shared/types';
+import { DatabaseAdapter, StorageError, ProcessingJob, ProcessingJobStatus, ProcessingCheckpoint } from '../storage-interfaces';
+import { VectorEntry } from '../../shared/vectorStore';
+import { MedicalDocument, PatientDetails, DocumentType, DocumentAlert, DocumentAlertType, CaseSummaryApiResponse, CaseSummaryVersion, CaseSummaryVersionSource, TimelineDocumentEvents, VectorStoreError } from '../../shared/types';
 import { createLogger } from '../logger';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
@@ -42,6 +43,7 @@ function mapPrismaDocumentToMedicalDocument(
                     enrichedSchemas: Array.isArray(parsedContent.enrichedSchemas) ? parsedContent.enrichedSchemas : [],
                     pageImages: Array.isArray(parsedContent.pageImages) ? parsedContent.pageImages : [],
                     data: parsedContent.data, // if 'data' (ArrayBuffer) can be in JSON
+                    textSignature: Array.isArray(parsedContent.textSignature) ? parsedContent.textSignature : undefined,
                 } as MedicalDocument['content'];
                  if (parsedContent.error) (content as any).error = parsedContent.error;
                  if (parsedContent.details) (content as any).details = parsedContent.details;
@@ -64,6 +66,41 @@ function mapPrismaDocumentToMedicalDocument(
     } catch (e) {
         logger.error(`[PRISMA MAPPER] Error parsing alertsJson for doc ${prismaDoc.silknoteDocumentUuid}:`, e);
     }
+
+    let insurerRequestForIME: MedicalDocument['insurerRequestForIME'] = undefined;
+    try {
+        if (prismaDoc.imeRequestJson) insurerRequestForIME = JSON.parse(prismaDoc.imeRequestJson);
+    } catch (e) {
+        logger.error(`[PRISMA MAPPER] Error parsing imeRequestJson for doc ${prismaDoc.silknoteDocumentUuid}:`, e);
+    }
+    
+    let duplicateOf: MedicalDocument['duplicateOf'] = undefined;
+    try {
+        if (prismaDoc.duplicateJson) duplicateOf = JSON.parse(prismaDoc.duplicateJson);
+    } catch (e) {
+        logger.error(`[PRISMA MAPPER] Error parsing duplicateJson for doc ${prismaDoc.silknoteDocumentUuid}:`, e);
+    }
+
+    let sourceClientFileIds: MedicalDocument['sourceClientFileIds'] = undefined;
+    try {
+        if (prismaDoc.sourceIdsJson) sourceClientFileIds = JSON.parse(prismaDoc.sourceIdsJson);
+    } catch (e) {
+        logger.error(`[PRISMA MAPPER] Error parsing sourceIdsJson for doc ${prismaDoc.silknoteDocumentUuid}:`, e);
+    }
+
+    let conversion: MedicalDocument['conversion'] = undefined;
+    try {
+        if (prismaDoc.conversionJson) conversion = JSON.parse(prismaDoc.conversionJson);
+    } catch (e) {
+        logger.error(`[PRISMA MAPPER] Error parsing conversionJson for doc ${prismaDoc.silknoteDocumentUuid}:`, e);
+    }
+
+    let email: MedicalDocument['email'] = undefined;
+    try {
+        if (prismaDoc.emailJson) email = JSON.parse(prismaDoc.emailJson);
+    } catch (e) {
+        logger.error(`[PRISMA MAPPER] Error parsing emailJson for doc ${prismaDoc.silknoteDocumentUuid}:`, e);
+    }
     
     let detectedPatientInfo: { name?: string; dateOfBirth?: string } | undefined = undefined;
     let isIncorrectPatient = false;
@@ -116,6 +153,7 @@ function mapPrismaDocumentToMedicalDocument(
             extension: path.extname(prismaDoc.originalName).replace(/^\./, '') || 'pdf'
         },
         fileSize: prismaDoc.sizeBytes ?? 0,
+        hash: prismaDoc.contentHash ?? undefined,
         pageCount: prismaDoc.pageCount ?? 0,
         documentDate: toISOStringOptional(prismaDoc.documentDate),
         uploadDate: toISOStringOptional(prismaDoc.uploadDate)!, 
@@ -126,6 +164,15 @@ function mapPrismaDocumentToMedicalDocument(
         confidence: (prismaDoc as any).confidence ?? 0,
         content: content,
         alerts: alerts,
+        insurerRequestForIME: insurerRequestForIME,
+        duplicateOf: duplicateOf,
+        parentClientFileId: prismaDoc.parentClientFileId ?? undefined,
+        pageRange: prismaDoc.pageStart != null && prismaDoc.pageEnd != null ? { start: prismaDoc.pageStart, end: prismaDoc.pageEnd } : undefined,
+        mergedInto: prismaDoc.mergedInto ?? undefined,
+        sourceClientFileIds: sourceClientFileIds,
+        conversion: conversion,
+        attachedTo: prismaDoc.attachedTo ?? undefined,
+        email: email,
         isIncorrectPatient: isIncorrectPatient,
         detectedPatientInfo: detectedPatientInfo,
      };
@@ -182,6 +229,46 @@ function mapPrismaPatientToPatientDetails(
     return patientDetails;
 }
 
+// Maps a silknote_processing_jobs row to the shared ProcessingJob shape
+function mapPrismaProcessingJob(row: any): ProcessingJob {
+    const toIso = (value: Date | null | undefined): string | null => value ? value.toISOString() : null;
+    return {
+        jobId: row.jobId,
+        silknoteUserUuid: row.silknoteUserUuid,
+        silknotePatientUuid: row.patientUuid,
+        clientFileId: row.clientFileId,
+        silknoteDocumentUuid: row.silknoteDocumentUuid ?? null,
+        filePath: row.filePath,
+        status: row.status as ProcessingJobStatus,
+        priority: row.priority ?? 'standard',
+        attempts: row.attempts,
+        maxAttempts: row.maxAttempts,
+        leaseOwner: row.leaseOwner ?? null,
+        leasedAt: toIso(row.leasedAt),
+        heartbeatAt: toIso(row.heartbeatAt),
+        leaseExpiresAt: toIso(row.leaseExpiresAt),
+        lastError: row.lastError ?? null,
+        runAfter: toIso(row.runAfter),
+        createdAt: row.createdAt.toISOString(),
+        updatedAt: row.updatedAt.toISOString(),
+    };
+}
+
+// Maps a silknote_case_summary_versions row to the shared CaseSummaryVersion shape
+function mapPrismaCaseSummaryVersion(row: any): CaseSummaryVersion {
+    return {
+        versionId: row.id,
+        versionNumber: row.versionNumber,
+        silknotePatientUuid: row.patientUuid,
+        silknoteUserUuid: row.silknoteUserUuid,
+        source: row.source as CaseSummaryVersionSource,
+        createdAt: row.createdAt.toISOString(),
+        caseSummary: JSON.parse(row.caseSummaryJson),
+        inputs: JSON.parse(row.inputsJson),
+        model: row.modelName ? { provider: row.modelProvider, model: row.modelName } : undefined
+    };
+}
+
 export function createPrismaAdapter(): DatabaseAdapter {
     logger.info('Prisma DB Adapter created.');
 
@@ -244,6 +331,17 @@ export function createPrismaAdapter(): DatabaseAdapter {
                     sourceSystem: document.sourceSystem ?? 'upload',
                     contentJson: JSON.stringify(document.content ?? defaultMedicalDocumentContent()),
                     alertsJson: JSON.stringify(document.alerts ?? []),
+                    imeRequestJson: document.insurerRequestForIME ? JSON.stringify(document.insurerRequestForIME) : null,
+                    contentHash: document.hash ?? null,
+                    duplicateJson: document.duplicateOf ? JSON.stringify(document.duplicateOf) : null,
+                    parentClientFileId: document.parentClientFileId ?? null,
+                    pageStart: document.pageRange?.start ?? null,
+                    pageEnd: document.pageRange?.end ?? null,
+                    mergedInto: document.mergedInto ?? null,
+                    sourceIdsJson: document.sourceClientFileIds ? JSON.stringify(document.sourceClientFileIds) : null,
+                    conversionJson: document.conversion ? JSON.stringify(document.conversion) : null,
+                    attachedTo: document.attachedTo ?? null,
+                    emailJson: document.email ? JSON.stringify(document.email) : null,
             };
 
                 const docUuid = document.silknoteDocumentUuid || uuidv4();
@@ -358,6 +456,17 @@ export function createPrismaAdapter(): DatabaseAdapter {
                     sourceSystem: document.sourceSystem ?? 'upload',
                     contentJson: JSON.stringify(document.content ?? defaultMedicalDocumentContent()),
                     alertsJson: JSON.stringify(document.alerts ?? []),
+                    imeRequestJson: document.insurerRequestForIME ? JSON.stringify(document.insurerRequestForIME) : null,
+                    contentHash: document.hash ?? null,
+                    duplicateJson: document.duplicateOf ? JSON.stringify(document.duplicateOf) : null,
+                    parentClientFileId: document.parentClientFileId ?? null,
+                    pageStart: document.pageRange?.start ?? null,
+                    pageEnd: document.pageRange?.end ?? null,
+                    mergedInto: document.mergedInto ?? null,
+                    sourceIdsJson: document.sourceClientFileIds ? JSON.stringify(document.sourceClientFileIds) : null,
+                    conversionJson: document.conversion ? JSON.stringify(document.conversion) : null,
+                    attachedTo: document.attachedTo ?? null,
+                    emailJson: document.email ? JSON.stringify(document.email) : null,
                 };
 
                 await prisma.silknoteDocument.update({
@@ -671,18 +780,480 @@ export function createPrismaAdapter(): DatabaseAdapter {
               }
         },
 
-        async resetProcessingDocuments(): Promise<number> {
-            logger.info(`[PRISMA] resetProcessingDocuments (global)`);
-             try {
-                const updateResult = await prisma.silknoteDocument.updateMany({
-                    where: { status: 'processing' },
-                    data: { status: 'queued' }
+        async enqueueProcessingJob(job: ProcessingJob): Promise<ProcessingJob | null> {
+            logger.info(`[PRISMA] enqueueProcessingJob for patient: ${job.silknotePatientUuid}, clientFileId: ${job.clientFileId}`);
+            try {
+                const existing = await prisma.silknoteProcessingJob.findFirst({
+                    where: {
+                        patientUuid: job.silknotePatientUuid,
+                        clientFileId: job.clientFileId,
+                        status: { in: ['queued', 'leased'] }
+                    }
                 });
-                return updateResult.count;
+                if (existing) {
+                    logger.info(`[PRISMA] enqueueProcessingJob: Active job ${existing.jobId} already exists for ${job.clientFileId}`);
+                    return mapPrismaProcessingJob(existing);
+                }
+                const created = await prisma.silknoteProcessingJob.create({
+                    data: {
+                        jobId: job.jobId,
+                        silknoteUserUuid: job.silknoteUserUuid,
+                        patientUuid: job.silknotePatientUuid,
+                        clientFileId: job.clientFileId,
+                        silknoteDocumentUuid: job.silknoteDocumentUuid ?? null,
+                        filePath: job.filePath,
+                        status: 'queued',
+                        priority: job.priority ?? 'standard',
+                        attempts: job.attempts,
+                        maxAttempts: job.maxAttempts
+                    }
+                });
+                return mapPrismaProcessingJob(created);
             } catch (error: any) {
-                logger.error(`[PRISMA] Error resetting processing documents`, error);
-                 return 0;
-             }
+                logger.error(`[PRISMA] Error enqueueing processing job for ${job.clientFileId}`, error);
+                return null;
+            }
+        },
+
+        async leaseProcessingJob(jobId: string, leaseOwner: string, leaseMs: number): Promise<ProcessingJob | null> {
+            logger.info(`[PRISMA] leaseProcessingJob ${jobId} for ${leaseOwner}`);
+            try {
+                const now = new Date();
+                // Conditional update so two workers cannot lease the same job
+                const updateResult = await prisma.silknoteProcessingJob.updateMany({
+                    where: { jobId, status: 'queued' },
+                    data: {
+                        status: 'leased',
+                        attempts: { increment: 1 },
+                        leaseOwner,
+                        leasedAt: now,
+                        heartbeatAt: now,
+                        leaseExpiresAt: new Date(now.getTime() + leaseMs)
+                    }
+                });
+                if (updateResult.count === 0) return null;
+                const leased = await prisma.silknoteProcessingJob.findUnique({ where: { jobId } });
+                return leased ? mapPrismaProcessingJob(leased) : null;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error leasing processing job ${jobId}`, error);
+                return null;
+            }
+        },
+
+        async heartbeatProcessingJob(jobId: string, leaseOwner: string, leaseMs: number): Promise<boolean> {
+            try {
+                const now = new Date();
+                const updateResult = await prisma.silknoteProcessingJob.updateMany({
+                    where: { jobId, status: 'leased', leaseOwner },
+                    data: { heartbeatAt: now, leaseExpiresAt: new Date(now.getTime() + leaseMs) }
+                });
+                return updateResult.count > 0;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error heartbeating processing job ${jobId}`, error);
+                return false;
+            }
+        },
+
+        async completeProcessingJob(jobId: string): Promise<boolean> {
+            logger.info(`[PRISMA] completeProcessingJob ${jobId}`);
+            try {
+                const updateResult = await prisma.silknoteProcessingJob.updateMany({
+                    where: { jobId },
+                    data: { status: 'complete', leaseOwner: null, leaseExpiresAt: null }
+                });
+                return updateResult.count > 0;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error completing processing job ${jobId}`, error);
+                return false;
+            }
+        },
+
+        async failProcessingJob(jobId: string, errorMessage: string): Promise<boolean> {
+            logger.info(`[PRISMA] failProcessingJob ${jobId}`);
+            try {
+                const updateResult = await prisma.silknoteProcessingJob.updateMany({
+                    where: { jobId },
+                    data: { status: 'failed', lastError: errorMessage, leaseOwner: null, leaseExpiresAt: null }
+                });
+                return updateResult.count > 0;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error failing processing job ${jobId}`, error);
+                return false;
+            }
+        },
+
+        async retryProcessingJob(jobId: string, errorMessage: string, runAfter: string): Promise<boolean> {
+            logger.info(`[PRISMA] retryProcessingJob ${jobId} after ${runAfter}`);
+            try {
+                const updateResult = await prisma.silknoteProcessingJob.updateMany({
+                    where: { jobId },
+                    data: { status: 'queued', lastError: errorMessage, runAfter: new Date(runAfter), leaseOwner: null, leaseExpiresAt: null }
+                });
+                return updateResult.count > 0;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error requeueing processing job ${jobId} for retry`, error);
+                return false;
+            }
+        },
+
+        async requeueExpiredProcessingJobs(staleOwnerPrefix?: string): Promise<ProcessingJob[]> {
+            try {
+                const expired = await prisma.silknoteProcessingJob.findMany({
+                    where: {
+                        status: 'leased',
+                        OR: [
+                            { leaseExpiresAt: null },
+                            { leaseExpiresAt: { lt: new Date() } },
+                            ...(staleOwnerPrefix ? [{ leaseOwner: { startsWith: staleOwnerPrefix } }] : [])
+                        ]
+                    }
+                });
+                const touched: ProcessingJob[] = [];
+                for (const job of expired) {
+                    const exhausted = job.attempts >= job.maxAttempts;
+                    const updated = await prisma.silknoteProcessingJob.update({
+                        where: { jobId: job.jobId },
+                        data: {
+                            status: exhausted ? 'failed' : 'queued',
+                            lastError: exhausted ? `Lease expired after ${job.attempts} attempts` : job.lastError,
+                            leaseOwner: null,
+                            leaseExpiresAt: null
+                        }
+                    });
+                    touched.push(mapPrismaProcessingJob(updated));
+                }
+                if (touched.length > 0) {
+                    logger.info(`[PRISMA] requeueExpiredProcessingJobs: ${touched.length} expired lease(s) released`);
+                }
+                return touched;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error requeueing expired processing jobs`, error);
+                return [];
+            }
+        },
+
+        async getQueuedProcessingJobs(limit: number = 100): Promise<ProcessingJob[]> {
+            try {
+                const jobs = await prisma.silknoteProcessingJob.findMany({
+                    where: { status: 'queued', OR: [{ runAfter: null }, { runAfter: { lte: new Date() } }] },
+                    orderBy: { createdAt: 'asc' },
+                    take: limit
+                });
+                return jobs.map(mapPrismaProcessingJob);
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error fetching queued processing jobs`, error);
+                return [];
+            }
+        },
+
+        async clearInlinePageImages(): Promise<number> {
+            // contentJson is encrypted, so documents are read and rewritten in batches
+            const BATCH_SIZE = 100;
+            let cleared = 0;
+            let cursor: string | undefined;
+            try {
+                for (;;) {
+                    const batch = await prisma.silknoteDocument.findMany({
+                        where: { contentJson: { not: null } },
+                        select: { silknoteDocumentUuid: true, contentJson: true },
+                        orderBy: { silknoteDocumentUuid: 'asc' },
+                        take: BATCH_SIZE,
+                        ...(cursor ? { cursor: { silknoteDocumentUuid: cursor }, skip: 1 } : {})
+                    });
+                    for (const document of batch) {
+                        let content: any;
+                        try {
+                            content = JSON.parse(document.contentJson!);
+                        } catch {
+                            continue;
+                        }
+                        if (!Array.isArray(content?.pageImages) || content.pageImages.length === 0) continue;
+                        await prisma.silknoteDocument.update({
+                            where: { silknoteDocumentUuid: document.silknoteDocumentUuid },
+                            data: { contentJson: JSON.stringify({ ...content, pageImages: [] }) }
+                        });
+                        cleared++;
+                    }
+                    if (batch.length < BATCH_SIZE) break;
+                    cursor = batch[batch.length - 1].silknoteDocumentUuid;
+                }
+                if (cleared > 0) {
+                    logger.info(`[PRISMA] clearInlinePageImages: ${cleared} document(s) cleared`);
+                }
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error clearing inline page images after ${cleared} document(s)`, error);
+                throw error;
+            }
+            return cleared;
+        },
+
+        async saveProcessingCheckpoint(checkpoint: ProcessingCheckpoint): Promise<boolean> {
+            logger.info(`[PRISMA] saveProcessingCheckpoint ${checkpoint.stage}/${checkpoint.key} for clientFileId: ${checkpoint.clientFileId}`);
+            try {
+                const dataJson = JSON.stringify(checkpoint.data ?? null);
+                await prisma.silknoteProcessingCheckpoint.upsert({
+                    where: {
+                        patientUuid_clientFileId_stage_key: {
+                            patientUuid: checkpoint.silknotePatientUuid,
+                            clientFileId: checkpoint.clientFileId,
+                            stage: checkpoint.stage,
+                            key: checkpoint.key
+                        }
+                    },
+                    update: { dataJson },
+                    create: {
+                        silknoteUserUuid: checkpoint.silknoteUserUuid,
+                        patientUuid: checkpoint.silknotePatientUuid,
+                        clientFileId: checkpoint.clientFileId,
+                        stage: checkpoint.stage,
+                        key: checkpoint.key,
+                        dataJson
+                    }
+                });
+                return true;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error saving checkpoint ${checkpoint.stage}/${checkpoint.key} for ${checkpoint.clientFileId}`, error);
+                return false;
+            }
+        },
+
+        async getProcessingCheckpoints(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string): Promise<ProcessingCheckpoint[]> {
+            logger.info(`[PRISMA] getProcessingCheckpoints for user: ${silknoteUserUuid}, patient: ${silknotePatientUuid}, clientFileId: ${clientFileId}`);
+            try {
+                const rows = await prisma.silknoteProcessingCheckpoint.findMany({
+                    where: { silknoteUserUuid, patientUuid: silknotePatientUuid, clientFileId }
+                });
+                const checkpoints: ProcessingCheckpoint[] = [];
+                for (const row of rows) {
+                    try {
+                        checkpoints.push({
+                            silknoteUserUuid: row.silknoteUserUuid,
+                            silknotePatientUuid: row.patientUuid,
+                            clientFileId: row.clientFileId,
+                            stage: row.stage,
+                            key: row.key,
+                            data: JSON.parse(row.dataJson),
+                            createdAt: row.createdAt.toISOString()
+                        });
+                    } catch (e) {
+                        // An unreadable checkpoint is treated as missing so the stage reruns
+                        logger.warn(`[PRISMA] Ignoring unparseable checkpoint ${row.stage}/${row.key} for ${clientFileId}`);
+                    }
+                }
+                return checkpoints;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error fetching checkpoints for ${clientFileId}`, error);
+                return [];
+            }
+        },
+
+        async clearProcessingCheckpoints(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string, stage?: string): Promise<number> {
+            logger.info(`[PRISMA] clearProcessingCheckpoints for user: ${silknoteUserUuid}, patient: ${silknotePatientUuid}, clientFileId: ${clientFileId}, stage: ${stage ?? 'all'}`);
+            try {
+                const deleteResult = await prisma.silknoteProcessingCheckpoint.deleteMany({
+                    where: { silknoteUserUuid, patientUuid: silknotePatientUuid, clientFileId, ...(stage ? { stage } : {}) }
+                });
+                return deleteResult.count;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error clearing checkpoints for ${clientFileId}`, error);
+                return 0;
+            }
+        },
+
+        async saveVectorEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string, entries: VectorEntry[]): Promise<boolean> {
+            logger.info(`[PRISMA] saveVectorEntries ${entries.length} entries for clientFileId: ${clientFileId}`);
+            try {
+                await prisma.$transaction([
+                    prisma.silknoteVectorEntry.deleteMany({
+                        where: { silknoteUserUuid, patientUuid: silknotePatientUuid, clientFileId }
+                    }),
+                    prisma.silknoteVectorEntry.createMany({
+                        data: entries.map(entry => ({
+                            id: entry.id,
+                            silknoteUserUuid,
+                            patientUuid: silknotePatientUuid,
+                            clientFileId,
+                            pageNumber: entry.metadata.pageNumber,
+                            metadataJson: JSON.stringify(entry.metadata),
+                            vectorJson: JSON.stringify(entry.vector)
+                        }))
+                    })
+                ]);
+                return true;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error saving vector entries for ${clientFileId}`, error);
+                return false;
+            }
+        },
+
+        async getVectorEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileIds?: string[]): Promise<VectorEntry[]> {
+            logger.info(`[PRISMA] getVectorEntries for user: ${silknoteUserUuid}, patient: ${silknotePatientUuid}, documents: ${clientFileIds?.length ?? 'all'}`);
+            try {
+                const rows = await prisma.silknoteVectorEntry.findMany({
+                    where: {
+                        silknoteUserUuid,
+                        patientUuid: silknotePatientUuid,
+                        ...(clientFileIds ? { clientFileId: { in: clientFileIds } } : {})
+                    }
+                });
+                const entries: VectorEntry[] = [];
+                for (const row of rows) {
+                    try {
+                        entries.push({ id: row.id, metadata: JSON.parse(row.metadataJson), vector: JSON.parse(row.vectorJson) });
+                    } catch (e) {
+                        logger.warn(`[PRISMA] Ignoring unparseable vector entry ${row.id}`);
+                    }
+                }
+                return entries;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error fetching vector entries for patient ${silknotePatientUuid}`, error);
+                return [];
+            }
+        },
+
+        async deleteVectorEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId?: string): Promise<number> {
+            logger.info(`[PRISMA] deleteVectorEntries for user: ${silknoteUserUuid}, patient: ${silknotePatientUuid}, clientFileId: ${clientFileId ?? 'all'}`);
+            try {
+                const deleteResult = await prisma.silknoteVectorEntry.deleteMany({
+                    where: { silknoteUserUuid, patientUuid: silknotePatientUuid, ...(clientFileId ? { clientFileId } : {}) }
+                });
+                return deleteResult.count;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error deleting vector entries for patient ${silknotePatientUuid}`, error);
+                return 0;
+            }
+        },
+
+        async saveCaseSummaryVersion(version: CaseSummaryVersion): Promise<boolean> {
+            logger.info(`[PRISMA] saveCaseSummaryVersion ${version.versionNumber} for patient: ${version.silknotePatientUuid}`);
+            try {
+                await prisma.silknoteCaseSummaryVersion.create({
+                    data: {
+                        id: version.versionId,
+                        silknoteUserUuid: version.silknoteUserUuid,
+                        patientUuid: version.silknotePatientUuid,
+                        versionNumber: version.versionNumber,
+                        source: version.source,
+                        modelProvider: version.model?.provider ?? null,
+                        modelName: version.model?.model ?? null,
+                        caseSummaryJson: JSON.stringify(version.caseSummary),
+                        inputsJson: JSON.stringify(version.inputs),
+                        createdAt: new Date(version.createdAt)
+                    }
+                });
+                return true;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error saving case summary version for patient ${version.silknotePatientUuid}`, error);
+                return false;
+            }
+        },
+
+        async getCaseSummaryVersions(silknoteUserUuid: string, silknotePatientUuid: string): Promise<CaseSummaryVersion[]> {
+            logger.info(`[PRISMA] getCaseSummaryVersions for user: ${silknoteUserUuid}, patient: ${silknotePatientUuid}`);
+            try {
+                const rows = await prisma.silknoteCaseSummaryVersion.findMany({
+                    where: { silknoteUserUuid, patientUuid: silknotePatientUuid },
+                    orderBy: { versionNumber: 'asc' }
+                });
+                const versions: CaseSummaryVersion[] = [];
+                for (const row of rows) {
+                    try {
+                        versions.push(mapPrismaCaseSummaryVersion(row));
+                    } catch (e) {
+                        logger.warn(`[PRISMA] Ignoring unparseable case summary version ${row.id}`);
+                    }
+                }
+                return versions;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error fetching case summary versions for patient ${silknotePatientUuid}`, error);
+                return [];
+            }
+        },
+
+        async getCaseSummaryVersion(silknoteUserUuid: string, silknotePatientUuid: string, versionId: string): Promise<CaseSummaryVersion | null> {
+            logger.info(`[PRISMA] getCaseSummaryVersion ${versionId} for user: ${silknoteUserUuid}, patient: ${silknotePatientUuid}`);
+            try {
+                const row = await prisma.silknoteCaseSummaryVersion.findFirst({
+                    where: { id: versionId, silknoteUserUuid, patientUuid: silknotePatientUuid }
+                });
+                return row ? mapPrismaCaseSummaryVersion(row) : null;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error fetching case summary version ${versionId}`, error);
+                return null;
+            }
+        },
+
+        async deleteCaseSummaryVersions(silknoteUserUuid: string, silknotePatientUuid: string): Promise<number> {
+            logger.info(`[PRISMA] deleteCaseSummaryVersions for user: ${silknoteUserUuid}, patient: ${silknotePatientUuid}`);
+            try {
+                const deleteResult = await prisma.silknoteCaseSummaryVersion.deleteMany({
+                    where: { silknoteUserUuid, patientUuid: silknotePatientUuid }
+                });
+                return deleteResult.count;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error deleting case summary versions for patient ${silknotePatientUuid}`, error);
+                return 0;
+            }
+        },
+
+        async saveTimelineEvents(entry: TimelineDocumentEvents): Promise<boolean> {
+            logger.info(`[PRISMA] saveTimelineEvents ${entry.events.length} events for clientFileId: ${entry.clientFileId}`);
+            const data = {
+                silknoteUserUuid: entry.silknoteUserUuid,
+                eventsJson: JSON.stringify(entry.events),
+                builtAt: new Date(entry.builtAt)
+            };
+            try {
+                await prisma.silknoteTimelineDocument.upsert({
+                    where: { patientUuid_clientFileId: { patientUuid: entry.silknotePatientUuid, clientFileId: entry.clientFileId } },
+                    update: data,
+                    create: { ...data, patientUuid: entry.silknotePatientUuid, clientFileId: entry.clientFileId }
+                });
+                return true;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error saving timeline events for ${entry.clientFileId}`, error);
+                return false;
+            }
+        },
+
+        async getTimelineEvents(silknoteUserUuid: string, silknotePatientUuid: string): Promise<TimelineDocumentEvents[]> {
+            logger.info(`[PRISMA] getTimelineEvents for user: ${silknoteUserUuid}, patient: ${silknotePatientUuid}`);
+            try {
+                const rows = await prisma.silknoteTimelineDocument.findMany({
+                    where: { silknoteUserUuid, patientUuid: silknotePatientUuid }
+                });
+                const entries: TimelineDocumentEvents[] = [];
+                for (const row of rows) {
+                    try {
+                        entries.push({
+                            silknoteUserUuid: row.silknoteUserUuid,
+                            silknotePatientUuid: row.patientUuid,
+                            clientFileId: row.clientFileId,
+                            builtAt: row.builtAt.toISOString(),
+                            events: JSON.parse(row.eventsJson)
+                        });
+                    } catch (e) {
+                        logger.warn(`[PRISMA] Ignoring unparseable timeline events of ${row.clientFileId}`);
+                    }
+                }
+                return entries;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error fetching timeline events for patient ${silknotePatientUuid}`, error);
+                return [];
+            }
+        },
+
+        async deleteTimelineEvents(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId?: string): Promise<number> {
+            logger.info(`[PRISMA] deleteTimelineEvents for user: ${silknoteUserUuid}, patient: ${silknotePatientUuid}, clientFileId: ${clientFileId ?? 'all'}`);
+            try {
+                const deleteResult = await prisma.silknoteTimelineDocument.deleteMany({
+                    where: { silknoteUserUuid, patientUuid: silknotePatientUuid, ...(clientFileId ? { clientFileId } : {}) }
+                });
+                return deleteResult.count;
+            } catch (error: any) {
+                logger.error(`[PRISMA] Error deleting timeline events for patient ${silknotePatientUuid}`, error);
+                return 0;
+            }
         },
 
         async forceReprocessPatientDocuments(silknoteUserUuid: string, silknotePatientUuid: string): Promise<number> {
@@ -1,5 +1,6 @@
-import { MedicalDocument, PatientDetails, DocumentAlertType } from '../shared/types';
+import { MedicalDocument, PatientDetails, DocumentAlertType, CaseSummaryVersion, TimelineDocumentEvents } from '../shared/types';
 import { RequestHandler } from 'express';
+import { VectorEntry } from '../shared/vectorStore';
 
 /**
  * Error interface for storage operations
@@ -10,6 +11,55 @@ export interface StorageError {
   path?: string;
 }
 
+/**
+ * Lifecycle of a persisted processing job.
+ * queued -> leased -> complete | failed. Leased jobs whose lease expires
+ * (worker crashed or dyno restarted) are put back to queued.
+ */
+export type ProcessingJobStatus = 'queued' | 'leased' | 'complete' | 'failed';
+
+// Interactive uploads are served ahead of reprocessing and background syncs
+export type ProcessingPriority = 'interactive' | 'standard' | 'background';
+
+/**
+ * Persisted document processing job.
+ * One active job per document; the in-memory queue in documentService is rebuilt from these on startup.
+ */
+export interface ProcessingJob {
+  jobId: string;
+  silknoteUserUuid: string;
+  silknotePatientUuid: string;
+  clientFileId: string;
+  silknoteDocumentUuid?: string | null;
+  filePath: string;
+  status: ProcessingJobStatus;
+  priority?: ProcessingPriority; // 'standard' when absent
+  attempts: number;          // Incremented every time the job is leased
+  maxAttempts: number;
+  leaseOwner?: string | null; // Worker id holding the lease
+  leasedAt?: string | null;
+  heartbeatAt?: string | null;
+  leaseExpiresAt?: string | null;
+  lastError?: string | null;
+  runAfter?: string | null;   // A job queued for a retry is not picked up before this
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Saved output of a processDocument stage.
+ * Lets a retry or reprocess resume without repeating Document Intelligence, LLM or vector store calls.
+ */
+export interface ProcessingCheckpoint {
+  silknoteUserUuid: string;
+  silknotePatientUuid: string;
+  clientFileId: string;
+  stage: string; // processDocument stage that produced the output, e.g. 'analyzing'
+  key: string;   // Output within the stage, e.g. 'analysisResult', 'page-3', 'vectorStoreReceipt'
+  data: any;
+  createdAt: string;
+}
+
 /**
  * File Storage Adapter Interface
  * Defines operations needed for file storage (local, S3, etc.)
@@ -22,6 +72,11 @@ export interface FileStorageAdapter {
   finalizeUploadedFile(tempPath: string, finalName: string): Promise<string>;
   createPdfUploadMiddleware(tempDir: string): RequestHandler;
   getPdfPageCount?(fileRefOrPath: string): Promise<number>;
+
+  // Files derived from documents (rendered page images), kept apart from them. Keys are relative paths.
+  getCachedFile?(key: string): Promise<Buffer | null>; // null when not cached
+  storeCachedFile?(key: string, content: Buffer): Promise<void>;
+  deleteCachedFiles?(prefix: string): Promise<number>;
 }
 
 /**
@@ -66,7 +121,41 @@ export interface DatabaseAdapter {
   // If truly global admin functions, they might not. For now, let's assume scoping if data is not global.
   getQueuedDocuments?(silknoteUserUuid: string, silknotePatientUuid: string, limit?: number): Promise<string[]>; // Example: get queued docs for a specific patient
   setDocumentStatus?(silknoteUserUuid: string, silknotePatientUuid: string, silknoteDocumentUuid: string, status: string): Promise<boolean>;
-  resetProcessingDocuments?(): Promise<number>; // Potentially global admin task, may not need scoping here unless resetting for a specific user/patient.
   forceReprocessPatientDocuments?(silknoteUserUuid: string, silknotePatientUuid: string): Promise<number>;
   forceReprocessDocument?(silknoteUserUuid: string, silknotePatientUuid: string, silknoteDocumentUuid: string): Promise<boolean>;
+
+  // Persisted processing queue. Jobs are global (not user scoped) because the worker serves every user.
+  enqueueProcessingJob?(job: ProcessingJob): Promise<ProcessingJob | null>; // Returns the existing active job for the document if there is one
+  leaseProcessingJob?(jobId: string, leaseOwner: string, leaseMs: number): Promise<ProcessingJob | null>; // null if the job is no longer queued
+  heartbeatProcessingJob?(jobId: string, leaseOwner: string, leaseMs: number): Promise<boolean>;
+  completeProcessingJob?(jobId: string): Promise<boolean>;
+  failProcessingJob?(jobId: string, error: string): Promise<boolean>;
+  retryProcessingJob?(jobId: string, error: string, runAfter: string): Promise<boolean>; // Back to queued, not picked up before runAfter
+  requeueExpiredProcessingJobs?(staleOwnerPrefix?: string): Promise<ProcessingJob[]>; // Also releases unexpired leases whose owner starts with staleOwnerPrefix. Returns the jobs touched, with their new status (queued, or failed once maxAttempts is reached)
+  getQueuedProcessingJobs?(limit?: number): Promise<ProcessingJob[]>; // Excludes jobs whose runAfter is still ahead
+
+  // One-off migration: empties content.pageImages of documents processed before page images were rendered on request.
+  // Throws when it could not finish, so the caller does not record it as done.
+  clearInlinePageImages?(): Promise<number>; // Documents changed
+
+  // Stage checkpoints for processDocument. Saving replaces any existing checkpoint with the same stage and key.
+  saveProcessingCheckpoint?(checkpoint: ProcessingCheckpoint): Promise<boolean>;
+  getProcessingCheckpoints?(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string): Promise<ProcessingCheckpoint[]>;
+  clearProcessingCheckpoints?(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string, stage?: string): Promise<number>; // Clears every stage when stage is omitted
+
+  // Self-hosted retrieval index (page chunks with embeddings). Saving replaces every entry of the document.
+  saveVectorEntries?(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string, entries: VectorEntry[]): Promise<boolean>;
+  getVectorEntries?(silknoteUserUuid: string, silknotePatientUuid: string, clientFileIds?: string[]): Promise<VectorEntry[]>; // Every document of the patient when clientFileIds is omitted
+  deleteVectorEntries?(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId?: string): Promise<number>; // Every document of the patient when clientFileId is omitted
+
+  // Case summary version history. Versions are immutable: there is no update, and clearing the current summary keeps them.
+  saveCaseSummaryVersion?(version: CaseSummaryVersion): Promise<boolean>;
+  getCaseSummaryVersions?(silknoteUserUuid: string, silknotePatientUuid: string): Promise<CaseSummaryVersion[]>; // Oldest first
+  getCaseSummaryVersion?(silknoteUserUuid: string, silknotePatientUuid: string, versionId: string): Promise<CaseSummaryVersion | null>;
+  deleteCaseSummaryVersions?(silknoteUserUuid: string, silknotePatientUuid: string): Promise<number>; // Only when the patient is deleted
+
+  // Patient timeline events, stored per source document. Saving replaces the document's events.
+  saveTimelineEvents?(entry: TimelineDocumentEvents): Promise<boolean>;
+  getTimelineEvents?(silknoteUserUuid: string, silknotePatientUuid: string): Promise<TimelineDocumentEvents[]>;
+  deleteTimelineEvents?(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId?: string): Promise<number>; // Every document of the patient when clientFileId is omitted
 } 
\ No newline at end of file
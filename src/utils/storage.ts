@@ -1,9 +1,10 @@
 import fs from 'fs';
 import path from 'path';
 import config from '../config';
-import { MedicalDocument, DocumentType } from '../shared/types';
+import { MedicalDocument, DocumentType, CaseSummaryVersion, TimelineDocumentEvents } from '../shared/types';
 import { RequestHandler } from 'express';
-import { StorageError, FileStorageAdapter, DatabaseAdapter } from './storage-interfaces';
+import { StorageError, FileStorageAdapter, DatabaseAdapter, ProcessingJob, ProcessingCheckpoint } from './storage-interfaces';
+import { VectorEntry } from '../shared/vectorStore';
 import { createLocalFileAdapter } from './local/local-file-adapter';
 import { createLocalDatabaseAdapter } from './local/local-database-adapter';
 import { createMySqlDatabaseAdapter } from './mysql/mysql-database-utils';
@@ -33,6 +34,10 @@ export type FileStorageType = 'LOCAL' | 'BLOB';
 
 export type OperatingMode = 'LOCAL' | 'VSRX' | 'SILKNOTE';
 
+// Cache directory of a document's rendered page images
+export const pageCachePrefix = (silknotePatientUuid: string, clientFileId: string): string =>
+  `pages/${encodeURIComponent(silknotePatientUuid)}/${encodeURIComponent(clientFileId)}/`;
+
 // Unified storage service
 export class StorageService {
   private tempDir: string;
@@ -314,6 +319,30 @@ export class StorageService {
     }
   }
 
+  // --- Derived File Cache (Delegate to File Adapter, in every mode) ---
+  async getCachedFile(key: string): Promise<Buffer | null> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.fileAdapter.getCachedFile === 'function') {
+      return this.fileAdapter.getCachedFile(key);
+    }
+    return null;
+  }
+
+  async storeCachedFile(key: string, content: Buffer): Promise<void> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.fileAdapter.storeCachedFile === 'function') {
+      await this.fileAdapter.storeCachedFile(key, content);
+    }
+  }
+
+  async deleteCachedFiles(prefix: string): Promise<number> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.fileAdapter.deleteCachedFiles === 'function') {
+      return this.fileAdapter.deleteCachedFiles(prefix);
+    }
+    return 0;
+  }
+
   // --- VSRX Specific Document Addition ---
   async addDocumentReference(silknoteUserUuid: string, patientUUID: string, filePath: string, originalName: string, uploadDate?: Date, optionalMetadata: Partial<MedicalDocument> = {}): Promise<{ success: boolean; documentId?: string; error?: string }> {
     if (process.env['VSRX_MODE'] !== 'true') {
@@ -376,16 +405,196 @@ export class StorageService {
     }
   }
 
-  // --- Recovery and Reprocessing (Delegate to DB Adapter) ---
-  async resetProcessingDocuments(): Promise<number> {
+  // --- Persisted Processing Queue (Delegate to DB Adapter) ---
+  async enqueueProcessingJob(job: ProcessingJob): Promise<ProcessingJob | null> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.enqueueProcessingJob === 'function') {
+      return this.dbAdapter.enqueueProcessingJob(job);
+    }
+    logError('enqueueProcessingJob not supported by the current DB adapter. Job will only be held in memory.');
+    return null;
+  }
+
+  async leaseProcessingJob(jobId: string, leaseOwner: string, leaseMs: number): Promise<ProcessingJob | null> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.leaseProcessingJob === 'function') {
+      return this.dbAdapter.leaseProcessingJob(jobId, leaseOwner, leaseMs);
+    }
+    logError('leaseProcessingJob not supported by the current DB adapter.');
+    return null;
+  }
+
+  async heartbeatProcessingJob(jobId: string, leaseOwner: string, leaseMs: number): Promise<boolean> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.heartbeatProcessingJob === 'function') {
+      return this.dbAdapter.heartbeatProcessingJob(jobId, leaseOwner, leaseMs);
+    }
+    return false;
+  }
+
+  async completeProcessingJob(jobId: string): Promise<boolean> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.completeProcessingJob === 'function') {
+      return this.dbAdapter.completeProcessingJob(jobId);
+    }
+    logError('completeProcessingJob not supported by the current DB adapter.');
+    return false;
+  }
+
+  async failProcessingJob(jobId: string, error: string): Promise<boolean> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.failProcessingJob === 'function') {
+      return this.dbAdapter.failProcessingJob(jobId, error);
+    }
+    logError('failProcessingJob not supported by the current DB adapter.');
+    return false;
+  }
+
+  async retryProcessingJob(jobId: string, error: string, runAfter: string): Promise<boolean> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.retryProcessingJob === 'function') {
+      return this.dbAdapter.retryProcessingJob(jobId, error, runAfter);
+    }
+    logError('retryProcessingJob not supported by the current DB adapter.');
+    return false;
+  }
+
+  async requeueExpiredProcessingJobs(staleOwnerPrefix?: string): Promise<ProcessingJob[]> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.requeueExpiredProcessingJobs === 'function') {
+      return this.dbAdapter.requeueExpiredProcessingJobs(staleOwnerPrefix);
+    }
+    logError('requeueExpiredProcessingJobs not supported by the current DB adapter.');
+    return [];
+  }
+
+  async getQueuedProcessingJobs(limit?: number): Promise<ProcessingJob[]> {
     if (!this.initialized) throw new Error('Storage service not initialized');
-    if (typeof (this.dbAdapter as any).resetProcessingDocuments === 'function') {
-      return (this.dbAdapter as any).resetProcessingDocuments();
+    if (typeof this.dbAdapter.getQueuedProcessingJobs === 'function') {
+      return this.dbAdapter.getQueuedProcessingJobs(limit);
     }
-    logError('resetProcessingDocuments not supported by the current DB adapter.');
+    logError('getQueuedProcessingJobs not supported by the current DB adapter.');
+    return [];
+  }
+
+  async clearInlinePageImages(): Promise<number> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.clearInlinePageImages === 'function') {
+      return this.dbAdapter.clearInlinePageImages();
+    }
+    logError('clearInlinePageImages not supported by the current DB adapter.');
     return 0;
   }
 
+  // --- Processing Checkpoints (Delegate to DB Adapter) ---
+  async saveProcessingCheckpoint(checkpoint: ProcessingCheckpoint): Promise<boolean> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.saveProcessingCheckpoint === 'function') {
+      return this.dbAdapter.saveProcessingCheckpoint(checkpoint);
+    }
+    return false;
+  }
+
+  async getProcessingCheckpoints(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string): Promise<ProcessingCheckpoint[]> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.getProcessingCheckpoints === 'function') {
+      return this.dbAdapter.getProcessingCheckpoints(silknoteUserUuid, silknotePatientUuid, clientFileId);
+    }
+    return [];
+  }
+
+  async clearProcessingCheckpoints(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string, stage?: string): Promise<number> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.clearProcessingCheckpoints === 'function') {
+      return this.dbAdapter.clearProcessingCheckpoints(silknoteUserUuid, silknotePatientUuid, clientFileId, stage);
+    }
+    return 0;
+  }
+
+  // --- Retrieval Index (Delegate to DB Adapter) ---
+  async saveVectorEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId: string, entries: VectorEntry[]): Promise<boolean> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.saveVectorEntries === 'function') {
+      return this.dbAdapter.saveVectorEntries(silknoteUserUuid, silknotePatientUuid, clientFileId, entries);
+    }
+    return false;
+  }
+
+  async getVectorEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileIds?: string[]): Promise<VectorEntry[]> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.getVectorEntries === 'function') {
+      return this.dbAdapter.getVectorEntries(silknoteUserUuid, silknotePatientUuid, clientFileIds);
+    }
+    return [];
+  }
+
+  async deleteVectorEntries(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId?: string): Promise<number> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.deleteVectorEntries === 'function') {
+      return this.dbAdapter.deleteVectorEntries(silknoteUserUuid, silknotePatientUuid, clientFileId);
+    }
+    return 0;
+  }
+
+  // --- Case Summary Versions (Delegate to DB Adapter) ---
+  async saveCaseSummaryVersion(version: CaseSummaryVersion): Promise<boolean> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.saveCaseSummaryVersion === 'function') {
+      return this.dbAdapter.saveCaseSummaryVersion(version);
+    }
+    return false;
+  }
+
+  async getCaseSummaryVersions(silknoteUserUuid: string, silknotePatientUuid: string): Promise<CaseSummaryVersion[]> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.getCaseSummaryVersions === 'function') {
+      return this.dbAdapter.getCaseSummaryVersions(silknoteUserUuid, silknotePatientUuid);
+    }
+    return [];
+  }
+
+  async getCaseSummaryVersion(silknoteUserUuid: string, silknotePatientUuid: string, versionId: string): Promise<CaseSummaryVersion | null> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.getCaseSummaryVersion === 'function') {
+      return this.dbAdapter.getCaseSummaryVersion(silknoteUserUuid, silknotePatientUuid, versionId);
+    }
+    return null;
+  }
+
+  async deleteCaseSummaryVersions(silknoteUserUuid: string, silknotePatientUuid: string): Promise<number> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.deleteCaseSummaryVersions === 'function') {
+      return this.dbAdapter.deleteCaseSummaryVersions(silknoteUserUuid, silknotePatientUuid);
+    }
+    return 0;
+  }
+
+  // --- Patient Timeline (Delegate to DB Adapter) ---
+  async saveTimelineEvents(entry: TimelineDocumentEvents): Promise<boolean> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.saveTimelineEvents === 'function') {
+      return this.dbAdapter.saveTimelineEvents(entry);
+    }
+    return false;
+  }
+
+  async getTimelineEvents(silknoteUserUuid: string, silknotePatientUuid: string): Promise<TimelineDocumentEvents[]> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.getTimelineEvents === 'function') {
+      return this.dbAdapter.getTimelineEvents(silknoteUserUuid, silknotePatientUuid);
+    }
+    return [];
+  }
+
+  async deleteTimelineEvents(silknoteUserUuid: string, silknotePatientUuid: string, clientFileId?: string): Promise<number> {
+    if (!this.initialized) throw new Error('Storage service not initialized');
+    if (typeof this.dbAdapter.deleteTimelineEvents === 'function') {
+      return this.dbAdapter.deleteTimelineEvents(silknoteUserUuid, silknotePatientUuid, clientFileId);
+    }
+    return 0;
+  }
+
+  // --- Recovery and Reprocessing (Delegate to DB Adapter) ---
   async forceReprocessPatientDocuments(silknoteUserUuid: string, silknotePatientUuid: string): Promise<number> {
     if (!this.initialized) throw new Error('Storage service not initialized');
     if (typeof (this.dbAdapter as any).forceReprocessPatientDocuments === 'function') {
@@ -480,7 +689,21 @@ export class StorageService {
     if (!this.initialized) throw new Error('Storage service not initialized');
     // In VSRX, we only delete the DB reference
     logInfo(`Deleting document reference ${documentId} (VSRX mode implies no file deletion)`);
-    return this.dbAdapter.deleteDocument(silknoteUserUuid, silknotePatientUuid, documentId);
+    const deleted = await this.dbAdapter.deleteDocument(silknoteUserUuid, silknotePatientUuid, documentId);
+    if (deleted) {
+      await this.clearProcessingCheckpoints(silknoteUserUuid, silknotePatientUuid, documentId);
+      await this.deleteVectorEntries(silknoteUserUuid, silknotePatientUuid, documentId);
+      await this.deleteTimelineEvents(silknoteUserUuid, silknotePatientUuid, documentId);
+      await this.deleteCachedFiles(pageCachePrefix(silknotePatientUuid, documentId));
+      // Documents split out of a bundle share its file, the sources of a merged document are
+      // hidden parts of it and an email's attachments were extracted from it, so they go with it
+      const documents = await this.dbAdapter.getDocumentsForPatient(silknoteUserUuid, silknotePatientUuid);
+      for (const child of documents.filter(document =>
+        document.parentClientFileId === documentId || document.mergedInto === documentId || document.attachedTo === documentId)) {
+        await this.deleteDocument(silknoteUserUuid, silknotePatientUuid, child.clientFileId);
+      }
+    }
+    return deleted;
   }
   async savePatient(silknoteUserUuid: string, patient: any): Promise<boolean> {
     if (!this.initialized) throw new Error('Storage service not initialized');
@@ -501,7 +724,13 @@ export class StorageService {
   async deletePatient(silknoteUserUuid: string, silknotePatientUuid: string): Promise<boolean> {
     if (!this.initialized) throw new Error('Storage service not initialized');
     logInfo(`Deleting patient ${silknotePatientUuid} and associated references (VSRX mode)`);
-    return this.dbAdapter.deletePatient(silknoteUserUuid, silknotePatientUuid);
+    const deleted = await this.dbAdapter.deletePatient(silknoteUserUuid, silknotePatientUuid);
+    if (deleted) {
+      await this.deleteVectorEntries(silknoteUserUuid, silknotePatientUuid);
+      await this.deleteCaseSummaryVersions(silknoteUserUuid, silknotePatientUuid);
+      await this.deleteTimelineEvents(silknoteUserUuid, silknotePatientUuid);
+    }
+    return deleted;
   }
   async addDocumentToPatient(silknoteUserUuid: string, silknotePatientUuid: string, document: MedicalDocument): Promise<boolean> {
     // This specific method might be less relevant if using addDocumentReference directly